@@ -0,0 +1,78 @@
+-- Chat attachment schema for IFound4U
+
+-- Private bucket for photos and files sent in claim chats.
+-- Objects live under a folder named after the chat room: <chat_room_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  FALSE,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create table linking uploaded files to chat messages
+CREATE TABLE IF NOT EXISTS chat_attachments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES chat_messages(id) ON DELETE CASCADE,
+  chat_room_id TEXT NOT NULL REFERENCES item_claims(chat_room_id) ON DELETE CASCADE,
+  uploader_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_chat_attachments_message_id ON chat_attachments(message_id);
+CREATE INDEX idx_chat_attachments_chat_room_id ON chat_attachments(chat_room_id);
+
+-- Enable Row Level Security
+ALTER TABLE chat_attachments ENABLE ROW LEVEL SECURITY;
+
+-- The item owner and the claimer can see the attachments of their chat
+CREATE POLICY "Chat participants can view attachments"
+  ON chat_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM item_claims ic
+      JOIN items i ON ic.item_id = i.id
+      WHERE ic.chat_room_id = chat_attachments.chat_room_id AND
+      (
+        i.user_id = auth.uid() OR
+        ic.user_id = auth.uid() OR
+        ic.claimer_email = coalesce(nullif(current_setting('request.jwt.claims', true)::json->>'email', ''), 'anonymous')
+      )
+    )
+  );
+
+-- Attachments are only linked to messages by the chat message route
+CREATE POLICY "Service role has full access to chat attachments"
+  ON chat_attachments
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Participants can upload into the folder of their chat room. There is no SELECT
+-- policy: files are only readable through signed URLs created by the server.
+CREATE POLICY "Chat participants can upload attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'chat-attachments' AND
+    EXISTS (
+      SELECT 1 FROM item_claims ic
+      JOIN items i ON ic.item_id = i.id
+      WHERE ic.chat_room_id = (storage.foldername(name))[1] AND
+      (
+        i.user_id = auth.uid() OR
+        ic.user_id = auth.uid() OR
+        ic.claimer_email = coalesce(nullif(current_setting('request.jwt.claims', true)::json->>'email', ''), 'anonymous')
+      )
+    )
+  );
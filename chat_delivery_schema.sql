@@ -0,0 +1,61 @@
+-- Chat delivery schema for IFound4U (run after chat_attachments_schema.sql)
+
+-- The database is the source of truth for chat messages: clients are told about
+-- new rows through postgres_changes (RLS still applies) instead of broadcasting them
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_messages;
+
+-- Create index for fetching the messages of a room after a given time
+CREATE INDEX IF NOT EXISTS idx_chat_messages_room_created_at
+  ON chat_messages(chat_room_id, created_at);
+
+-- Save a message and its attachments in one transaction, so the realtime
+-- notification only goes out once the attachments are there too.
+-- The ID is generated by the client: a retry of a message that was already
+-- saved returns the stored row instead of creating a duplicate.
+CREATE OR REPLACE FUNCTION post_chat_message(
+  p_id UUID,
+  p_chat_room_id TEXT,
+  p_sender_id UUID,
+  p_sender_name VARCHAR,
+  p_sender_email VARCHAR,
+  p_message TEXT,
+  p_attachments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS chat_messages AS $$
+DECLARE
+  v_message chat_messages;
+BEGIN
+  INSERT INTO chat_messages (id, chat_room_id, sender_id, sender_name, sender_email, message, is_read)
+  VALUES (p_id, p_chat_room_id, p_sender_id, p_sender_name, p_sender_email, p_message, FALSE)
+  ON CONFLICT (id) DO NOTHING
+  RETURNING * INTO v_message;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_message FROM chat_messages WHERE id = p_id;
+
+    -- Only the same sender retrying in the same room gets the stored message back
+    IF v_message.chat_room_id <> p_chat_room_id
+      OR v_message.sender_id IS DISTINCT FROM p_sender_id THEN
+      RAISE EXCEPTION 'Message ID % is already in use', p_id
+        USING ERRCODE = 'unique_violation';
+    END IF;
+
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO chat_attachments (message_id, chat_room_id, uploader_id, storage_path, file_name, mime_type, size_bytes)
+  SELECT
+    p_id,
+    p_chat_room_id,
+    p_sender_id,
+    attachment->>'path',
+    left(attachment->>'name', 255),
+    attachment->>'mimeType',
+    (attachment->>'size')::INTEGER
+  FROM jsonb_array_elements(p_attachments) AS attachment;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION post_chat_message TO service_role;
@@ -0,0 +1,150 @@
+-- Chat digest schema for IFound4U (run after chat_read_state_schema.sql)
+
+-- Create table for per-user notification preferences. Users without a row get the defaults.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  chat_digest_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create table recording the unread message digests sent for each room and recipient
+CREATE TABLE IF NOT EXISTS chat_digests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_room_id TEXT NOT NULL REFERENCES item_claims(chat_room_id) ON DELETE CASCADE,
+  recipient_email VARCHAR(255) NOT NULL,
+  recipient_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  message_count INTEGER NOT NULL,
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL, -- newest message in the digest
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_chat_digests_room_recipient ON chat_digests(chat_room_id, recipient_email, sent_at);
+
+-- Enable Row Level Security
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_digests ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own preferences
+CREATE POLICY "Users can manage their own notification preferences"
+  ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Service role has full access to notification preferences"
+  ON notification_preferences
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Digests are only written by the chat digest job
+CREATE POLICY "Service role has full access to chat digests"
+  ON chat_digests
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Messages posted by IFound4U itself are marked 'system'. Defined the same way in
+-- chat_system_messages_schema.sql, which runs later.
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS message_kind VARCHAR(10) NOT NULL DEFAULT 'user'
+  CHECK (message_kind IN ('user', 'system'));
+
+-- Rooms and recipients that are due a digest: someone else wrote to them, the oldest
+-- of those messages has been unread since p_unread_before, and no digest went out for
+-- the room since p_window_start. Each participant of a claim is a recipient: the item
+-- owner (contact email, or account email) and the claimer, with or without an account.
+-- Messages already covered by an earlier digest are not counted again, and neither
+-- are system messages.
+CREATE OR REPLACE FUNCTION get_chat_digest_candidates(
+  p_unread_before TIMESTAMP WITH TIME ZONE,
+  p_window_start TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  claim_id UUID,
+  chat_room_id TEXT,
+  item_title VARCHAR,
+  recipient_user_id UUID,
+  recipient_email VARCHAR,
+  recipient_name VARCHAR,
+  message_count BIGINT,
+  last_message_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH recipients AS (
+    SELECT
+      ic.id AS claim_id,
+      ic.chat_room_id,
+      i.title AS item_title,
+      i.user_id AS recipient_user_id,
+      coalesce(ci.email, u.email)::VARCHAR AS recipient_email,
+      ci.name AS recipient_name
+    FROM item_claims ic
+    JOIN items i ON ic.item_id = i.id
+    LEFT JOIN LATERAL (
+      SELECT email, name FROM contact_info
+      WHERE contact_info.item_id = i.id
+      ORDER BY created_at
+      LIMIT 1
+    ) ci ON TRUE
+    LEFT JOIN auth.users u ON u.id = i.user_id
+    UNION ALL
+    SELECT
+      ic.id,
+      ic.chat_room_id,
+      i.title,
+      ic.user_id,
+      ic.claimer_email,
+      ic.claimer_name
+    FROM item_claims ic
+    JOIN items i ON ic.item_id = i.id
+  )
+  SELECT
+    r.claim_id,
+    r.chat_room_id,
+    r.item_title,
+    r.recipient_user_id,
+    r.recipient_email,
+    r.recipient_name,
+    COUNT(cm.id) AS message_count,
+    MAX(cm.created_at) AS last_message_at
+  FROM recipients r
+  LEFT JOIN chat_read_state rs
+    ON rs.chat_room_id = r.chat_room_id
+    AND rs.user_id = r.recipient_user_id
+  LEFT JOIN LATERAL (
+    SELECT MAX(d.last_message_at) AS last_message_at, MAX(d.sent_at) AS sent_at
+    FROM chat_digests d
+    WHERE d.chat_room_id = r.chat_room_id
+      AND lower(d.recipient_email) = lower(r.recipient_email)
+  ) digest ON TRUE
+  JOIN chat_messages cm
+    ON cm.chat_room_id = r.chat_room_id
+    AND cm.message_kind = 'user'
+    AND lower(cm.sender_email) IS DISTINCT FROM lower(r.recipient_email)
+    AND (r.recipient_user_id IS NULL OR cm.sender_id IS DISTINCT FROM r.recipient_user_id)
+    AND cm.created_at > coalesce(rs.last_read_at, '-infinity'::TIMESTAMPTZ)
+    AND cm.created_at > coalesce(digest.last_message_at, '-infinity'::TIMESTAMPTZ)
+  WHERE
+    r.recipient_email IS NOT NULL AND
+    (digest.sent_at IS NULL OR digest.sent_at < p_window_start) AND
+    NOT EXISTS (
+      SELECT 1 FROM notification_preferences np
+      WHERE np.user_id = r.recipient_user_id AND NOT np.chat_digest_enabled
+    )
+  GROUP BY
+    r.claim_id,
+    r.chat_room_id,
+    r.item_title,
+    r.recipient_user_id,
+    r.recipient_email,
+    r.recipient_name
+  HAVING MIN(cm.created_at) <= p_unread_before
+  ORDER BY MIN(cm.created_at)
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_chat_digest_candidates TO service_role;
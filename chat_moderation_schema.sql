@@ -0,0 +1,94 @@
+-- Chat moderation schema for IFound4U (run after chat_digest_schema.sql)
+
+-- Outcome of screening each message: 'allow', 'warn' (recipient sees a warning)
+-- or 'mask' (parts of the message were hidden). Blocked messages are never stored.
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS moderation_action VARCHAR(10) NOT NULL DEFAULT 'allow';
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS moderation_rules TEXT[] NOT NULL DEFAULT '{}';
+
+-- Create table logging every message that matched a moderation rule, for admins
+CREATE TABLE IF NOT EXISTS chat_moderation_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_room_id TEXT NOT NULL REFERENCES item_claims(chat_room_id) ON DELETE CASCADE,
+  message_id UUID UNIQUE REFERENCES chat_messages(id) ON DELETE SET NULL, -- NULL when blocked
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action VARCHAR(10) NOT NULL CHECK (action IN ('allow', 'warn', 'mask', 'block')),
+  rules TEXT[] NOT NULL DEFAULT '{}',
+  openai_categories TEXT[] NOT NULL DEFAULT '{}',
+  redacted_content TEXT NOT NULL, -- card numbers, bank details and phone numbers hidden
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_chat_moderation_log_created_at ON chat_moderation_log(created_at);
+CREATE INDEX idx_chat_moderation_log_chat_room_id ON chat_moderation_log(chat_room_id);
+CREATE INDEX idx_chat_moderation_log_sender_id ON chat_moderation_log(sender_id);
+
+-- Enable Row Level Security
+ALTER TABLE chat_moderation_log ENABLE ROW LEVEL SECURITY;
+
+-- The log is written by the chat message route and read through the admin API
+CREATE POLICY "Service role has full access to chat moderation log"
+  ON chat_moderation_log
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Store the moderation outcome together with the message, in the same transaction
+DROP FUNCTION IF EXISTS post_chat_message(UUID, TEXT, UUID, VARCHAR, VARCHAR, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION post_chat_message(
+  p_id UUID,
+  p_chat_room_id TEXT,
+  p_sender_id UUID,
+  p_sender_name VARCHAR,
+  p_sender_email VARCHAR,
+  p_message TEXT,
+  p_attachments JSONB DEFAULT '[]'::jsonb,
+  p_moderation_action VARCHAR DEFAULT 'allow',
+  p_moderation_rules TEXT[] DEFAULT '{}'
+)
+RETURNS chat_messages AS $$
+DECLARE
+  v_message chat_messages;
+BEGIN
+  INSERT INTO chat_messages (id, chat_room_id, sender_id, sender_name, sender_email, message, is_read, moderation_action, moderation_rules)
+  VALUES (p_id, p_chat_room_id, p_sender_id, p_sender_name, p_sender_email, p_message, FALSE, p_moderation_action, p_moderation_rules)
+  ON CONFLICT (id) DO NOTHING
+  RETURNING * INTO v_message;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_message FROM chat_messages WHERE id = p_id;
+
+    -- Only the same sender retrying in the same room gets the stored message back
+    IF v_message.chat_room_id <> p_chat_room_id
+      OR v_message.sender_id IS DISTINCT FROM p_sender_id THEN
+      RAISE EXCEPTION 'Message ID % is already in use', p_id
+        USING ERRCODE = 'unique_violation';
+    END IF;
+
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO chat_attachments (message_id, chat_room_id, uploader_id, storage_path, file_name, mime_type, size_bytes)
+  SELECT
+    p_id,
+    p_chat_room_id,
+    p_sender_id,
+    attachment->>'path',
+    left(attachment->>'name', 255),
+    attachment->>'mimeType',
+    (attachment->>'size')::INTEGER
+  FROM jsonb_array_elements(p_attachments) AS attachment;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION post_chat_message FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION post_chat_message TO service_role;
+
+-- Messages are screened by /api/chat-message before they reach post_chat_message,
+-- so that must be the only way in: participants can't insert or edit messages
+-- directly (is_read is tracked in chat_read_state)
+DROP POLICY IF EXISTS "Chat participants can send messages" ON chat_messages;
+DROP POLICY IF EXISTS "Chat participants can update read status" ON chat_messages;
@@ -0,0 +1,108 @@
+-- Chat read state schema for IFound4U (run after chat_delivery_schema.sql)
+
+-- Last message each participant has read in a chat room. Replaces the single
+-- chat_messages.is_read flag, which only worked for one recipient and one device.
+CREATE TABLE IF NOT EXISTS chat_read_state (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_room_id TEXT NOT NULL REFERENCES item_claims(chat_room_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_message_id UUID REFERENCES chat_messages(id) ON DELETE SET NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(chat_room_id, user_id)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_chat_read_state_user_id ON chat_read_state(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE chat_read_state ENABLE ROW LEVEL SECURITY;
+
+-- Participants can see how far everyone in their chat has read, for "seen" receipts
+CREATE POLICY "Chat participants can view read state"
+  ON chat_read_state
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM item_claims ic
+      JOIN items i ON ic.item_id = i.id
+      WHERE ic.chat_room_id = chat_read_state.chat_room_id AND
+      (
+        i.user_id = auth.uid() OR
+        ic.user_id = auth.uid() OR
+        ic.claimer_email = coalesce(nullif(current_setting('request.jwt.claims', true)::json->>'email', ''), 'anonymous')
+      )
+    )
+  );
+
+-- Read state is only written by the mark-as-read route
+CREATE POLICY "Service role has full access to chat read state"
+  ON chat_read_state
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Receipts update live in the other participant's chat
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_read_state;
+
+-- Move a participant's read position forward to the given message. Several devices
+-- can mark as read at once, so an older message never moves the position back.
+CREATE OR REPLACE FUNCTION mark_chat_read(
+  p_chat_room_id TEXT,
+  p_user_id UUID,
+  p_message_id UUID
+)
+RETURNS chat_read_state AS $$
+DECLARE
+  v_read_at TIMESTAMP WITH TIME ZONE;
+  v_state chat_read_state;
+BEGIN
+  SELECT created_at INTO v_read_at
+  FROM chat_messages
+  WHERE id = p_message_id AND chat_room_id = p_chat_room_id;
+
+  IF v_read_at IS NULL THEN
+    RAISE EXCEPTION 'Message % is not in chat room %', p_message_id, p_chat_room_id
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  INSERT INTO chat_read_state (chat_room_id, user_id, last_read_message_id, last_read_at)
+  VALUES (p_chat_room_id, p_user_id, p_message_id, v_read_at)
+  ON CONFLICT (chat_room_id, user_id) DO UPDATE
+  SET
+    last_read_message_id = EXCLUDED.last_read_message_id,
+    last_read_at = EXCLUDED.last_read_at,
+    updated_at = CURRENT_TIMESTAMP
+  WHERE chat_read_state.last_read_at < EXCLUDED.last_read_at;
+
+  SELECT * INTO v_state
+  FROM chat_read_state
+  WHERE chat_room_id = p_chat_room_id AND user_id = p_user_id;
+
+  RETURN v_state;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION mark_chat_read TO service_role;
+
+-- Carry over what is_read already recorded: the newest message from the other
+-- side that was marked as read becomes the read position of the recipient
+INSERT INTO chat_read_state (chat_room_id, user_id, last_read_message_id, last_read_at)
+SELECT DISTINCT ON (recipients.chat_room_id, recipients.user_id)
+  recipients.chat_room_id,
+  recipients.user_id,
+  cm.id,
+  cm.created_at
+FROM (
+  SELECT ic.chat_room_id, i.user_id FROM item_claims ic JOIN items i ON ic.item_id = i.id
+  UNION
+  SELECT ic.chat_room_id, ic.user_id FROM item_claims ic WHERE ic.user_id IS NOT NULL
+) AS recipients
+JOIN chat_messages cm
+  ON cm.chat_room_id = recipients.chat_room_id
+  AND cm.sender_id IS DISTINCT FROM recipients.user_id
+  AND cm.is_read = TRUE
+WHERE recipients.user_id IS NOT NULL
+ORDER BY recipients.chat_room_id, recipients.user_id, cm.created_at DESC
+ON CONFLICT (chat_room_id, user_id) DO NOTHING;
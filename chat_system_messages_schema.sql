@@ -0,0 +1,23 @@
+-- Chat system messages schema for IFound4U (run after claim_meetups_schema.sql)
+
+-- System messages are written by the server when something happens to the claim,
+-- e.g. a status change or a payment. event_type says what happened and
+-- event_payload carries the details the chat needs to render it.
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS message_kind VARCHAR(10) NOT NULL DEFAULT 'user'
+  CHECK (message_kind IN ('user', 'system'));
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS event_type VARCHAR(50);
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS event_payload JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE chat_messages ADD CONSTRAINT chat_messages_system_event_type
+  CHECK (message_kind = 'user' OR event_type IS NOT NULL);
+
+-- Create index for finding the events of a room
+CREATE INDEX IF NOT EXISTS idx_chat_messages_room_event_type
+  ON chat_messages(chat_room_id, event_type)
+  WHERE message_kind = 'system';
+
+-- Participants don't write to the table directly: user messages go through
+-- /api/chat-message and post_chat_message (moderation, blocks) with the service
+-- role, system messages come from the server and read state lives in chat_read_state
+DROP POLICY IF EXISTS "Chat participants can send messages" ON chat_messages;
+DROP POLICY IF EXISTS "Chat participants can update read status" ON chat_messages;
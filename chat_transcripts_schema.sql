@@ -0,0 +1,28 @@
+-- Chat transcripts schema for IFound4U (run after chat_system_messages_schema.sql)
+
+-- Create table recording every transcript export. The PDF and JSON carry the
+-- export ID and signature, so support can confirm a copy handed in later.
+CREATE TABLE IF NOT EXISTS chat_transcript_exports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  claim_id UUID NOT NULL REFERENCES item_claims(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  requester_role VARCHAR(20) NOT NULL CHECK (requester_role IN ('owner', 'claimer', 'admin')),
+  format VARCHAR(10) NOT NULL CHECK (format IN ('json', 'pdf')),
+  content_sha256 VARCHAR(64) NOT NULL,
+  signature TEXT NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_chat_transcript_exports_claim_id ON chat_transcript_exports(claim_id);
+
+-- Enable Row Level Security
+ALTER TABLE chat_transcript_exports ENABLE ROW LEVEL SECURITY;
+
+-- Exports are written by the transcript route and checked through the admin API
+CREATE POLICY "Service role has full access to chat transcript exports"
+  ON chat_transcript_exports
+  FOR ALL
+  TO service_role
+  USING (true);
@@ -0,0 +1,65 @@
+-- Claim meetups schema for IFound4U (run after chat_moderation_schema.sql)
+
+-- Create table for handover meetups proposed in a claim chat. A proposal is answered
+-- by the other participant: accepted, declined, or countered with a new proposal.
+CREATE TABLE IF NOT EXISTS claim_meetups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  claim_id UUID NOT NULL REFERENCES item_claims(id) ON DELETE CASCADE,
+  proposed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  proposer_role VARCHAR(20) NOT NULL CHECK (proposer_role IN ('owner', 'claimer')),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  location_address TEXT NOT NULL,
+  location_latitude DOUBLE PRECISION,
+  location_longitude DOUBLE PRECISION,
+  location_place_id VARCHAR(255),
+  note TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'accepted', 'declined', 'countered', 'cancelled')),
+  counter_of UUID REFERENCES claim_meetups(id) ON DELETE SET NULL, -- the proposal this one answers
+  responded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  reminder_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (ends_at > starts_at)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_claim_meetups_claim_id ON claim_meetups(claim_id);
+CREATE INDEX idx_claim_meetups_starts_at ON claim_meetups(starts_at) WHERE status = 'accepted';
+
+-- A claim has at most one open proposal and one agreed meetup at a time
+CREATE UNIQUE INDEX idx_claim_meetups_one_proposed ON claim_meetups(claim_id) WHERE status = 'proposed';
+CREATE UNIQUE INDEX idx_claim_meetups_one_accepted ON claim_meetups(claim_id) WHERE status = 'accepted';
+
+-- Enable Row Level Security
+ALTER TABLE claim_meetups ENABLE ROW LEVEL SECURITY;
+
+-- The item owner and the claimer can see the meetups of their claim
+CREATE POLICY "Claim participants can view meetups"
+  ON claim_meetups
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM item_claims
+      JOIN items ON items.id = item_claims.item_id
+      WHERE item_claims.id = claim_meetups.claim_id
+      AND (
+        items.user_id = auth.uid()
+        OR item_claims.user_id = auth.uid()
+        OR item_claims.claimer_email = coalesce(nullif(current_setting('request.jwt.claims', true)::json->>'email', ''), 'anonymous')
+      )
+    )
+  );
+
+-- Meetups are only written by the meetup routes and the reminder job
+CREATE POLICY "Service role has full access to claim meetups"
+  ON claim_meetups
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Let the pinned meetup card pick up proposals and answers without polling
+ALTER PUBLICATION supabase_realtime ADD TABLE claim_meetups;
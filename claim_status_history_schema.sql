@@ -0,0 +1,64 @@
+-- Claim status history schema for IFound4U
+
+-- Create table for the audit trail of claim status changes.
+-- Rows are only written by the server through the claim state machine.
+CREATE TABLE IF NOT EXISTS claim_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  claim_id UUID NOT NULL REFERENCES item_claims(id) ON DELETE CASCADE,
+  from_status claim_status, -- NULL for the initial pending status
+  to_status claim_status NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for system changes
+  actor_role VARCHAR(20) NOT NULL CHECK (actor_role IN ('owner', 'claimer', 'system')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for faster lookups
+CREATE INDEX idx_claim_status_history_claim_id ON claim_status_history(claim_id);
+CREATE INDEX idx_claim_status_history_created_at ON claim_status_history(created_at);
+
+-- Enable Row Level Security
+ALTER TABLE claim_status_history ENABLE ROW LEVEL SECURITY;
+
+-- The item owner and the claimer can read the history of a claim
+CREATE POLICY "Claim participants can view claim status history"
+  ON claim_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM item_claims
+      JOIN items ON items.id = item_claims.item_id
+      WHERE item_claims.id = claim_status_history.claim_id
+      AND (
+        items.user_id = auth.uid()
+        OR item_claims.user_id = auth.uid()
+        OR item_claims.claimer_email = coalesce(nullif(current_setting('request.jwt.claims', true)::json->>'email', ''), 'anonymous')
+      )
+    )
+  );
+
+CREATE POLICY "Service role has full access to claim status history"
+  ON claim_status_history
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Let the chat timeline pick up new entries without polling
+ALTER PUBLICATION supabase_realtime ADD TABLE claim_status_history;
+
+-- Status changes must go through /api/claims/[id]/transition, so the
+-- direct update policy on item_claims is no longer needed
+DROP POLICY IF EXISTS "Item owners can update claim status" ON item_claims;
+
+-- Claims are created by /api/submit-claim as pending, with their history entry.
+-- A direct insert could start a claim in any status, so that policy goes too.
+DROP POLICY IF EXISTS "Users can create item claims" ON item_claims;
+
+-- Backfill the current status of existing claims so every timeline has a starting point
+INSERT INTO claim_status_history (claim_id, from_status, to_status, actor_role, reason, created_at)
+SELECT id, NULL, status, 'system', 'Status before history tracking', COALESCE(updated_at, created_at)
+FROM item_claims
+WHERE NOT EXISTS (
+  SELECT 1 FROM claim_status_history WHERE claim_status_history.claim_id = item_claims.id
+);
@@ -0,0 +1,28 @@
+-- Claim verification token schema for IFound4U
+
+-- Create table tracking every signed claim link that was emailed.
+-- The id is the token's jti claim, so each link can only be redeemed once
+-- and all links of a claim can be revoked when it is rejected.
+CREATE TABLE IF NOT EXISTS claim_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  claim_id UUID NOT NULL REFERENCES item_claims(id) ON DELETE CASCADE,
+  chat_room_id TEXT NOT NULL,
+  email VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for faster lookups
+CREATE INDEX idx_claim_tokens_claim_id ON claim_tokens(claim_id);
+
+-- Enable Row Level Security
+ALTER TABLE claim_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are only issued and redeemed by the server
+CREATE POLICY "Service role has full access to claim tokens"
+  ON claim_tokens
+  FOR ALL
+  TO service_role
+  USING (true);
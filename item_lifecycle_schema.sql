@@ -0,0 +1,12 @@
+-- Item lifecycle schema for IFound4U (run after claim_status_history_schema.sql,
+-- then run search_schema.sql again for the status filter of search_items)
+
+-- Track the "is this item still lost/found?" reminder and the reporter's answer
+ALTER TABLE items ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS last_confirmed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS expired_at TIMESTAMP WITH TIME ZONE;
+
+-- Create index for the lifecycle job, which scans open items by status
+CREATE INDEX IF NOT EXISTS idx_items_status ON items(status);
+CREATE INDEX IF NOT EXISTS idx_item_claims_status ON item_claims(status);
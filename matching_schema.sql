@@ -0,0 +1,66 @@
+-- Lost/found matching schema for IFound4U
+
+-- Store the AI-generated image description separately so it can be used for matching
+ALTER TABLE items ADD COLUMN IF NOT EXISTS ai_description TEXT;
+
+-- Create enum type for match status
+CREATE TYPE match_status AS ENUM ('suggested', 'dismissed', 'claimed');
+
+-- Create table for candidate matches between a lost item and a found item
+CREATE TABLE IF NOT EXISTS item_matches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lost_item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  found_item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  score NUMERIC(4, 3) NOT NULL, -- weighted score between 0 and 1
+  score_breakdown JSONB NOT NULL DEFAULT '{}'::jsonb, -- per-signal scores (category, date, distance, text)
+  status match_status DEFAULT 'suggested',
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (lost_item_id, found_item_id)
+);
+
+-- Create index for faster lookups
+CREATE INDEX idx_item_matches_lost_item_id ON item_matches(lost_item_id);
+CREATE INDEX idx_item_matches_found_item_id ON item_matches(found_item_id);
+CREATE INDEX idx_items_type_date ON items(type, date);
+
+-- Enable Row Level Security on the item_matches table
+ALTER TABLE item_matches ENABLE ROW LEVEL SECURITY;
+
+-- Reporters of either item can view the match
+CREATE POLICY "Item owners can view their matches"
+  ON item_matches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM items i
+      WHERE i.id IN (item_matches.lost_item_id, item_matches.found_item_id)
+      AND i.user_id = auth.uid()
+    )
+  );
+
+-- Reporters of either item can dismiss the match
+CREATE POLICY "Item owners can update their matches"
+  ON item_matches
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM items i
+      WHERE i.id IN (item_matches.lost_item_id, item_matches.found_item_id)
+      AND i.user_id = auth.uid()
+    )
+  );
+
+-- Matches are only created by the matching engine on the server
+CREATE POLICY "Service role has full access to item matches"
+  ON item_matches
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE TRIGGER update_item_matches_updated_at
+    BEFORE UPDATE ON item_matches
+    FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
@@ -0,0 +1,32 @@
+-- Payment escrow schema for IFound4U (run after user_safety_schema.sql)
+
+-- Escrowed payments are charged to the platform and transferred to the finder
+-- separately, once the claimer confirms delivery or the auto-release time passes.
+-- Destination charges (the previous flow) pay the finder right away.
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payout_mode VARCHAR(20) NOT NULL DEFAULT 'destination'
+  CHECK (payout_mode IN ('destination', 'escrow'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'usd';
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS transfer_amount INTEGER; -- finder's share in cents
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS destination_account_id TEXT; -- finder's Stripe account at payment time
+
+-- 'held' once the charge succeeded, then 'released' (transferred to the finder)
+-- or 'reversed' (transfer taken back). NULL for destination charges.
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS escrow_status VARCHAR(20)
+  CHECK (escrow_status IN ('held', 'released', 'reversed'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS held_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS release_after TIMESTAMP WITH TIME ZONE; -- set when the item ships
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS released_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS release_trigger VARCHAR(20)
+  CHECK (release_trigger IN ('delivery', 'timer', 'admin'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS stripe_transfer_id TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+
+-- Set by an admin while a dispute is looked into, nothing is released until it's lifted
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS hold_reason TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS hold_placed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS hold_placed_at TIMESTAMP WITH TIME ZONE;
+
+-- Create index for the auto-release job
+CREATE INDEX IF NOT EXISTS idx_payments_escrow_release_after
+  ON payments(release_after)
+  WHERE escrow_status = 'held' AND hold_reason IS NULL;
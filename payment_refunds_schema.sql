@@ -0,0 +1,46 @@
+-- Payment refunds and disputes schema for IFound4U (run after payment_escrow_schema.sql)
+
+-- payments.status now also takes 'refunded', 'partially_refunded' and 'canceled'
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount INTEGER NOT NULL DEFAULT 0; -- in cents
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+
+-- Escrowed payments fully refunded before the release end up 'reversed' as well,
+-- and transfer_amount is lowered by the finder's share of each refund
+
+-- Latest chargeback of the payment, dispute_status is Stripe's dispute status
+-- (e.g. 'needs_response', 'under_review', 'won', 'lost')
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS stripe_dispute_id TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS dispute_status VARCHAR(30);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMP WITH TIME ZONE;
+
+-- Create table for refunds issued through the refund API, and for refunds made
+-- elsewhere (e.g. the Stripe dashboard) as the charge.refunded webhook sees them
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  stripe_refund_id TEXT UNIQUE,
+  amount INTEGER NOT NULL CHECK (amount > 0), -- in cents
+  refund_platform_fee BOOLEAN NOT NULL DEFAULT TRUE,
+  reverse_transfer BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Taken back from the finder: reversed from the transfer, or kept from a held payout
+  finder_amount INTEGER NOT NULL DEFAULT 0,
+  stripe_reversal_id TEXT,
+  reason TEXT,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  requester_role VARCHAR(10) NOT NULL CHECK (requester_role IN ('owner', 'admin', 'stripe')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment_id ON payment_refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payments_stripe_dispute_id ON payments(stripe_dispute_id);
+
+-- Enable Row Level Security
+ALTER TABLE payment_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Refunds are written by the refund API and shown through the payment routes
+CREATE POLICY "Service role has full access to payment refunds"
+  ON payment_refunds
+  FOR ALL
+  TO service_role
+  USING (true);
@@ -0,0 +1,138 @@
+-- Saved searches and alerts schema for IFound4U (run after search_schema.sql)
+
+-- Create table for saved item searches that alert their owner about new reports
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  type item_type, -- NULL matches both lost and found items
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION,
+  date_from DATE,
+  date_to DATE,
+  query TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  last_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create table recording which items were already sent for each saved search
+CREATE TABLE IF NOT EXISTS saved_search_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (saved_search_id, item_id)
+);
+
+-- Create table for in-app notifications
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL, -- e.g. 'saved_search_match'
+  title VARCHAR(255) NOT NULL,
+  body TEXT,
+  link TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for faster lookups
+CREATE INDEX idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX idx_saved_searches_is_active ON saved_searches(is_active);
+CREATE INDEX idx_saved_search_alerts_saved_search_id ON saved_search_alerts(saved_search_id);
+CREATE INDEX idx_notifications_user_id ON notifications(user_id);
+CREATE INDEX idx_notifications_created_at ON notifications(created_at);
+
+-- Enable Row Level Security
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own saved searches
+CREATE POLICY "Users can manage their own saved searches"
+  ON saved_searches
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Service role has full access to saved searches"
+  ON saved_searches
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Alerts are only written by the server when a new item is reported
+CREATE POLICY "Service role has full access to saved search alerts"
+  ON saved_search_alerts
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Users can read their notifications and mark them as read
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role has full access to notifications"
+  ON notifications
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE TRIGGER update_saved_searches_updated_at
+    BEFORE UPDATE ON saved_searches
+    FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Stream new notifications to the navbar
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- Find the active saved searches (of other users) that a newly reported item matches
+-- and that have not been alerted about this item yet
+CREATE OR REPLACE FUNCTION find_saved_searches_for_item(p_item_id UUID)
+RETURNS SETOF saved_searches AS $$
+  SELECT s.*
+  FROM saved_searches s
+  JOIN items i ON i.id = p_item_id
+  WHERE s.is_active
+    AND s.user_id IS DISTINCT FROM i.user_id
+    AND (s.type IS NULL OR s.type = i.type)
+    AND (cardinality(s.categories) = 0 OR i.category = ANY(s.categories))
+    AND (s.date_from IS NULL OR i.date >= s.date_from)
+    AND (s.date_to IS NULL OR i.date <= s.date_to)
+    AND (
+      s.query IS NULL
+      OR s.query = ''
+      OR i.search_vector @@ websearch_to_tsquery('english', s.query)
+      OR i.title % s.query
+    )
+    AND (
+      s.latitude IS NULL
+      OR s.longitude IS NULL
+      OR s.radius_km IS NULL
+      OR earth_distance(
+        ll_to_earth(s.latitude, s.longitude),
+        ll_to_earth(i.location_latitude, i.location_longitude)
+      ) <= s.radius_km * 1000
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM saved_search_alerts a
+      WHERE a.saved_search_id = s.id
+      AND a.item_id = i.id
+    );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION find_saved_searches_for_item TO service_role;
@@ -0,0 +1,207 @@
+-- Item search schema for IFound4U (run after matching_schema.sql)
+
+-- Enable great-circle distance calculations (earthdistance depends on cube)
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+-- Enable trigram similarity for typo tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Weighted full-text document: title first, then descriptions, then location
+ALTER TABLE items ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(ai_description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(location_address, '')), 'D')
+  ) STORED;
+
+-- Create indexes for full-text and fuzzy matching
+CREATE INDEX IF NOT EXISTS idx_items_search_vector ON items USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_items_title_trgm ON items USING gin (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_items_location_address_trgm ON items USING gin (location_address gin_trgm_ops);
+
+-- Create index for radius lookups on item locations
+CREATE INDEX IF NOT EXISTS idx_items_location_earth
+  ON items USING gist (ll_to_earth(location_latitude, location_longitude));
+CREATE INDEX IF NOT EXISTS idx_items_category ON items(category);
+CREATE INDEX IF NOT EXISTS idx_items_created_at ON items(created_at);
+
+-- Search items with optional radius, type, category, date range, status and text filters.
+-- With a text query results are ranked by relevance (full-text rank plus title
+-- similarity, so small typos still match) and carry highlighted snippets;
+-- otherwise they are sorted by distance when a center is given, newest first if not.
+-- Every row carries the total number of matching items for pagination.
+-- Runs with the caller's permissions so the items RLS policies still apply.
+DROP FUNCTION IF EXISTS search_items;
+CREATE OR REPLACE FUNCTION search_items(
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL,
+  p_type item_type DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_statuses item_status[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 12,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  item JSONB,
+  distance_km DOUBLE PRECISION,
+  rank REAL,
+  title_highlight TEXT,
+  description_highlight TEXT,
+  total_count BIGINT
+) AS $$
+  WITH search AS (
+    SELECT
+      nullif(trim(coalesce(p_query, '')), '') AS query_text,
+      websearch_to_tsquery('english', coalesce(p_query, '')) AS query
+  ),
+  filtered AS (
+    SELECT
+      i.*,
+      CASE
+        -- Manually entered addresses are stored with 0/0 coordinates
+        WHEN p_latitude IS NOT NULL AND p_longitude IS NOT NULL
+          AND NOT (i.location_latitude = 0 AND i.location_longitude = 0) THEN
+          earth_distance(
+            ll_to_earth(p_latitude, p_longitude),
+            ll_to_earth(i.location_latitude, i.location_longitude)
+          ) / 1000
+      END AS distance_km,
+      CASE
+        WHEN s.query_text IS NOT NULL THEN
+          ts_rank_cd(i.search_vector, s.query) + similarity(i.title, s.query_text)
+      END AS rank
+    FROM items i
+    CROSS JOIN search s
+    WHERE (p_type IS NULL OR i.type = p_type)
+      AND (p_categories IS NULL OR cardinality(p_categories) = 0 OR i.category = ANY(p_categories))
+      AND (p_date_from IS NULL OR i.date >= p_date_from)
+      AND (p_date_to IS NULL OR i.date <= p_date_to)
+      AND (p_user_id IS NULL OR i.user_id = p_user_id)
+      AND (p_statuses IS NULL OR COALESCE(i.status, 'pending') = ANY(p_statuses))
+      AND (
+        s.query_text IS NULL
+        OR i.search_vector @@ s.query
+        OR i.title % s.query_text
+        OR i.location_address % s.query_text
+      )
+      AND (
+        p_radius_km IS NULL
+        OR p_latitude IS NULL
+        OR p_longitude IS NULL
+        OR (
+          -- earth_box uses the GiST index, earth_distance trims the box corners
+          earth_box(ll_to_earth(p_latitude, p_longitude), p_radius_km * 1000)
+            @> ll_to_earth(i.location_latitude, i.location_longitude)
+          AND earth_distance(
+            ll_to_earth(p_latitude, p_longitude),
+            ll_to_earth(i.location_latitude, i.location_longitude)
+          ) <= p_radius_km * 1000
+        )
+      )
+  ),
+  page AS (
+    SELECT
+      f.*,
+      COUNT(*) OVER () AS total_count
+    FROM filtered f
+    ORDER BY f.rank DESC NULLS LAST, f.distance_km ASC NULLS LAST, f.created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  -- Highlights are only built for the returned page, ts_headline is expensive
+  SELECT
+    to_jsonb(p) - 'distance_km' - 'rank' - 'total_count' - 'search_vector' AS item,
+    p.distance_km,
+    p.rank::REAL,
+    CASE
+      WHEN s.query_text IS NOT NULL THEN
+        ts_headline('english', p.title, s.query,
+          'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE
+      WHEN s.query_text IS NOT NULL THEN
+        ts_headline('english', p.description, s.query,
+          'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" ... "')
+    END AS description_highlight,
+    p.total_count
+  FROM page p
+  CROSS JOIN search s
+  ORDER BY p.rank DESC NULLS LAST, p.distance_km ASC NULLS LAST, p.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION search_items TO anon, authenticated;
+
+-- Vocabulary of words used in the titles and descriptions of open items, used for
+-- "did you mean" suggestions. Clients only see it through suggest_item_search.
+-- Recreated so reruns of this file pick up the definition.
+DROP TRIGGER IF EXISTS refresh_item_search_words_on_items ON items;
+DROP FUNCTION IF EXISTS refresh_item_search_words();
+DROP MATERIALIZED VIEW IF EXISTS item_search_words;
+
+CREATE MATERIALIZED VIEW item_search_words AS
+  SELECT word, COUNT(*) AS ndoc
+  FROM (
+    SELECT DISTINCT i.id, w.word
+    FROM items i
+    CROSS JOIN LATERAL regexp_split_to_table(lower(i.title || ' ' || i.description), '[^[:alnum:]]+') AS w(word)
+    WHERE length(w.word) > 2
+      AND COALESCE(i.status, 'pending') NOT IN ('resolved', 'expired')
+  ) words
+  GROUP BY word;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_search_words_word ON item_search_words(word);
+CREATE INDEX IF NOT EXISTS idx_item_search_words_trgm ON item_search_words USING gin (word gin_trgm_ops);
+
+REVOKE ALL ON item_search_words FROM PUBLIC, anon, authenticated;
+
+-- Rebuilding the vocabulary reads every item, so the daily item lifecycle job
+-- refreshes it instead of every write to items
+CREATE OR REPLACE FUNCTION refresh_item_search_words()
+RETURNS VOID AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY item_search_words;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_item_search_words FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_item_search_words TO service_role;
+
+-- Suggest a corrected query by replacing each unknown word with the closest known word.
+-- Returns NULL when every word is known or no close enough word exists.
+CREATE OR REPLACE FUNCTION suggest_item_search(p_query TEXT)
+RETURNS TEXT AS $$
+  WITH terms AS (
+    SELECT t.term, t.position
+    FROM regexp_split_to_table(lower(trim(p_query)), '\s+') WITH ORDINALITY AS t(term, position)
+    WHERE t.term <> ''
+  ),
+  corrected AS (
+    SELECT
+      t.position,
+      t.term,
+      CASE
+        WHEN EXISTS (SELECT 1 FROM item_search_words w WHERE w.word = t.term) THEN t.term
+        ELSE coalesce((
+          SELECT w.word
+          FROM item_search_words w
+          WHERE w.word % t.term
+          ORDER BY similarity(w.word, t.term) DESC, w.ndoc DESC
+          LIMIT 1
+        ), t.term)
+      END AS suggestion
+    FROM terms t
+  )
+  SELECT CASE
+    WHEN bool_or(c.suggestion <> c.term) THEN string_agg(c.suggestion, ' ' ORDER BY c.position)
+  END
+  FROM corrected c;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION suggest_item_search TO anon, authenticated;
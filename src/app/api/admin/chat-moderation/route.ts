@@ -0,0 +1,73 @@
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
+import { NextRequest, NextResponse } from "next/server";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const ACTIONS = ["allow", "warn", "mask", "block"];
+
+// GET: Admin only, latest moderation decisions on chat messages, newest first.
+// Optional filters: action, room, sender; `before` (created_at) for the next page.
+export async function GET(request: NextRequest) {
+  try {
+    const { admin: supabase } = await requireAdmin();
+
+    const url = new URL(request.url);
+    const action = url.searchParams.get("action");
+    const roomId = url.searchParams.get("room");
+    const senderId = url.searchParams.get("sender");
+    const before = url.searchParams.get("before");
+    const limit = Math.min(
+      Number(url.searchParams.get("limit")) || DEFAULT_LIMIT,
+      MAX_LIMIT
+    );
+
+    if (action && !ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    if (before && isNaN(Date.parse(before))) {
+      return NextResponse.json({ error: "Invalid before" }, { status: 400 });
+    }
+
+    let query = supabase
+      .from("chat_moderation_log")
+      .select(
+        "id, chat_room_id, message_id, sender_id, action, rules, openai_categories, redacted_content, created_at"
+      )
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (action) query = query.eq("action", action);
+    if (roomId) query = query.eq("chat_room_id", roomId);
+    if (senderId) query = query.eq("sender_id", senderId);
+    if (before) query = query.lt("created_at", before);
+
+    const { data: entries, error } = await query;
+
+    if (error) {
+      console.error("Error fetching moderation log:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch moderation log", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      entries: entries || [],
+      hasMore: (entries || []).length === limit,
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching moderation log:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch moderation log",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
+import {
+  EscrowError,
+  getEscrowPayment,
+  releaseEscrowPayment,
+  reverseEscrowTransfer,
+  setEscrowHold,
+} from "@/lib/payment-escrow";
+import { NextRequest, NextResponse } from "next/server";
+
+const ACTIONS = ["hold", "unhold", "release", "reverse"];
+const MAX_REASON_LENGTH = 500;
+
+// PATCH: Admin only, manage the escrowed payout of a payment. Body: action, reason
+// - hold: keep the funds on the platform while a dispute is looked into
+// - unhold: lift the hold, the auto-release job picks the payment up again
+// - release: transfer to the finder now
+// - reverse: take a released transfer back from the finder
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { user, admin: supabase } = await requireAdmin();
+
+    const body = await request.json();
+    const action = body.action as string;
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    if ((action === "hold" || action === "reverse") && !reason) {
+      return NextResponse.json(
+        { error: "A reason is required" },
+        { status: 400 }
+      );
+    }
+
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Reason must be at most ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const payment = await getEscrowPayment(supabase, id);
+
+    if (action === "hold") {
+      await setEscrowHold(supabase, payment, { adminId: user.id, reason });
+    } else if (action === "unhold") {
+      await setEscrowHold(supabase, payment, null);
+    } else if (action === "release") {
+      // Releasing by hand overrides a hold
+      if (payment.hold_reason) {
+        await setEscrowHold(supabase, payment, null);
+      }
+      await releaseEscrowPayment(
+        supabase,
+        { ...payment, hold_reason: null },
+        "admin"
+      );
+    } else {
+      await reverseEscrowTransfer(supabase, payment, reason);
+    }
+
+    return NextResponse.json({ payment: await getEscrowPayment(supabase, id) });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    if (error instanceof EscrowError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error updating escrow:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update escrow",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
+import { USER_REPORT_STATUSES, UserReportStatus } from "@/lib/user-reports";
+import { NextRequest, NextResponse } from "next/server";
+
+const MAX_RESOLUTION_NOTE_LENGTH = 1000;
+
+// PATCH: Admin only, move a report through the queue. Body: status, resolutionNote?
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { user, admin: supabase } = await requireAdmin();
+
+    const body = await request.json();
+    const status = body.status as UserReportStatus;
+    const resolutionNote =
+      typeof body.resolutionNote === "string" ? body.resolutionNote.trim() : "";
+
+    if (!USER_REPORT_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    if (resolutionNote.length > MAX_RESOLUTION_NOTE_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Resolution note must be at most ${MAX_RESOLUTION_NOTE_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: report, error } = await supabase
+      .from("user_reports")
+      .update({
+        status,
+        resolution_note: resolutionNote || null,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select("id, status, reviewed_by, reviewed_at, resolution_note")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating user report:", error);
+      return NextResponse.json(
+        { error: "Failed to update report", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error updating user report:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update report",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
+import { USER_REPORT_STATUSES, UserReportStatus } from "@/lib/user-reports";
+import { NextRequest, NextResponse } from "next/server";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET: Admin only, the moderation queue of user reports, oldest first so they are
+// handled in order. Defaults to open reports; filters: status, reported (user ID),
+// claim; `after` (created_at) for the next page.
+export async function GET(request: NextRequest) {
+  try {
+    const { admin: supabase } = await requireAdmin();
+
+    const url = new URL(request.url);
+    const status = (url.searchParams.get("status") ||
+      "open") as UserReportStatus;
+    const reportedUserId = url.searchParams.get("reported");
+    const claimId = url.searchParams.get("claim");
+    const after = url.searchParams.get("after");
+    const limit = Math.min(
+      Number(url.searchParams.get("limit")) || DEFAULT_LIMIT,
+      MAX_LIMIT
+    );
+
+    if (!USER_REPORT_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    if (after && isNaN(Date.parse(after))) {
+      return NextResponse.json({ error: "Invalid after" }, { status: 400 });
+    }
+
+    let query = supabase
+      .from("user_reports")
+      .select(
+        "id, reporter_id, reporter_role, reported_user_id, reported_email, claim_id, chat_room_id, reason, details, message_excerpts, status, reviewed_by, reviewed_at, resolution_note, created_at"
+      )
+      .eq("status", status)
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (reportedUserId) query = query.eq("reported_user_id", reportedUserId);
+    if (claimId) query = query.eq("claim_id", claimId);
+    if (after) query = query.gt("created_at", after);
+
+    const { data: reports, error } = await query;
+
+    if (error) {
+      console.error("Error fetching user reports:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch reports", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      reports: reports || [],
+      hasMore: (reports || []).length === limit,
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching user reports:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch reports",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
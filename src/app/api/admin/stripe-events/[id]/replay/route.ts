@@ -0,0 +1,64 @@
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
+import { STRIPE_EVENT_COLUMNS, processStripeEvent } from "@/lib/stripe-events";
+import { NextRequest, NextResponse } from "next/server";
+import { Stripe } from "stripe";
+
+// POST: Admin only, run a failed Stripe event again from its stored payload.
+// The event still goes through the duplicate and ordering checks.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { user, admin: supabase } = await requireAdmin();
+
+    const { data: stored, error } = await supabase
+      .from("stripe_events")
+      .select("status, payload")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error fetching Stripe event: ${error.message}`);
+    }
+
+    if (!stored) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    if (stored.status !== "failed") {
+      return NextResponse.json(
+        { error: "Only failed events can be replayed" },
+        { status: 409 }
+      );
+    }
+
+    const result = await processStripeEvent(
+      supabase,
+      stored.payload as Stripe.Event,
+      { replayedBy: user.id }
+    );
+
+    const { data: event } = await supabase
+      .from("stripe_events")
+      .select(STRIPE_EVENT_COLUMNS)
+      .eq("id", id)
+      .single();
+
+    return NextResponse.json({ result, event });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error replaying Stripe event:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to replay Stripe event",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
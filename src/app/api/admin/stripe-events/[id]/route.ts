@@ -0,0 +1,43 @@
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
+import { STRIPE_EVENT_COLUMNS } from "@/lib/stripe-events";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET: Admin only, a logged Stripe event with its full payload
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { admin: supabase } = await requireAdmin();
+
+    const { data: event, error } = await supabase
+      .from("stripe_events")
+      .select(`${STRIPE_EVENT_COLUMNS}, payload`)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error fetching Stripe event: ${error.message}`);
+    }
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching Stripe event:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch Stripe event",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
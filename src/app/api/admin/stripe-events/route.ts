@@ -0,0 +1,76 @@
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
+import {
+  STRIPE_EVENT_COLUMNS,
+  STRIPE_EVENT_STATUSES,
+  StripeEventStatus,
+} from "@/lib/stripe-events";
+import { NextRequest, NextResponse } from "next/server";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET: Admin only, the log of received Stripe webhook events, newest first.
+// Filters: status (e.g. failed), type, object (the Stripe object ID);
+// `before` (received_at) for the next page. Payloads are left out, see /[id].
+export async function GET(request: NextRequest) {
+  try {
+    const { admin: supabase } = await requireAdmin();
+
+    const url = new URL(request.url);
+    const status = url.searchParams.get("status") as StripeEventStatus | null;
+    const type = url.searchParams.get("type");
+    const objectId = url.searchParams.get("object");
+    const before = url.searchParams.get("before");
+    const limit = Math.min(
+      Number(url.searchParams.get("limit")) || DEFAULT_LIMIT,
+      MAX_LIMIT
+    );
+
+    if (status && !STRIPE_EVENT_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    if (before && isNaN(Date.parse(before))) {
+      return NextResponse.json({ error: "Invalid before" }, { status: 400 });
+    }
+
+    let query = supabase
+      .from("stripe_events")
+      .select(STRIPE_EVENT_COLUMNS)
+      .order("received_at", { ascending: false })
+      .limit(limit);
+
+    if (status) query = query.eq("status", status);
+    if (type) query = query.eq("type", type);
+    if (objectId) query = query.eq("object_id", objectId);
+    if (before) query = query.lt("received_at", before);
+
+    const { data: events, error } = await query;
+
+    if (error) {
+      console.error("Error fetching Stripe events:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch Stripe events", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      events: events || [],
+      hasMore: (events || []).length === limit,
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching Stripe events:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch Stripe events",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
+import {
+  SignedClaimTranscript,
+  verifyTranscriptSignature,
+} from "@/lib/chat-transcripts";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST: Admin only, check that a transcript handed in during a dispute is one we
+// exported and wasn't edited. Accepts the exported JSON file as is, or just the
+// exportId, sha256 and signature printed at the end of the PDF.
+export async function POST(request: NextRequest) {
+  try {
+    const { admin: supabase } = await requireAdmin();
+
+    const body = await request.json();
+    const { integrity, ...transcript } = (body ||
+      {}) as Partial<SignedClaimTranscript>;
+    const { exportId, sha256, signature } = integrity || body || {};
+
+    if (
+      typeof exportId !== "string" ||
+      typeof sha256 !== "string" ||
+      typeof signature !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "exportId, sha256 and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const reason = verifyTranscriptSignature({
+      exportId,
+      sha256,
+      signature,
+      transcript: integrity ? (transcript as SignedClaimTranscript) : undefined,
+    });
+
+    const { data: exportRecord, error } = await supabase
+      .from("chat_transcript_exports")
+      .select(
+        "id, claim_id, requested_by, requester_role, format, content_sha256, message_count, created_at"
+      )
+      .eq("id", exportId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching transcript export:", error);
+      return NextResponse.json(
+        { error: "Failed to verify transcript", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    // A valid signature is only half of it, the export must also be on record
+    let failure = reason;
+    if (!failure && !exportRecord) {
+      failure = "No export with this ID was recorded";
+    } else if (!failure && exportRecord?.content_sha256 !== sha256) {
+      failure = "The hash doesn't match the recorded export";
+    }
+
+    return NextResponse.json({
+      valid: !failure,
+      reason: failure,
+      export: exportRecord,
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error verifying transcript:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to verify transcript",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { ChatReadStateRow, toChatReadState } from "@/lib/chat-read-state";
+import { RouteGuardError, requireClaimParticipant } from "@/lib/route-guards";
+import { NextRequest, NextResponse } from "next/server";
+
+// Mark a chat room as read for the current participant, up to the given message
+// or the newest message in the room
+export async function POST(request: NextRequest) {
+  try {
+    const { chat_room_id, message_id } = await request.json();
+
+    if (!chat_room_id) {
+      return NextResponse.json(
+        { error: "Missing chat room ID" },
+        { status: 400 }
+      );
+    }
+
+    const { user, admin } = await requireClaimParticipant(chat_room_id);
+
+    let lastReadMessageId = message_id;
+    if (!lastReadMessageId) {
+      const { data: latestMessage } = await admin
+        .from("chat_messages")
+        .select("id")
+        .eq("chat_room_id", chat_room_id)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      // Nothing to read yet
+      if (!latestMessage) {
+        return NextResponse.json({ success: true, readState: null });
+      }
+      lastReadMessageId = latestMessage.id;
+    }
+
+    // Only moves the read position forward, other devices may be ahead already
+    const { data: readState, error: readError } = await admin
+      .rpc("mark_chat_read", {
+        p_chat_room_id: chat_room_id,
+        p_user_id: user.id,
+        p_message_id: lastReadMessageId,
+      })
+      .single();
+
+    if (readError || !readState) {
+      console.error("Error marking messages as read:", readError);
+      // The message isn't part of this room
+      const isUnknownMessage = readError?.code === "23503";
+      return NextResponse.json(
+        {
+          error: isUnknownMessage
+            ? "Message not found in this chat"
+            : "Failed to mark messages as read",
+          message: readError?.message,
+        },
+        { status: isUnknownMessage ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      readState: toChatReadState(readState as ChatReadStateRow),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error marking messages as read:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to mark messages as read",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,67 +1,233 @@
-import { createClient } from "@/lib/server";
+import {
+  ChatAttachmentRow,
+  ChatAttachmentUpload,
+  signAttachments,
+  validateAttachmentUploads,
+} from "@/lib/chat-attachments";
+import { ChatReadStateRow, toChatReadState } from "@/lib/chat-read-state";
+import {
+  ChatModerationResult,
+  describeModerationRules,
+  moderateChatMessage,
+} from "@/lib/chat-moderation";
+import { moderateText } from "@/lib/moderation";
+import { createAdminClient } from "@/lib/server";
+import {
+  ClaimParticipantRole,
+  RouteGuardError,
+  requireClaimParticipant,
+} from "@/lib/route-guards";
+import { assertConversationOpen } from "@/lib/user-blocks";
+import type { User } from "@supabase/supabase-js";
 import { NextRequest, NextResponse } from "next/server";
 
+// Messages per page when the client doesn't ask for a specific number
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Cursor values end up in a filter expression, so only plain timestamps and UUIDs pass
+const TIMESTAMP_PATTERN = /^[0-9T:.+\- Z]+$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type ServerSupabaseClient = ReturnType<typeof createAdminClient>;
+
+// Length of chat_messages.sender_name
+const MAX_SENDER_NAME_LENGTH = 100;
+
+/**
+ * Name shown with a participant's messages. It comes from the claim and the
+ * session, so nobody can post as the other party or as IFound4U.
+ */
+function getSenderName(
+  user: User,
+  claim: { claimer_name: string | null },
+  role: ClaimParticipantRole
+) {
+  const name =
+    role === "claimer"
+      ? claim.claimer_name
+      : user.user_metadata?.displayName || user.user_metadata?.full_name;
+  const fallback = role === "owner" ? "Item Owner" : "Claimer";
+  return (String(name || "").trim() || fallback).slice(
+    0,
+    MAX_SENDER_NAME_LENGTH
+  );
+}
+
+/**
+ * Run a message through OpenAI moderation and the local PII and scam rules
+ * @param message - Message text, may be empty for attachment-only messages
+ */
+async function screenMessage(
+  message: string
+): Promise<ChatModerationResult & { openaiCategories: string[] }> {
+  let openaiCategories: string[] = [];
+
+  if (message.trim() && process.env.OPENAI_API_KEY) {
+    try {
+      openaiCategories = (await moderateText(message)).flaggedCategories;
+    } catch (error) {
+      // Don't hold up the chat when OpenAI is unavailable, the local rules still apply
+      console.error("Error running OpenAI moderation:", error);
+    }
+  }
+
+  return {
+    ...moderateChatMessage(message, { harmful: openaiCategories.length > 0 }),
+    openaiCategories,
+  };
+}
+
+/**
+ * Record a moderation decision for admins. A retried message is only logged once.
+ */
+async function logModerationDecision(
+  admin: ServerSupabaseClient,
+  params: {
+    chatRoomId: string;
+    messageId: string | null;
+    senderId: string;
+    moderation: ChatModerationResult & { openaiCategories: string[] };
+  }
+) {
+  const { error } = await admin.from("chat_moderation_log").upsert(
+    {
+      chat_room_id: params.chatRoomId,
+      message_id: params.messageId,
+      sender_id: params.senderId,
+      action: params.moderation.action,
+      rules: params.moderation.rules,
+      openai_categories: params.moderation.openaiCategories,
+      redacted_content: params.moderation.redactedContent,
+    },
+    { onConflict: "message_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error("Error logging moderation decision:", error);
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { id, chat_room_id, sender_name, sender_email, message, sender_id } =
-      body;
+    const { id, chat_room_id, message = "" } = body;
+    const attachments: ChatAttachmentUpload[] = Array.isArray(body.attachments)
+      ? body.attachments
+      : [];
 
-    // Input validation
-    if (!id || !chat_room_id || !sender_name || !message) {
+    // Input validation, a message can be only attachments
+    if (
+      !id ||
+      !chat_room_id ||
+      (!message && attachments.length === 0)
+    ) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    // Create server-side Supabase client with admin privileges
-    const supabase = await createClient();
+    const attachmentError = validateAttachmentUploads(
+      chat_room_id,
+      attachments
+    );
+    if (attachmentError) {
+      return NextResponse.json({ error: attachmentError }, { status: 400 });
+    }
 
-    // First check if the chat room exists
-    const { data: chatRoomData, error: chatRoomError } = await supabase
-      .from("item_claims")
-      .select("id")
-      .eq("chat_room_id", chat_room_id)
-      .single();
+    // Only participants of the claim can post, as themselves
+    const { user, admin, claim, role } = await requireClaimParticipant(
+      chat_room_id
+    );
+
+    // Nothing is delivered between people who blocked each other
+    await assertConversationOpen(admin, claim, role);
+
+    // Screen the text before anything is stored
+    const moderation = await screenMessage(message);
 
-    if (chatRoomError || !chatRoomData) {
-      console.error("Chat room not found:", chatRoomError);
+    if (moderation.action === "block") {
+      await logModerationDecision(admin, {
+        chatRoomId: chat_room_id,
+        messageId: null,
+        senderId: user.id,
+        moderation,
+      });
       return NextResponse.json(
-        { error: "Chat room not found" },
-        { status: 404 }
+        {
+          error: `Message not sent. ${describeModerationRules(
+            moderation.rules
+          )} For your safety, keep payments and personal details on IFound4U.`,
+          code: "message_blocked",
+          rules: moderation.rules,
+        },
+        { status: 422 }
       );
     }
 
-    // Insert message using admin privileges to bypass RLS
-    const { data: messageData, error: messageError } = await supabase
-      .from("chat_messages")
-      .insert({
-        id,
-        chat_room_id,
-        sender_id,
-        sender_name,
-        sender_email,
-        message,
-        is_read: false,
-        created_at: new Date().toISOString(),
+    // Save the message with its attachments. The client generates the ID, so a
+    // retried send returns the stored message instead of creating a duplicate.
+    const { data: savedMessage, error: messageError } = await admin
+      .rpc("post_chat_message", {
+        p_id: id,
+        p_chat_room_id: chat_room_id,
+        p_sender_id: user.id,
+        p_sender_name: getSenderName(user, claim, role),
+        p_sender_email: user.email || "",
+        p_message: moderation.content,
+        p_attachments: attachments,
+        p_moderation_action: moderation.action,
+        p_moderation_rules: moderation.rules,
       })
-      .select();
+      .single();
 
-    if (messageError) {
+    if (messageError || !savedMessage) {
       console.error("Error saving message:", messageError);
+      // The ID belongs to someone else's message, the client should not retry it as is
+      const isConflict = messageError?.code === "23505";
       return NextResponse.json(
-        { error: "Failed to save message", message: messageError.message },
-        { status: 500 }
+        {
+          error: isConflict ? "Message ID already in use" : "Failed to save message",
+          message: messageError?.message,
+        },
+        { status: isConflict ? 409 : 500 }
       );
     }
 
+    if (moderation.action !== "allow") {
+      await logModerationDecision(admin, {
+        chatRoomId: chat_room_id,
+        messageId: id,
+        senderId: user.id,
+        moderation,
+      });
+    }
+
+    const { data: attachmentRows } = await admin
+      .from("chat_attachments")
+      .select("id, message_id, storage_path, file_name, mime_type, size_bytes")
+      .eq("message_id", id);
+
+    const signedAttachments = await signAttachments(
+      admin,
+      (attachmentRows || []) as ChatAttachmentRow[]
+    );
+
     // Return success response
     return NextResponse.json({
       success: true,
-      message: messageData[0],
+      message: {
+        ...(savedMessage as Record<string, unknown>),
+        attachments: signedAttachments[id] || [],
+      },
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error handling chat message:", error);
     return NextResponse.json(
       { error: "Failed to process message", message: error.message },
@@ -75,6 +241,14 @@ export async function GET(request: NextRequest) {
     // Get chat_room_id from query parameters
     const url = new URL(request.url);
     const chatRoomId = url.searchParams.get("room");
+    // Only return messages created since this time, to fill gaps after a reconnect.
+    // Inclusive, so messages sharing the timestamp aren't missed; clients dedupe by ID.
+    const after = url.searchParams.get("after");
+    // Cursor for older pages: the created_at and ID of the oldest message the client has
+    const before = url.searchParams.get("before");
+    const beforeId = url.searchParams.get("before_id");
+    const limitParam = url.searchParams.get("limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
 
     if (!chatRoomId) {
       return NextResponse.json(
@@ -83,66 +257,58 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Create server-side Supabase client with admin privileges
-    const supabase = await createClient();
-
-    // Get current user context
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    if (after && isNaN(Date.parse(after))) {
+      return NextResponse.json({ error: "Invalid after" }, { status: 400 });
+    }
 
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (before && (isNaN(Date.parse(before)) || !TIMESTAMP_PATTERN.test(before))) {
+      return NextResponse.json({ error: "Invalid before" }, { status: 400 });
     }
 
-    // Get the chat room details to determine user's role (item owner or claimer)
-    const { data: chatRoom } = await supabase
-      .from("item_claims")
-      .select(
-        `
-        id,
-        user_id,
-        claimer_email,
-        item_id,
-        items:items (user_id)
-      `
-      )
-      .eq("chat_room_id", chatRoomId)
-      .single();
+    if (beforeId && (!before || !UUID_PATTERN.test(beforeId))) {
+      return NextResponse.json({ error: "Invalid before_id" }, { status: 400 });
+    }
 
-    if (!chatRoom) {
+    if (after && before) {
       return NextResponse.json(
-        { error: "Chat room not found" },
-        { status: 404 }
+        { error: "Use either after or before, not both" },
+        { status: 400 }
       );
     }
 
-    // Determine if current user is item owner or claimer
-    const isItemOwner = chatRoom.items?.user_id === user.id;
-    const isClaimer =
-      chatRoom.user_id === user.id ||
-      (chatRoom.claimer_email &&
-        chatRoom.claimer_email.toLowerCase() === user.email.toLowerCase());
-
-    if (!isItemOwner && !isClaimer) {
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
       return NextResponse.json(
-        { error: "You don't have permission to view these messages" },
-        { status: 403 }
+        { error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
       );
     }
 
-    console.log("User role in chat:", {
-      isItemOwner,
-      isClaimer,
-      userId: user.id,
-    });
+    const { user, admin, role } = await requireClaimParticipant(chatRoomId);
+    const isItemOwner = role === "owner";
+    const isClaimer = role === "claimer";
 
-    // Get messages
-    const { data: messages, error: messagesError } = await supabase
+    // Newer messages are read forwards from `after`, otherwise we page backwards
+    // from the newest message (or the cursor). One extra row tells if there's more.
+    const ascending = !!after;
+    let messagesQuery = admin
       .from("chat_messages")
       .select("*")
       .eq("chat_room_id", chatRoomId)
-      .order("created_at", { ascending: true });
+      .order("created_at", { ascending })
+      .order("id", { ascending })
+      .limit(limit + 1);
+
+    if (after) {
+      messagesQuery = messagesQuery.gte("created_at", after);
+    } else if (before && beforeId) {
+      messagesQuery = messagesQuery.or(
+        `created_at.lt."${before}",and(created_at.eq."${before}",id.lt.${beforeId})`
+      );
+    } else if (before) {
+      messagesQuery = messagesQuery.lt("created_at", before);
+    }
+
+    const { data: rows, error: messagesError } = await messagesQuery;
 
     if (messagesError) {
       console.error("Error fetching messages:", messagesError);
@@ -152,28 +318,46 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Mark messages from other participants as read if they're already displayed
-    const messagesToMarkAsRead =
-      messages?.filter((msg) => !msg.is_read && msg.sender_id !== user.id) ||
-      [];
+    const hasMore = (rows || []).length > limit;
+    const page = (rows || []).slice(0, limit);
+    // Always oldest first for the client
+    const messages = ascending ? page : page.reverse();
 
-    if (messagesToMarkAsRead.length > 0) {
-      // Update messages in the database as read
-      await supabase
-        .from("chat_messages")
-        .update({ is_read: true })
-        .in(
-          "id",
-          messagesToMarkAsRead.map((msg) => msg.id)
-        );
+    const { data: attachmentRows } =
+      messages.length > 0
+        ? await admin
+            .from("chat_attachments")
+            .select(
+              "id, message_id, storage_path, file_name, mime_type, size_bytes"
+            )
+            .in(
+              "message_id",
+              messages.map((msg) => msg.id)
+            )
+            .order("created_at", { ascending: true })
+        : { data: [] };
 
-      console.log(`Marked ${messagesToMarkAsRead.length} messages as read`);
-    }
+    const attachmentsByMessage = await signAttachments(
+      admin,
+      (attachmentRows || []) as ChatAttachmentRow[]
+    );
+
+    // How far each participant has read, for "seen" receipts
+    const { data: readStateRows } = await admin
+      .from("chat_read_state")
+      .select("user_id, last_read_message_id, last_read_at")
+      .eq("chat_room_id", chatRoomId);
 
-    // Return messages with read status
     return NextResponse.json({
       success: true,
-      messages: messages || [],
+      messages: messages.map((msg) => ({
+        ...msg,
+        attachments: attachmentsByMessage[msg.id] || [],
+      })),
+      hasMore,
+      readStates: ((readStateRows || []) as ChatReadStateRow[]).map(
+        toChatReadState
+      ),
       userContext: {
         isItemOwner,
         isClaimer,
@@ -181,6 +365,10 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error fetching chat messages:", error);
     return NextResponse.json(
       { error: "Failed to fetch messages", message: error.message },
@@ -0,0 +1,105 @@
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
+import {
+  blockClaimParticipant,
+  findClaimBlocks,
+  unblockClaimParticipant,
+} from "@/lib/user-blocks";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET: Whether the signed-in participant blocked the other side. Blocks set by
+// the other side are never revealed.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const {
+      admin: supabase,
+      claim,
+      role,
+    } = await requireClaimParticipantById(id);
+
+    const { ownerBlocks, claimerBlocks } = await findClaimBlocks(
+      supabase,
+      claim
+    );
+
+    return NextResponse.json({
+      blocked: (role === "owner" ? ownerBlocks : claimerBlocks).length > 0,
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching block:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch block", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Block the other participant. Neither side can message the other while
+// the block lasts, and someone blocked by an owner can't claim their items.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const {
+      user,
+      admin: supabase,
+      claim,
+      role,
+    } = await requireClaimParticipantById(id);
+
+    await blockClaimParticipant(supabase, { claim, role, user });
+
+    return NextResponse.json({ blocked: true });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error blocking user:", error);
+    return NextResponse.json(
+      { error: "Failed to block user", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Lift the signed-in participant's block
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const {
+      admin: supabase,
+      claim,
+      role,
+    } = await requireClaimParticipantById(id);
+
+    await unblockClaimParticipant(supabase, claim, role);
+
+    return NextResponse.json({ blocked: false });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error unblocking user:", error);
+    return NextResponse.json(
+      { error: "Failed to unblock user", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
+import {
+  ClaimStatus,
+  getAllowedTransitions,
+} from "@/lib/claim-state-machine";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET: Status history of a claim and the transitions the current user can make
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { admin: supabase, claim, role } =
+      await requireClaimParticipantById(id);
+
+    const { data: history, error } = await supabase
+      .from("claim_status_history")
+      .select(
+        "id, claim_id, from_status, to_status, actor_id, actor_role, reason, created_at"
+      )
+      .eq("claim_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching claim status history:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch claim status history" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      status: claim.status,
+      role,
+      allowedTransitions: getAllowedTransitions(
+        claim.status as ClaimStatus,
+        role
+      ),
+      history: history || [],
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching claim status history:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch claim status history",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
+import {
+  ClaimMeetupRow,
+  buildMeetupIcs,
+  fromClaimMeetupRow,
+} from "@/lib/claim-meetups";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET: Download an agreed meetup as an .ics calendar file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; meetupId: string }> }
+) {
+  try {
+    const { id, meetupId } = await params;
+    const { admin: supabase, claim } = await requireClaimParticipantById(id);
+
+    const { data } = await supabase
+      .from("claim_meetups")
+      .select("*")
+      .eq("id", meetupId)
+      .eq("claim_id", id)
+      .eq("status", "accepted")
+      .maybeSingle();
+
+    if (!data) {
+      return NextResponse.json({ error: "Meetup not found" }, { status: 404 });
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    const chatUrl = `${baseUrl}/messages?room=${encodeURIComponent(
+      claim.chat_room_id
+    )}`;
+    const ics = buildMeetupIcs(
+      fromClaimMeetupRow(data as ClaimMeetupRow),
+      claim.item.title,
+      chatUrl
+    );
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="ifound4u-meetup-${meetupId}.ics"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error exporting meetup:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to export meetup",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
+import {
+  ClaimMeetupRow,
+  MeetupResponse,
+  fromClaimMeetupRow,
+} from "@/lib/claim-meetups";
+import { NextRequest, NextResponse } from "next/server";
+
+const ACTIONS: MeetupResponse[] = ["accept", "decline", "cancel"];
+
+// PATCH: Answer an open proposal. The other participant accepts or declines it,
+// the proposer can cancel it, and either side can cancel an agreed meetup.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; meetupId: string }> }
+) {
+  try {
+    const { id, meetupId } = await params;
+    const { action } = (await request.json()) as { action: MeetupResponse };
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const {
+      user,
+      admin: supabase,
+      role,
+    } = await requireClaimParticipantById(id);
+
+    const { data: meetup } = await supabase
+      .from("claim_meetups")
+      .select("id, status, proposer_role")
+      .eq("id", meetupId)
+      .eq("claim_id", id)
+      .maybeSingle();
+
+    if (!meetup) {
+      return NextResponse.json({ error: "Meetup not found" }, { status: 404 });
+    }
+
+    const isProposer = meetup.proposer_role === role;
+    const allowed =
+      meetup.status === "proposed"
+        ? action === "cancel"
+          ? isProposer
+          : !isProposer
+        : meetup.status === "accepted" && action === "cancel";
+
+    if (!allowed) {
+      return NextResponse.json(
+        {
+          error:
+            meetup.status === "proposed"
+              ? isProposer
+                ? "Wait for the other participant to answer your proposal"
+                : "Only the proposer can cancel this proposal"
+              : "This meetup can no longer be changed",
+        },
+        { status: meetup.status === "proposed" ? 403 : 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+
+    // The newly agreed meetup replaces any earlier one
+    if (action === "accept") {
+      await supabase
+        .from("claim_meetups")
+        .update({ status: "cancelled", updated_at: now })
+        .eq("claim_id", id)
+        .eq("status", "accepted");
+    }
+
+    const { data, error } = await supabase
+      .from("claim_meetups")
+      .update({
+        status:
+          action === "accept"
+            ? "accepted"
+            : action === "decline"
+            ? "declined"
+            : "cancelled",
+        responded_by: user.id,
+        responded_at: now,
+        updated_at: now,
+      })
+      .eq("id", meetupId)
+      .eq("status", meetup.status)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating meetup:", error);
+      return NextResponse.json(
+        { error: "Failed to update meetup", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    // Someone else answered first
+    if (!data) {
+      return NextResponse.json(
+        { error: "This meetup was already answered" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      meetup: fromClaimMeetupRow(data as ClaimMeetupRow),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error updating meetup:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update meetup",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
+import {
+  ClaimMeetupRow,
+  MeetupLocation,
+  fromClaimMeetupRow,
+  validateMeetupProposal,
+} from "@/lib/claim-meetups";
+import { assertConversationOpen } from "@/lib/user-blocks";
+import { NextRequest, NextResponse } from "next/server";
+
+const MEETUPS_LIMIT = 20;
+
+// Handovers are arranged once the owner has accepted the claim
+const MEETUP_CLAIM_STATUSES = ["accepted"];
+
+// GET: Meetups of a claim, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { admin: supabase } = await requireClaimParticipantById(id);
+
+    const { data, error } = await supabase
+      .from("claim_meetups")
+      .select("*")
+      .eq("claim_id", id)
+      .order("created_at", { ascending: false })
+      .limit(MEETUPS_LIMIT);
+
+    if (error) {
+      console.error("Error fetching meetups:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch meetups", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      meetups: ((data || []) as ClaimMeetupRow[]).map(fromClaimMeetupRow),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching meetups:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch meetups",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Propose a meetup, or counter the other participant's open proposal.
+// Any open proposal is replaced: marked countered if it came from the other side.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { startsAt, endsAt, location, note } = (await request.json()) as {
+      startsAt: string;
+      endsAt: string;
+      location: MeetupLocation | null;
+      note?: string | null;
+    };
+
+    const validationError = validateMeetupProposal({
+      startsAt,
+      endsAt,
+      location,
+      note,
+    });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const {
+      user,
+      admin: supabase,
+      claim,
+      role,
+    } = await requireClaimParticipantById(id);
+
+    // A proposal is a message to the other side, a block holds it back too
+    await assertConversationOpen(supabase, claim, role);
+
+    if (!MEETUP_CLAIM_STATUSES.includes(claim.status)) {
+      return NextResponse.json(
+        { error: "Meetups can only be arranged for accepted claims" },
+        { status: 409 }
+      );
+    }
+
+    const { data: openProposal } = await supabase
+      .from("claim_meetups")
+      .select("id, proposer_role")
+      .eq("claim_id", id)
+      .eq("status", "proposed")
+      .maybeSingle();
+
+    if (openProposal) {
+      const { error: replaceError } = await supabase
+        .from("claim_meetups")
+        .update({
+          status: openProposal.proposer_role === role ? "cancelled" : "countered",
+          responded_by: user.id,
+          responded_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", openProposal.id)
+        .eq("status", "proposed");
+
+      if (replaceError) {
+        console.error("Error replacing open proposal:", replaceError);
+        return NextResponse.json(
+          { error: "Failed to propose meetup", message: replaceError.message },
+          { status: 500 }
+        );
+      }
+    }
+
+    const { data, error } = await supabase
+      .from("claim_meetups")
+      .insert({
+        claim_id: id,
+        proposed_by: user.id,
+        proposer_role: role,
+        starts_at: new Date(startsAt).toISOString(),
+        ends_at: new Date(endsAt).toISOString(),
+        location_address: location!.address.trim(),
+        location_latitude: location!.latitude || null,
+        location_longitude: location!.longitude || null,
+        location_place_id: location!.placeId || null,
+        note: note?.trim() || null,
+        counter_of:
+          openProposal && openProposal.proposer_role !== role
+            ? openProposal.id
+            : null,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      console.error("Error proposing meetup:", error);
+      // Another proposal was made at the same moment
+      const isConflict = error?.code === "23505";
+      return NextResponse.json(
+        {
+          error: isConflict
+            ? "A meetup was just proposed, please review it first"
+            : "Failed to propose meetup",
+          message: error?.message,
+        },
+        { status: isConflict ? 409 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      meetup: fromClaimMeetupRow(data as ClaimMeetupRow),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error proposing meetup:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to propose meetup",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
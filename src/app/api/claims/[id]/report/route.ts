@@ -0,0 +1,136 @@
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
+import { blockClaimParticipant } from "@/lib/user-blocks";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  MAX_REPORT_EXCERPTS,
+  MAX_REPORT_EXCERPT_LENGTH,
+  ReportMessageExcerpt,
+  isUserReportReason,
+} from "@/lib/user-reports";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST: Report the other participant of a claim to the moderators, optionally
+// blocking them at the same time. The reported person isn't notified.
+// Body: reason, details?, messageIds? (messages to quote, defaults to their latest), block?
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { reason, block = false } = body;
+    const details = typeof body.details === "string" ? body.details.trim() : "";
+    const messageIds: string[] = Array.isArray(body.messageIds)
+      ? body.messageIds.filter(
+          (messageId: unknown) => typeof messageId === "string"
+        )
+      : [];
+
+    if (!isUserReportReason(reason)) {
+      return NextResponse.json({ error: "Invalid reason" }, { status: 400 });
+    }
+
+    if (reason === "other" && !details) {
+      return NextResponse.json(
+        { error: "Please describe what happened" },
+        { status: 400 }
+      );
+    }
+
+    if (details.length > MAX_REPORT_DETAILS_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      user,
+      admin: supabase,
+      claim,
+      role,
+    } = await requireClaimParticipantById(id);
+
+    // Quote what the reported person wrote, never the reporter's own messages
+    let excerptsQuery = supabase
+      .from("chat_messages")
+      .select("id, sender_name, message, created_at")
+      .eq("chat_room_id", claim.chat_room_id)
+      .eq("message_kind", "user")
+      .neq("sender_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(MAX_REPORT_EXCERPTS);
+
+    if (messageIds.length > 0) {
+      excerptsQuery = excerptsQuery.in(
+        "id",
+        messageIds.slice(0, MAX_REPORT_EXCERPTS)
+      );
+    }
+
+    const { data: excerptRows, error: excerptsError } = await excerptsQuery;
+
+    if (excerptsError) {
+      console.error("Error fetching report excerpts:", excerptsError);
+      return NextResponse.json(
+        { error: "Failed to submit report", message: excerptsError.message },
+        { status: 500 }
+      );
+    }
+
+    const excerpts: ReportMessageExcerpt[] = (excerptRows || [])
+      .reverse()
+      .map((row) => ({
+        id: row.id,
+        senderName: row.sender_name,
+        message: row.message.slice(0, MAX_REPORT_EXCERPT_LENGTH),
+        createdAt: row.created_at,
+      }));
+
+    const { data: report, error: reportError } = await supabase
+      .from("user_reports")
+      .insert({
+        reporter_id: user.id,
+        reporter_role: role,
+        reported_user_id: role === "owner" ? claim.user_id : claim.item.user_id,
+        reported_email: role === "owner" ? claim.claimer_email : null,
+        claim_id: claim.id,
+        chat_room_id: claim.chat_room_id,
+        reason,
+        details: details || null,
+        message_excerpts: excerpts,
+      })
+      .select("id, status, created_at")
+      .single();
+
+    if (reportError) {
+      console.error("Error saving report:", reportError);
+      return NextResponse.json(
+        { error: "Failed to submit report", message: reportError.message },
+        { status: 500 }
+      );
+    }
+
+    if (block) {
+      await blockClaimParticipant(supabase, { claim, role, user });
+    }
+
+    return NextResponse.json({ report, blocked: !!block });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error submitting report:", error);
+    return NextResponse.json(
+      { error: "Failed to submit report", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import {
+  RouteGuardError,
+  requireClaimParticipantOrAdmin,
+} from "@/lib/route-guards";
+import {
+  TranscriptFormat,
+  buildClaimTranscript,
+  renderTranscriptPdf,
+  signTranscript,
+} from "@/lib/chat-transcripts";
+import { NextRequest, NextResponse } from "next/server";
+
+const FORMATS: TranscriptFormat[] = ["json", "pdf"];
+
+// GET: Download the signed transcript of a claim conversation, as JSON or PDF.
+// Available to both participants and to admins handling a dispute.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format = (request.nextUrl.searchParams.get("format") ||
+      "json") as TranscriptFormat;
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+    }
+
+    const {
+      user,
+      admin: supabase,
+      role,
+    } = await requireClaimParticipantOrAdmin(id);
+
+    const exportId = crypto.randomUUID();
+    const transcript = signTranscript(
+      await buildClaimTranscript(supabase, id),
+      exportId
+    );
+
+    // Without the record the signature couldn't be confirmed later
+    const { error: exportError } = await supabase
+      .from("chat_transcript_exports")
+      .insert({
+        id: exportId,
+        claim_id: id,
+        requested_by: user.id,
+        requester_role: role,
+        format,
+        content_sha256: transcript.integrity.sha256,
+        signature: transcript.integrity.signature,
+        message_count: transcript.messages.length,
+      });
+
+    if (exportError) {
+      console.error("Error recording transcript export:", exportError);
+      return NextResponse.json(
+        { error: "Failed to export transcript", message: exportError.message },
+        { status: 500 }
+      );
+    }
+
+    const fileName = `ifound4u-claim-${id}-transcript.${format}`;
+
+    if (format === "pdf") {
+      return new NextResponse(new Uint8Array(renderTranscriptPdf(transcript)), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(transcript, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error exporting transcript:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to export transcript",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
+import {
+  ClaimTransitionError,
+  getAllowedTransitions,
+  isClaimStatus,
+  transitionClaim,
+} from "@/lib/claim-state-machine";
+import { revokeClaimTokens } from "@/lib/claim-tokens";
+import {
+  releaseEscrowForClaim,
+  scheduleEscrowRelease,
+} from "@/lib/payment-escrow";
+import {
+  MAX_TRACKING_NUMBER_LENGTH,
+  ShipmentTracking,
+} from "@/lib/chat-system-messages";
+import { createAdminClient } from "@/lib/server";
+import { NextRequest, NextResponse } from "next/server";
+
+const MAX_REASON_LENGTH = 500;
+const MAX_CARRIER_LENGTH = 50;
+
+type ServerSupabaseClient = ReturnType<typeof createAdminClient>;
+
+// POST: Move a claim to a new status, if the current user is allowed to
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { status, reason, tracking } = await request.json();
+
+    if (!isClaimStatus(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    if (
+      reason &&
+      (typeof reason !== "string" || reason.length > MAX_REASON_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: `Reason must be at most ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Tracking details can be added when the item is marked as shipped
+    let shipmentTracking: ShipmentTracking | null = null;
+    if (status === "shipped" && tracking?.trackingNumber) {
+      if (
+        typeof tracking.trackingNumber !== "string" ||
+        tracking.trackingNumber.trim().length > MAX_TRACKING_NUMBER_LENGTH ||
+        (tracking.carrier &&
+          (typeof tracking.carrier !== "string" ||
+            tracking.carrier.length > MAX_CARRIER_LENGTH))
+      ) {
+        return NextResponse.json(
+          { error: "Invalid tracking details" },
+          { status: 400 }
+        );
+      }
+
+      shipmentTracking = {
+        trackingNumber: tracking.trackingNumber.trim(),
+        carrier: tracking.carrier?.trim() || null,
+      };
+    }
+
+    // The item owner decides on the claim, the claimer confirms delivery
+    const {
+      user,
+      admin: supabase,
+      role: actorRole,
+    } = await requireClaimParticipantById(id);
+
+    const result = await transitionClaim(supabase, {
+      claimId: id,
+      to: status,
+      actorId: user.id,
+      actorRole,
+      reason: reason?.trim() || null,
+      systemEvent:
+        status === "shipped"
+          ? {
+              type: "item_shipped",
+              payload: {
+                tracking: shipmentTracking,
+                reason: reason?.trim() || null,
+              },
+            }
+          : undefined,
+    });
+
+    if (result.to === "shipped" && shipmentTracking) {
+      await saveShipmentTracking(supabase, id, shipmentTracking);
+    }
+
+    // Escrowed funds are released automatically some time after shipping,
+    // or right away when the claimer confirms delivery
+    if (result.to === "shipped") {
+      await scheduleEscrowRelease(supabase, id);
+    }
+
+    if (result.to === "delivered") {
+      await releaseEscrowForClaim(supabase, id, "delivery");
+    }
+
+    // Emailed links must stop working once the claim is rejected
+    if (result.to === "rejected") {
+      await revokeClaimTokens(supabase, id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      allowedTransitions: getAllowedTransitions(result.to, actorRole),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    if (error instanceof ClaimTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error changing claim status:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to change claim status",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Store the tracking details with the shipping address of the claim's payment
+ */
+async function saveShipmentTracking(
+  supabase: ServerSupabaseClient,
+  claimId: string,
+  tracking: ShipmentTracking
+) {
+  const { data: payments } = await supabase
+    .from("payments")
+    .select("id")
+    .eq("claim_id", claimId)
+    .eq("status", "succeeded");
+
+  if (!payments || payments.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("shipping_details")
+    .update({
+      tracking_number: tracking.trackingNumber,
+      shipping_provider: tracking.carrier,
+      status: "shipped",
+      updated_at: new Date().toISOString(),
+    })
+    .in(
+      "payment_id",
+      payments.map((payment) => payment.id)
+    );
+
+  if (error) {
+    // The claim is already marked as shipped, the chat still has the tracking number
+    console.error("Error saving tracking details:", error);
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
+import { VerificationComparison } from "@/lib/verification";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET: Side-by-side comparison of the expected and given answers of a claim (item owner only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { admin: supabase, role } = await requireClaimParticipantById(id);
+
+    if (role !== "owner") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data: answers, error } = await supabase
+      .from("claim_verification_answers")
+      .select(
+        `
+        question,
+        answer,
+        is_match,
+        created_at,
+        verification_question:question_id (expected_answer, position)
+      `
+      )
+      .eq("claim_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching verification answers:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch verification answers" },
+        { status: 500 }
+      );
+    }
+
+    const rows = (answers || []).map((row) => ({
+      ...row,
+      verification_question: row.verification_question as unknown as {
+        expected_answer: string;
+        position: number;
+      } | null,
+    }));
+
+    // Keep the order the reporter gave the questions in
+    rows.sort(
+      (a, b) =>
+        (a.verification_question?.position ?? Number.MAX_SAFE_INTEGER) -
+        (b.verification_question?.position ?? Number.MAX_SAFE_INTEGER)
+    );
+
+    const comparison: VerificationComparison[] = rows.map((row) => ({
+      question: row.question,
+      expectedAnswer: row.verification_question?.expected_answer ?? null,
+      answer: row.answer,
+      isMatch: row.is_match,
+    }));
+
+    return NextResponse.json({ comparison });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching verification answers:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch verification answers",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
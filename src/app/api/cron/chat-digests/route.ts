@@ -0,0 +1,237 @@
+import { createAdminClient } from "@/lib/server";
+import { sendEmail } from "@/lib/ses-client";
+import { issueClaimToken } from "@/lib/claim-tokens";
+import { NextRequest, NextResponse } from "next/server";
+
+// Messages have to stay unread this long before they're emailed
+const DIGEST_AFTER_MINUTES = Number(
+  process.env.CHAT_DIGEST_AFTER_MINUTES || 15
+);
+// At most one digest per room and recipient within this window
+const DIGEST_WINDOW_MINUTES = Number(
+  process.env.CHAT_DIGEST_WINDOW_MINUTES || 360
+);
+// Maximum number of digests sent in a single run, the next run picks up the rest
+const BATCH_SIZE = 100;
+// Latest messages quoted in the email, the rest are only counted
+const MESSAGES_PER_DIGEST = 5;
+const MINUTE_MS = 60 * 1000;
+
+type ServerSupabaseClient = ReturnType<typeof createAdminClient>;
+
+interface DigestCandidate {
+  claim_id: string;
+  chat_room_id: string;
+  item_title: string;
+  recipient_user_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  message_count: number;
+  last_message_at: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Chat digest job, meant to be called every few minutes by a cron or local scheduler.
+ * Emails participants who have messages that stayed unread, one email per recipient
+ * and room with the latest messages and a link back to the chat.
+ *
+ * Requires an `Authorization: Bearer <CRON_SECRET>` header.
+ */
+async function runChatDigests(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    const now = Date.now();
+
+    const { data: candidates, error } = await supabase.rpc(
+      "get_chat_digest_candidates",
+      {
+        p_unread_before: new Date(
+          now - DIGEST_AFTER_MINUTES * MINUTE_MS
+        ).toISOString(),
+        p_window_start: new Date(
+          now - DIGEST_WINDOW_MINUTES * MINUTE_MS
+        ).toISOString(),
+        p_limit: BATCH_SIZE,
+      }
+    );
+
+    if (error) {
+      throw new Error(`Error fetching digest candidates: ${error.message}`);
+    }
+
+    let sent = 0;
+    for (const candidate of (candidates || []) as DigestCandidate[]) {
+      try {
+        if (await sendDigest(supabase, baseUrl, candidate)) {
+          sent++;
+        }
+      } catch (digestError) {
+        console.error(
+          `Error sending chat digest for room ${candidate.chat_room_id}:`,
+          (digestError as Error).message
+        );
+      }
+    }
+
+    console.log(`Chat digests: ${sent} sent`);
+
+    return NextResponse.json({ success: true, sent });
+  } catch (error) {
+    console.error("Error running chat digest job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run chat digest job",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = runChatDigests;
+export const POST = runChatDigests;
+
+/**
+ * Email one recipient the messages waiting for them in one room, and record the
+ * digest so the same messages aren't sent again and the window is respected
+ * @returns True when the email went out
+ */
+async function sendDigest(
+  supabase: ServerSupabaseClient,
+  baseUrl: string,
+  candidate: DigestCandidate
+) {
+  const recipientEmail = candidate.recipient_email.toLowerCase();
+  const messageCount = Number(candidate.message_count);
+
+  const { data: recentMessages, error } = await supabase
+    .from("chat_messages")
+    .select("id, sender_id, sender_email, sender_name, message, created_at")
+    .eq("chat_room_id", candidate.chat_room_id)
+    .eq("message_kind", "user")
+    .lte("created_at", candidate.last_message_at)
+    .order("created_at", { ascending: false })
+    .limit(MESSAGES_PER_DIGEST * 4);
+
+  if (error) {
+    throw new Error(`Error fetching messages: ${error.message}`);
+  }
+
+  // Only quote what the other side wrote
+  const quoted = (recentMessages || [])
+    .filter(
+      (message) =>
+        message.sender_email?.toLowerCase() !== recipientEmail &&
+        (!candidate.recipient_user_id ||
+          message.sender_id !== candidate.recipient_user_id)
+    )
+    .slice(0, Math.min(messageCount, MESSAGES_PER_DIGEST))
+    .reverse();
+
+  // Guests (and reporters without an account) get a single-use link to the chat
+  let chatUrl = `${baseUrl}/messages?room=${encodeURIComponent(
+    candidate.chat_room_id
+  )}`;
+  if (!candidate.recipient_user_id) {
+    const token = await issueClaimToken(supabase, {
+      claimId: candidate.claim_id,
+      chatRoomId: candidate.chat_room_id,
+      email: recipientEmail,
+    });
+    chatUrl = `${baseUrl}/verify-claim?token=${token}`;
+  }
+
+  const itemTitle = candidate.item_title;
+  const newMessages =
+    messageCount === 1 ? "a new message" : `${messageCount} new messages`;
+  const hiddenCount = messageCount - quoted.length;
+
+  const result = await sendEmail({
+    to: recipientEmail,
+    subject: `You have ${newMessages} about "${itemTitle}"`,
+    html: `
+      <h2>You have ${newMessages}</h2>
+      <p>Hello ${escapeHtml(candidate.recipient_name || "there")},</p>
+      <p>Here is what was said about <strong>${escapeHtml(itemTitle)}</strong> while you were away:</p>
+      ${quoted
+        .map(
+          (message) => `
+            <p style="border-left: 3px solid #E5E7EB; padding-left: 12px;">
+              <strong>${escapeHtml(message.sender_name)}</strong>
+              <span style="color: #6B7280;">${new Date(message.created_at).toUTCString()}</span><br />
+              ${message.message ? escapeHtml(message.message) : "<em>Sent an attachment</em>"}
+            </p>
+          `
+        )
+        .join("")}
+      ${hiddenCount > 0 ? `<p>…and ${hiddenCount} more.</p>` : ""}
+      <p><a href="${chatUrl}" style="display: inline-block; background-color: #4F46E5; color: white; padding: 12px 20px; text-decoration: none; border-radius: 5px;">Reply in Chat</a></p>
+      ${
+        candidate.recipient_user_id
+          ? `<p style="color: #6B7280; font-size: 12px;">You can turn these emails off in your <a href="${baseUrl}/settings/alerts">notification settings</a>.</p>`
+          : ""
+      }
+      <p>Thank you for using IFound4U!</p>
+    `,
+    text: `
+      You have ${newMessages} about "${itemTitle}"
+
+      ${quoted
+        .map(
+          (message) =>
+            `${message.sender_name}: ${message.message || "Sent an attachment"}`
+        )
+        .join("\n      ")}
+      ${hiddenCount > 0 ? `…and ${hiddenCount} more.` : ""}
+
+      Reply in the chat:
+      ${chatUrl}
+
+      Thank you for using IFound4U!
+    `,
+  });
+
+  if (!result.success) {
+    // Try again on the next run
+    return false;
+  }
+
+  const { error: insertError } = await supabase.from("chat_digests").insert({
+    chat_room_id: candidate.chat_room_id,
+    recipient_email: recipientEmail,
+    recipient_user_id: candidate.recipient_user_id,
+    message_count: messageCount,
+    last_message_at: candidate.last_message_at,
+  });
+
+  if (insertError) {
+    console.error(
+      `Error saving chat digest for room ${candidate.chat_room_id}:`,
+      insertError.message
+    );
+  }
+
+  return true;
+}
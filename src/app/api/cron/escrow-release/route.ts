@@ -0,0 +1,86 @@
+import { createAdminClient } from "@/lib/server";
+import { EscrowPaymentRow, releaseEscrowPayment } from "@/lib/payment-escrow";
+import { NextRequest, NextResponse } from "next/server";
+
+// Maximum number of payments released in a single run, the next run picks up the rest
+const BATCH_SIZE = 50;
+
+/**
+ * Escrow auto-release job, meant to be called hourly by a cron or local scheduler.
+ * Transfers held payments to finders once their release time has passed, unless an
+ * admin put the payout on hold. Also retries releases that failed on delivery.
+ *
+ * Requires an `Authorization: Bearer <CRON_SECRET>` header.
+ */
+async function runEscrowRelease(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    const { data: payments, error } = await supabase
+      .from("payments")
+      .select(
+        "id, claim_id, amount, currency, transfer_amount, destination_account_id, stripe_payment_intent_id, stripe_charge_id, escrow_status, release_after, hold_reason, stripe_transfer_id, item_claims (status)"
+      )
+      .eq("escrow_status", "held")
+      .is("hold_reason", null)
+      .lte("release_after", new Date().toISOString())
+      .order("release_after", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Error fetching due payments: ${error.message}`);
+    }
+
+    let released = 0;
+    for (const row of payments || []) {
+      // Releases that failed when the claimer confirmed delivery keep that trigger
+      const claim = row.item_claims as unknown as { status: string } | null;
+      const trigger = ["delivered", "resolved"].includes(claim?.status || "")
+        ? "delivery"
+        : "timer";
+
+      try {
+        await releaseEscrowPayment(
+          supabase,
+          row as unknown as EscrowPaymentRow,
+          trigger
+        );
+        released++;
+      } catch (releaseError) {
+        console.error(
+          `Error releasing payment ${row.id}:`,
+          (releaseError as Error).message
+        );
+      }
+    }
+
+    console.log(`Escrow release: ${released} payments released`);
+
+    return NextResponse.json({ success: true, released });
+  } catch (error) {
+    console.error("Error running escrow release job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run escrow release job",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = runEscrowRelease;
+export const POST = runEscrowRelease;
@@ -0,0 +1,219 @@
+import { createAdminClient } from "@/lib/server";
+import { sendEmail } from "@/lib/ses-client";
+import { transitionClaim } from "@/lib/claim-state-machine";
+import {
+  EXPIRE_AFTER_REMINDER_DAYS,
+  REMINDER_AFTER_DAYS,
+  signLifecycleToken,
+} from "@/lib/item-lifecycle";
+import { NextRequest, NextResponse } from "next/server";
+
+// Maximum number of rows handled per step in a single run, the next run picks up the rest
+const BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ServerSupabaseClient = ReturnType<typeof createAdminClient>;
+
+/**
+ * Item lifecycle job, meant to be called daily by a cron or local scheduler:
+ * 1. resolves items whose claim was delivered
+ * 2. expires items whose reporter didn't answer the reminder
+ * 3. emails reporters of old open items asking whether the item is still lost/found
+ * 4. rebuilds the search vocabulary used for "did you mean" suggestions
+ *
+ * Requires an `Authorization: Bearer <CRON_SECRET>` header.
+ */
+async function runItemLifecycle(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+
+    const resolved = await resolveDeliveredItems(supabase);
+    const expired = await expireUnansweredItems(supabase);
+    const reminded = await sendReminders(supabase, baseUrl);
+
+    // Suggestions are only a hint, a failed refresh shouldn't fail the job
+    const { error: refreshError } = await supabase.rpc(
+      "refresh_item_search_words"
+    );
+    if (refreshError) {
+      console.error("Error refreshing search vocabulary:", refreshError);
+    }
+
+    console.log(
+      `Item lifecycle: ${resolved} resolved, ${expired} expired, ${reminded} reminded`
+    );
+
+    return NextResponse.json({ success: true, resolved, expired, reminded });
+  } catch (error) {
+    console.error("Error running item lifecycle job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run item lifecycle job",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = runItemLifecycle;
+export const POST = runItemLifecycle;
+
+/**
+ * Close delivered claims, which also marks their items as resolved
+ */
+async function resolveDeliveredItems(supabase: ServerSupabaseClient) {
+  const { data: claims, error } = await supabase
+    .from("item_claims")
+    .select("id")
+    .eq("status", "delivered")
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Error fetching delivered claims: ${error.message}`);
+  }
+
+  let count = 0;
+  for (const claim of claims || []) {
+    try {
+      await transitionClaim(supabase, {
+        claimId: claim.id,
+        to: "resolved",
+        actorId: null,
+        actorRole: "system",
+        reason: "Item delivered to its owner",
+      });
+      count++;
+    } catch (transitionError) {
+      console.error(
+        `Error resolving claim ${claim.id}:`,
+        (transitionError as Error).message
+      );
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Expire open items whose reminder went unanswered.
+ * Answering the reminder clears reminder_sent_at, so any item still
+ * carrying an old reminder was never confirmed.
+ */
+async function expireUnansweredItems(supabase: ServerSupabaseClient) {
+  const cutoff = new Date(
+    Date.now() - EXPIRE_AFTER_REMINDER_DAYS * DAY_MS
+  ).toISOString();
+
+  const { data: items, error } = await supabase
+    .from("items")
+    .update({ status: "expired", expired_at: new Date().toISOString() })
+    .in("status", ["pending", "verified"])
+    .eq("is_claimed", false)
+    .lt("reminder_sent_at", cutoff)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Error expiring items: ${error.message}`);
+  }
+
+  return items?.length || 0;
+}
+
+/**
+ * Ask reporters of open items that haven't been confirmed in a while
+ * whether the item is still lost or found
+ */
+async function sendReminders(supabase: ServerSupabaseClient, baseUrl: string) {
+  const cutoff = new Date(
+    Date.now() - REMINDER_AFTER_DAYS * DAY_MS
+  ).toISOString();
+
+  const { data: items, error } = await supabase
+    .from("items")
+    .select("id, type, title, created_at, contact_info (name, email)")
+    .in("status", ["pending", "verified"])
+    .eq("is_claimed", false)
+    .is("reminder_sent_at", null)
+    .or(
+      `last_confirmed_at.lt.${cutoff},and(last_confirmed_at.is.null,created_at.lt.${cutoff})`
+    )
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Error fetching items to remind: ${error.message}`);
+  }
+
+  let count = 0;
+  for (const item of items || []) {
+    const contact = (
+      item.contact_info as unknown as Array<{ name: string; email: string }>
+    )?.[0];
+    const reminderSentAt = new Date().toISOString();
+
+    // Without a contact the reminder can't be answered, the item simply expires later
+    if (contact?.email) {
+      const token = signLifecycleToken(item.id, reminderSentAt);
+      const statusUrl = `${baseUrl}/item/${item.id}/status?token=${token}`;
+      const stillOpen = item.type === "lost" ? "still lost" : "still unclaimed";
+
+      const result = await sendEmail({
+        to: contact.email,
+        subject: `Is "${item.title}" ${stillOpen}?`,
+        html: `
+          <h2>Is your ${item.type} item ${stillOpen}?</h2>
+          <p>Hello ${contact.name || "there"},</p>
+          <p>You reported <strong>${item.title}</strong> as ${item.type} a while ago. Please let us know whether it is ${stillOpen} so we can keep the listings up to date.</p>
+          <p><a href="${statusUrl}" style="display: inline-block; background-color: #4F46E5; color: white; padding: 12px 20px; text-decoration: none; border-radius: 5px;">Update Item Status</a></p>
+          <p>If we don't hear from you within ${EXPIRE_AFTER_REMINDER_DAYS} days, the report will be marked as expired and hidden from search.</p>
+          <p>Thank you for using IFound4U!</p>
+        `,
+        text: `
+          Is your ${item.type} item ${stillOpen}?
+
+          You reported "${item.title}" as ${item.type} a while ago. Please let us know whether it is ${stillOpen}:
+          ${statusUrl}
+
+          If we don't hear from you within ${EXPIRE_AFTER_REMINDER_DAYS} days, the report will be marked as expired and hidden from search.
+
+          Thank you for using IFound4U!
+        `,
+      });
+
+      if (!result.success) {
+        // Try again on the next run
+        continue;
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from("items")
+      .update({ reminder_sent_at: reminderSentAt })
+      .eq("id", item.id);
+
+    if (updateError) {
+      console.error(
+        `Error saving reminder for item ${item.id}:`,
+        updateError.message
+      );
+    } else {
+      count++;
+    }
+  }
+
+  return count;
+}
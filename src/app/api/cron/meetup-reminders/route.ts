@@ -0,0 +1,272 @@
+import { createAdminClient } from "@/lib/server";
+import { sendEmail } from "@/lib/ses-client";
+import { issueClaimToken } from "@/lib/claim-tokens";
+import {
+  ClaimMeetup,
+  ClaimMeetupRow,
+  formatMeetupWindow,
+  fromClaimMeetupRow,
+  getMeetupMapsUrl,
+} from "@/lib/claim-meetups";
+import { NextRequest, NextResponse } from "next/server";
+
+// Remind both participants this long before an agreed meetup starts
+const REMINDER_HOURS = Number(process.env.MEETUP_REMINDER_HOURS || 24);
+// Maximum number of meetups handled in a single run, the next run picks up the rest
+const BATCH_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+
+type ServerSupabaseClient = ReturnType<typeof createAdminClient>;
+
+interface MeetupClaim {
+  id: string;
+  chat_room_id: string;
+  user_id: string | null;
+  claimer_name: string | null;
+  claimer_email: string;
+  items: {
+    id: string;
+    title: string;
+    user_id: string | null;
+    contact_info: Array<{ name: string; email: string }> | null;
+  };
+}
+
+interface ReminderRecipient {
+  userId: string | null;
+  email: string;
+  name: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Meetup reminder job, meant to be called hourly by a cron or local scheduler.
+ * Emails both participants of agreed meetups that start soon, once per meetup.
+ *
+ * Requires an `Authorization: Bearer <CRON_SECRET>` header.
+ */
+async function runMeetupReminders(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    const now = Date.now();
+
+    const { data: meetups, error } = await supabase
+      .from("claim_meetups")
+      .select(
+        "*, item_claims (id, chat_room_id, user_id, claimer_name, claimer_email, items (id, title, user_id, contact_info (name, email)))"
+      )
+      .eq("status", "accepted")
+      .is("reminder_sent_at", null)
+      .gt("starts_at", new Date(now).toISOString())
+      .lte("starts_at", new Date(now + REMINDER_HOURS * HOUR_MS).toISOString())
+      .order("starts_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Error fetching upcoming meetups: ${error.message}`);
+    }
+
+    let reminded = 0;
+    for (const row of meetups || []) {
+      try {
+        if (
+          await remindParticipants(
+            supabase,
+            baseUrl,
+            fromClaimMeetupRow(row as ClaimMeetupRow),
+            row.item_claims as unknown as MeetupClaim
+          )
+        ) {
+          reminded++;
+        }
+      } catch (reminderError) {
+        console.error(
+          `Error sending reminder for meetup ${row.id}:`,
+          (reminderError as Error).message
+        );
+      }
+    }
+
+    console.log(`Meetup reminders: ${reminded} meetups reminded`);
+
+    return NextResponse.json({ success: true, reminded });
+  } catch (error) {
+    console.error("Error running meetup reminder job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run meetup reminder job",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = runMeetupReminders;
+export const POST = runMeetupReminders;
+
+/**
+ * Email the item owner and the claimer about an upcoming meetup and mark it as reminded
+ * @returns True when at least one participant was emailed
+ */
+async function remindParticipants(
+  supabase: ServerSupabaseClient,
+  baseUrl: string,
+  meetup: ClaimMeetup,
+  claim: MeetupClaim
+) {
+  const recipients: ReminderRecipient[] = [
+    await getOwnerRecipient(supabase, claim),
+    {
+      userId: claim.user_id,
+      email: claim.claimer_email,
+      name: claim.claimer_name,
+    },
+  ].filter((recipient): recipient is ReminderRecipient => !!recipient?.email);
+
+  let sent = 0;
+  for (const recipient of recipients) {
+    if (await sendReminder(supabase, baseUrl, meetup, claim, recipient)) {
+      sent++;
+    }
+  }
+
+  if (sent === 0) {
+    // Try again on the next run
+    return false;
+  }
+
+  const { error } = await supabase
+    .from("claim_meetups")
+    .update({ reminder_sent_at: new Date().toISOString() })
+    .eq("id", meetup.id);
+
+  if (error) {
+    console.error(
+      `Error marking meetup ${meetup.id} as reminded:`,
+      error.message
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Contact of the item owner, from the item's contact info or their account
+ */
+async function getOwnerRecipient(
+  supabase: ServerSupabaseClient,
+  claim: MeetupClaim
+): Promise<ReminderRecipient | null> {
+  const contact = claim.items.contact_info?.[0];
+  if (contact?.email) {
+    return {
+      userId: claim.items.user_id,
+      email: contact.email,
+      name: contact.name,
+    };
+  }
+
+  if (claim.items.user_id) {
+    const { data: userData } = await supabase.auth.admin.getUserById(
+      claim.items.user_id
+    );
+    if (userData?.user?.email) {
+      return {
+        userId: claim.items.user_id,
+        email: userData.user.email,
+        name: userData.user.user_metadata?.full_name || null,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Email one participant the time and place of the meetup
+ * @returns True when the email went out
+ */
+async function sendReminder(
+  supabase: ServerSupabaseClient,
+  baseUrl: string,
+  meetup: ClaimMeetup,
+  claim: MeetupClaim,
+  recipient: ReminderRecipient
+) {
+  const recipientEmail = recipient.email.toLowerCase();
+
+  // Guests (and reporters without an account) get a single-use link to the chat
+  let chatUrl = `${baseUrl}/messages?room=${encodeURIComponent(
+    claim.chat_room_id
+  )}`;
+  if (!recipient.userId) {
+    const token = await issueClaimToken(supabase, {
+      claimId: claim.id,
+      chatRoomId: claim.chat_room_id,
+      email: recipientEmail,
+    });
+    chatUrl = `${baseUrl}/verify-claim?token=${token}`;
+  }
+
+  const itemTitle = claim.items.title;
+  // Server time zone, so the UTC time is spelled out as well
+  const meetupWindow = formatMeetupWindow(meetup.startsAt, meetup.endsAt);
+  const startsAtUtc = new Date(meetup.startsAt).toUTCString();
+  const mapsUrl = getMeetupMapsUrl(meetup.location);
+
+  const result = await sendEmail({
+    to: recipientEmail,
+    subject: `Reminder: handover of "${itemTitle}" is coming up`,
+    html: `
+      <h2>Your handover meetup is coming up</h2>
+      <p>Hello ${escapeHtml(recipient.name || "there")},</p>
+      <p>This is a reminder that you agreed to meet for the handover of <strong>${escapeHtml(itemTitle)}</strong>:</p>
+      <p style="border-left: 3px solid #E5E7EB; padding-left: 12px;">
+        <strong>${escapeHtml(meetupWindow)}</strong><br />
+        <span style="color: #6B7280;">Starts ${startsAtUtc}</span><br />
+        <a href="${mapsUrl}">${escapeHtml(meetup.location.address)}</a>
+        ${meetup.note ? `<br />${escapeHtml(meetup.note)}` : ""}
+      </p>
+      <p>If your plans changed, please let the other participant know in the chat.</p>
+      <p><a href="${chatUrl}" style="display: inline-block; background-color: #4F46E5; color: white; padding: 12px 20px; text-decoration: none; border-radius: 5px;">Open Chat</a></p>
+      <p>Thank you for using IFound4U!</p>
+    `,
+    text: `
+      Your handover meetup for "${itemTitle}" is coming up
+
+      When: ${meetupWindow} (starts ${startsAtUtc})
+      Where: ${meetup.location.address}
+      ${mapsUrl}
+      ${meetup.note ? `Note: ${meetup.note}` : ""}
+
+      If your plans changed, please let the other participant know in the chat:
+      ${chatUrl}
+
+      Thank you for using IFound4U!
+    `,
+  });
+
+  return result.success;
+}
@@ -1,8 +1,11 @@
-import { createClient } from "@/lib/server";
+import { RouteGuardError, requireAdmin } from "@/lib/route-guards";
 import { NextRequest, NextResponse } from "next/server";
 
+// Admin only: exposes claims of other users
 export async function GET(request: NextRequest) {
   try {
+    const { user, admin: supabase } = await requireAdmin();
+
     const url = new URL(request.url);
     const roomId = url.searchParams.get("room");
 
@@ -15,8 +18,6 @@ export async function GET(request: NextRequest) {
 
     const decodedRoomId = decodeURIComponent(roomId);
 
-    const supabase = await createClient();
-
     // 1. Check if the chat room exists
     console.log(`Checking if chat room exists: ${decodedRoomId}`);
     const { data: chatRoom, error: chatRoomError } = await supabase
@@ -43,11 +44,9 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // 2. Get current authenticated user (if any)
-    const { data: authData } = await supabase.auth.getUser();
-    const userId = authData?.user?.id;
+    // 2. Check if the given user (or the admin) can access this chat room
+    const userId = url.searchParams.get("user") || user.id;
 
-    // 3. Check if this user can access this chat room
     let hasPermission = false;
     let reason = "Unknown user";
 
@@ -79,7 +78,7 @@ export async function GET(request: NextRequest) {
       itemId: chatRoom.item_id,
       claimerId: chatRoom.user_id,
       status: chatRoom.status,
-      currentUserId: userId || "Not authenticated",
+      currentUserId: userId,
       hasPermission,
       reason,
       message: hasPermission
@@ -87,6 +86,10 @@ export async function GET(request: NextRequest) {
         : "You don't have permission to access this chat room",
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error in debug chat room endpoint:", error);
     return NextResponse.json(
       { error: "Server error", details: error.message },
@@ -1,4 +1,5 @@
 import { createClient } from "@/lib/server";
+import { moderateText } from "@/lib/moderation";
 import { NextResponse } from "next/server";
 import OpenAI from "openai";
 
@@ -41,19 +42,12 @@ export async function POST(request: Request) {
     const description = analysisResponse.choices[0]?.message?.content || "";
 
     // Run content moderation
-    const moderationResponse = await openai.moderations.create({
-      input: description,
-    });
-
-    const moderation = moderationResponse.results[0];
-    const hasFlaggedCategories = Object.values(moderation.categories).some(
-      (value) => value === true
-    );
+    const moderation = await moderateText(description);
 
     return NextResponse.json({
       description,
       moderation: {
-        approved: !hasFlaggedCategories,
+        approved: !moderation.flagged,
         categories: moderation.categories,
       },
     });
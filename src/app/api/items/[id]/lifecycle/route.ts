@@ -0,0 +1,89 @@
+import { getSessionUser } from "@/lib/route-guards";
+import { LifecycleAction, verifyLifecycleToken } from "@/lib/item-lifecycle";
+import { NextRequest, NextResponse } from "next/server";
+
+const ACTIONS: LifecycleAction[] = ["keep", "resolve"];
+
+// POST: Answer a lifecycle reminder, either with the signed link token or as the item owner
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { action, token } = await request.json();
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const { user, admin: supabase } = await getSessionUser();
+
+    const { data: item } = await supabase
+      .from("items")
+      .select("id, user_id, status, reminder_sent_at")
+      .eq("id", id)
+      .single();
+
+    if (!item) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    let isAuthorized =
+      typeof token === "string" &&
+      !!item.reminder_sent_at &&
+      verifyLifecycleToken(token, item.id, item.reminder_sent_at);
+
+    if (!isAuthorized) {
+      isAuthorized = !!user && item.user_id === user.id;
+    }
+
+    if (!isAuthorized) {
+      return NextResponse.json(
+        { error: "This link is invalid or has already been used" },
+        { status: 403 }
+      );
+    }
+
+    if (item.status === "resolved") {
+      return NextResponse.json(
+        { error: "This item has already been resolved" },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const update =
+      action === "keep"
+        ? {
+            // Expired items go back into the listings
+            status: item.status === "expired" ? "pending" : item.status,
+            last_confirmed_at: now,
+            reminder_sent_at: null,
+            expired_at: null,
+          }
+        : {
+            status: "resolved",
+            resolved_at: now,
+            reminder_sent_at: null,
+          };
+
+    const { error } = await supabase.from("items").update(update).eq("id", id);
+
+    if (error) {
+      console.error("Error updating item lifecycle:", error);
+      return NextResponse.json(
+        { error: "Failed to update item", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, status: update.status });
+  } catch (error) {
+    console.error("Error updating item lifecycle:", error);
+    return NextResponse.json(
+      { error: "Failed to update item", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { createAdminClient } from "@/lib/server";
+import { RouteGuardError, requireItemOwner } from "@/lib/route-guards";
+import {
+  MAX_VERIFICATION_QUESTIONS,
+  VerificationQuestionInput,
+} from "@/lib/verification";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET: Verification questions of an item. Expected answers are only returned to the owner.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const withAnswers =
+      request.nextUrl.searchParams.get("withAnswers") === "true";
+
+    // Questions are hidden from visitors by RLS, only the selected columns are exposed
+    const supabase = withAnswers
+      ? (await requireItemOwner(id)).admin
+      : createAdminClient();
+
+    const { data, error } = await supabase
+      .from("item_verification_questions")
+      .select(
+        withAnswers ? "id, question, expected_answer" : "id, question"
+      )
+      .eq("item_id", id)
+      .order("position", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching verification questions:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch verification questions" },
+        { status: 500 }
+      );
+    }
+
+    const questions = (
+      (data || []) as unknown as Array<{
+        id: string;
+        question: string;
+        expected_answer?: string;
+      }>
+    ).map((question) => ({
+      id: question.id,
+      question: question.question,
+      ...(withAnswers ? { answer: question.expected_answer } : {}),
+    }));
+
+    return NextResponse.json({ questions });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching verification questions:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch verification questions",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Replace the verification questions of an item (owner only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { questions } = (await request.json()) as {
+      questions?: VerificationQuestionInput[];
+    };
+
+    if (!Array.isArray(questions)) {
+      return NextResponse.json(
+        { error: "Questions are required" },
+        { status: 400 }
+      );
+    }
+
+    const cleaned = questions
+      .map((question) => ({
+        id: question.id,
+        question: question.question?.trim() || "",
+        answer: question.answer?.trim() || "",
+      }))
+      .filter((question) => question.question || question.answer);
+
+    if (cleaned.length > MAX_VERIFICATION_QUESTIONS) {
+      return NextResponse.json(
+        {
+          error: `You can add at most ${MAX_VERIFICATION_QUESTIONS} verification questions`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (cleaned.some((question) => !question.question || !question.answer)) {
+      return NextResponse.json(
+        { error: "Every verification question needs an answer" },
+        { status: 400 }
+      );
+    }
+
+    const { admin: supabase } = await requireItemOwner(id);
+
+    const { data: existing } = await supabase
+      .from("item_verification_questions")
+      .select("id")
+      .eq("item_id", id);
+
+    // Remove questions that are no longer in the list
+    const keptIds = cleaned
+      .map((question) => question.id)
+      .filter((questionId): questionId is string => !!questionId);
+    const removedIds = (existing || [])
+      .map((question) => question.id)
+      .filter((questionId) => !keptIds.includes(questionId));
+
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("item_verification_questions")
+        .delete()
+        .in("id", removedIds);
+
+      if (deleteError) {
+        throw new Error(deleteError.message);
+      }
+    }
+
+    // Update the kept questions in place so existing claim answers stay linked
+    for (const [position, question] of cleaned.entries()) {
+      const values = {
+        question: question.question,
+        expected_answer: question.answer,
+        position,
+      };
+
+      const { error: saveError } =
+        question.id && existing?.some((q) => q.id === question.id)
+          ? await supabase
+              .from("item_verification_questions")
+              .update(values)
+              .eq("id", question.id)
+              .eq("item_id", id)
+          : await supabase
+              .from("item_verification_questions")
+              .insert({ ...values, item_id: id });
+
+      if (saveError) {
+        throw new Error(saveError.message);
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error saving verification questions:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save verification questions",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
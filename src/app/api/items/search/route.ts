@@ -0,0 +1,164 @@
+import { createClient } from "@/lib/server";
+import {
+  ACTIVE_ITEM_STATUSES,
+  INACTIVE_ITEM_STATUSES,
+  ItemStatus,
+} from "@/lib/item-lifecycle";
+import { NextRequest, NextResponse } from "next/server";
+
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 50;
+const MAX_RADIUS_KM = 500;
+// Offer a "did you mean" suggestion when a text search returns fewer results than this
+const SUGGESTION_THRESHOLD = 3;
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseDate = (value: string | null): string | null => {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().split("T")[0];
+};
+
+/**
+ * GET: Search items with server-side radius filtering, full-text ranking and pagination
+ *
+ * Query params: lat, lng, radius (km), type, categories (comma separated),
+ * from, to (dates), q (text), userId, include (comma separated "resolved"
+ * and/or "expired", hidden by default), page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const latitude = parseNumber(searchParams.get("lat"));
+    const longitude = parseNumber(searchParams.get("lng"));
+    const radius = parseNumber(searchParams.get("radius"));
+    const type = searchParams.get("type");
+    const categories = (searchParams.get("categories") || "")
+      .split(",")
+      .map((category) => category.trim())
+      .filter(Boolean);
+    const query = searchParams.get("q")?.trim() || null;
+    const userId = searchParams.get("userId") || null;
+    const include = (searchParams.get("include") || "")
+      .split(",")
+      .map((status) => status.trim())
+      .filter(Boolean);
+    const page = Math.max(1, parseNumber(searchParams.get("page")) || 1);
+    const limit = Math.min(
+      MAX_LIMIT,
+      Math.max(1, parseNumber(searchParams.get("limit")) || DEFAULT_LIMIT)
+    );
+
+    if ((latitude === null) !== (longitude === null)) {
+      return NextResponse.json(
+        { error: "Both lat and lng are required for a location search" },
+        { status: 400 }
+      );
+    }
+
+    if (radius !== null && (radius <= 0 || radius > MAX_RADIUS_KM)) {
+      return NextResponse.json(
+        { error: `Radius must be between 0 and ${MAX_RADIUS_KM} km` },
+        { status: 400 }
+      );
+    }
+
+    if (type && type !== "lost" && type !== "found") {
+      return NextResponse.json({ error: "Invalid item type" }, { status: 400 });
+    }
+
+    if (
+      include.some(
+        (status) => !INACTIVE_ITEM_STATUSES.includes(status as ItemStatus)
+      )
+    ) {
+      return NextResponse.json(
+        { error: "Only resolved and expired items can be included" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc("search_items", {
+      p_latitude: latitude,
+      p_longitude: longitude,
+      p_radius_km: latitude !== null ? radius : null,
+      p_type: type || null,
+      p_categories: categories.length > 0 ? categories : null,
+      p_date_from: parseDate(searchParams.get("from")),
+      p_date_to: parseDate(searchParams.get("to")),
+      p_query: query,
+      p_user_id: userId,
+      p_statuses: [...ACTIVE_ITEM_STATUSES, ...include],
+      p_limit: limit,
+      p_offset: (page - 1) * limit,
+    });
+
+    if (error) {
+      console.error("Error searching items:", error);
+      return NextResponse.json(
+        { error: "Failed to search items", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    const rows = (data || []) as Array<{
+      item: Record<string, unknown>;
+      distance_km: number | null;
+      rank: number | null;
+      title_highlight: string | null;
+      description_highlight: string | null;
+      total_count: number;
+    }>;
+
+    const items = rows.map((row) => ({
+      ...row.item,
+      distance_km:
+        row.distance_km !== null ? Math.round(row.distance_km * 10) / 10 : null,
+      search_rank: row.rank,
+      search_highlight: row.title_highlight
+        ? {
+            title: row.title_highlight,
+            description: row.description_highlight || "",
+          }
+        : null,
+    }));
+    const totalCount = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    // Few results usually means a typo, look for a better spelling
+    let suggestion: string | null = null;
+    if (query && page === 1 && totalCount < SUGGESTION_THRESHOLD) {
+      const { data: suggested, error: suggestionError } = await supabase.rpc(
+        "suggest_item_search",
+        { p_query: query }
+      );
+
+      if (suggestionError) {
+        console.error("Error fetching search suggestion:", suggestionError);
+      } else if (suggested && suggested !== query.toLowerCase()) {
+        suggestion = suggested;
+      }
+    }
+
+    return NextResponse.json({
+      items,
+      totalCount,
+      page,
+      hasMore: (page - 1) * limit + items.length < totalCount,
+      suggestion,
+    });
+  } catch (error) {
+    console.error("Error searching items:", error);
+    return NextResponse.json(
+      { error: "Failed to search items", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
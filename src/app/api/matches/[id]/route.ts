@@ -0,0 +1,72 @@
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
+import { NextRequest, NextResponse } from "next/server";
+
+const ALLOWED_STATUSES = ["dismissed", "claimed"];
+
+// PATCH: Dismiss a suggested match, or mark it as claimed once a chat was started
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { status } = await request.json();
+
+    if (!ALLOWED_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "Invalid match status" },
+        { status: 400 }
+      );
+    }
+
+    const { user, supabase } = await requireUser();
+
+    const { data: match, error: matchError } = await supabase
+      .from("item_matches")
+      .select(
+        `
+        id,
+        lost_item:lost_item_id (user_id),
+        found_item:found_item_id (user_id)
+      `
+      )
+      .eq("id", id)
+      .single();
+
+    if (matchError || !match) {
+      return NextResponse.json({ error: "Match not found" }, { status: 404 });
+    }
+
+    // Only the owner of one of the two items can update the match
+    const lostItem = match.lost_item as unknown as { user_id: string | null };
+    const foundItem = match.found_item as unknown as { user_id: string | null };
+    if (lostItem?.user_id !== user.id && foundItem?.user_id !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { error: updateError } = await supabase
+      .from("item_matches")
+      .update({ status })
+      .eq("id", id);
+
+    if (updateError) {
+      console.error("Error updating match:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update match", message: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error updating match:", error);
+    return NextResponse.json(
+      { error: "Failed to update match", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,338 @@
+import type { createAdminClient } from "@/lib/server";
+import {
+  RouteGuardError,
+  requireItemOwner,
+  requireUser,
+} from "@/lib/route-guards";
+import { sendEmail } from "@/lib/ses-client";
+import { MatchableItem, rankMatches } from "@/lib/matching";
+import { NextRequest, NextResponse } from "next/server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far apart (in days) a lost and a found report can be to be compared
+const CANDIDATE_WINDOW_DAYS = 60;
+const CANDIDATE_LIMIT = 500;
+
+const MATCH_ITEM_COLUMNS = `
+  id,
+  user_id,
+  type,
+  category,
+  title,
+  description,
+  ai_description,
+  date,
+  location_address,
+  location_latitude,
+  location_longitude,
+  image_url,
+  status,
+  is_claimed,
+  created_at
+`;
+
+type CandidateItem = MatchableItem & {
+  user_id: string | null;
+  location_address: string;
+};
+
+// POST: Score a newly reported item against opposite-type items and store the matches
+export async function POST(request: NextRequest) {
+  try {
+    const { itemId } = await request.json();
+
+    if (!itemId) {
+      return NextResponse.json(
+        { error: "Item ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Only the reporter can run matching (and trigger the emails) for an item
+    const { admin: supabase } = await requireItemOwner(itemId);
+
+    const { data: item, error: itemError } = await supabase
+      .from("items")
+      .select(MATCH_ITEM_COLUMNS)
+      .eq("id", itemId)
+      .single();
+
+    if (itemError || !item) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    // Lost items can only be found afterwards and vice versa
+    const itemDate = new Date(item.date).getTime();
+    const windowStart =
+      item.type === "lost" ? itemDate - 2 * DAY_MS : itemDate - CANDIDATE_WINDOW_DAYS * DAY_MS;
+    const windowEnd =
+      item.type === "lost" ? itemDate + CANDIDATE_WINDOW_DAYS * DAY_MS : itemDate + 2 * DAY_MS;
+
+    let candidatesQuery = supabase
+      .from("items")
+      .select(MATCH_ITEM_COLUMNS)
+      .eq("type", item.type === "lost" ? "found" : "lost")
+      .gte("date", new Date(windowStart).toISOString())
+      .lte("date", new Date(windowEnd).toISOString())
+      .not("status", "in", "(resolved,expired)")
+      .order("date", { ascending: false })
+      .limit(CANDIDATE_LIMIT);
+
+    // Never match a user's own reports against each other
+    if (item.user_id) {
+      candidatesQuery = candidatesQuery.or(
+        `user_id.is.null,user_id.neq.${item.user_id}`
+      );
+    }
+
+    const { data: candidates, error: candidatesError } = await candidatesQuery;
+
+    if (candidatesError) {
+      console.error("Error fetching match candidates:", candidatesError);
+      return NextResponse.json(
+        { error: "Failed to fetch match candidates" },
+        { status: 500 }
+      );
+    }
+
+    const ranked = rankMatches<CandidateItem>(
+      item as CandidateItem,
+      (candidates || []) as CandidateItem[]
+    );
+
+    if (ranked.length === 0) {
+      return NextResponse.json({ success: true, matches: [] });
+    }
+
+    // Pairs that were already suggested are left untouched (and not notified again)
+    const { data: inserted, error: insertError } = await supabase
+      .from("item_matches")
+      .upsert(
+        ranked.map(({ candidate, score, breakdown }) => ({
+          lost_item_id: item.type === "lost" ? item.id : candidate.id,
+          found_item_id: item.type === "found" ? item.id : candidate.id,
+          score,
+          score_breakdown: breakdown,
+          status: "suggested",
+        })),
+        { onConflict: "lost_item_id,found_item_id", ignoreDuplicates: true }
+      )
+      .select("id, lost_item_id, found_item_id, score");
+
+    if (insertError) {
+      console.error("Error storing matches:", insertError);
+      return NextResponse.json(
+        { error: "Failed to store matches", message: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    const newMatches = inserted || [];
+
+    if (newMatches.length > 0) {
+      const baseUrl =
+        process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+      const newMatchItems = ranked
+        .map(({ candidate }) => candidate)
+        .filter((candidate) =>
+          newMatches.some(
+            (match) =>
+              match.lost_item_id === candidate.id ||
+              match.found_item_id === candidate.id
+          )
+        );
+
+      await notifyMatches(
+        supabase,
+        item as CandidateItem,
+        newMatchItems,
+        baseUrl
+      );
+
+      await supabase
+        .from("item_matches")
+        .update({ notified_at: new Date().toISOString() })
+        .in(
+          "id",
+          newMatches.map((match) => match.id)
+        );
+    }
+
+    return NextResponse.json({
+      success: true,
+      matches: newMatches,
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error matching item:", error);
+    return NextResponse.json(
+      { error: "Failed to match item", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// GET: List the open possible matches for the current user's items
+export async function GET() {
+  try {
+    const { user, supabase } = await requireUser();
+
+    const { data: userItems } = await supabase
+      .from("items")
+      .select("id")
+      .eq("user_id", user.id);
+
+    const itemIds = userItems?.map((item) => item.id) || [];
+
+    if (itemIds.length === 0) {
+      return NextResponse.json({ matches: [] });
+    }
+
+    const { data: matches, error } = await supabase
+      .from("item_matches")
+      .select(
+        `
+        id,
+        score,
+        score_breakdown,
+        status,
+        created_at,
+        lost_item:lost_item_id (${MATCH_ITEM_COLUMNS}),
+        found_item:found_item_id (${MATCH_ITEM_COLUMNS})
+      `
+      )
+      .eq("status", "suggested")
+      .or(
+        `lost_item_id.in.(${itemIds.join(",")}),found_item_id.in.(${itemIds.join(",")})`
+      )
+      .order("score", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching matches:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch matches" },
+        { status: 500 }
+      );
+    }
+
+    // Present each match from the point of view of the current user
+    const formattedMatches = (matches || []).map((match) => {
+      const lostItem = match.lost_item as unknown as CandidateItem;
+      const foundItem = match.found_item as unknown as CandidateItem;
+      const ownsLostItem = itemIds.includes(lostItem?.id);
+      return {
+        id: match.id,
+        score: Number(match.score),
+        breakdown: match.score_breakdown,
+        createdAt: match.created_at,
+        item: ownsLostItem ? lostItem : foundItem,
+        matchedItem: ownsLostItem ? foundItem : lostItem,
+      };
+    });
+
+    return NextResponse.json({ matches: formattedMatches });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching matches:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch matches", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Email the reporter of the new item, and the reporters of the matched items
+ */
+async function notifyMatches(
+  supabase: ReturnType<typeof createAdminClient>,
+  item: CandidateItem,
+  matchedItems: CandidateItem[],
+  baseUrl: string
+) {
+  const itemIds = [item.id, ...matchedItems.map((matched) => matched.id)];
+  const { data: contacts } = await supabase
+    .from("contact_info")
+    .select("item_id, name, email")
+    .in("item_id", itemIds);
+
+  const contactFor = (id: string) =>
+    contacts?.find((contact) => contact.item_id === id);
+
+  const myItemsUrl = `${baseUrl}/items/my-items`;
+  const reporter = contactFor(item.id);
+
+  if (reporter) {
+    const listHtml = matchedItems
+      .map(
+        (matched) =>
+          `<li><a href="${baseUrl}/item/${matched.id}">${matched.title}</a> - ${matched.location_address}</li>`
+      )
+      .join("");
+    const listText = matchedItems
+      .map((matched) => `- ${matched.title}: ${baseUrl}/item/${matched.id}`)
+      .join("\n");
+
+    await sendEmail({
+      to: reporter.email,
+      subject: `We found ${matchedItems.length} possible ${
+        matchedItems.length === 1 ? "match" : "matches"
+      } for "${item.title}"`,
+      html: `
+        <h2>Possible matches for your ${item.type} item</h2>
+        <p>Hello ${reporter.name || "there"},</p>
+        <p>These ${
+          item.type === "lost" ? "found" : "lost"
+        } item reports look similar to <strong>${item.title}</strong>:</p>
+        <ul>${listHtml}</ul>
+        <p><a href="${myItemsUrl}" style="display: inline-block; background-color: #4F46E5; color: white; padding: 12px 20px; text-decoration: none; border-radius: 5px;">Review Matches</a></p>
+        <p>Thank you for using IFound4U!</p>
+      `,
+      text: `
+        Possible matches for your ${item.type} item
+
+        These ${item.type === "lost" ? "found" : "lost"} item reports look similar to "${item.title}":
+        ${listText}
+
+        Review your matches: ${myItemsUrl}
+
+        Thank you for using IFound4U!
+      `,
+    });
+  }
+
+  // Let the other reporters know a similar report just came in
+  for (const matched of matchedItems) {
+    const contact = contactFor(matched.id);
+    if (!contact || contact.email === reporter?.email) continue;
+
+    await sendEmail({
+      to: contact.email,
+      subject: `A new report may match "${matched.title}"`,
+      html: `
+        <h2>A new report may match your item</h2>
+        <p>Hello ${contact.name || "there"},</p>
+        <p>Someone just reported a ${item.type} item that looks similar to <strong>${matched.title}</strong>:</p>
+        <p><a href="${baseUrl}/item/${item.id}">${item.title}</a> - ${item.location_address}</p>
+        <p><a href="${myItemsUrl}" style="display: inline-block; background-color: #4F46E5; color: white; padding: 12px 20px; text-decoration: none; border-radius: 5px;">Review Matches</a></p>
+        <p>Thank you for using IFound4U!</p>
+      `,
+      text: `
+        A new report may match your item
+
+        Someone just reported a ${item.type} item that looks similar to "${matched.title}":
+        ${item.title}: ${baseUrl}/item/${item.id}
+
+        Review your matches: ${myItemsUrl}
+
+        Thank you for using IFound4U!
+      `,
+    });
+  }
+}
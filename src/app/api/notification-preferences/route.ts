@@ -0,0 +1,107 @@
+import {
+  fromNotificationPreferencesRow,
+  NotificationPreferencesRow,
+} from "@/lib/notification-preferences";
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET: Notification preferences of the current user
+export async function GET() {
+  try {
+    const { user, supabase } = await requireUser();
+
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .select("chat_digest_enabled")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching notification preferences:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch notification preferences" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      preferences: fromNotificationPreferencesRow(
+        data as NotificationPreferencesRow | null
+      ),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch notification preferences",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Change the notification preferences of the current user
+export async function PATCH(request: NextRequest) {
+  try {
+    const { chatDigestEnabled } = (await request.json()) as {
+      chatDigestEnabled?: boolean;
+    };
+
+    if (typeof chatDigestEnabled !== "boolean") {
+      return NextResponse.json(
+        { error: "Nothing to update" },
+        { status: 400 }
+      );
+    }
+
+    const { user, supabase } = await requireUser();
+
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .upsert(
+        {
+          user_id: user.id,
+          chat_digest_enabled: chatDigestEnabled,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      )
+      .select("chat_digest_enabled")
+      .single();
+
+    if (error) {
+      console.error("Error updating notification preferences:", error);
+      return NextResponse.json(
+        {
+          error: "Failed to update notification preferences",
+          message: error.message,
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      preferences: fromNotificationPreferencesRow(
+        data as NotificationPreferencesRow
+      ),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error updating notification preferences:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update notification preferences",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
+import { NextRequest, NextResponse } from "next/server";
+
+const NOTIFICATIONS_LIMIT = 20;
+
+// GET: Latest in-app notifications for the current user
+export async function GET() {
+  try {
+    const { user, supabase } = await requireUser();
+
+    const [{ data: notifications, error }, { count: unreadCount }] =
+      await Promise.all([
+        supabase
+          .from("notifications")
+          .select("id, type, title, body, link, data, read_at, created_at")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false })
+          .limit(NOTIFICATIONS_LIMIT),
+        supabase
+          .from("notifications")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", user.id)
+          .is("read_at", null),
+      ]);
+
+    if (error) {
+      console.error("Error fetching notifications:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch notifications" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      notifications: notifications || [],
+      unreadCount: unreadCount || 0,
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch notifications",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Mark notifications as read (all of them when no ids are given)
+export async function PATCH(request: NextRequest) {
+  try {
+    const { ids } = (await request.json().catch(() => ({}))) as {
+      ids?: string[];
+    };
+
+    const { user, supabase } = await requireUser();
+
+    let query = supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", user.id)
+      .is("read_at", null);
+
+    if (ids && ids.length > 0) {
+      query = query.in("id", ids);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      console.error("Error marking notifications as read:", error);
+      return NextResponse.json(
+        { error: "Failed to update notifications", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error marking notifications as read:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update notifications",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
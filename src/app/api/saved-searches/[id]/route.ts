@@ -0,0 +1,114 @@
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
+import { fromSavedSearchRow, SavedSearchRow } from "@/lib/saved-searches";
+import { NextRequest, NextResponse } from "next/server";
+
+// PATCH: Rename, pause or resume a saved search
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name, isActive } = (await request.json()) as {
+      name?: string;
+      isActive?: boolean;
+    };
+
+    const updates: Record<string, unknown> = {};
+    if (typeof name === "string" && name.trim()) {
+      updates.name = name.trim().slice(0, 100);
+    }
+    if (typeof isActive === "boolean") {
+      updates.is_active = isActive;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to update" },
+        { status: 400 }
+      );
+    }
+
+    const { user, supabase } = await requireUser();
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .update(updates)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating saved search:", error);
+      return NextResponse.json(
+        { error: "Failed to update saved search", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Saved search not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      savedSearch: fromSavedSearchRow(data as SavedSearchRow),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error updating saved search:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update saved search",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove a saved search and stop its alerts
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { user, supabase } = await requireUser();
+
+    const { error } = await supabase
+      .from("saved_searches")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting saved search:", error);
+      return NextResponse.json(
+        { error: "Failed to delete saved search", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error deleting saved search:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete saved search",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { RouteGuardError, requireItemOwner } from "@/lib/route-guards";
+import { sendEmail } from "@/lib/ses-client";
+import {
+  describeSavedSearch,
+  fromSavedSearchRow,
+  SavedSearchRow,
+} from "@/lib/saved-searches";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST: Alert the owners of saved searches that match a newly reported item
+export async function POST(request: NextRequest) {
+  try {
+    const { itemId } = await request.json();
+
+    if (!itemId) {
+      return NextResponse.json(
+        { error: "Item ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Only the reporter can send the alerts for an item
+    const { admin: supabase } = await requireItemOwner(itemId);
+
+    const { data: item, error: itemError } = await supabase
+      .from("items")
+      .select("id, type, title, location_address")
+      .eq("id", itemId)
+      .single();
+
+    if (itemError || !item) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    const { data: savedSearches, error: searchError } = await supabase.rpc(
+      "find_saved_searches_for_item",
+      { p_item_id: itemId }
+    );
+
+    if (searchError) {
+      console.error("Error finding saved searches:", searchError);
+      return NextResponse.json(
+        { error: "Failed to find saved searches", message: searchError.message },
+        { status: 500 }
+      );
+    }
+
+    const matching = ((savedSearches || []) as Array<
+      SavedSearchRow & { user_id: string }
+    >);
+
+    if (matching.length === 0) {
+      return NextResponse.json({ success: true, alerted: 0 });
+    }
+
+    // Claim the alerts first so concurrent calls never notify twice
+    const { data: inserted, error: insertError } = await supabase
+      .from("saved_search_alerts")
+      .upsert(
+        matching.map((savedSearch) => ({
+          saved_search_id: savedSearch.id,
+          item_id: itemId,
+        })),
+        { onConflict: "saved_search_id,item_id", ignoreDuplicates: true }
+      )
+      .select("saved_search_id");
+
+    if (insertError) {
+      console.error("Error recording saved search alerts:", insertError);
+      return NextResponse.json(
+        { error: "Failed to record alerts", message: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    const toAlert = matching.filter((savedSearch) =>
+      inserted?.some((alert) => alert.saved_search_id === savedSearch.id)
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    const itemUrl = `${baseUrl}/item/${item.id}`;
+    const alertsUrl = `${baseUrl}/settings/alerts`;
+    const itemLabel = `${item.type === "lost" ? "Lost" : "Found"}: ${
+      item.title
+    }`;
+
+    for (const savedSearch of toAlert) {
+      // In-app notification
+      const { error: notificationError } = await supabase
+        .from("notifications")
+        .insert({
+          user_id: savedSearch.user_id,
+          type: "saved_search_match",
+          title: `New match for "${savedSearch.name}"`,
+          body: itemLabel,
+          link: `/item/${item.id}`,
+          data: { savedSearchId: savedSearch.id, itemId: item.id },
+        });
+
+      if (notificationError) {
+        console.error("Error creating notification:", notificationError);
+      }
+
+      // Email notification
+      const { data: userData } = await supabase.auth.admin.getUserById(
+        savedSearch.user_id
+      );
+      const email = userData?.user?.email;
+
+      if (email) {
+        const summary = describeSavedSearch(
+          fromSavedSearchRow(savedSearch).filters
+        ).join(" · ");
+
+        await sendEmail({
+          to: email,
+          subject: `New item matching "${savedSearch.name}"`,
+          html: `
+            <h2>A new item matches your saved search</h2>
+            <p>Your alert <strong>${savedSearch.name}</strong> (${summary}) matched a newly reported item:</p>
+            <p><a href="${itemUrl}">${itemLabel}</a><br/>${item.location_address}</p>
+            <p><a href="${itemUrl}" style="display: inline-block; background-color: #4F46E5; color: white; padding: 12px 20px; text-decoration: none; border-radius: 5px;">View Item</a></p>
+            <p style="color: #6B7280; font-size: 12px;">You can pause or delete this alert in your <a href="${alertsUrl}">alert settings</a>.</p>
+          `,
+          text: `
+            A new item matches your saved search
+
+            Your alert "${savedSearch.name}" (${summary}) matched a newly reported item:
+            ${itemLabel} - ${item.location_address}
+
+            View the item: ${itemUrl}
+
+            You can pause or delete this alert in your alert settings: ${alertsUrl}
+          `,
+        });
+      }
+
+      await supabase
+        .from("saved_searches")
+        .update({ last_notified_at: new Date().toISOString() })
+        .eq("id", savedSearch.id);
+    }
+
+    return NextResponse.json({ success: true, alerted: toAlert.length });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error sending saved search alerts:", error);
+    return NextResponse.json(
+      { error: "Failed to send alerts", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
+import {
+  fromSavedSearchRow,
+  SavedSearchFilters,
+  SavedSearchRow,
+  toSavedSearchColumns,
+} from "@/lib/saved-searches";
+import { NextRequest, NextResponse } from "next/server";
+
+const MAX_SAVED_SEARCHES = 20;
+
+// GET: List the current user's saved searches
+export async function GET() {
+  try {
+    const { user, supabase } = await requireUser();
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching saved searches:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch saved searches" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      savedSearches: (data as SavedSearchRow[]).map(fromSavedSearchRow),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error fetching saved searches:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch saved searches",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Save the current item filters as a named alert
+export async function POST(request: NextRequest) {
+  try {
+    const { name, filters } = (await request.json()) as {
+      name?: string;
+      filters?: SavedSearchFilters;
+    };
+
+    if (!name?.trim() || !filters) {
+      return NextResponse.json(
+        { error: "Name and filters are required" },
+        { status: 400 }
+      );
+    }
+
+    const { user, supabase } = await requireUser();
+
+    const { count } = await supabase
+      .from("saved_searches")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+
+    if ((count || 0) >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        {
+          error: `You can have at most ${MAX_SAVED_SEARCHES} saved searches`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .insert({
+        user_id: user.id,
+        name: name.trim().slice(0, 100),
+        ...toSavedSearchColumns(filters),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating saved search:", error);
+      return NextResponse.json(
+        { error: "Failed to save search", message: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      savedSearch: fromSavedSearchRow(data as SavedSearchRow),
+    });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    console.error("Error creating saved search:", error);
+    return NextResponse.json(
+      { error: "Failed to save search", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { createClient } from "@/lib/server";
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
 import { stripe } from "@/lib/stripe";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -8,14 +8,7 @@ export async function GET(request: NextRequest) {
     const forceRefresh = url.searchParams.get("force") === "true";
 
     // Get current user from session
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { user, admin: supabase } = await requireUser();
 
     // Get user's Stripe Connect account ID
     const { data: accountData } = await supabase
@@ -100,6 +93,10 @@ export async function GET(request: NextRequest) {
       });
     }
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error checking Stripe account status:", error);
     return NextResponse.json(
       { error: "Failed to check account status", message: error.message },
@@ -1,17 +1,10 @@
-import { createClient } from "@/lib/server";
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
   try {
     // Get current user from session
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { user, admin: supabase } = await requireUser();
 
     // Get the finder ID from the request body
     const body = await request.json();
@@ -77,6 +70,10 @@ export async function POST(request: NextRequest) {
         : "Finder needs to complete their Stripe account setup",
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error checking finder account status:", error);
     return NextResponse.json(
       { error: "Failed to check finder status", message: error.message },
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/server";
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
 
 export async function GET(request: NextRequest) {
   // Get the claim ID from the query parameters
@@ -10,28 +13,10 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const supabase = await createClient();
-
-    // Get the current user session
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // First check the claim status (which is updated by webhooks)
-    const { data: claim, error: claimError } = await supabase
-      .from("item_claims")
-      .select("status")
-      .eq("id", claimId)
-      .single();
-
-    if (claimError) {
-      console.error("Error fetching claim:", claimError);
-      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
-    }
+    // Only participants of the claim can see its payment status
+    const { admin: supabase, claim } = await requireClaimParticipantById(
+      claimId
+    );
 
     // If claim is already marked as paid, return success
     if (claim.status === "paid") {
@@ -57,6 +42,10 @@ export async function GET(request: NextRequest) {
       paymentId: payment.stripe_payment_intent_id,
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error checking payment status:", error);
     return NextResponse.json(
       { error: "Failed to check payment status" },
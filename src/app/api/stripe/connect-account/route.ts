@@ -1,4 +1,4 @@
-import { createClient } from "@/lib/server";
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
 import { stripe } from "@/lib/stripe";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -6,15 +6,7 @@ import { NextRequest, NextResponse } from "next/server";
 export async function POST(request: NextRequest) {
   try {
     // Get current user from session
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    const { user, admin: supabase } = await requireUser();
 
     // Check if user already has a Connect account
     const { data: existingAccount } = await supabase
@@ -79,6 +71,10 @@ export async function POST(request: NextRequest) {
       accountId: account.id,
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error creating Connect account:", error);
     return NextResponse.json(
       { error: "Failed to create Connect account", message: error.message },
@@ -91,15 +87,7 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     // Get current user from session
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    const { user, admin: supabase } = await requireUser();
 
     // Get the user's Connect account information
     const { data: accountData } = await supabase
@@ -140,6 +128,10 @@ export async function GET(request: NextRequest) {
       accountEnabled: account.charges_enabled,
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error fetching Connect account:", error);
     return NextResponse.json(
       { error: "Failed to retrieve Connect account", message: error.message },
@@ -1,18 +1,11 @@
-import { createClient } from "@/lib/server";
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
 import { stripe, createConnectAccount } from "@/lib/stripe";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
   try {
     // Get current user from session
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { user, admin: supabase } = await requireUser();
 
     // Get the account ID from the request body
     const body = await request.json();
@@ -91,6 +84,10 @@ export async function POST(request: NextRequest) {
       url: accountLink.url,
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error creating onboarding link:", error);
     return NextResponse.json(
       { error: "Failed to create onboarding link", message: error.message },
@@ -1,22 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/server";
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
 import { createConnectAccount, generateAccountLink } from "@/lib/stripe";
 
 export async function POST(request: NextRequest) {
   try {
-    // Initialize Supabase client
-    const supabase = await createClient();
-
     // Verify authentication
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { user, admin: supabase } = await requireUser();
 
-    const userId = session.user.id;
-    const userEmail = session.user.email;
+    const userId = user.id;
+    const userEmail = user.email;
 
     if (!userEmail) {
       return NextResponse.json(
@@ -74,6 +66,10 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ accountLink: accountLink.url });
   } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error creating Connect account:", error);
     return NextResponse.json(
       { error: "Failed to create Connect account" },
@@ -1,18 +1,11 @@
-import { createClient } from "@/lib/server";
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
 import { createConnectAccount, generateAccountLink } from "@/lib/stripe";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
   try {
     // Get current user from session
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { user, admin: supabase } = await requireUser();
 
     // Check if the user already has a Stripe account
     const { data: existingAccount } = await supabase
@@ -72,6 +65,10 @@ export async function POST(request: NextRequest) {
       accountLinkUrl: accountLink.url,
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error creating Stripe account:", error);
     return NextResponse.json(
       { error: error.message || "Failed to create Stripe account" },
@@ -1,5 +1,9 @@
-import { createClient } from "@/lib/server";
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
 import { calculatePlatformFee, stripe } from "@/lib/stripe";
+import { getTransferGroup, isEscrowEnabled } from "@/lib/payment-escrow";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
@@ -15,45 +19,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get current user (payer) from session
-    const supabase = await createClient();
+    // Get current user (payer) from session, the claimer should be the one paying
     const {
-      data: { user },
-    } = await supabase.auth.getUser();
+      user,
+      admin: supabase,
+      claim,
+      role,
+    } = await requireClaimParticipantById(claimId);
 
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get the claim information to determine recipient
-    const { data: claim } = await supabase
-      .from("item_claims")
-      .select(
-        `
-        id,
-        item_id,
-        claimer_name,
-        claimer_email,
-        status,
-        items:items (
-          id,
-          title,
-          user_id
-        )
-      `
-      )
-      .eq("id", claimId)
-      .single();
-
-    if (!claim) {
-      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
-    }
-
-    // Check if the current user is authorized to make this payment
-    // (the claimer should be the one paying)
-    const isUserClaimer =
-      user.email.toLowerCase() === claim.claimer_email.toLowerCase();
-    if (!isUserClaimer) {
+    if (role !== "claimer") {
       return NextResponse.json(
         { error: "Only the claimer can pay for shipping" },
         { status: 403 }
@@ -69,7 +43,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get the item owner information (recipient)
-    const itemOwnerId = claim.items.user_id;
+    const itemOwnerId = claim.item.user_id;
     const { data: itemOwner } = await supabase
       .from("profiles")
       .select("email, full_name")
@@ -102,24 +76,33 @@ export async function POST(request: NextRequest) {
     const applicationFee = platformFee; // Platform takes 10% as application fee
     const transferAmount = totalAmount - applicationFee;
 
+    const currency = "usd";
+    const escrow = isEscrowEnabled();
+
     // Create a payment intent
-    // This uses Stripe Connect's direct charges with destination charges
+    // Destination charges pay the finder right away. In escrow mode the charge
+    // stays on the platform and the finder's share is transferred on delivery.
     const paymentIntent = await stripe.paymentIntents.create({
       amount: totalAmount,
-      currency: "usd",
+      currency,
       // Using automatic payment methods instead of specific payment_method_types
-      description: `Payment for claim: ${claim.items.title}`,
+      description: `Payment for claim: ${claim.item.title}`,
       metadata: {
         claimId: claim.id,
         itemId: claim.item_id,
         shippingFee: shippingFee.toString(),
         tipAmount: tipAmount.toString(),
         platformFee: platformFee.toString(),
+        payoutMode: escrow ? "escrow" : "destination",
       },
-      application_fee_amount: applicationFee, // Platform fee
-      transfer_data: {
-        destination: recipientAccount.stripe_account_id,
-      },
+      ...(escrow
+        ? { transfer_group: getTransferGroup(claim.id) }
+        : {
+            application_fee_amount: applicationFee, // Platform fee
+            transfer_data: {
+              destination: recipientAccount.stripe_account_id,
+            },
+          }),
       automatic_payment_methods: {
         enabled: true,
       },
@@ -139,6 +122,10 @@ export async function POST(request: NextRequest) {
         status: "pending",
         stripe_payment_intent_id: paymentIntent.id,
         shipping_address: shippingAddress,
+        payout_mode: escrow ? "escrow" : "destination",
+        currency,
+        transfer_amount: transferAmount,
+        destination_account_id: recipientAccount.stripe_account_id,
       })
       .select()
       .single();
@@ -178,6 +165,10 @@ export async function POST(request: NextRequest) {
       paymentId: paymentRecord.id,
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error creating payment:", error);
     return NextResponse.json(
       { error: "Failed to create payment", message: error.message },
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/server";
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+} from "@/lib/route-guards";
 import { createPaymentIntent, formatAmountForStripe } from "@/lib/stripe";
 
 export async function POST(request: NextRequest) {
@@ -15,54 +18,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize Supabase client
-    const supabase = await createClient();
-
-    // Verify authentication
+    // Verify authentication and that the user is the claimer
     const {
-      data: { session },
-    } = await supabase.auth.getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get the claim details
-    const { data: claim } = await supabase
-      .from("item_claims")
-      .select(
-        `
-        id, 
-        user_id, 
-        items:items (
-          id,
-          title,
-          user_id
-        )
-      `
-      )
-      .eq("id", claimId)
-      .single();
-
-    if (!claim) {
-      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
-    }
+      user,
+      admin: supabase,
+      claim,
+      role,
+    } = await requireClaimParticipantById(claimId);
 
-    // Verify that the user is the claimer
-    if (claim.user_id !== session.user.id) {
+    if (role !== "claimer") {
       return NextResponse.json(
         { error: "You can only pay for your own claims" },
         { status: 403 }
       );
     }
 
+    // Items reported without an account have nobody to pay
+    const itemOwnerId = claim.item.user_id;
+
     // Get the Stripe account of the item owner
-    const { data: stripeAccount } = await supabase
-      .from("stripe_accounts")
-      .select("account_id, onboarded")
-      .eq("user_id", claim.items.user_id)
-      .single();
+    const { data: stripeAccount } = itemOwnerId
+      ? await supabase
+          .from("stripe_accounts")
+          .select("account_id, onboarded")
+          .eq("user_id", itemOwnerId)
+          .single()
+      : { data: null };
 
-    if (!stripeAccount || !stripeAccount.onboarded) {
+    if (!itemOwnerId || !stripeAccount || !stripeAccount.onboarded) {
       return NextResponse.json(
         { error: "Item owner has not set up their payment account yet" },
         { status: 400 }
@@ -74,10 +57,10 @@ export async function POST(request: NextRequest) {
 
     // Create metadata for the payment
     const metadata = {
-      itemId: claim.items.id,
-      itemTitle: claim.items.title,
-      claimerUserId: session.user.id,
-      itemOwnerUserId: claim.items.user_id,
+      itemId: claim.item.id,
+      itemTitle: claim.item.title,
+      claimerUserId: user.id,
+      itemOwnerUserId: itemOwnerId,
       tipAmount: tipAmount.toString(),
       description: description || "Shipping payment",
     };
@@ -93,14 +76,14 @@ export async function POST(request: NextRequest) {
     // Store the payment intent in the database
     await supabase.from("payments").insert({
       claim_id: claimId,
-      item_id: claim.items.id,
+      item_id: claim.item.id,
       payment_intent_id: paymentIntent.id,
       amount: totalAmount,
       tip_amount: formatAmountForStripe(tipAmount),
       status: paymentIntent.status,
       description: description || "Shipping payment",
-      payer_user_id: session.user.id,
-      recipient_user_id: claim.items.user_id,
+      payer_user_id: user.id,
+      recipient_user_id: itemOwnerId,
       recipient_stripe_account_id: stripeAccount.account_id,
     });
 
@@ -109,6 +92,10 @@ export async function POST(request: NextRequest) {
       paymentIntentId: paymentIntent.id,
     });
   } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error creating payment intent:", error);
     return NextResponse.json(
       { error: "Failed to create payment intent" },
@@ -0,0 +1,84 @@
+import { RouteGuardError, isAdmin, requireUser } from "@/lib/route-guards";
+import {
+  RefundError,
+  getRefundablePayment,
+  refundPayment,
+} from "@/lib/payment-refunds";
+import { NextRequest, NextResponse } from "next/server";
+
+const MAX_REASON_LENGTH = 500;
+
+// POST: Refund a shipping payment in full or in part.
+// Body: paymentId, amount (cents, defaults to the rest), reason,
+// refundPlatformFee and reverseTransfer (admins only, both default to true)
+// - admin: any payment
+// - finder (the item owner who was paid): their own payments, they always give
+//   their share back and the claimer always gets the platform fee back
+export async function POST(request: NextRequest) {
+  try {
+    const { user, admin: supabase } = await requireUser();
+
+    const body = await request.json();
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+    if (!body.paymentId) {
+      return NextResponse.json(
+        { error: "Missing payment ID" },
+        { status: 400 }
+      );
+    }
+
+    if (body.amount !== undefined && typeof body.amount !== "number") {
+      return NextResponse.json(
+        { error: "Amount must be a number of cents" },
+        { status: 400 }
+      );
+    }
+
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Reason must be at most ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const payment = await getRefundablePayment(supabase, body.paymentId);
+    const userIsAdmin = isAdmin(user);
+
+    if (!userIsAdmin && payment.recipient_id !== user.id) {
+      // Don't reveal payments of other users
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    const refund = await refundPayment(supabase, payment, {
+      amount: body.amount,
+      refundPlatformFee: userIsAdmin ? body.refundPlatformFee !== false : true,
+      reverseTransfer: userIsAdmin ? body.reverseTransfer !== false : true,
+      reason: reason || null,
+      requestedBy: user.id,
+      requesterRole: userIsAdmin ? "admin" : "owner",
+    });
+
+    return NextResponse.json({ refund });
+  } catch (error) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
+    if (error instanceof RefundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error refunding payment:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to refund payment",
+        message: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,9 @@
-import { createClient } from "@/lib/server";
+import {
+  RouteGuardError,
+  requireClaimParticipantById,
+  requireUser,
+} from "@/lib/route-guards";
+import { postSystemMessage } from "@/lib/chat-system-messages";
 import { NextRequest, NextResponse } from "next/server";
 
 // GET: Fetch shipping configuration
@@ -17,41 +22,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const supabase = await createClient();
-
     // Get current user for authorization
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { user, admin: supabase } = await requireUser();
 
     // Build the query based on provided parameters
     let query = supabase.from("shipping_configs").select("*");
     
     if (claimId) {
-      // First check if the claim exists and user has permission
-      const { data: claimData, error: claimError } = await supabase
-        .from("item_claims")
-        .select("id, user_id, chat_room_id, claimer_email, items:items(user_id, title)")
-        .eq("id", claimId)
-        .single();
-
-      if (claimError) {
-        return NextResponse.json({ error: "Claim not found" }, { status: 404 });
-      }
-      
-      // Check if user is either the item owner or the claimer
-      const isItemOwner = claimData.items?.user_id === user.id;
-      const isClaimer = 
-        claimData.user_id === user.id || 
-        user.email?.toLowerCase() === claimData.claimer_email?.toLowerCase();
-
-      if (!isItemOwner && !isClaimer) {
-        return NextResponse.json(
-          { error: "You don't have permission to access this configuration" },
-          { status: 403 }
-        );
-      }
+      // Only the item owner and the claimer can see it
+      await requireClaimParticipantById(claimId);
 
       // Try to get claim-specific config first
       query = query.eq("claim_id", claimId);
@@ -201,6 +180,10 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(config);
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error in shipping config endpoint:", error);
     return NextResponse.json(
       { error: "Server error", message: error.message },
@@ -222,29 +205,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = await createClient();
-
-    // Get current user
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { user, admin: supabase } = await requireUser();
 
     // If this is for a claim, verify the user is the item owner
+    let chatRoomId: string | null = null;
     if (claimId) {
-      const { data: claim, error: claimError } = await supabase
-        .from("item_claims")
-        .select("id, items:items(user_id)")
-        .eq("id", claimId)
-        .single();
-
-      if (claimError) {
-        return NextResponse.json({ error: "Claim not found" }, { status: 404 });
-      }
-
-      const isItemOwner = claim.items?.user_id === user.id;
+      const { role, claim } = await requireClaimParticipantById(claimId);
+      chatRoomId = claim.chat_room_id;
 
-      if (!isItemOwner) {
+      if (role !== "owner") {
         return NextResponse.json(
           { error: "Only the item owner can set shipping configuration" },
           { status: 403 }
@@ -372,11 +341,29 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // The claimer sees the new fee in the chat, with a shortcut to pay it
+    if (claimId) {
+      await postSystemMessage(supabase, { chatRoomId }, {
+        type: "shipping_configured",
+        payload: {
+          defaultShippingFee: configData.default_shipping_fee,
+          minShippingFee: configData.min_shipping_fee,
+          maxShippingFee: configData.max_shipping_fee,
+          allowClaimerCustom: configData.allow_claimer_custom,
+          notes: configData.shipping_notes || null,
+        },
+      });
+    }
+
     return NextResponse.json({
       success: true,
       message: "Shipping configuration saved successfully",
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error saving shipping configuration:", error);
     return NextResponse.json(
       { error: "Failed to save shipping configuration", message: error.message },
@@ -1,4 +1,11 @@
-import { createClient } from "@/lib/server";
+import { getSessionUser } from "@/lib/route-guards";
+import { answersMatch } from "@/lib/verification";
+import { recordClaimStatus } from "@/lib/claim-state-machine";
+import { sendClaimNotification } from "@/lib/claim-notifications";
+import {
+  CLAIM_UNAVAILABLE_MESSAGE,
+  isBlockedFromClaiming,
+} from "@/lib/user-blocks";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
@@ -10,9 +17,17 @@ export async function POST(request: NextRequest) {
       claimer_email,
       claimer_phone,
       claim_description,
-      user_id,
       chat_room_id,
-    } = body;
+      verification_answers = [],
+    } = body as {
+      item_id: string;
+      claimer_name: string;
+      claimer_email: string;
+      claimer_phone?: string | null;
+      claim_description: string;
+      chat_room_id: string;
+      verification_answers?: Array<{ question_id: string; answer: string }>;
+    };
 
     // Input validation
     if (
@@ -28,8 +43,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create server-side Supabase client with admin privileges
-    const supabase = await createClient();
+    // Guests can claim too; a signed-in claimer is linked from the session
+    const { user, admin: supabase } = await getSessionUser();
+    const user_id = user?.id || null;
+
+    const { data: item } = await supabase
+      .from("items")
+      .select("user_id")
+      .eq("id", item_id)
+      .maybeSingle();
+
+    if (!item) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    // Someone the owner blocked can't claim their items, without being told why
+    if (
+      await isBlockedFromClaiming(supabase, {
+        ownerId: item.user_id,
+        userId: user_id,
+        email: claimer_email,
+      })
+    ) {
+      return NextResponse.json(
+        { error: CLAIM_UNAVAILABLE_MESSAGE },
+        { status: 403 }
+      );
+    }
+
+    // Every verification question set by the reporter must be answered
+    const { data: questions, error: questionsError } = await supabase
+      .from("item_verification_questions")
+      .select("id, question, expected_answer")
+      .eq("item_id", item_id);
+
+    if (questionsError) {
+      console.error("Error fetching verification questions:", questionsError);
+      return NextResponse.json(
+        { error: "Failed to verify claim", message: questionsError.message },
+        { status: 500 }
+      );
+    }
+
+    const answerFor = (questionId: string) =>
+      verification_answers
+        .find((answer) => answer.question_id === questionId)
+        ?.answer?.trim();
+
+    if (questions?.some((question) => !answerFor(question.id))) {
+      return NextResponse.json(
+        { error: "Please answer all verification questions" },
+        { status: 400 }
+      );
+    }
 
     // Insert claim record with admin privileges (bypasses RLS)
     const { data: claimData, error: claimError } = await supabase
@@ -40,7 +106,7 @@ export async function POST(request: NextRequest) {
         claimer_email,
         claimer_phone: claimer_phone || null,
         claim_description,
-        user_id: user_id || null,
+        user_id,
         chat_room_id,
         status: "pending",
       })
@@ -54,6 +120,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await recordClaimStatus(supabase, {
+      claimId: claimData[0].id,
+      from: null,
+      to: "pending",
+      actorId: user_id,
+      actorRole: "claimer",
+    });
+
+    if (questions && questions.length > 0) {
+      const { error: answersError } = await supabase
+        .from("claim_verification_answers")
+        .insert(
+          questions.map((question) => {
+            const answer = answerFor(question.id) as string;
+            return {
+              claim_id: claimData[0].id,
+              question_id: question.id,
+              question: question.question,
+              answer,
+              is_match: answersMatch(question.expected_answer, answer),
+            };
+          })
+        );
+
+      if (answersError) {
+        // The claim is still valid, the owner can verify in the chat instead
+        console.error("Error saving verification answers:", answersError);
+      }
+    }
+
+    // Sent from here so the email only ever describes a stored claim
+    try {
+      const notification = await sendClaimNotification(supabase, {
+        claimId: claimData[0].id,
+        origin: request.nextUrl.origin,
+      });
+
+      if (!notification.success) {
+        console.error("Claim notification not sent:", notification.message);
+      }
+    } catch (notificationError) {
+      // Don't fail the whole claim if just the email fails
+      console.error("Error sending claim notification:", notificationError);
+    }
+
     // Return success response with created claim
     return NextResponse.json({
       success: true,
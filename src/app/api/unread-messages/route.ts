@@ -1,91 +1,51 @@
-import { createClient } from "@/lib/server";
-import { NextRequest, NextResponse } from "next/server";
+import { RouteGuardError, requireUser } from "@/lib/route-guards";
+import { NextResponse } from "next/server";
 
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
-    // Create server-side Supabase client with admin privileges
-    const supabase = await createClient();
-
-    // Get current user
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // First get all the chat rooms the user is involved with (either as claimer or item owner)
-    const { data: userItems } = await supabase
-      .from("items")
-      .select("id")
-      .eq("user_id", user.id);
-
-    const itemIds = userItems?.map((item) => item.id) || [];
+    const { user, admin: supabase } = await requireUser();
+
+    // Unread counts for every room the user is in (as item owner, or as claimer by
+    // user ID or email), computed from their read state in a single query
+    const { data: rows, error: countsError } = await supabase.rpc(
+      "get_unread_counts",
+      {
+        p_user_id: user.id,
+        p_email: user.email || null,
+      }
+    );
 
-    // Get all chat rooms where user is involved
-    const { data: chatRooms } = await supabase
-      .from("item_claims")
-      .select(
-        `
-        id, 
-        chat_room_id, 
-        user_id, 
-        item_id,
-        claimer_email
-      `
-      )
-      .or(
-        `user_id.eq.${user.id}${
-          itemIds.length > 0 ? `,item_id.in.(${itemIds.join(",")})` : ""
-        }`
+    if (countsError) {
+      console.error("Error fetching unread counts:", countsError);
+      return NextResponse.json(
+        {
+          error: "Failed to fetch unread counts",
+          details: countsError.message,
+        },
+        { status: 500 }
       );
-
-    if (!chatRooms || chatRooms.length === 0) {
-      return NextResponse.json({ unreadCounts: {}, totalUnread: 0 });
     }
 
-    // Identify chat rooms where user is involved either as claimer or item owner
-    const chatRoomIds = chatRooms.map((room) => room.chat_room_id);
-
-    // Check if user is claimer by email as well (for cases where user is not logged in when claiming)
-    const claimerByEmailRooms = await supabase
-      .from("item_claims")
-      .select("chat_room_id")
-      .eq("claimer_email", user.email);
-
-    if (claimerByEmailRooms.data && claimerByEmailRooms.data.length > 0) {
-      claimerByEmailRooms.data.forEach((room) => {
-        if (!chatRoomIds.includes(room.chat_room_id)) {
-          chatRoomIds.push(room.chat_room_id);
-        }
-      });
-    }
-
-    // Get unread message counts for each chat room
     const unreadCounts: Record<string, number> = {};
     let totalUnread = 0;
 
-    // For each chat room, count messages that are not read and not sent by the current user
-    for (const roomId of chatRoomIds) {
-      const { count, error } = await supabase
-        .from("chat_messages")
-        .select("*", { count: "exact", head: true })
-        .eq("chat_room_id", roomId)
-        .eq("is_read", false)
-        .neq("sender_id", user.id);
-
-      if (!error && count !== null) {
-        unreadCounts[roomId] = count;
+    (rows || []).forEach(
+      (row: { chat_room_id: string; unread_count: number }) => {
+        const count = Number(row.unread_count);
+        unreadCounts[row.chat_room_id] = count;
         totalUnread += count;
       }
-    }
+    );
 
     return NextResponse.json({
       unreadCounts,
       totalUnread,
     });
   } catch (error: any) {
+    if (error instanceof RouteGuardError) {
+      return error.toResponse();
+    }
+
     console.error("Error fetching unread counts:", error);
     return NextResponse.json(
       { error: "Failed to fetch unread counts", details: error.message },
@@ -1,7 +1,40 @@
-import { verifyToken } from "@/lib/utils";
-import { createClient } from "@/lib/server";
+import {
+  ClaimTokenError,
+  checkClaimToken,
+  redeemClaimToken,
+} from "@/lib/claim-tokens";
+import { createAdminClient } from "@/lib/server";
 import { NextRequest, NextResponse } from "next/server";
 
+// GET: Check a claim link before asking for the email address, without using it up
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    await checkClaimToken(supabase, token);
+
+    return NextResponse.json({ valid: true });
+  } catch (error) {
+    if (error instanceof ClaimTokenError) {
+      return NextResponse.json(
+        { valid: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error checking claim token:", error);
+    return NextResponse.json(
+      { error: "Failed to check verification link" },
+      { status: 500 }
+    );
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const { token, email } = await request.json();
@@ -14,30 +47,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify the token
-    const decodedToken = verifyToken(token);
+    const supabase = createAdminClient();
 
-    if (!decodedToken) {
-      return NextResponse.json(
-        { error: "Invalid or expired verification token" },
-        { status: 400 }
-      );
-    }
-
-    // Check if the provided email matches the email in the token
-    if (decodedToken.email.toLowerCase() !== email.toLowerCase()) {
-      return NextResponse.json(
-        { error: "Email address doesn't match the verification token" },
-        { status: 400 }
-      );
-    }
+    // Verify the signature, expiry and email, and use up the token
+    const { chatRoomId } = await redeemClaimToken(supabase, token, email);
 
     // Token verified and email matches, now check if the chat room exists
-    const supabase = await createClient();
     const { data: claim, error: claimError } = await supabase
       .from("item_claims")
-      .select("*")
-      .eq("chat_room_id", decodedToken.chatRoomId)
+      .select("id")
+      .eq("chat_room_id", chatRoomId)
       .single();
 
     if (claimError || !claim) {
@@ -51,9 +70,16 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: "Email verified successfully",
-      chatRoomId: decodedToken.chatRoomId,
+      chatRoomId,
     });
-  } catch (error: any) {
+  } catch (error) {
+    if (error instanceof ClaimTokenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error("Error verifying claim token:", error);
     return NextResponse.json(
       { error: "Failed to verify email" },
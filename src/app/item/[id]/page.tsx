@@ -0,0 +1,237 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { format } from "date-fns";
+import { Calendar, Clock, MapPin } from "lucide-react";
+import { createClient } from "@/lib/server";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { ItemType } from "@/components/item-card";
+import { getCategoryLabel } from "@/lib/item-categories";
+import { ItemLocationMap } from "@/components/item-location-map";
+import { ItemClaimButton } from "@/components/item-claim-button";
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
+
+// Only public columns - contact details are shared through the claim chat
+const PUBLIC_ITEM_COLUMNS = `
+  id,
+  type,
+  category,
+  title,
+  description,
+  date,
+  location_address,
+  location_latitude,
+  location_longitude,
+  location_place_id,
+  image_url,
+  user_id,
+  status,
+  is_claimed,
+  created_at
+`;
+
+const statusLabels: Record<string, string> = {
+  pending: "Open",
+  verified: "Verified",
+  claimed: "Claimed",
+  resolved: "Resolved",
+  expired: "Expired",
+};
+
+interface ItemPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Cached so generateMetadata and the page share a single query per request
+const getItem = cache(async (id: string): Promise<ItemType | null> => {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("items")
+    .select(PUBLIC_ITEM_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching item:", error);
+    return null;
+  }
+
+  return data as ItemType | null;
+});
+
+export async function generateMetadata({
+  params,
+}: ItemPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const item = await getItem(id);
+
+  if (!item) {
+    return { title: "Item not found - IFound4U" };
+  }
+
+  const title = `${item.type === "lost" ? "Lost" : "Found"}: ${
+    item.title
+  } - IFound4U`;
+  const description =
+    item.description.length > 160
+      ? `${item.description.slice(0, 157)}...`
+      : item.description;
+  const url = `${BASE_URL}/item/${item.id}`;
+  const images = item.image_url
+    ? [{ url: item.image_url, alt: item.title }]
+    : undefined;
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: "article",
+      siteName: "IFound4U",
+      title,
+      description,
+      url,
+      images,
+    },
+    twitter: {
+      card: item.image_url ? "summary_large_image" : "summary",
+      title,
+      description,
+      images: item.image_url ? [item.image_url] : undefined,
+    },
+  };
+}
+
+export default async function ItemPage({ params }: ItemPageProps) {
+  const { id } = await params;
+  const item = await getItem(id);
+
+  if (!item) {
+    notFound();
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const isOwnItem = !!user && item.user_id === user.id;
+  const status = item.status || "pending";
+  const canBeClaimed =
+    !isOwnItem &&
+    !item.is_claimed &&
+    !["claimed", "resolved", "expired"].includes(status);
+
+  return (
+    <div className='container max-w-5xl mx-auto py-8 px-4'>
+      <div className='mb-6'>
+        <Button variant='ghost' asChild>
+          <Link href='/items'>Back to Items</Link>
+        </Button>
+      </div>
+
+      <div className='grid grid-cols-1 md:grid-cols-5 gap-8'>
+        {/* Photo and description */}
+        <div className='md:col-span-3 space-y-6'>
+          <div className='relative w-full h-80 md:h-[28rem] rounded-lg overflow-hidden border border-border/40'>
+            {item.image_url ? (
+              <Image
+                src={item.image_url}
+                alt={item.title}
+                fill
+                priority
+                sizes='(max-width: 768px) 100vw, 60vw'
+                className='object-cover'
+              />
+            ) : (
+              <div className='w-full h-full bg-muted/50 flex items-center justify-center'>
+                <p className='text-muted-foreground'>No image available</p>
+              </div>
+            )}
+            <Badge
+              variant={item.type === "lost" ? "destructive" : "default"}
+              className='absolute top-4 right-4 shadow-sm'
+            >
+              {item.type === "lost" ? "Lost" : "Found"}
+            </Badge>
+          </div>
+
+          <div className='space-y-3'>
+            <div className='flex flex-wrap items-center gap-2'>
+              <Badge variant='outline'>{getCategoryLabel(item.category)}</Badge>
+              <Badge variant={status === "pending" ? "secondary" : "outline"}>
+                {item.is_claimed ? "Claimed" : statusLabels[status] || status}
+              </Badge>
+            </div>
+            <h1 className='text-3xl font-bold'>{item.title}</h1>
+            <p className='text-muted-foreground whitespace-pre-line'>
+              {item.description}
+            </p>
+          </div>
+        </div>
+
+        {/* Details, map and claim entry point */}
+        <div className='md:col-span-2 space-y-6'>
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+              <CardDescription>
+                {item.type === "lost"
+                  ? "Reported as lost by its owner"
+                  : "Reported as found by a finder"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className='space-y-3 text-sm'>
+              <div className='flex items-center gap-2'>
+                <Calendar className='h-4 w-4 text-muted-foreground' />
+                <span>
+                  {item.type === "lost" ? "Lost on" : "Found on"}{" "}
+                  {format(new Date(item.date), "PPP")}
+                </span>
+              </div>
+              <div className='flex items-start gap-2'>
+                <MapPin className='h-4 w-4 shrink-0 mt-0.5 text-muted-foreground' />
+                <span>{item.location_address}</span>
+              </div>
+              <div className='flex items-center gap-2'>
+                <Clock className='h-4 w-4 text-muted-foreground' />
+                <span>Posted {format(new Date(item.created_at), "PPP")}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className='h-64 rounded-lg overflow-hidden border border-border/40'>
+            <ItemLocationMap
+              latitude={item.location_latitude}
+              longitude={item.location_longitude}
+            />
+          </div>
+
+          {isOwnItem ? (
+            <Button variant='outline' size='lg' className='w-full' asChild>
+              <Link href={`/item/${item.id}/edit`}>Edit Item</Link>
+            </Button>
+          ) : canBeClaimed ? (
+            <ItemClaimButton item={item} />
+          ) : (
+            <p className='text-sm text-muted-foreground text-center'>
+              This item is no longer accepting claims.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
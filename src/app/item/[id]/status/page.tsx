@@ -0,0 +1,69 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { createClient } from "@/lib/server";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ItemStatusUpdate } from "@/components/item-status-update";
+
+interface ItemStatusPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+// Landing page of the lifecycle reminder email
+export default async function ItemStatusPage({
+  params,
+  searchParams,
+}: ItemStatusPageProps) {
+  const { id } = await params;
+  const { token } = await searchParams;
+  const supabase = await createClient();
+
+  const { data: item } = await supabase
+    .from("items")
+    .select("id, type, title, status")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!item) {
+    notFound();
+  }
+
+  return (
+    <div className='container max-w-lg mx-auto py-12 px-4'>
+      <Card>
+        <CardHeader>
+          <CardTitle>{item.title}</CardTitle>
+          <CardDescription>
+            {item.type === "lost"
+              ? "Do you still need help finding this item?"
+              : "Is this item still waiting for its owner?"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          {item.status === "resolved" ? (
+            <p className='text-sm text-muted-foreground'>
+              This item has already been marked as resolved. Thank you!
+            </p>
+          ) : (
+            <ItemStatusUpdate
+              itemId={item.id}
+              itemType={item.type}
+              token={token || null}
+              isExpired={item.status === "expired"}
+            />
+          )}
+          <Button variant='ghost' className='w-full' asChild>
+            <Link href={`/item/${item.id}`}>View Item</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
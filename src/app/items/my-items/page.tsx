@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from "react";
 import { createClient } from "@/lib/client";
 import { ItemsList } from "@/components/items-list";
+import { PossibleMatches } from "@/components/possible-matches";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Plus } from "lucide-react";
@@ -72,6 +73,8 @@ export default function MyItemsPage() {
         </Button>
       </div>
 
+      <PossibleMatches />
+
       <Tabs
         defaultValue={activeTab}
         onValueChange={(v) => setActiveTab(v as "all" | "lost" | "found")}
@@ -89,6 +92,7 @@ export default function MyItemsPage() {
             userId={userId}
             showFilters={false}
             showPagination={true}
+            includeInactive
           />
         </TabsContent>
         <TabsContent value='lost'>
@@ -97,6 +101,7 @@ export default function MyItemsPage() {
             userId={userId}
             showFilters={false}
             showPagination={true}
+            includeInactive
           />
         </TabsContent>
         <TabsContent value='found'>
@@ -105,6 +110,7 @@ export default function MyItemsPage() {
             userId={userId}
             showFilters={false}
             showPagination={true}
+            includeInactive
           />
         </TabsContent>
       </Tabs>
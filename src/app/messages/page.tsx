@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { createClient } from "@/lib/client";
 import { RealtimeChat } from "@/components/realtime-chat";
@@ -30,6 +30,14 @@ import {
 import { Check, MessageSquare, X } from "lucide-react";
 import { toast } from "sonner";
 import { useUnreadMessages } from "@/hooks/use-unread-messages";
+import { ClaimVerificationAnswers } from "@/components/claim-verification-answers";
+import { Textarea } from "@/components/ui/textarea";
+import type { ClaimStatus } from "@/lib/claim-state-machine";
+import { useRoomsPresence } from "@/hooks/use-rooms-presence";
+import {
+  type ParticipantPresence,
+  formatLastSeen,
+} from "@/lib/chat-presence";
 
 // Define interface for chat room data
 interface ChatRoom {
@@ -52,10 +60,32 @@ interface ChatRoom {
     created_at: string;
     is_claimed: boolean;
   };
-  status: "pending" | "accepted" | "rejected";
+  status: ClaimStatus;
   created_at: string;
 }
 
+// Online dot and typing/last seen hint for a conversation in the list
+function PresenceIndicator({ presence }: { presence?: ParticipantPresence }) {
+  if (!presence) return null;
+
+  return (
+    <span className='flex items-center gap-1 text-xs'>
+      <span
+        className={`size-2 rounded-full ${
+          presence.isOnline ? "bg-green-500" : "bg-muted-foreground/40"
+        }`}
+      />
+      {presence.isTyping
+        ? "typing…"
+        : presence.isOnline
+        ? "online"
+        : presence.lastSeenAt
+        ? formatLastSeen(presence.lastSeenAt)
+        : null}
+    </span>
+  );
+}
+
 export default function MessagesPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isMounted, setIsMounted] = useState(false);
@@ -66,8 +96,28 @@ export default function MessagesPage() {
   const [actionType, setActionType] = useState<"accepted" | "rejected">(
     "accepted"
   );
+  const [actionReason, setActionReason] = useState("");
   const [isOwner, setIsOwner] = useState<{ [key: string]: boolean }>({});
   const { unreadCounts, refreshCounts } = useUnreadMessages();
+  const [selectedPresence, setSelectedPresence] =
+    useState<ParticipantPresence | null>(null);
+
+  // The open conversation reports its own presence, the chat already joined that room
+  const otherRoomNames = useMemo(
+    () =>
+      activeChats
+        .map((chat) => chat.chatRoomId)
+        .filter((roomName) => roomName !== selectedChat?.chatRoomId),
+    [activeChats, selectedChat?.chatRoomId]
+  );
+  const roomsPresence = useRoomsPresence(otherRoomNames, username);
+  const presenceByRoom = useMemo(
+    () =>
+      selectedChat && selectedPresence
+        ? { ...roomsPresence, [selectedChat.chatRoomId]: selectedPresence }
+        : roomsPresence,
+    [roomsPresence, selectedChat, selectedPresence]
+  );
 
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -345,37 +395,50 @@ export default function MessagesPage() {
     fetchUserAndChats();
   }, [supabase, router, roomParam, isMounted]);
 
+  // Keep the chat list in sync with status changes made elsewhere (e.g. the chat sidebar)
+  const updateChatStatus = useCallback((chatId: string, status: ClaimStatus) => {
+    setActiveChats((prev) =>
+      prev.map((chat) => (chat.id === chatId ? { ...chat, status } : chat))
+    );
+
+    setSelectedChat((prev) =>
+      prev && prev.id === chatId && prev.status !== status
+        ? { ...prev, status }
+        : prev
+    );
+  }, []);
+
   // Handle approval/rejection of a claim
   const handleClaimAction = async () => {
     if (!selectedChat) return;
 
     try {
-      // Update the claim status in the database
-      const { error } = await supabase
-        .from("item_claims")
-        .update({ status: actionType })
-        .eq("id", selectedChat.id);
-
-      if (error) throw error;
+      // The server validates the transition and records it in the claim history
+      const response = await fetch(
+        `/api/claims/${selectedChat.id}/transition`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            status: actionType,
+            reason: actionReason.trim() || undefined,
+          }),
+        }
+      );
+      const data = await response.json();
 
-      // If accepted, also mark the item as claimed
-      if (actionType === "accepted") {
-        await supabase
-          .from("items")
-          .update({ is_claimed: true })
-          .eq("id", selectedChat.itemId);
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${actionType} claim`);
       }
 
       // Update the local state
-      setActiveChats((prev) =>
-        prev.map((chat) =>
-          chat.id === selectedChat.id ? { ...chat, status: actionType } : chat
-        )
-      );
+      updateChatStatus(selectedChat.id, actionType);
 
-      setSelectedChat((prev) =>
-        prev ? { ...prev, status: actionType } : null
-      );
+      if (actionType === "accepted") {
+        setSelectedChat((prev) =>
+          prev ? { ...prev, item: { ...prev.item, is_claimed: true } } : null
+        );
+      }
 
       toast.success(
         `Claim ${
@@ -384,9 +447,10 @@ export default function MessagesPage() {
       );
     } catch (error) {
       console.error(`Error ${actionType}ing claim:`, error);
-      toast.error(`Failed to ${actionType} claim`);
+      toast.error((error as Error).message || `Failed to ${actionType} claim`);
     } finally {
       setShowActionDialog(false);
+      setActionReason("");
     }
   };
 
@@ -496,6 +560,9 @@ export default function MessagesPage() {
                           <div className='text-sm text-muted-foreground flex items-center gap-1'>
                             <MessageSquare className='h-3 w-3' />{" "}
                             {chat.claimerName}
+                            <PresenceIndicator
+                              presence={presenceByRoom[chat.chatRoomId]}
+                            />
                           </div>
                         </div>
                         <div className='flex items-center gap-2'>
@@ -540,6 +607,9 @@ export default function MessagesPage() {
                             <div className='text-sm text-muted-foreground flex items-center gap-1'>
                               <MessageSquare className='h-3 w-3' />{" "}
                               {chat.claimerName}
+                              <PresenceIndicator
+                                presence={presenceByRoom[chat.chatRoomId]}
+                              />
                             </div>
                           </div>
                           <div className='flex items-center gap-2'>
@@ -574,6 +644,9 @@ export default function MessagesPage() {
                             <div className='text-sm text-muted-foreground flex items-center gap-1'>
                               <MessageSquare className='h-3 w-3' />{" "}
                               {chat.claimerName}
+                              <PresenceIndicator
+                                presence={presenceByRoom[chat.chatRoomId]}
+                              />
                             </div>
                           </div>
                           <div className='flex items-center gap-2'>
@@ -646,6 +719,9 @@ export default function MessagesPage() {
                             {selectedChat.status}
                           </Badge>
                         </div>
+                        {isOwner[selectedChat.id] && (
+                          <ClaimVerificationAnswers claimId={selectedChat.id} />
+                        )}
                       </CardContent>
 
                       {shouldShowActionButtons(selectedChat) && (
@@ -717,6 +793,15 @@ export default function MessagesPage() {
                     <RealtimeChat
                       roomName={selectedChat.chatRoomId}
                       username={username}
+                      participantName={
+                        isOwner[selectedChat.id]
+                          ? selectedChat.claimerName || "Claimer"
+                          : "Item Owner"
+                      }
+                      onPresenceChange={setSelectedPresence}
+                      onClaimStatusChange={(status) =>
+                        updateChatStatus(selectedChat.id, status)
+                      }
                     />
                   </div>
                 </Card>
@@ -752,6 +837,13 @@ export default function MessagesPage() {
                 : "This will reject the claim and notify the claimer. You can still chat with them if needed."}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <Textarea
+            value={actionReason}
+            onChange={(e) => setActionReason(e.target.value)}
+            placeholder='Reason (optional, shown in the claim history)'
+            maxLength={500}
+            className='resize-none'
+          />
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction onClick={handleClaimAction}>
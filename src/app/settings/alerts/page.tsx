@@ -0,0 +1,295 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Bell, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { describeSavedSearch, SavedSearch } from "@/lib/saved-searches";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+} from "@/lib/notification-preferences";
+
+export default function AlertsPage() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  );
+  const [updatingPreferences, setUpdatingPreferences] = useState(false);
+
+  const fetchSavedSearches = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/saved-searches");
+
+      if (response.status === 401) {
+        toast.error("Please sign in to manage your alerts");
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch saved searches");
+      }
+
+      const data = await response.json();
+      setSavedSearches(data.savedSearches || []);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      toast.error("Failed to load your alerts. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, [fetchSavedSearches]);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/notification-preferences");
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setPreferences(data.preferences);
+      } catch (error) {
+        console.error("Error fetching notification preferences:", error);
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const handleChatDigestToggle = async (chatDigestEnabled: boolean) => {
+    try {
+      setUpdatingPreferences(true);
+      const response = await fetch("/api/notification-preferences", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ chatDigestEnabled }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update notification preferences");
+      }
+
+      const data = await response.json();
+      setPreferences(data.preferences);
+      toast.success(
+        chatDigestEnabled ? "Chat emails turned on" : "Chat emails turned off"
+      );
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      toast.error("Failed to update your preferences. Please try again.");
+    } finally {
+      setUpdatingPreferences(false);
+    }
+  };
+
+  const handleToggle = async (savedSearch: SavedSearch, isActive: boolean) => {
+    try {
+      setUpdatingId(savedSearch.id);
+      const response = await fetch(`/api/saved-searches/${savedSearch.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ isActive }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update alert");
+      }
+
+      setSavedSearches((prev) =>
+        prev.map((search) =>
+          search.id === savedSearch.id ? { ...search, isActive } : search
+        )
+      );
+      toast.success(isActive ? "Alert resumed" : "Alert paused");
+    } catch (error) {
+      console.error("Error updating alert:", error);
+      toast.error("Failed to update alert. Please try again.");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    try {
+      setUpdatingId(savedSearch.id);
+      const response = await fetch(`/api/saved-searches/${savedSearch.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete alert");
+      }
+
+      setSavedSearches((prev) =>
+        prev.filter((search) => search.id !== savedSearch.id)
+      );
+      toast.success("Alert deleted");
+    } catch (error) {
+      console.error("Error deleting alert:", error);
+      toast.error("Failed to delete alert. Please try again.");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className='container max-w-3xl py-10'>
+      <h1 className='text-2xl font-bold mb-2'>Search Alerts</h1>
+      <p className='text-muted-foreground mb-6'>
+        Get an email and a notification when a newly reported item matches one
+        of your saved searches. Save a search from the{" "}
+        <Link href='/items' className='text-primary hover:underline'>
+          Browse Items
+        </Link>{" "}
+        page.
+      </p>
+
+      {loading ? (
+        <div className='flex justify-center py-12'>
+          <Loader2 className='h-8 w-8 animate-spin text-primary' />
+        </div>
+      ) : savedSearches.length === 0 ? (
+        <Card>
+          <CardContent className='flex flex-col items-center py-12 text-center'>
+            <div className='bg-muted/50 rounded-full p-4 mb-4'>
+              <Bell className='h-8 w-8 text-muted-foreground' />
+            </div>
+            <p className='text-lg font-medium mb-1'>No alerts yet</p>
+            <p className='text-muted-foreground max-w-md'>
+              Use &quot;Save Search&quot; while browsing items to be alerted
+              about new reports.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className='space-y-4'>
+          {savedSearches.map((savedSearch) => (
+            <Card
+              key={savedSearch.id}
+              className={savedSearch.isActive ? "" : "opacity-70"}
+            >
+              <CardHeader className='flex flex-row items-start justify-between gap-4 space-y-0'>
+                <div className='space-y-1'>
+                  <CardTitle className='text-lg'>{savedSearch.name}</CardTitle>
+                  <CardDescription>
+                    Created {format(new Date(savedSearch.createdAt), "PPP")}
+                    {savedSearch.lastNotifiedAt &&
+                      ` · Last alert ${format(
+                        new Date(savedSearch.lastNotifiedAt),
+                        "PPP"
+                      )}`}
+                  </CardDescription>
+                </div>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant='ghost'
+                      size='icon'
+                      aria-label='Delete alert'
+                      disabled={updatingId === savedSearch.id}
+                    >
+                      <Trash2 className='h-4 w-4 text-destructive' />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this alert?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        You will no longer be notified about new items matching
+                        &quot;{savedSearch.name}&quot;. You can pause the alert
+                        instead if you only want a break.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleDelete(savedSearch)}
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </CardHeader>
+              <CardContent className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+                <div className='flex flex-wrap gap-2'>
+                  {describeSavedSearch(savedSearch.filters).map((part) => (
+                    <Badge key={part} variant='secondary'>
+                      {part}
+                    </Badge>
+                  ))}
+                </div>
+                <div className='flex items-center gap-2'>
+                  <Switch
+                    id={`alert-${savedSearch.id}`}
+                    checked={savedSearch.isActive}
+                    disabled={updatingId === savedSearch.id}
+                    onCheckedChange={(checked) =>
+                      handleToggle(savedSearch, checked)
+                    }
+                  />
+                  <Label htmlFor={`alert-${savedSearch.id}`}>
+                    {savedSearch.isActive ? "Active" : "Paused"}
+                  </Label>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <h2 className='text-xl font-bold mt-10 mb-2'>Chat Emails</h2>
+      <Card>
+        <CardContent className='flex items-center justify-between gap-4 pt-6'>
+          <div className='space-y-1'>
+            <Label htmlFor='chat-digest'>Unread message digests</Label>
+            <p className='text-sm text-muted-foreground'>
+              Get an email when messages in your claim chats stay unread for a
+              while. At most one email per conversation every few hours.
+            </p>
+          </div>
+          <Switch
+            id='chat-digest'
+            checked={preferences.chatDigestEnabled}
+            disabled={updatingPreferences}
+            onCheckedChange={handleChatDigestToggle}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
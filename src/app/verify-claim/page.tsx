@@ -39,6 +39,29 @@ export default function VerifyClaimPage() {
       );
       return;
     }
+
+    // Tell the visitor right away if the link was already used, revoked or expired
+    const checkToken = async () => {
+      try {
+        const response = await fetch(
+          `/api/verify-claim?token=${encodeURIComponent(token)}`
+        );
+
+        if (!response.ok) {
+          const data = await response.json();
+          setVerificationState("error");
+          setErrorMessage(
+            data.error ||
+              "This verification link is no longer valid. Please check your email for a newer link."
+          );
+        }
+      } catch (error) {
+        // Not fatal, the link is checked again when the form is submitted
+        console.error("Error checking verification link:", error);
+      }
+    };
+
+    checkToken();
   }, [token]);
 
   const handleSubmit = async (e: React.FormEvent) => {
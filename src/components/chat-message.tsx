@@ -1,13 +1,157 @@
 import { cn } from '@/lib/utils'
 import type { ChatMessage } from '@/hooks/use-realtime-chat'
+import { type ChatAttachment, isImageAttachment } from '@/lib/chat-attachments'
+import { formatBytes } from '@/components/dropzone'
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
+import { describeModerationRules } from '@/lib/chat-moderation'
+import {
+  type ChatSystemAction,
+  type ChatSystemEvent,
+  type ChatSystemEventType,
+  getSystemEventActions,
+} from '@/lib/chat-system-messages'
+import type { ClaimParticipantRole } from '@/lib/route-guards'
+import { Button } from '@/components/ui/button'
+import {
+  AlertTriangle,
+  CircleCheck,
+  CircleX,
+  CirclePause,
+  CreditCard,
+  Download,
+  FileText,
+  type LucideIcon,
+  Package,
+  RotateCcw,
+  RotateCw,
+  Scale,
+  Truck,
+  Undo2,
+  Wallet,
+} from 'lucide-react'
+import Image from 'next/image'
+import { useState } from 'react'
 
 interface ChatMessageItemProps {
   message: ChatMessage
   isOwnMessage: boolean
   showHeader: boolean
+  onRetry?: (id: string) => void
+  isSeen?: boolean
+  // Where the viewer stands on the claim, decides which actions system messages offer
+  claimContext?: { role: ClaimParticipantRole; claimStatus: string }
+  onSystemAction?: (action: ChatSystemAction) => void
 }
 
-export const ChatMessageItem = ({ message, isOwnMessage, showHeader }: ChatMessageItemProps) => {
+const SYSTEM_EVENT_ICONS: Record<ChatSystemEventType, LucideIcon> = {
+  claim_status_changed: CircleCheck,
+  payment_succeeded: CreditCard,
+  payment_failed: CircleX,
+  shipping_configured: Package,
+  item_shipped: Truck,
+  payout_released: Wallet,
+  payout_on_hold: CirclePause,
+  payout_reversed: Undo2,
+  payment_refunded: RotateCcw,
+  payment_canceled: CircleX,
+  payment_disputed: AlertTriangle,
+  payment_dispute_closed: Scale,
+}
+
+const isNegativeEvent = (event: ChatSystemEvent) =>
+  event.type === 'payment_failed' ||
+  event.type === 'payment_disputed' ||
+  (event.type === 'claim_status_changed' && event.payload.to === 'rejected')
+
+// Server-written events are shown as timeline entries between the bubbles
+const SystemMessageItem = ({
+  message,
+  event,
+  claimContext,
+  onSystemAction,
+}: {
+  message: ChatMessage
+  event: ChatSystemEvent
+  claimContext?: ChatMessageItemProps['claimContext']
+  onSystemAction?: ChatMessageItemProps['onSystemAction']
+}) => {
+  const Icon = isNegativeEvent(event) ? CircleX : SYSTEM_EVENT_ICONS[event.type] || CircleCheck
+  const actions = claimContext ? getSystemEventActions(event, claimContext) : []
+
+  return (
+    <div className="flex flex-col items-center gap-1 my-3">
+      <div
+        className={cn(
+          'flex items-center gap-2 rounded-full border px-3 py-1 text-xs',
+          isNegativeEvent(event)
+            ? 'border-destructive/50 bg-destructive/10 text-destructive'
+            : 'bg-muted text-muted-foreground'
+        )}
+      >
+        <Icon className="size-3.5 shrink-0" />
+        <span>{message.content}</span>
+        <span className="text-foreground/40">
+          {new Date(message.timestamp).toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: true,
+          })}
+        </span>
+      </div>
+      {actions.length > 0 && (
+        <div className="flex gap-2">
+          {actions.map((action) =>
+            action.type === 'view_tracking' ? (
+              <Button key={action.type} variant="outline" size="sm" asChild>
+                <a href={action.url} target="_blank" rel="noopener noreferrer">
+                  <Truck className="size-4" />
+                  {action.label}
+                </a>
+              </Button>
+            ) : (
+              <Button
+                key={action.type}
+                size="sm"
+                onClick={() => onSystemAction?.(action)}
+                disabled={!onSystemAction}
+              >
+                <CreditCard className="size-4" />
+                {action.label}
+              </Button>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export const ChatMessageItem = ({
+  message,
+  isOwnMessage,
+  showHeader,
+  onRetry,
+  isSeen = false,
+  claimContext,
+  onSystemAction,
+}: ChatMessageItemProps) => {
+  const [lightboxImage, setLightboxImage] = useState<ChatAttachment | null>(null)
+
+  if (message.kind === 'system' && message.event) {
+    return (
+      <SystemMessageItem
+        message={message}
+        event={message.event}
+        claimContext={claimContext}
+        onSystemAction={onSystemAction}
+      />
+    )
+  }
+
+  const attachments = message.attachments || []
+  const images = attachments.filter(isImageAttachment)
+  const files = attachments.filter((attachment) => !isImageAttachment(attachment))
+
   return (
     <div className={`flex mt-2 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
       <div
@@ -31,15 +175,129 @@ export const ChatMessageItem = ({ message, isOwnMessage, showHeader }: ChatMessa
             </span>
           </div>
         )}
-        <div
-          className={cn(
-            'py-2 px-3 rounded-xl text-sm w-fit',
-            isOwnMessage ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
-          )}
-        >
-          {message.content}
-        </div>
+        {images.length > 0 && (
+          <div
+            className={cn('grid gap-1', images.length > 1 ? 'grid-cols-2' : 'grid-cols-1')}
+          >
+            {images.map((image) =>
+              image.url ? (
+                <button
+                  key={image.id}
+                  type="button"
+                  className="overflow-hidden rounded-lg border bg-muted"
+                  onClick={() => setLightboxImage(image)}
+                  title={image.name}
+                >
+                  {/* Signed URLs expire, so they aren't worth optimizing */}
+                  <Image
+                    src={image.url}
+                    alt={image.name}
+                    width={128}
+                    height={128}
+                    unoptimized
+                    className="h-32 w-32 object-cover transition-transform hover:scale-105"
+                  />
+                </button>
+              ) : (
+                <div
+                  key={image.id}
+                  className="h-32 w-32 rounded-lg border bg-muted flex items-center justify-center text-xs text-muted-foreground"
+                >
+                  Unavailable
+                </div>
+              )
+            )}
+          </div>
+        )}
+        {files.map((file) => (
+          <a
+            key={file.id}
+            href={file.url || undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 rounded-xl border bg-muted px-3 py-2 text-sm hover:bg-muted/70"
+          >
+            <FileText className="size-4 shrink-0" />
+            <span className="truncate max-w-48">{file.name}</span>
+            <span className="text-xs text-muted-foreground">{formatBytes(file.size, 1)}</span>
+          </a>
+        ))}
+        {message.content && (
+          <div
+            className={cn(
+              'py-2 px-3 rounded-xl text-sm w-fit',
+              isOwnMessage ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground',
+              { 'opacity-60': message.status === 'pending' }
+            )}
+          >
+            {message.content}
+          </div>
+        )}
+        {/* The server flagged this message, warn the recipient before they act on it */}
+        {!isOwnMessage && message.moderation?.action === 'warn' && (
+          <div className="flex items-start gap-2 rounded-lg border border-destructive/50 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+            <AlertTriangle className="size-4 shrink-0" />
+            <span>
+              {describeModerationRules(message.moderation.rules)} Never pay or share personal
+              details outside IFound4U.
+            </span>
+          </div>
+        )}
+        {isOwnMessage && message.moderation?.action === 'mask' && (
+          <span className="px-3 text-xs text-muted-foreground">
+            Some details were hidden to keep you safe
+          </span>
+        )}
+        {isOwnMessage && message.status === 'pending' && (
+          <span className="px-3 text-xs text-muted-foreground">Sending…</span>
+        )}
+        {isOwnMessage && isSeen && message.status !== 'pending' && (
+          <span className="px-3 text-xs text-muted-foreground">Seen</span>
+        )}
+        {isOwnMessage && message.status === 'failed' && (
+          <div className="flex items-center gap-2 px-3 text-xs text-destructive">
+            <span>Not sent</span>
+            {onRetry && (
+              <button
+                type="button"
+                className="flex items-center gap-1 underline hover:no-underline"
+                onClick={() => onRetry(message.id)}
+              >
+                <RotateCw className="size-3" />
+                Retry
+              </button>
+            )}
+          </div>
+        )}
       </div>
+
+      <Dialog open={!!lightboxImage} onOpenChange={(open) => !open && setLightboxImage(null)}>
+        <DialogContent className="max-w-4xl p-2">
+          <DialogTitle className="sr-only">{lightboxImage?.name}</DialogTitle>
+          {lightboxImage?.url && (
+            <div className="flex flex-col gap-2">
+              <Image
+                src={lightboxImage.url}
+                alt={lightboxImage.name}
+                width={1200}
+                height={900}
+                unoptimized
+                className="max-h-[80vh] w-full h-auto object-contain rounded"
+              />
+              <a
+                href={lightboxImage.url}
+                download={lightboxImage.name}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 self-end px-2 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <Download className="size-4" />
+                Download
+              </a>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -26,7 +26,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Loader2 } from "lucide-react";
+import { Loader2, ShieldQuestion } from "lucide-react";
 import { ItemType } from "./item-card";
 
 // Define the schema for the claim form
@@ -38,6 +38,8 @@ const claimFormSchema = z.object({
     .string()
     .min(10, { message: "Description must be at least 10 characters" })
     .max(500, { message: "Description can't be more than 500 characters" }),
+  // Answers to the reporter's verification questions, keyed by question ID
+  answers: z.record(z.string(), z.string()),
 });
 
 type ClaimFormValues = z.infer<typeof claimFormSchema>;
@@ -54,6 +56,9 @@ export function ClaimItemDialog({
   onChatStarted,
 }: ClaimItemDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [questions, setQuestions] = useState<
+    Array<{ id: string; question: string }>
+  >([]);
   const supabase = createClient();
 
   const form = useForm<ClaimFormValues>({
@@ -63,9 +68,29 @@ export function ClaimItemDialog({
       email: "",
       phone: "",
       description: `Hi, I believe I lost this ${item.category} that you found. I can provide more details to verify it's mine.`,
+      answers: {},
     },
   });
 
+  // Load the reporter's verification questions (answers are never sent to the browser)
+  React.useEffect(() => {
+    const fetchQuestions = async () => {
+      try {
+        const response = await fetch(
+          `/api/items/${item.id}/verification-questions`
+        );
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setQuestions(data.questions || []);
+      } catch (error) {
+        console.error("Error fetching verification questions:", error);
+      }
+    };
+
+    fetchQuestions();
+  }, [item.id]);
+
   // Check if user is authenticated and prefill form
   React.useEffect(() => {
     const checkAuth = async () => {
@@ -89,6 +114,19 @@ export function ClaimItemDialog({
   }, [form, supabase.auth]);
 
   const onSubmit = async (values: ClaimFormValues) => {
+    // Every verification question must be answered
+    const unanswered = questions.filter(
+      (question) => !values.answers[question.id]?.trim()
+    );
+    if (unanswered.length > 0) {
+      unanswered.forEach((question) =>
+        form.setError(`answers.${question.id}`, {
+          message: "Please answer this question",
+        })
+      );
+      return;
+    }
+
     try {
       setIsSubmitting(true);
 
@@ -111,8 +149,11 @@ export function ClaimItemDialog({
           claimer_email: values.email,
           claimer_phone: values.phone || null,
           claim_description: values.description,
-          user_id: userId || null,
           chat_room_id: chatRoomId,
+          verification_answers: questions.map((question) => ({
+            question_id: question.id,
+            answer: values.answers[question.id]?.trim() || "",
+          })),
         }),
       });
 
@@ -121,25 +162,6 @@ export function ClaimItemDialog({
         throw new Error(errorData.message || "Failed to submit claim");
       }
 
-      // Send notification email to item owner about the claim
-      try {
-        await fetch("/api/send-claim-notification", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            itemId: item.id,
-            itemTitle: item.title,
-            claimerName: values.name,
-            claimerEmail: values.email,
-            claimDescription: values.description,
-            chatRoomId,
-          }),
-        });
-      } catch (emailError) {
-        console.error("Failed to send claim notification email:", emailError);
-        // Don't fail the whole process if just the email fails
-      }
-
       toast.success("Claim submitted successfully");
 
       // For unregistered users, show a message about checking email
@@ -245,6 +267,35 @@ export function ClaimItemDialog({
               )}
             />
 
+            {questions.length > 0 && (
+              <div className='space-y-4 p-4 rounded-md border border-border/40 bg-accent/5'>
+                <div className='flex items-center gap-2 text-sm font-medium'>
+                  <ShieldQuestion className='h-4 w-4' />
+                  The finder asks every claimer to answer these questions
+                </div>
+                {questions.map((question) => (
+                  <FormField
+                    key={question.id}
+                    control={form.control}
+                    name={`answers.${question.id}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{question.question}</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder='Your answer'
+                            {...field}
+                            value={field.value || ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+
             <DialogFooter>
               <Button variant='outline' type='button' onClick={onClose}>
                 Cancel
@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createClient } from "@/lib/client";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  CLAIM_STATUS_LABELS,
+  ClaimActorRole,
+  ClaimStatus,
+  ClaimStatusHistoryEntry,
+} from "@/lib/claim-state-machine";
+
+// Accepting and rejecting have their own confirmation flow on the messages page
+const ACTION_LABELS: Partial<Record<ClaimStatus, string>> = {
+  shipped: "Mark as shipped",
+  delivered: "Confirm delivery",
+  resolved: "Mark as resolved",
+};
+
+const ACTOR_LABELS: Record<ClaimActorRole, string> = {
+  owner: "Item owner",
+  claimer: "Claimer",
+  system: "System",
+};
+
+const STATUS_DOT_CLASSES: Record<ClaimStatus, string> = {
+  pending: "bg-muted-foreground",
+  accepted: "bg-green-600",
+  rejected: "bg-destructive",
+  resolved: "bg-green-600",
+  paid: "bg-primary",
+  shipped: "bg-primary",
+  delivered: "bg-primary",
+};
+
+interface ClaimStatusTimelineProps {
+  claimId: string;
+  onStatusChange?: (status: ClaimStatus) => void;
+}
+
+/**
+ * Timeline of a claim's status changes, with the next steps
+ * the current user is allowed to take
+ * @param claimId - ID of the claim
+ * @param onStatusChange - Called whenever the current claim status changes
+ */
+export function ClaimStatusTimeline({
+  claimId,
+  onStatusChange,
+}: ClaimStatusTimelineProps) {
+  const [history, setHistory] = useState<ClaimStatusHistoryEntry[]>([]);
+  const [allowedTransitions, setAllowedTransitions] = useState<ClaimStatus[]>(
+    []
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingStatus, setPendingStatus] = useState<ClaimStatus | null>(null);
+  // Marking as shipped first asks for the (optional) tracking details
+  const [isEnteringTracking, setIsEnteringTracking] = useState(false);
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [carrier, setCarrier] = useState("");
+  const supabase = useMemo(() => createClient(), []);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/claims/${claimId}/history`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch claim status history");
+      }
+
+      const data = await response.json();
+      setHistory(data.history || []);
+      setAllowedTransitions(data.allowedTransitions || []);
+      if (onStatusChange) onStatusChange(data.status);
+    } catch (error) {
+      console.error("Error fetching claim status history:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [claimId, onStatusChange]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchHistory();
+
+    // Refetch on every new entry, the allowed next steps depend on the new status
+    const channel = supabase
+      .channel(`claim-status:${claimId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "claim_status_history",
+          filter: `claim_id=eq.${claimId}`,
+        },
+        () => fetchHistory()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, claimId, fetchHistory]);
+
+  const handleTransition = async (status: ClaimStatus) => {
+    try {
+      setPendingStatus(status);
+      const response = await fetch(`/api/claims/${claimId}/transition`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          status,
+          tracking:
+            status === "shipped" && trackingNumber.trim()
+              ? { trackingNumber: trackingNumber.trim(), carrier: carrier.trim() }
+              : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update claim status");
+      }
+
+      toast.success(
+        `Claim marked as ${CLAIM_STATUS_LABELS[status].toLowerCase()}`
+      );
+      setIsEnteringTracking(false);
+      setTrackingNumber("");
+      setCarrier("");
+      await fetchHistory();
+    } catch (error) {
+      console.error("Error updating claim status:", error);
+      toast.error((error as Error).message);
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className='flex justify-center py-4'>
+        <Loader2 className='h-4 w-4 animate-spin text-muted-foreground' />
+      </div>
+    );
+  }
+
+  const actions = allowedTransitions.filter((status) => ACTION_LABELS[status]);
+
+  return (
+    <div className='space-y-4'>
+      {history.length === 0 ? (
+        <p className='text-sm text-muted-foreground'>No status changes yet.</p>
+      ) : (
+        <ol className='relative border-l border-border/60 ml-1.5 space-y-4'>
+          {history.map((entry) => (
+            <li key={entry.id} className='ml-4'>
+              <span
+                className={cn(
+                  "absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full",
+                  STATUS_DOT_CLASSES[entry.to_status]
+                )}
+              />
+              <p className='text-sm font-medium'>
+                {CLAIM_STATUS_LABELS[entry.to_status]}
+              </p>
+              <p className='text-xs text-muted-foreground'>
+                {ACTOR_LABELS[entry.actor_role]} ·{" "}
+                {formatDistanceToNow(new Date(entry.created_at), {
+                  addSuffix: true,
+                })}
+              </p>
+              {entry.reason && (
+                <p className='text-xs mt-1 text-muted-foreground italic'>
+                  {entry.reason}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {isEnteringTracking ? (
+        <div className='flex flex-col gap-2'>
+          <Input
+            value={trackingNumber}
+            onChange={(e) => setTrackingNumber(e.target.value)}
+            placeholder='Tracking number (optional)'
+          />
+          <Input
+            value={carrier}
+            onChange={(e) => setCarrier(e.target.value)}
+            placeholder='Carrier, e.g. DHL (optional)'
+          />
+          <Button
+            size='sm'
+            disabled={!!pendingStatus}
+            onClick={() => handleTransition("shipped")}
+          >
+            {pendingStatus === "shipped" && (
+              <Loader2 className='h-4 w-4 mr-1 animate-spin' />
+            )}
+            {ACTION_LABELS.shipped}
+          </Button>
+          <Button
+            size='sm'
+            variant='ghost'
+            disabled={!!pendingStatus}
+            onClick={() => setIsEnteringTracking(false)}
+          >
+            Cancel
+          </Button>
+        </div>
+      ) : actions.length > 0 && (
+        <div className='flex flex-col gap-2'>
+          {actions.map((status) => (
+            <Button
+              key={status}
+              size='sm'
+              variant='outline'
+              disabled={!!pendingStatus}
+              onClick={() =>
+                status === "shipped"
+                  ? setIsEnteringTracking(true)
+                  : handleTransition(status)
+              }
+            >
+              {pendingStatus === status && (
+                <Loader2 className='h-4 w-4 mr-1 animate-spin' />
+              )}
+              {ACTION_LABELS[status]}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
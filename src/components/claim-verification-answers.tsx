@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { CheckCircle2, HelpCircle, Loader2, XCircle } from "lucide-react";
+import { VerificationComparison } from "@/lib/verification";
+
+interface ClaimVerificationAnswersProps {
+  claimId: string;
+}
+
+/**
+ * Side-by-side comparison of the reporter's expected answers and the
+ * claimer's answers, shown to the item owner before accepting a claim
+ */
+export function ClaimVerificationAnswers({
+  claimId,
+}: ClaimVerificationAnswersProps) {
+  const [comparison, setComparison] = useState<VerificationComparison[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/claims/${claimId}/verification`);
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch verification answers");
+        }
+
+        const data = await response.json();
+        setComparison(data.comparison || []);
+      } catch (error) {
+        console.error("Error fetching verification answers:", error);
+        setComparison([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [claimId]);
+
+  if (isLoading) {
+    return (
+      <div className='flex justify-center py-2'>
+        <Loader2 className='h-4 w-4 animate-spin text-muted-foreground' />
+      </div>
+    );
+  }
+
+  if (comparison.length === 0) {
+    return null;
+  }
+
+  const matches = comparison.filter((row) => row.isMatch).length;
+
+  return (
+    <div className='space-y-3 pt-2'>
+      <div className='flex items-center justify-between'>
+        <span className='font-semibold'>Verification Answers</span>
+        <span className='text-xs text-muted-foreground'>
+          {matches} of {comparison.length} match
+        </span>
+      </div>
+      <div className='rounded-md border border-border/40 divide-y divide-border/40 text-sm'>
+        <div className='grid grid-cols-2 gap-3 px-3 py-2 bg-muted/40 text-xs font-medium text-muted-foreground'>
+          <span>Your answer</span>
+          <span>Claimer&apos;s answer</span>
+        </div>
+        {comparison.map((row, index) => (
+          <div key={index} className='px-3 py-2 space-y-1.5'>
+            <p className='text-xs text-muted-foreground'>{row.question}</p>
+            <div className='grid grid-cols-2 gap-3'>
+              <span>
+                {row.expectedAnswer ?? (
+                  <span className='italic text-muted-foreground'>
+                    Question removed
+                  </span>
+                )}
+              </span>
+              <span className='flex items-start gap-1.5'>
+                {row.isMatch === true ? (
+                  <CheckCircle2 className='h-4 w-4 shrink-0 mt-0.5 text-green-600' />
+                ) : row.isMatch === false ? (
+                  <XCircle className='h-4 w-4 shrink-0 mt-0.5 text-destructive' />
+                ) : (
+                  <HelpCircle className='h-4 w-4 shrink-0 mt-0.5 text-muted-foreground' />
+                )}
+                {row.answer}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className='text-xs text-muted-foreground'>
+        Matches are checked automatically and may miss answers worded
+        differently. Use the chat to ask for more details if you are unsure.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from "react";
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Render a search snippet where matches are wrapped in <mark></mark> tags.
+ * The snippet is split into text nodes rather than injected as HTML,
+ * so user-provided item text can never be interpreted as markup.
+ */
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g).filter(Boolean);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.startsWith("<mark>") && part.endsWith("</mark>") ? (
+          <mark
+            key={index}
+            className='bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5'
+          >
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+}
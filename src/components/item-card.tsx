@@ -21,32 +21,16 @@ import {
   User,
 } from "lucide-react";
 import Image from "next/image";
+import Link from "next/link";
 import { ClaimItemDialog } from "./claim-item-dialog";
+import { HighlightedText } from "./highlighted-text";
 import { useRouter } from "next/navigation";
-import { createClient } from "@/lib/client";
 import { toast } from "sonner";
+import { itemCategories, getCategoryLabel } from "@/lib/item-categories";
+import type { ClaimStatus } from "@/lib/claim-state-machine";
 
-// Define the item categories (same as in item-report-form.tsx)
-export const itemCategories = [
-  { value: "electronics", label: "Electronics" },
-  { value: "jewelry", label: "Jewelry" },
-  { value: "clothing", label: "Clothing" },
-  { value: "accessories", label: "Accessories" },
-  { value: "pets", label: "Pets" },
-  { value: "documents", label: "Documents" },
-  { value: "keys", label: "Keys" },
-  { value: "bags", label: "Bags and Luggage" },
-  { value: "toys", label: "Toys" },
-  { value: "books", label: "Books" },
-  { value: "money", label: "Money/Wallet" },
-  { value: "other", label: "Other" },
-];
-
-// Get label for a category value
-export const getCategoryLabel = (value: string) => {
-  const category = itemCategories.find((c) => c.value === value);
-  return category?.label || value;
-};
+// Categories live in a plain module so server components can use them too
+export { itemCategories, getCategoryLabel };
 
 export interface ItemType {
   id: string;
@@ -60,10 +44,17 @@ export interface ItemType {
   location_longitude: number;
   location_place_id?: string | null;
   image_url?: string | null;
+  ai_description?: string | null;
   user_id?: string | null;
   created_at: string;
   is_claimed: boolean;
-  claim_status?: "pending" | "approved" | "rejected" | null;
+  distance_km?: number | null;
+  search_highlight?: {
+    title: string;
+    description: string;
+  } | null;
+  status?: "pending" | "verified" | "claimed" | "resolved" | "expired" | null;
+  claim_status?: ClaimStatus | null;
   contact_info?: {
     name: string;
     email: string;
@@ -88,7 +79,6 @@ export function ItemCard({
 }: ItemCardProps) {
   const [showClaimDialog, setShowClaimDialog] = useState(false);
   const router = useRouter();
-  const supabase = createClient();
 
   // Format the date into a readable format
   const formattedDate = format(new Date(item.date), "PPP");
@@ -103,26 +93,22 @@ export function ItemCard({
   // Handle claim approval/rejection
   const updateClaimStatus = async (
     claimId: string,
-    status: "approved" | "rejected"
+    status: "accepted" | "rejected"
   ) => {
     try {
-      const { error } = await supabase
-        .from("item_claims")
-        .update({ status })
-        .eq("id", claimId);
-
-      if (error) throw error;
+      const response = await fetch(`/api/claims/${claimId}/transition`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
 
-      // If approved, mark the item as claimed
-      if (status === "approved") {
-        await supabase
-          .from("items")
-          .update({ is_claimed: true })
-          .eq("id", item.id);
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update claim status");
       }
 
       toast.success(
-        `Claim ${status === "approved" ? "approved" : "rejected"} successfully`
+        `Claim ${status === "accepted" ? "approved" : "rejected"} successfully`
       );
       if (onClaimStatusChange) onClaimStatusChange();
     } catch (error) {
@@ -156,13 +142,22 @@ export function ItemCard({
           >
             {item.type === "lost" ? "Lost" : "Found"}
           </Badge>
-          {item.is_claimed && (
+          {item.status === "resolved" || item.status === "expired" ? (
             <Badge
-              variant='secondary'
-              className='absolute top-4 left-4 shadow-sm'
+              variant='outline'
+              className='absolute top-4 left-4 shadow-sm bg-background'
             >
-              Claimed
+              {item.status === "resolved" ? "Resolved" : "Expired"}
             </Badge>
+          ) : (
+            item.is_claimed && (
+              <Badge
+                variant='secondary'
+                className='absolute top-4 left-4 shadow-sm'
+              >
+                Claimed
+              </Badge>
+            )
           )}
         </div>
 
@@ -170,7 +165,13 @@ export function ItemCard({
           <div className='flex justify-between items-start gap-2'>
             <div className='flex-1'>
               <CardTitle className='line-clamp-2 text-lg'>
-                {item.title}
+                <Link href={`/item/${item.id}`} className='hover:underline'>
+                  {item.search_highlight ? (
+                    <HighlightedText text={item.search_highlight.title} />
+                  ) : (
+                    item.title
+                  )}
+                </Link>
               </CardTitle>
               <CardDescription className='flex items-center gap-1 mt-1.5 text-xs'>
                 <Calendar className='h-3 w-3' /> {formattedDate}
@@ -184,10 +185,23 @@ export function ItemCard({
 
         <CardContent className='px-5'>
           <div className=''>
+            {item.search_highlight?.description && (
+              <p className='text-sm text-muted-foreground line-clamp-3 mb-3'>
+                <HighlightedText text={item.search_highlight.description} />
+              </p>
+            )}
           
             <div className='text-sm flex items-start gap-2'>
               <MapPin className='h-4 w-4 shrink-0 mt-0.5 text-muted-foreground' />
-              <span className='text-sm'>{item.location_address}</span>
+              <span className='text-sm'>
+                {item.location_address}
+                {item.distance_km != null && (
+                  <span className='text-muted-foreground'>
+                    {" "}
+                    · {item.distance_km} km away
+                  </span>
+                )}
+              </span>
             </div>
 
             {showContactInfo && item.contact_info && (
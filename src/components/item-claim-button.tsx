@@ -0,0 +1,46 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { MessageCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ClaimItemDialog } from "./claim-item-dialog";
+import { ItemType } from "./item-card";
+
+interface ItemClaimButtonProps {
+  item: ItemType;
+}
+
+/**
+ * Button that opens the claim dialog for an item and redirects
+ * to the chat once the claim has been submitted
+ */
+export function ItemClaimButton({ item }: ItemClaimButtonProps) {
+  const [showClaimDialog, setShowClaimDialog] = useState(false);
+  const router = useRouter();
+
+  const handleChatRedirect = (chatRoomId: string) => {
+    router.push(`/messages?room=${chatRoomId}`);
+  };
+
+  return (
+    <>
+      <Button
+        size='lg'
+        className='w-full flex gap-2 items-center shadow-sm hover:shadow'
+        onClick={() => setShowClaimDialog(true)}
+      >
+        <MessageCircle className='h-4 w-4' />
+        {item.type === "found" ? "This is mine" : "I found this"}
+      </Button>
+
+      {showClaimDialog && (
+        <ClaimItemDialog
+          item={item}
+          onClose={() => setShowClaimDialog(false)}
+          onChatStarted={handleChatRedirect}
+        />
+      )}
+    </>
+  );
+}
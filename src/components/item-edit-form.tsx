@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -34,6 +34,8 @@ import {
 import { format } from "date-fns";
 import { CalendarIcon, Loader2, AlertTriangle } from "lucide-react";
 import { LocationInput } from "./location-input";
+import { VerificationQuestionsInput } from "./verification-questions-input";
+import { MAX_VERIFICATION_QUESTIONS } from "@/lib/verification";
 import { AIImageUpload } from "./ai-image-upload";
 import { createClient } from "@/lib/client";
 import { toast } from "sonner";
@@ -67,6 +69,22 @@ const itemEditSchema = z.object({
     placeId: z.string().optional(),
   }),
   imageUrl: z.string().optional(),
+  verificationQuestions: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        question: z.string(),
+        answer: z.string(),
+      })
+    )
+    .max(MAX_VERIFICATION_QUESTIONS)
+    .refine(
+      (questions) =>
+        questions.every(
+          (q) => !!q.question.trim() === !!q.answer.trim()
+        ),
+      { message: "Every verification question needs an answer" }
+    ),
   contactInfo: z.object({
     name: z.string().min(2, { message: "Name is required" }),
     email: z.string().email({ message: "Please enter a valid email" }),
@@ -137,6 +155,7 @@ export function ItemEditForm({ item }: ItemEditFormProps) {
         placeId: item.location_place_id || undefined,
       },
       imageUrl: item.image_url || "",
+      verificationQuestions: [],
       contactInfo: {
         name: item.contact_info?.name || "",
         email: item.contact_info?.email || "",
@@ -146,6 +165,30 @@ export function ItemEditForm({ item }: ItemEditFormProps) {
   });
 
   const reportType = form.watch("type");
+  const [questionsLoaded, setQuestionsLoaded] = useState(false);
+
+  // Load the private verification questions with their expected answers
+  useEffect(() => {
+    const fetchVerificationQuestions = async () => {
+      try {
+        const response = await fetch(
+          `/api/items/${item.id}/verification-questions?withAnswers=true`
+        );
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch verification questions");
+        }
+
+        const data = await response.json();
+        form.setValue("verificationQuestions", data.questions || []);
+        setQuestionsLoaded(true);
+      } catch (error) {
+        console.error("Error fetching verification questions:", error);
+      }
+    };
+
+    fetchVerificationQuestions();
+  }, [form, item.id]);
 
   const onSubmit = async (values: ItemEditFormValues) => {
     try {
@@ -198,6 +241,34 @@ export function ItemEditForm({ item }: ItemEditFormProps) {
         throw new Error(`Error updating contact info: ${contactError.message}`);
       }
 
+      // Verification questions only apply to found items
+      if (questionsLoaded) {
+        const questionsResponse = await fetch(
+          `/api/items/${item.id}/verification-questions`,
+          {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              questions:
+                values.type === "found"
+                  ? values.verificationQuestions.filter((q) =>
+                      q.question.trim()
+                    )
+                  : [],
+            }),
+          }
+        );
+
+        if (!questionsResponse.ok) {
+          const errorData = await questionsResponse.json();
+          throw new Error(
+            errorData.error || "Error updating verification questions"
+          );
+        }
+      }
+
       toast.success("Item updated successfully!");
 
       router.push(`/item/${item.id}`);
@@ -543,6 +614,34 @@ export function ItemEditForm({ item }: ItemEditFormProps) {
           />
         </div>
 
+        {reportType === "found" && (
+          <div className='p-6 bg-accent/10 rounded-lg border border-border/30 mb-8'>
+            <h3 className='text-lg font-semibold mb-4'>
+              Verification Questions
+            </h3>
+            <FormField
+              control={form.control}
+              name='verificationQuestions'
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <VerificationQuestionsInput
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={!questionsLoaded}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Ask about details only the owner would know. Claimers must
+                    answer them and only you will see the expected answers.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
         <div className='p-6 bg-accent/10 rounded-lg border border-border/30 mb-8'>
           <h3 className='text-lg font-semibold mb-4'>Contact Information</h3>
           <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
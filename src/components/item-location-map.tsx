@@ -0,0 +1,62 @@
+"use client";
+
+import { GoogleMap, Marker } from "@react-google-maps/api";
+import { Loader2 } from "lucide-react";
+import { useGoogleMapsReady } from "@/lib/google-maps-context";
+
+interface ItemLocationMapProps {
+  latitude: number;
+  longitude: number;
+  zoom?: number;
+}
+
+/**
+ * Read-only map showing where an item was lost or found
+ * @param latitude - Latitude of the item location
+ * @param longitude - Longitude of the item location
+ * @param zoom - Initial zoom level of the map
+ */
+export function ItemLocationMap({
+  latitude,
+  longitude,
+  zoom = 14,
+}: ItemLocationMapProps) {
+  const { isLoaded, loadError } = useGoogleMapsReady();
+
+  // Manually entered addresses are stored with 0/0 coordinates
+  const hasCoordinates = !!latitude && !!longitude;
+
+  if (!hasCoordinates || loadError) {
+    return (
+      <div className='w-full h-full flex items-center justify-center bg-muted/50 rounded-md'>
+        <p className='text-sm text-muted-foreground'>Map not available</p>
+      </div>
+    );
+  }
+
+  if (!isLoaded) {
+    return (
+      <div className='w-full h-full flex items-center justify-center bg-muted/20 rounded-md'>
+        <Loader2 className='h-6 w-6 animate-spin text-primary' />
+      </div>
+    );
+  }
+
+  const position = { lat: latitude, lng: longitude };
+
+  return (
+    <GoogleMap
+      mapContainerStyle={{ width: "100%", height: "100%" }}
+      center={position}
+      zoom={zoom}
+      options={{
+        fullscreenControl: false,
+        streetViewControl: false,
+        mapTypeControl: false,
+        zoomControl: true,
+      }}
+    >
+      <Marker position={position} />
+    </GoogleMap>
+  );
+}
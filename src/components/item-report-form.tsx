@@ -36,6 +36,8 @@ import { AIImageUpload } from "./ai-image-upload";
 import { createClient } from "@/lib/client";
 import { toast } from "sonner";
 import { AddressAutocomplete } from "./address-autocomplete";
+import { VerificationQuestionsInput } from "./verification-questions-input";
+import { MAX_VERIFICATION_QUESTIONS } from "@/lib/verification";
 
 // Define the schema for the form
 const itemReportSchema = z.object({
@@ -56,6 +58,23 @@ const itemReportSchema = z.object({
     placeId: z.string().optional(),
   }),
   imageUrl: z.string().optional(),
+  aiDescription: z.string().optional(),
+  verificationQuestions: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        question: z.string(),
+        answer: z.string(),
+      })
+    )
+    .max(MAX_VERIFICATION_QUESTIONS)
+    .refine(
+      (questions) =>
+        questions.every(
+          (q) => !!q.question.trim() === !!q.answer.trim()
+        ),
+      { message: "Every verification question needs an answer" }
+    ),
   contactInfo: z.object({
     name: z.string().optional(), // Made name optional
     email: z.string().email({ message: "Please enter a valid email" }),
@@ -86,13 +105,18 @@ export function ItemReportForm() {
   const [imageModerated, setImageModerated] = useState(true);
   const supabase = createClient();
 
-  const form = useForm<ItemReportFormValues>({
+  const form = useForm<
+    z.input<typeof itemReportSchema>,
+    unknown,
+    ItemReportFormValues
+  >({
     resolver: zodResolver(itemReportSchema),
     defaultValues: {
       type: "lost",
       title: "",
       description: "",
       date: new Date(),
+      verificationQuestions: [],
       contactInfo: {
         name: "",
         email: "",
@@ -174,6 +198,7 @@ export function ItemReportForm() {
             location_longitude: values.location.longitude,
             location_place_id: values.location.placeId || null,
             image_url: values.imageUrl || null,
+            ai_description: values.aiDescription || null,
             user_id: user?.user?.id || null,
           },
         ])
@@ -207,6 +232,49 @@ export function ItemReportForm() {
         throw new Error(contactError.message);
       }
 
+      // Save the private verification questions for found items
+      const verificationQuestions = values.verificationQuestions.filter(
+        (q) => q.question.trim()
+      );
+      if (values.type === "found" && verificationQuestions.length > 0) {
+        const questionsResponse = await fetch(
+          `/api/items/${itemId}/verification-questions`,
+          {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ questions: verificationQuestions }),
+          }
+        );
+
+        if (!questionsResponse.ok) {
+          toast.warning(
+            "Your report was saved, but the verification questions could not be. You can add them by editing the item."
+          );
+        }
+      }
+
+      // Look for possible matches in the background, the reporter is notified by email
+      fetch("/api/matches", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ itemId }),
+      }).catch((error) => console.warn("Failed to run item matching:", error));
+
+      // Alert users whose saved searches match the new item
+      fetch("/api/saved-searches/alerts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ itemId }),
+      }).catch((error) =>
+        console.warn("Failed to send saved search alerts:", error)
+      );
+
       // If user is not authenticated, send verification email
       if (!isAuthenticated) {
         // Make a server action call to send verification email
@@ -412,6 +480,8 @@ export function ItemReportForm() {
                 <AIImageUpload
                   onImageSelect={(url) => field.onChange(url)}
                   onDescriptionGenerated={(desc) => {
+                    // Keep the AI description for matching even if the user writes their own
+                    form.setValue("aiDescription", desc);
                     // If we have no description yet or it's very short, use the AI-generated one
                     const currentDescription = form.getValues("description");
                     if (!currentDescription || currentDescription.length < 20) {
@@ -457,6 +527,37 @@ export function ItemReportForm() {
           )}
         />
 
+        {/* Verification questions, only for found items */}
+        {reportType === "found" && (
+          <FormField
+            control={form.control}
+            name='verificationQuestions'
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Verification Questions (Optional)</FormLabel>
+                {!isAuthenticated && (
+                  <p className='text-sm text-muted-foreground'>
+                    Sign in to add private questions that claimers must answer.
+                  </p>
+                )}
+                <FormControl>
+                  <VerificationQuestionsInput
+                    value={field.value}
+                    onChange={field.onChange}
+                    disabled={!isAuthenticated}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Ask about details only the owner would know, like what is
+                  engraved inside or the lock screen photo. Claimers must answer
+                  them and only you will see the expected answers.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {/* Contact Information Section */}
         <div className='space-y-4'>
           <h3 className='text-lg font-semibold'>Contact Information</h3>
@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useState } from "react";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import type { LifecycleAction } from "@/lib/item-lifecycle";
+
+interface ItemStatusUpdateProps {
+  itemId: string;
+  itemType: "lost" | "found";
+  token: string | null;
+  isExpired: boolean;
+}
+
+/**
+ * Buttons answering the "is this item still lost/found?" reminder
+ * @param token - Signed token from the reminder email, not needed for the signed-in owner
+ * @param isExpired - Whether the item already expired, keeping it reactivates the listing
+ */
+export function ItemStatusUpdate({
+  itemId,
+  itemType,
+  token,
+  isExpired,
+}: ItemStatusUpdateProps) {
+  const [pendingAction, setPendingAction] = useState<LifecycleAction | null>(
+    null
+  );
+  const [result, setResult] = useState<LifecycleAction | null>(null);
+
+  const handleAction = async (action: LifecycleAction) => {
+    try {
+      setPendingAction(action);
+      const response = await fetch(`/api/items/${itemId}/lifecycle`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, token }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update item");
+      }
+
+      setResult(action);
+    } catch (error) {
+      console.error("Error updating item status:", error);
+      toast.error((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className='flex items-start gap-2 text-sm'>
+        <CheckCircle2 className='h-5 w-5 shrink-0 text-green-600' />
+        <span>
+          {result === "keep"
+            ? "Thanks! Your report stays listed and we'll check in again later."
+            : "Great news! The report has been marked as resolved."}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-3'>
+      {isExpired && (
+        <p className='text-sm text-muted-foreground'>
+          This report expired and is hidden from search. Keeping it will list it
+          again.
+        </p>
+      )}
+      <Button
+        className='w-full'
+        disabled={!!pendingAction}
+        onClick={() => handleAction("keep")}
+      >
+        {pendingAction === "keep" && (
+          <Loader2 className='h-4 w-4 mr-2 animate-spin' />
+        )}
+        {itemType === "lost"
+          ? "Yes, it's still lost"
+          : "Yes, it's still waiting for its owner"}
+      </Button>
+      <Button
+        variant='outline'
+        className='w-full'
+        disabled={!!pendingAction}
+        onClick={() => handleAction("resolve")}
+      >
+        {pendingAction === "resolve" && (
+          <Loader2 className='h-4 w-4 mr-2 animate-spin' />
+        )}
+        {itemType === "lost"
+          ? "No, I got it back"
+          : "No, it has been returned"}
+      </Button>
+    </div>
+  );
+}
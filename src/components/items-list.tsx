@@ -2,7 +2,6 @@
 
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import { ItemCard, ItemType, itemCategories } from "./item-card";
-import { createClient } from "@/lib/client";
 import {
   Select,
   SelectContent,
@@ -47,10 +46,21 @@ import { Badge } from "@/components/ui/badge";
 
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
+import { SaveSearchDialog } from "@/components/save-search-dialog";
+import { SavedSearchFilters } from "@/lib/saved-searches";
 
 // Google Maps API key
 const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || "";
 
+// Format a date for an <input type="date"> value
+const formatDateInput = (date: Date | null) =>
+  date
+    ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+        2,
+        "0"
+      )}-${String(date.getDate()).padStart(2, "0")}`
+    : "";
+
 // Default map settings
 const DEFAULT_CENTER = { lat: 34.0522, lng: -118.2437 }; // Los Angeles
 const DEFAULT_ZOOM = 11;
@@ -69,6 +79,8 @@ interface AdvancedFilters {
   };
   selectedCategories: string[];
   useLocationFilter: boolean;
+  includeResolved: boolean;
+  includeExpired: boolean;
 }
 
 interface ItemsListProps {
@@ -79,6 +91,7 @@ interface ItemsListProps {
   limit?: number;
   showPagination?: boolean;
   showAllItems?: boolean;
+  includeInactive?: boolean;
 }
 
 export function ItemsList({
@@ -89,6 +102,7 @@ export function ItemsList({
   limit = 12,
   showPagination = true,
   showAllItems = false,
+  includeInactive = false,
 }: ItemsListProps) {
   const [items, setItems] = useState<ItemType[]>([]);
   const [loading, setLoading] = useState(true);
@@ -98,6 +112,7 @@ export function ItemsList({
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [totalCount, setTotalCount] = useState(0);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
   const [showFiltersPanel, setShowFiltersPanel] = useState(false);
   const [mapOpen, setMapOpen] = useState(false);
   const [mapLoaded, setMapLoaded] = useState(false);
@@ -118,13 +133,13 @@ export function ItemsList({
     },
     selectedCategories: [],
     useLocationFilter: false,
+    includeResolved: includeInactive,
+    includeExpired: includeInactive,
   });
 
   // References for map components
   const mapRef = useRef<google.maps.Map | null>(null);
 
-  const supabase = createClient();
-
   const googleMapsReady = useGoogleMapsReady();
 
   // Function to detect user's current location
@@ -234,35 +249,24 @@ export function ItemsList({
     fetchItems(1, true);
   };
 
-  // Function to calculate if a point is within radius of center
-  const isWithinRadius = (
-    itemLat: number,
-    itemLng: number,
-    centerLat: number,
-    centerLng: number,
-    radiusKm: number
-  ): boolean => {
-    // Convert radius from km to m
-    const radiusM = radiusKm * 1000;
-
-    // Use the Haversine formula to calculate distance
-    const toRad = (value: number) => (value * Math.PI) / 180;
-    const R = 6371000; // Earth radius in meters
-
-    const dLat = toRad(itemLat - centerLat);
-    const dLng = toRad(itemLng - centerLng);
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(toRad(centerLat)) *
-        Math.cos(toRad(itemLat)) *
-        Math.sin(dLng / 2) *
-        Math.sin(dLng / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c;
-
-    return distance <= radiusM;
+  // Current filters in the shape used by saved search alerts
+  const savedSearchFilters: SavedSearchFilters = {
+    type: type === "all" ? null : type,
+    categories:
+      category && category !== "all"
+        ? [category]
+        : advancedFilters.selectedCategories,
+    location:
+      locationFilter.enabled && advancedFilters.useLocationFilter
+        ? {
+            latitude: locationFilter.center.lat,
+            longitude: locationFilter.center.lng,
+            radiusKm: locationFilter.radius,
+          }
+        : null,
+    dateFrom: formatDateInput(advancedFilters.dateRange.start) || null,
+    dateTo: formatDateInput(advancedFilters.dateRange.end) || null,
+    query: searchQuery.trim() || null,
   };
 
   // Function to fetch items
@@ -270,28 +274,29 @@ export function ItemsList({
     async (newPage = page, reset = false) => {
       try {
         setLoading(true);
-        let query = supabase
-          .from("items")
-          .select(
-            `
-            *,
-            contact_info (
-              name, 
-              email,
-              phone
-            )
-          `,
-            { count: "exact" }
-          )
-          .order("created_at", { ascending: false });
+        const params = new URLSearchParams({
+          page: String(newPage),
+          limit: String(limit),
+        });
 
         // Apply filters
         if (type !== "all") {
-          query = query.eq("type", type);
+          params.set("type", type);
+        }
+
+        const categories =
+          category && category !== "all"
+            ? [category]
+            : advancedFilters.selectedCategories;
+        if (categories.length > 0) {
+          params.set("categories", categories.join(","));
         }
 
-        if (category && category !== "all") {
-          query = query.eq("category", category);
+        if (advancedFilters.dateRange.start) {
+          params.set("from", formatDateInput(advancedFilters.dateRange.start));
+        }
+        if (advancedFilters.dateRange.end) {
+          params.set("to", formatDateInput(advancedFilters.dateRange.end));
         }
 
         // Only filter by user_id if specifically in "my items" view
@@ -301,78 +306,50 @@ export function ItemsList({
           window.location.pathname.includes("/my-items") &&
           !showAllItems
         ) {
-          query = query.eq("user_id", userId);
+          params.set("userId", userId);
         }
 
         if (searchQuery) {
-          query = query.or(
-            `title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%,location_address.ilike.%${searchQuery}%`
-          );
+          params.set("q", searchQuery);
         }
 
-        // Apply pagination
-        const from = (newPage - 1) * limit;
-        const to = from + limit - 1;
-        query = query.range(from, to);
-
-        const { data, error, count } = await query;
-
-        if (error) throw error;
+        // Resolved and expired reports are hidden unless asked for
+        const include = [
+          advancedFilters.includeResolved && "resolved",
+          advancedFilters.includeExpired && "expired",
+        ].filter(Boolean);
+        if (include.length > 0) {
+          params.set("include", include.join(","));
+        }
 
-        // Transform the data to match ItemType
-        const formattedItems = data.map((item: any) => ({
-          ...item,
-          contact_info: item.contact_info || null,
-        }));
+        // Radius filtering and distance sorting happen in the database
+        if (locationFilter.enabled && advancedFilters.useLocationFilter) {
+          params.set("lat", String(locationFilter.center.lat));
+          params.set("lng", String(locationFilter.center.lng));
+          params.set("radius", String(locationFilter.radius));
+        }
 
-        // Apply location filtering on the client-side
-        // This is needed because Supabase doesn't have built-in geospatial queries
-        let filteredItems = formattedItems;
+        const response = await fetch(`/api/items/search?${params}`);
+        const data = await response.json();
 
-        if (locationFilter.enabled && advancedFilters.useLocationFilter) {
-          filteredItems = formattedItems.filter(
-            (item) =>
-              item.location_latitude &&
-              item.location_longitude &&
-              isWithinRadius(
-                item.location_latitude,
-                item.location_longitude,
-                locationFilter.center.lat,
-                locationFilter.center.lng,
-                locationFilter.radius
-              )
-          );
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to search items");
         }
 
         // If this is a new search/filter, replace the items
         // Otherwise, append to existing items
         if (reset || newPage === 1) {
-          setItems(filteredItems);
+          setItems(data.items);
+          setTotalCount(data.totalCount);
+          setSuggestion(data.suggestion || null);
         } else {
-          setItems((prev) => [...prev, ...filteredItems]);
-        }
-
-        // Adjust total count and pagination based on filtered results
-        if (count !== null) {
-          if (locationFilter.enabled && advancedFilters.useLocationFilter) {
-            // If location filtering is applied, we need to adjust the total count and pagination
-            const totalFiltered = count;
-            setTotalCount(
-              filteredItems.length < limit
-                ? filteredItems.length
-                : totalFiltered
-            );
-            setHasMore(
-              filteredItems.length >= limit &&
-                from + filteredItems.length < totalFiltered
-            );
-          } else {
-            // Regular pagination without location filtering
-            setTotalCount(count);
-            setHasMore(from + formattedItems.length < count);
+          setItems((prev) => [...prev, ...data.items]);
+          if (data.items.length > 0) {
+            setTotalCount(data.totalCount);
           }
         }
 
+        setHasMore(data.hasMore);
         setPage(newPage);
       } catch (error) {
         console.error("Error fetching items:", error);
@@ -383,7 +360,6 @@ export function ItemsList({
     },
     [
       page,
-      supabase,
       type,
       category,
       userId,
@@ -418,6 +394,17 @@ export function ItemsList({
     fetchItems(1, true);
   };
 
+  // Update one end of the date range filter from a date input value
+  const handleDateRangeChange = (key: "start" | "end", value: string) => {
+    setAdvancedFilters((prev) => ({
+      ...prev,
+      dateRange: {
+        ...prev.dateRange,
+        [key]: value ? new Date(`${value}T00:00:00`) : null,
+      },
+    }));
+  };
+
   // Toggle location filter
   const toggleLocationFilter = () => {
     setLocationFilter((prev) => ({
@@ -443,6 +430,8 @@ export function ItemsList({
       },
       selectedCategories: [],
       useLocationFilter: false,
+      includeResolved: includeInactive,
+      includeExpired: includeInactive,
     });
     fetchItems(1, true);
   };
@@ -706,6 +695,9 @@ export function ItemsList({
               </DialogContent>
             </Dialog>
 
+            {/* Save the current filters as an alert */}
+            {userId && <SaveSearchDialog filters={savedSearchFilters} />}
+
             {/* Additional filters toggle */}
             <Collapsible
               open={showFiltersPanel}
@@ -740,6 +732,62 @@ export function ItemsList({
                     </Select>
                   </div>
 
+                  <div className='space-y-2'>
+                    <div className='text-sm font-medium'>Date</div>
+                    <div className='grid grid-cols-2 gap-2'>
+                      <Input
+                        type='date'
+                        aria-label='From date'
+                        value={formatDateInput(advancedFilters.dateRange.start)}
+                        onChange={(e) =>
+                          handleDateRangeChange("start", e.target.value)
+                        }
+                      />
+                      <Input
+                        type='date'
+                        aria-label='To date'
+                        value={formatDateInput(advancedFilters.dateRange.end)}
+                        onChange={(e) =>
+                          handleDateRangeChange("end", e.target.value)
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  <div className='space-y-2'>
+                    <div className='text-sm font-medium'>Status</div>
+                    <div className='flex items-center justify-between'>
+                      <Label htmlFor='include-resolved' className='font-normal'>
+                        Show resolved items
+                      </Label>
+                      <Switch
+                        id='include-resolved'
+                        checked={advancedFilters.includeResolved}
+                        onCheckedChange={(checked) =>
+                          setAdvancedFilters((prev) => ({
+                            ...prev,
+                            includeResolved: checked,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className='flex items-center justify-between'>
+                      <Label htmlFor='include-expired' className='font-normal'>
+                        Show expired items
+                      </Label>
+                      <Switch
+                        id='include-expired'
+                        checked={advancedFilters.includeExpired}
+                        onCheckedChange={(checked) =>
+                          setAdvancedFilters((prev) => ({
+                            ...prev,
+                            includeExpired: checked,
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+
                   <Separator />
 
                   <div className='space-y-2'>
@@ -830,6 +878,21 @@ export function ItemsList({
         </div>
       )}
 
+      {/* Spelling suggestion */}
+      {suggestion && (
+        <div className='text-sm'>
+          Did you mean{" "}
+          <button
+            type='button'
+            className='font-medium text-primary hover:underline'
+            onClick={() => setSearchQuery(suggestion)}
+          >
+            {suggestion}
+          </button>
+          ?
+        </div>
+      )}
+
       {/* Results count */}
       <div className='text-sm text-muted-foreground flex items-center justify-between'>
         <div>
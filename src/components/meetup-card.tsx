@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  CalendarCheck,
+  CalendarClock,
+  CalendarPlus,
+  Download,
+  MapPin,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MeetupProposalDialog } from "@/components/meetup-proposal-dialog";
+import { useClaimMeetups } from "@/hooks/use-claim-meetups";
+import {
+  ClaimMeetup,
+  MeetupResponse,
+  formatMeetupWindow,
+  getMeetupMapsUrl,
+} from "@/lib/claim-meetups";
+import type { ClaimParticipantRole } from "@/lib/route-guards";
+
+interface MeetupCardProps {
+  claimId: string;
+  role: ClaimParticipantRole;
+  // New proposals are only possible while the claim is accepted
+  canPropose: boolean;
+}
+
+function MeetupDetails({ meetup }: { meetup: ClaimMeetup }) {
+  return (
+    <div className='space-y-1 text-sm'>
+      <div className='font-medium'>
+        {formatMeetupWindow(meetup.startsAt, meetup.endsAt)}
+      </div>
+      <a
+        href={getMeetupMapsUrl(meetup.location)}
+        target='_blank'
+        rel='noopener noreferrer'
+        className='flex items-center gap-1 text-muted-foreground hover:underline'
+      >
+        <MapPin className='size-3.5 shrink-0' />
+        <span className='truncate'>{meetup.location.address}</span>
+      </a>
+      {meetup.note && (
+        <p className='text-xs text-muted-foreground whitespace-pre-wrap'>
+          {meetup.note}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Pinned card with the agreed handover meetup and the open proposal of a claim
+ */
+export function MeetupCard({ claimId, role, canPropose }: MeetupCardProps) {
+  const { acceptedMeetup, openProposal, propose, respond } =
+    useClaimMeetups(claimId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [counterTo, setCounterTo] = useState<ClaimMeetup | null>(null);
+  const [isResponding, setIsResponding] = useState(false);
+
+  const handleRespond = async (
+    meetup: ClaimMeetup,
+    action: MeetupResponse
+  ) => {
+    try {
+      setIsResponding(true);
+      await respond(meetup.id, action);
+      toast.success(
+        action === "accept"
+          ? "Meetup confirmed"
+          : action === "decline"
+          ? "Proposal declined"
+          : "Meetup cancelled"
+      );
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  const openDialog = (meetup: ClaimMeetup | null) => {
+    setCounterTo(meetup);
+    setDialogOpen(true);
+  };
+
+  if (!acceptedMeetup && !openProposal && !canPropose) {
+    return null;
+  }
+
+  const isOwnProposal = openProposal?.proposerRole === role;
+
+  return (
+    <div className='border-b border-border bg-muted/30 px-4 py-3 space-y-3'>
+      {acceptedMeetup && (
+        <div className='flex items-start gap-3'>
+          <CalendarCheck className='size-5 text-green-600 shrink-0 mt-0.5' />
+          <div className='flex-1 min-w-0 space-y-2'>
+            <div className='flex items-center gap-2'>
+              <span className='text-sm font-semibold'>Handover meetup</span>
+              <Badge variant='secondary'>Confirmed</Badge>
+            </div>
+            <MeetupDetails meetup={acceptedMeetup} />
+            <div className='flex flex-wrap gap-2'>
+              <Button variant='outline' size='sm' asChild>
+                <a
+                  href={`/api/claims/${claimId}/meetups/${acceptedMeetup.id}/ics`}
+                  download
+                >
+                  <Download className='size-4 mr-1' />
+                  Add to calendar
+                </a>
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() => handleRespond(acceptedMeetup, "cancel")}
+                disabled={isResponding}
+              >
+                Cancel meetup
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {openProposal && (
+        <div className='flex items-start gap-3'>
+          <CalendarClock className='size-5 text-amber-600 shrink-0 mt-0.5' />
+          <div className='flex-1 min-w-0 space-y-2'>
+            <div className='flex items-center gap-2'>
+              <span className='text-sm font-semibold'>
+                {isOwnProposal
+                  ? "You proposed a meetup"
+                  : openProposal.counterOf
+                  ? "New time suggested"
+                  : "Meetup proposed"}
+              </span>
+              <Badge variant='outline'>
+                {isOwnProposal ? "Waiting for answer" : "Needs your answer"}
+              </Badge>
+            </div>
+            <MeetupDetails meetup={openProposal} />
+            <div className='flex flex-wrap gap-2'>
+              {isOwnProposal ? (
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => handleRespond(openProposal, "cancel")}
+                  disabled={isResponding}
+                >
+                  Withdraw
+                </Button>
+              ) : (
+                <>
+                  <Button
+                    size='sm'
+                    onClick={() => handleRespond(openProposal, "accept")}
+                    disabled={isResponding}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() => openDialog(openProposal)}
+                    disabled={isResponding || !canPropose}
+                  >
+                    Suggest another time
+                  </Button>
+                  <Button
+                    variant='ghost'
+                    size='sm'
+                    onClick={() => handleRespond(openProposal, "decline")}
+                    disabled={isResponding}
+                  >
+                    Decline
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!openProposal && canPropose && (
+        <Button
+          variant='outline'
+          size='sm'
+          className='gap-2'
+          onClick={() => openDialog(null)}
+        >
+          <CalendarPlus className='size-4' />
+          {acceptedMeetup ? "Propose a different time" : "Propose meetup"}
+        </Button>
+      )}
+
+      <MeetupProposalDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        counterTo={counterTo}
+        onSubmit={propose}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LocationInput } from "@/components/location-input";
+import {
+  ClaimMeetup,
+  MAX_MEETUP_NOTE_LENGTH,
+  MeetupLocation,
+  validateMeetupProposal,
+} from "@/lib/claim-meetups";
+
+interface MeetupProposalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The proposal being countered, used to prefill the form
+  counterTo?: ClaimMeetup | null;
+  onSubmit: (proposal: {
+    startsAt: string;
+    endsAt: string;
+    location: MeetupLocation;
+    note?: string;
+  }) => Promise<unknown>;
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+// Values for the native date and time inputs, in local time
+const toDateValue = (value: Date) =>
+  `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+const toTimeValue = (value: Date) =>
+  `${pad(value.getHours())}:${pad(value.getMinutes())}`;
+
+/**
+ * Propose a handover time window and place, or counter the other side's proposal
+ */
+export function MeetupProposalDialog({
+  open,
+  onOpenChange,
+  counterTo,
+  onSubmit,
+}: MeetupProposalDialogProps) {
+  const [date, setDate] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [location, setLocation] = useState<MeetupLocation | null>(null);
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from the proposal being countered, otherwise from an empty form
+  useEffect(() => {
+    if (!open) return;
+
+    if (counterTo) {
+      const start = new Date(counterTo.startsAt);
+      setDate(toDateValue(start));
+      setStartTime(toTimeValue(start));
+      setEndTime(toTimeValue(new Date(counterTo.endsAt)));
+      setLocation(counterTo.location);
+    } else {
+      setDate("");
+      setStartTime("");
+      setEndTime("");
+      setLocation(null);
+    }
+    setNote("");
+  }, [open, counterTo]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const startsAt = new Date(`${date}T${startTime}`).toISOString();
+    const endsAt = new Date(`${date}T${endTime}`).toISOString();
+
+    const validationError = validateMeetupProposal({
+      startsAt,
+      endsAt,
+      location,
+      note,
+    });
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await onSubmit({
+        startsAt,
+        endsAt,
+        location: location!,
+        note: note.trim() || undefined,
+      });
+      toast.success(counterTo ? "Counter-proposal sent" : "Meetup proposed");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to propose meetup");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='sm:max-w-md'>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {counterTo ? "Suggest another time" : "Propose a meetup"}
+            </DialogTitle>
+            <DialogDescription>
+              Pick a time window and a public place to hand over the item.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className='space-y-4 py-4'>
+            <div className='space-y-2'>
+              <Label htmlFor='meetup-date'>Date *</Label>
+              <Input
+                id='meetup-date'
+                type='date'
+                value={date}
+                min={toDateValue(new Date())}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className='grid grid-cols-2 gap-4'>
+              <div className='space-y-2'>
+                <Label htmlFor='meetup-start'>From *</Label>
+                <Input
+                  id='meetup-start'
+                  type='time'
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  required
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='meetup-end'>Until *</Label>
+                <Input
+                  id='meetup-end'
+                  type='time'
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <LocationInput
+              label='Meeting place'
+              value={location}
+              onChange={setLocation}
+              required
+              placeholder='Search for a café, station, ...'
+            />
+
+            <div className='space-y-2'>
+              <Label htmlFor='meetup-note'>Note</Label>
+              <Textarea
+                id='meetup-note'
+                value={note}
+                maxLength={MAX_MEETUP_NOTE_LENGTH}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder='e.g. I will wait at the entrance'
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type='button'
+              variant='outline'
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type='submit' disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+              {counterTo ? "Send counter-proposal" : "Propose"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
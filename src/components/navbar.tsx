@@ -22,9 +22,11 @@ import {
   X,
   FileSymlink,
   Home,
+  Bell,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useUnreadMessages } from "@/hooks/use-unread-messages";
+import { NotificationsMenu } from "@/components/notifications-menu";
 
 export function Navbar() {
   const [user, setUser] = useState<any>(null);
@@ -139,6 +141,8 @@ export function Navbar() {
                 </Link>
               </Button>
 
+              <NotificationsMenu />
+
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
@@ -160,6 +164,11 @@ export function Navbar() {
                       My Items
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href='/settings/alerts' className='cursor-pointer'>
+                      Search Alerts
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuItem className='cursor-pointer'>
                     <LogoutButton />
                   </DropdownMenuItem>
@@ -242,6 +251,14 @@ export function Navbar() {
                     <PanelLeft className='h-5 w-5' />
                     My Items
                   </Link>
+                  <Link
+                    href='/settings/alerts'
+                    className='flex items-center gap-3 text-lg font-medium px-3 py-2.5 rounded-md transition-colors hover:bg-accent'
+                    onClick={closeMenu}
+                  >
+                    <Bell className='h-5 w-5' />
+                    Search Alerts
+                  </Link>
                   <div className='flex items-center gap-3 text-lg font-medium px-3 py-2.5 rounded-md transition-colors hover:bg-accent'>
                     <LogoutButton />
                   </div>
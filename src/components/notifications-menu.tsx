@@ -0,0 +1,94 @@
+"use client";
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useNotifications } from "@/hooks/use-notifications";
+
+/**
+ * Bell icon with the user's latest in-app notifications.
+ * Opening the menu marks everything as read.
+ */
+export function NotificationsMenu() {
+  const { notifications, unreadCount, markAllAsRead } = useNotifications();
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        if (open) markAllAsRead();
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant='ghost'
+          size='icon'
+          className='relative hover:bg-accent/50'
+          aria-label='Notifications'
+        >
+          <Bell className='h-5 w-5' />
+          {unreadCount > 0 && (
+            <Badge className='absolute -top-1 -right-1 h-5 min-w-5 px-1 justify-center'>
+              {unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align='end' className='w-80 shadow-md'>
+        <DropdownMenuLabel className='flex items-center justify-between'>
+          <span>Notifications</span>
+          <Link
+            href='/settings/alerts'
+            className='text-xs font-normal text-primary hover:underline'
+          >
+            Manage alerts
+          </Link>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className='px-2 py-6 text-center text-sm text-muted-foreground'>
+            No notifications yet
+          </p>
+        ) : (
+          <div className='max-h-96 overflow-y-auto'>
+            {notifications.map((notification) => (
+              <DropdownMenuItem key={notification.id} asChild>
+                <Link
+                  href={notification.link || "#"}
+                  className={cn(
+                    "flex flex-col items-start gap-0.5 cursor-pointer",
+                    !notification.read_at && "bg-accent/40"
+                  )}
+                >
+                  <span className='text-sm font-medium'>
+                    {notification.title}
+                  </span>
+                  {notification.body && (
+                    <span className='text-xs text-muted-foreground line-clamp-2'>
+                      {notification.body}
+                    </span>
+                  )}
+                  <span className='text-[11px] text-muted-foreground'>
+                    {formatDistanceToNow(new Date(notification.created_at), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                </Link>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Calendar, Loader2, MapPin, MessageCircle, Sparkles, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ClaimItemDialog } from "./claim-item-dialog";
+import { getCategoryLabel, ItemType } from "./item-card";
+
+interface PossibleMatch {
+  id: string;
+  score: number;
+  breakdown: {
+    distanceKm: number | null;
+    daysApart: number;
+  };
+  createdAt: string;
+  item: ItemType;
+  matchedItem: ItemType;
+}
+
+/**
+ * Suggested lost/found matches for the current user's reports,
+ * with a one-click claim that opens the claim chat
+ */
+export function PossibleMatches() {
+  const [matches, setMatches] = useState<PossibleMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [claimingMatch, setClaimingMatch] = useState<PossibleMatch | null>(
+    null
+  );
+  const router = useRouter();
+
+  const fetchMatches = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/matches");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch matches");
+      }
+
+      const data = await response.json();
+      setMatches(data.matches || []);
+    } catch (error) {
+      console.error("Error fetching matches:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMatches();
+  }, [fetchMatches]);
+
+  const updateMatchStatus = async (
+    matchId: string,
+    status: "dismissed" | "claimed"
+  ) => {
+    const response = await fetch(`/api/matches/${matchId}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ status }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to update match");
+    }
+
+    setMatches((prev) => prev.filter((match) => match.id !== matchId));
+  };
+
+  const handleDismiss = async (matchId: string) => {
+    try {
+      await updateMatchStatus(matchId, "dismissed");
+      toast.success("Match dismissed");
+    } catch (error) {
+      console.error("Error dismissing match:", error);
+      toast.error("Failed to dismiss match. Please try again.");
+    }
+  };
+
+  const handleChatStarted = async (chatRoomId: string) => {
+    if (claimingMatch) {
+      try {
+        await updateMatchStatus(claimingMatch.id, "claimed");
+      } catch (error) {
+        console.error("Error updating match:", error);
+      }
+    }
+    router.push(`/messages?room=${chatRoomId}`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className='flex justify-center py-6'>
+        <Loader2 className='h-6 w-6 animate-spin text-primary' />
+      </div>
+    );
+  }
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className='mb-8'>
+      <CardHeader>
+        <CardTitle className='flex items-center gap-2'>
+          <Sparkles className='h-5 w-5 text-primary' />
+          Possible Matches
+        </CardTitle>
+        <CardDescription>
+          Reports from other people that look similar to yours
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        {matches.map((match) => (
+          <div
+            key={match.id}
+            className='flex flex-col sm:flex-row gap-4 p-4 border border-border/40 rounded-lg'
+          >
+            <div className='relative w-full sm:w-28 h-28 shrink-0 rounded-md overflow-hidden bg-muted/50'>
+              {match.matchedItem.image_url ? (
+                <Image
+                  src={match.matchedItem.image_url}
+                  alt={match.matchedItem.title}
+                  fill
+                  sizes='112px'
+                  className='object-cover'
+                />
+              ) : (
+                <div className='w-full h-full flex items-center justify-center'>
+                  <p className='text-xs text-muted-foreground'>No image</p>
+                </div>
+              )}
+            </div>
+
+            <div className='flex-1 min-w-0 space-y-2'>
+              <div className='flex flex-wrap items-center gap-2'>
+                <Badge
+                  variant={
+                    match.matchedItem.type === "lost" ? "destructive" : "default"
+                  }
+                >
+                  {match.matchedItem.type === "lost" ? "Lost" : "Found"}
+                </Badge>
+                <Badge variant='outline'>
+                  {getCategoryLabel(match.matchedItem.category)}
+                </Badge>
+                <Badge variant='secondary'>
+                  {Math.round(match.score * 100)}% match
+                </Badge>
+              </div>
+              <Link
+                href={`/item/${match.matchedItem.id}`}
+                className='font-semibold hover:underline'
+              >
+                {match.matchedItem.title}
+              </Link>
+              <p className='text-sm text-muted-foreground'>
+                Similar to your report &quot;{match.item.title}&quot;
+              </p>
+              <div className='flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground'>
+                <span className='flex items-center gap-1'>
+                  <Calendar className='h-3.5 w-3.5' />
+                  {format(new Date(match.matchedItem.date), "PPP")}
+                </span>
+                <span className='flex items-center gap-1'>
+                  <MapPin className='h-3.5 w-3.5' />
+                  {match.breakdown.distanceKm !== null
+                    ? `${match.breakdown.distanceKm} km away`
+                    : match.matchedItem.location_address}
+                </span>
+              </div>
+            </div>
+
+            <div className='flex sm:flex-col gap-2 sm:justify-center'>
+              <Button
+                size='sm'
+                className='flex gap-2 items-center'
+                onClick={() => setClaimingMatch(match)}
+              >
+                <MessageCircle className='h-4 w-4' />
+                {match.matchedItem.type === "found"
+                  ? "This is mine"
+                  : "I found this"}
+              </Button>
+              <Button
+                size='sm'
+                variant='ghost'
+                className='flex gap-2 items-center'
+                onClick={() => handleDismiss(match.id)}
+              >
+                <X className='h-4 w-4' />
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      {claimingMatch && (
+        <ClaimItemDialog
+          item={claimingMatch.matchedItem}
+          onClose={() => setClaimingMatch(null)}
+          onChatStarted={handleChatStarted}
+        />
+      )}
+    </Card>
+  );
+}
@@ -6,6 +6,23 @@ import { useChatScroll } from "@/hooks/use-chat-scroll";
 import { type ChatMessage, useRealtimeChat } from "@/hooks/use-realtime-chat";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Send,
   DollarSign,
@@ -13,10 +30,25 @@ import {
   BellRing,
   BellOff,
   AlertTriangle,
+  Paperclip,
+  FileDown,
+  MoreVertical,
+  Flag,
+  Ban,
 } from "lucide-react";
-import { useCallback, useEffect, useMemo, useState, useRef } from "react";
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useState,
+  useRef,
+} from "react";
 import { ShippingPaymentWrapper } from "./shipping-payment-form";
 import { SetupPaymentAccount } from "./setup-payment-account";
+import { ClaimStatusTimeline } from "./claim-status-timeline";
+import { MeetupCard } from "./meetup-card";
+import { ReportUserDialog } from "./report-user-dialog";
 import { createClient } from "@/lib/client";
 import { toast } from "sonner";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -26,12 +58,33 @@ import {
   requestNotificationPermission,
   isSafari,
 } from "@/lib/notification-utils";
+import type { ClaimStatus } from "@/lib/claim-state-machine";
+import type { ChatSystemAction } from "@/lib/chat-system-messages";
+import {
+  type ParticipantPresence,
+  formatLastSeen,
+} from "@/lib/chat-presence";
+import { useSupabaseUpload } from "@/hooks/use-supabase-upload";
+import {
+  Dropzone,
+  DropzoneContent,
+  DropzoneEmptyState,
+} from "@/components/dropzone";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  CHAT_ATTACHMENTS_BUCKET,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENT_SIZE,
+} from "@/lib/chat-attachments";
 
 interface RealtimeChatProps {
   roomName: string;
   username: string;
   onMessage?: (messages: ChatMessage[]) => void;
   messages?: ChatMessage[];
+  onClaimStatusChange?: (status: ClaimStatus) => void;
+  participantName?: string;
+  onPresenceChange?: (presence: ParticipantPresence) => void;
 }
 
 /**
@@ -40,6 +93,9 @@ interface RealtimeChatProps {
  * @param username - The username of the user
  * @param onMessage - The callback function to handle the messages. Useful if you want to store the messages in a database.
  * @param messages - The messages to display in the chat. Useful if you want to display messages from a database.
+ * @param onClaimStatusChange - Called when the status of the claim behind this chat changes
+ * @param participantName - Name of the other participant, shown in the header until they come online
+ * @param onPresenceChange - Called when the other participant comes online, leaves or starts typing
  * @returns The chat component
  */
 export const RealtimeChat = ({
@@ -47,23 +103,56 @@ export const RealtimeChat = ({
   username,
   onMessage,
   messages: initialMessages = [],
+  onClaimStatusChange,
+  participantName,
+  onPresenceChange,
 }: RealtimeChatProps) => {
-  const { containerRef, scrollToBottom } = useChatScroll();
   const supabase = createClient();
 
   const {
     messages: realtimeMessages,
     sendMessage,
+    retryMessage,
+    hasOlderMessages,
+    isLoadingOlder,
+    loadOlderMessages,
     isConnected,
     isLoading,
     error,
     unreadCount,
     markMessagesAsRead,
+    presence,
+    setTyping,
+    lastSeenMessageId,
   } = useRealtimeChat({
     roomName,
     username,
   });
+  const {
+    containerRef,
+    scrollToBottom,
+    preserveScrollPosition,
+    restoreScrollPosition,
+    handleScroll,
+  } = useChatScroll({
+    // Load the previous page once the user scrolls up to the oldest message
+    onReachTop: () => {
+      if (!hasOlderMessages || isLoadingOlder || isLoading) return;
+      preserveScrollPosition();
+      loadOlderMessages();
+    },
+  });
   const [newMessage, setNewMessage] = useState("");
+  const [showAttachments, setShowAttachments] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  // Files go to the private bucket, in the folder of this chat room
+  const attachmentUpload = useSupabaseUpload({
+    bucketName: CHAT_ATTACHMENTS_BUCKET,
+    path: roomName,
+    allowedMimeTypes: ALLOWED_ATTACHMENT_TYPES,
+    maxFileSize: MAX_ATTACHMENT_SIZE,
+    maxFiles: MAX_ATTACHMENTS_PER_MESSAGE,
+  });
   const [showPaymentForm, setShowPaymentForm] = useState(false);
   const [showSetupPaymentForm, setShowSetupPaymentForm] = useState(false);
   const [claimInfo, setClaimInfo] = useState<{
@@ -81,9 +170,29 @@ export const RealtimeChat = ({
   const stripeAccountCheckTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [isCheckingStripeAccount, setIsCheckingStripeAccount] = useState(false);
   const [needsSetupPayment, setNeedsSetupPayment] = useState(false);
+  // Whether the current user blocked the other participant
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const [showBlockDialog, setShowBlockDialog] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
   const [notificationPermission, setNotificationPermission] =
     useState<NotificationPermission | null>(null);
+  const onClaimStatusChangeRef = useRef(onClaimStatusChange);
+  onClaimStatusChangeRef.current = onClaimStatusChange;
+  const onPresenceChangeRef = useRef(onPresenceChange);
+  onPresenceChangeRef.current = onPresenceChange;
+
+  useEffect(() => {
+    onPresenceChangeRef.current?.(presence);
+  }, [presence]);
+
+  // Keep the claim status in sync with the status timeline in the sidebar
+  const handleClaimStatusChange = useCallback((status: ClaimStatus) => {
+    setClaimInfo((prev) =>
+      prev && prev.status !== status ? { ...prev, status } : prev
+    );
+    onClaimStatusChangeRef.current?.(status);
+  }, []);
 
   // Add a new function to check finder's account status against Stripe API
   const checkFinderAccountWithStripe = useCallback(async (finderId: string) => {
@@ -304,10 +413,13 @@ console.log(`messages`,allMessages);
     }
   }, [allMessages, onMessage]);
 
-  useEffect(() => {
-    // Scroll to bottom whenever messages change
+  useLayoutEffect(() => {
+    // Older messages were added above, stay where the user was reading
+    if (restoreScrollPosition()) return;
+
+    // Scroll to bottom whenever messages change or the typing indicator shows up
     scrollToBottom();
-  }, [allMessages, scrollToBottom]);
+  }, [allMessages, presence.isTyping, scrollToBottom, restoreScrollPosition]);
 
   // Get claim information and check finder's Stripe account when the component mounts
   useEffect(() => {
@@ -544,24 +656,58 @@ console.log(`messages`,allMessages);
     }
   }, [unreadCount, markMessagesAsRead]);
 
+  const hasAttachments = attachmentUpload.files.length > 0;
+  const canSend = !!newMessage.trim() || hasAttachments;
+
   const handleSendMessage = useCallback(
-    (e: React.FormEvent) => {
+    async (e: React.FormEvent) => {
       e.preventDefault();
-      if (!newMessage.trim() || !isConnected) return;
+      if (!newMessage.trim() && !hasAttachments) return;
 
-      sendMessage(newMessage);
-      setNewMessage("");
+      const { files, successes, isSuccess, onUpload, setFiles } =
+        attachmentUpload;
+
+      setIsSending(true);
+      try {
+        // Upload whatever hasn't been uploaded yet before sending the message
+        let uploadedNames = successes;
+        if (files.length > 0 && !isSuccess) {
+          const responses = await onUpload();
+          uploadedNames = [...successes, ...responses.map((r) => r.name)];
+
+          if (files.some((file) => !uploadedNames.includes(file.name))) {
+            toast.error("Some files couldn't be uploaded. Please try again.");
+            return;
+          }
+        }
+
+        const attachments = files
+          .filter((file) => uploadedNames.includes(file.name))
+          .map((file) => ({
+            path: `${roomName}/${file.uploadName}`,
+            name: file.name,
+            mimeType: file.type,
+            size: file.size,
+          }));
+
+        await sendMessage(newMessage, attachments);
+        setNewMessage("");
+        setFiles([]);
+        setShowAttachments(false);
+      } finally {
+        setIsSending(false);
+      }
     },
-    [newMessage, isConnected, sendMessage]
+    [newMessage, hasAttachments, attachmentUpload, roomName, sendMessage]
   );
 
+  // The payment webhook announces the payment in the chat once Stripe confirms it
   const handlePaymentComplete = useCallback(() => {
     setShowPaymentForm(false);
-    sendMessage("I've completed the payment for shipping.");
     toast.success(
-      "Payment completed! Your message has been sent to the other user."
+      "Payment completed! The other user will see it in the chat once it's confirmed."
     );
-  }, [sendMessage, toast]);
+  }, [toast]);
 
   const handlePaymentCancel = useCallback(() => {
     setShowPaymentForm(false);
@@ -601,271 +747,580 @@ console.log(`messages`,allMessages);
       : hasFinderStripeAccount;
   }, [stableFinderStripeAccount, hasFinderStripeAccount]);
 
+  const claimContext = useMemo(
+    () =>
+      claimInfo
+        ? {
+            role: claimInfo.isUserClaimer
+              ? ("claimer" as const)
+              : ("owner" as const),
+            claimStatus: claimInfo.status,
+          }
+        : undefined,
+    [claimInfo]
+  );
+
+  const otherParticipantName =
+    presence.name || participantName || "the other participant";
+
+  useEffect(() => {
+    if (!claimInfo?.id) return;
+
+    let cancelled = false;
+    fetch(`/api/claims/${claimInfo.id}/block`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data) setIsBlocked(!!data.blocked);
+      })
+      .catch((err) => console.error("Error fetching block status:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [claimInfo?.id]);
+
+  const handleToggleBlock = useCallback(
+    async (block: boolean) => {
+      if (!claimInfo) return;
+
+      try {
+        const response = await fetch(`/api/claims/${claimInfo.id}/block`, {
+          method: block ? "POST" : "DELETE",
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to update block");
+        }
+        setIsBlocked(data.blocked);
+        toast.success(
+          block
+            ? `You blocked ${otherParticipantName}`
+            : `You unblocked ${otherParticipantName}`
+        );
+      } catch (err) {
+        toast.error((err as Error).message || "Failed to update block");
+      }
+    },
+    [claimInfo, otherParticipantName]
+  );
+
+  // Actions offered on system messages, e.g. "Pay shipping" once the claim is accepted
+  const handleSystemAction = useCallback(
+    (action: ChatSystemAction) => {
+      if (action.type !== "pay_shipping") return;
+
+      if (accountStatus === false) {
+        toast.error(
+          "The finder needs to set up their payment account before you can pay for shipping."
+        );
+        return;
+      }
+      setShowPaymentForm(true);
+    },
+    [accountStatus]
+  );
+
   return (
-    <div
-      className='flex flex-col h-full w-full bg-background text-foreground antialiased'
-      onClick={handleChatFocus}
-      onFocus={handleChatFocus}
-    >
-      {/* Setup payment account banner for finders */}
-      {needsSetupPayment && !claimInfo?.isUserClaimer && (
-        <Alert className='m-2 mb-0 bg-muted/50'>
-          <CreditCard className='h-4 w-4' />
-          <AlertTitle>Payment account setup required</AlertTitle>
-          <AlertDescription className='flex flex-col gap-2'>
-            <span>
-              You need to set up a payment account to receive shipping fees from
-              the claimer.
-            </span>
+    <div className='flex h-full w-full bg-background text-foreground antialiased'>
+      <div
+        className='flex flex-col h-full flex-1 min-w-0'
+        onClick={handleChatFocus}
+        onFocus={handleChatFocus}
+      >
+        {/* Presence of the other participant */}
+        <div className='flex items-center gap-2 border-b border-border px-4 py-2 text-sm'>
+          <span
+            className={cn(
+              "size-2 rounded-full",
+              presence.isOnline ? "bg-green-500" : "bg-muted-foreground/40"
+            )}
+          />
+          <span className='font-medium truncate'>
+            {presence.name || participantName || "Other participant"}
+          </span>
+          <span className='text-xs text-muted-foreground'>
+            {presence.isTyping
+              ? "typing…"
+              : presence.isOnline
+              ? "Online"
+              : presence.lastSeenAt
+              ? `Last seen ${formatLastSeen(presence.lastSeenAt)}`
+              : "Offline"}
+          </span>
+          <div className='ml-auto flex items-center gap-2'>
+            {/* Messages are queued and the chat resyncs once the connection is back */}
+            {!isConnected && !isLoading && !error && (
+              <span className='text-xs text-muted-foreground'>
+                Reconnecting…
+              </span>
+            )}
+            {/* Transcript export, reporting and blocking */}
+            {claimInfo && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant='ghost'
+                    size='icon'
+                    className='size-7'
+                    title='More actions'
+                  >
+                    <MoreVertical className='h-4 w-4' />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align='end'>
+                  {/* Signed copy of the conversation, e.g. for a dispute */}
+                  <DropdownMenuItem asChild>
+                    <a href={`/api/claims/${claimInfo.id}/transcript?format=pdf`}>
+                      <FileDown className='h-4 w-4' />
+                      Download transcript (PDF)
+                    </a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={`/api/claims/${claimInfo.id}/transcript?format=json`}>
+                      <FileDown className='h-4 w-4' />
+                      Download transcript (JSON)
+                    </a>
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => setShowReportDialog(true)}>
+                    <Flag className='h-4 w-4' />
+                    Report
+                  </DropdownMenuItem>
+                  {isBlocked ? (
+                    <DropdownMenuItem onSelect={() => handleToggleBlock(false)}>
+                      <Ban className='h-4 w-4' />
+                      Unblock
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem
+                      variant='destructive'
+                      onSelect={() => setShowBlockDialog(true)}
+                    >
+                      <Ban className='h-4 w-4' />
+                      Block
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        </div>
+
+        {/* Messages can't be sent either way while the block lasts */}
+        {isBlocked && (
+          <Alert className='m-2 mb-0 bg-muted/50'>
+            <Ban className='h-4 w-4' />
+            <AlertTitle>You blocked {otherParticipantName}</AlertTitle>
+            <AlertDescription className='flex flex-col gap-2'>
+              <span>
+                You won&apos;t receive messages from each other. Unblock to
+                continue the conversation.
+              </span>
+              <Button
+                variant='outline'
+                size='sm'
+                className='self-start'
+                onClick={() => handleToggleBlock(false)}
+              >
+                Unblock
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Setup payment account banner for finders */}
+        {needsSetupPayment && !claimInfo?.isUserClaimer && (
+          <Alert className='m-2 mb-0 bg-muted/50'>
+            <CreditCard className='h-4 w-4' />
+            <AlertTitle>Payment account setup required</AlertTitle>
+            <AlertDescription className='flex flex-col gap-2'>
+              <span>
+                You need to set up a payment account to receive shipping fees from
+                the claimer.
+              </span>
+              <Button
+                variant='outline'
+                size='sm'
+                className='self-start'
+                onClick={() => setShowSetupPaymentForm(true)}
+              >
+                Set up payment account
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Safari notification banner */}
+        {isSafari() && notificationPermission === "default" && (
+          <div className='bg-blue-50 p-2 text-sm flex items-center justify-between'>
+            <div className='flex items-center'>
+              <AlertTriangle className='h-4 w-4 text-blue-600 mr-2' />
+              <span>
+                Enable notifications to receive alerts when you get new messages
+              </span>
+            </div>
             <Button
-              variant='outline'
               size='sm'
-              className='self-start'
-              onClick={() => setShowSetupPaymentForm(true)}
+              variant='outline'
+              onClick={handleRequestNotifications}
             >
-              Set up payment account
+              Enable
             </Button>
-          </AlertDescription>
-        </Alert>
-      )}
-
-      {/* Safari notification banner */}
-      {isSafari() && notificationPermission === "default" && (
-        <div className='bg-blue-50 p-2 text-sm flex items-center justify-between'>
-          <div className='flex items-center'>
-            <AlertTriangle className='h-4 w-4 text-blue-600 mr-2' />
-            <span>
-              Enable notifications to receive alerts when you get new messages
-            </span>
           </div>
-          <Button
-            size='sm'
-            variant='outline'
-            onClick={handleRequestNotifications}
-          >
-            Enable
-          </Button>
-        </div>
-      )}
+        )}
 
-      {/* Messages */}
-      <div ref={containerRef} className='flex-1 overflow-y-auto p-4 space-y-4'>
-        {unreadCount > 0 && (
-          <div
-            className='sticky top-2 z-10 text-center mx-auto mb-2'
-            onClick={markMessagesAsRead}
-          >
-            <div className='inline-flex items-center px-3 py-1 rounded-full bg-primary text-primary-foreground text-xs font-medium shadow-sm cursor-pointer hover:bg-primary/90 transition-colors'>
-              {unreadCount} new {unreadCount === 1 ? "message" : "messages"}
-            </div>
-          </div>
+        {/* Handover meetup, pinned above the messages */}
+        {claimInfo && (
+          <MeetupCard
+            claimId={claimInfo.id}
+            role={claimInfo.isUserClaimer ? "claimer" : "owner"}
+            canPropose={claimInfo.status === "accepted"}
+          />
         )}
 
-        {showPaymentForm ? (
-          <div className='w-full py-4'>
-            <ShippingPaymentWrapper
-              claimId={claimInfo?.id || ""}
-              itemTitle={claimInfo?.itemTitle || ""}
-              onComplete={handlePaymentComplete}
-              onCancel={handlePaymentCancel}
-            />
-          </div>
-        ) : showSetupPaymentForm ? (
-          <div className='w-full py-4'>
-            <SetupPaymentAccount onComplete={handleSetupComplete} />
-          </div>
-        ) : isLoading ? (
-          <div className='flex items-center justify-center h-full'>
-            <div className='flex flex-col items-center'>
-              <div className='animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary'></div>
-              <p className='mt-2 text-sm text-muted-foreground'>
-                Loading messages...
+        {/* Messages */}
+        <div
+          ref={containerRef}
+          onScroll={handleScroll}
+          className='flex-1 overflow-y-auto p-4 space-y-4'
+        >
+          {isLoadingOlder && (
+            <div className='flex justify-center'>
+              <div className='animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-primary'></div>
+            </div>
+          )}
+          {unreadCount > 0 && (
+            <div
+              className='sticky top-2 z-10 text-center mx-auto mb-2'
+              onClick={markMessagesAsRead}
+            >
+              <div className='inline-flex items-center px-3 py-1 rounded-full bg-primary text-primary-foreground text-xs font-medium shadow-sm cursor-pointer hover:bg-primary/90 transition-colors'>
+                {unreadCount} new {unreadCount === 1 ? "message" : "messages"}
+              </div>
+            </div>
+          )}
+
+          {showPaymentForm ? (
+            <div className='w-full py-4'>
+              <ShippingPaymentWrapper
+                claimId={claimInfo?.id || ""}
+                itemTitle={claimInfo?.itemTitle || ""}
+                onComplete={handlePaymentComplete}
+                onCancel={handlePaymentCancel}
+              />
+            </div>
+          ) : showSetupPaymentForm ? (
+            <div className='w-full py-4'>
+              <SetupPaymentAccount onComplete={handleSetupComplete} />
+            </div>
+          ) : isLoading ? (
+            <div className='flex items-center justify-center h-full'>
+              <div className='flex flex-col items-center'>
+                <div className='animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary'></div>
+                <p className='mt-2 text-sm text-muted-foreground'>
+                  Loading messages...
+                </p>
+              </div>
+            </div>
+          ) : error ? (
+            <div className='text-center py-4 text-destructive'>
+              <p className='mb-2 font-medium'>{error}</p>
+              <p className='text-sm text-muted-foreground'>
+                Please try refreshing the page.
               </p>
             </div>
-          </div>
-        ) : error ? (
-          <div className='text-center py-4 text-destructive'>
-            <p className='mb-2 font-medium'>{error}</p>
-            <p className='text-sm text-muted-foreground'>
-              Please try refreshing the page.
-            </p>
-          </div>
-        ) : allMessages.length === 0 ? (
-          <div className='text-center text-sm text-muted-foreground'>
-            No messages yet. Start the conversation!
-          </div>
-        ) : (
-          <div className='space-y-1'>
-            {allMessages.map((message, index) => {
-              const prevMessage = index > 0 ? allMessages[index - 1] : null;
-              const showHeader =
-                !prevMessage || prevMessage.user.name !== message.user.name;
-
-              return (
-                <div
-                  key={message.id}
-                  className='animate-in fade-in slide-in-from-bottom-4 duration-300'
-                >
-                  <ChatMessageItem
-                    message={message}
-                    isOwnMessage={message.user.name === username}
-                    showHeader={showHeader}
-                  />
-                </div>
-              );
-            })}
+          ) : allMessages.length === 0 ? (
+            <div className='text-center text-sm text-muted-foreground'>
+              No messages yet. Start the conversation!
+            </div>
+          ) : (
+            <div className='space-y-1'>
+              {allMessages.map((message, index) => {
+                const prevMessage = index > 0 ? allMessages[index - 1] : null;
+                const showHeader =
+                  !prevMessage || prevMessage.user.name !== message.user.name;
+
+                return (
+                  <div
+                    key={message.id}
+                    className='animate-in fade-in slide-in-from-bottom-4 duration-300'
+                  >
+                    <ChatMessageItem
+                      message={message}
+                      isOwnMessage={message.user.name === username}
+                      showHeader={showHeader}
+                      onRetry={retryMessage}
+                      isSeen={message.id === lastSeenMessageId}
+                      claimContext={claimContext}
+                      onSystemAction={handleSystemAction}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {presence.isTyping && !isLoading && (
+            <div className='flex items-center gap-2 px-3 text-xs text-muted-foreground animate-in fade-in'>
+              <span className='flex gap-0.5'>
+                <span className='size-1.5 rounded-full bg-muted-foreground animate-bounce' />
+                <span className='size-1.5 rounded-full bg-muted-foreground animate-bounce [animation-delay:150ms]' />
+                <span className='size-1.5 rounded-full bg-muted-foreground animate-bounce [animation-delay:300ms]' />
+              </span>
+              {presence.name || participantName || "The other participant"} is
+              typing…
+            </div>
+          )}
+        </div>
+
+        {/* Attachments picker */}
+        {showAttachments && !showPaymentForm && !showSetupPaymentForm && (
+          <div className='border-t border-border p-4 pb-0'>
+            <Dropzone {...attachmentUpload} className='p-4'>
+              <DropzoneEmptyState />
+              <DropzoneContent />
+            </Dropzone>
           </div>
         )}
-      </div>
 
-      {/* Payment Button or Chat Input */}
-      {showPaymentButton ? (
-        <div className='border-t border-border p-4'>
-          <div className='mb-2 text-sm text-muted-foreground'>
-            {claimInfo?.status === "accepted"
-              ? accountStatus === false
-                ? "The finder needs to set up their payment account before you can pay for shipping. Please ask them to set up their Stripe account."
-                : "The claim for this item has been accepted. Please pay for shipping to receive your item."
-              : "You can pay for shipping once your claim is accepted."}
-          </div>
-          <Button
-            onClick={() => setShowPaymentForm(true)}
-            className='w-full gap-2 mb-3'
-            disabled={
-              claimInfo?.status !== "accepted" ||
-              accountStatus === false ||
-              isCheckingStripeAccount
-            }
-          >
-            <DollarSign className='size-4' />
-            {isCheckingStripeAccount
-              ? "Checking payment availability..."
-              : accountStatus === false
-              ? "Awaiting finder setup"
-              : "Pay for Shipping"}
-          </Button>
-
-          {/* Refresh button */}
-          {claimInfo?.status === "accepted" && (
+        {/* Payment Button or Chat Input */}
+        {showPaymentButton ? (
+          <div className='border-t border-border p-4'>
+            <div className='mb-2 text-sm text-muted-foreground'>
+              {claimInfo?.status === "accepted"
+                ? accountStatus === false
+                  ? "The finder needs to set up their payment account before you can pay for shipping. Please ask them to set up their Stripe account."
+                  : "The claim for this item has been accepted. Please pay for shipping to receive your item."
+                : "You can pay for shipping once your claim is accepted."}
+            </div>
             <Button
-              onClick={refreshFinderStatus}
-              className='w-full gap-2'
-              disabled={isCheckingStripeAccount}
+              onClick={() => setShowPaymentForm(true)}
+              className='w-full gap-2 mb-3'
+              disabled={
+                claimInfo?.status !== "accepted" ||
+                accountStatus === false ||
+                isCheckingStripeAccount
+              }
             >
-              Refresh Finder Status
+              <DollarSign className='size-4' />
+              {isCheckingStripeAccount
+                ? "Checking payment availability..."
+                : accountStatus === false
+                ? "Awaiting finder setup"
+                : "Pay for Shipping"}
             </Button>
-          )}
 
-          {/* Chat input below the payment button */}
-          <form onSubmit={handleSendMessage} className='flex w-full gap-2'>
+            {/* Refresh button */}
+            {claimInfo?.status === "accepted" && (
+              <Button
+                onClick={refreshFinderStatus}
+                className='w-full gap-2'
+                disabled={isCheckingStripeAccount}
+              >
+                Refresh Finder Status
+              </Button>
+            )}
+
+            {/* Chat input below the payment button */}
+            <form onSubmit={handleSendMessage} className='flex w-full gap-2'>
+              <Input
+                className={cn(
+                  "rounded-full bg-background text-sm transition-all duration-300",
+                  canSend
+                    ? "w-[calc(100%-36px)]"
+                    : "w-full"
+                )}
+                type='text'
+                value={newMessage}
+                onChange={(e) => {
+                  setNewMessage(e.target.value);
+                  setTyping(!!e.target.value.trim());
+                }}
+                placeholder='Type a message...'
+                disabled={isLoading || !!error || showPaymentForm || isBlocked}
+              />
+
+              {/* Attachments */}
+              <Button
+                type='button'
+                variant='ghost'
+                size='icon'
+                className={cn(
+                  "rounded-full hover:bg-primary/10",
+                  hasAttachments && "text-primary"
+                )}
+                onClick={() => setShowAttachments((prev) => !prev)}
+                disabled={!isConnected || isLoading || !!error}
+                title='Attach photos or files'
+              >
+                <Paperclip className='size-4' />
+              </Button>
+
+              {canSend && (
+                <Button
+                  className='aspect-square rounded-full animate-in fade-in slide-in-from-right-4 duration-300'
+                  type='submit'
+                  disabled={showPaymentForm || isSending}
+                >
+                  <Send className='size-4' />
+                </Button>
+              )}
+            </form>
+          </div>
+        ) : (
+          <form
+            onSubmit={handleSendMessage}
+            className='flex w-full gap-2 border-t border-border p-4'
+          >
             <Input
               className={cn(
                 "rounded-full bg-background text-sm transition-all duration-300",
-                isConnected && newMessage.trim()
+                canSend
                   ? "w-[calc(100%-36px)]"
+                  : claimInfo?.isUserClaimer && claimInfo?.status === "pending"
+                  ? "w-[calc(100%-44px)]"
+                  : needsSetupPayment && !claimInfo?.isUserClaimer
+                  ? "w-[calc(100%-44px)]"
                   : "w-full"
               )}
               type='text'
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
-              placeholder='Type a message...'
-              disabled={!isConnected || isLoading || !!error || showPaymentForm}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                setTyping(!!e.target.value.trim());
+              }}
+              placeholder={
+                isLoading
+                  ? "Loading messages..."
+                  : error
+                  ? "Try refreshing the page"
+                  : "Type a message..."
+              }
+              disabled={
+                isLoading ||
+                !!error ||
+                showPaymentForm ||
+                showSetupPaymentForm ||
+                isBlocked
+              }
             />
 
-            {isConnected && newMessage.trim() && (
+            {/* Notification button */}
+            {renderNotificationButton()}
+
+            {/* Payment setup icon for finders */}
+            {needsSetupPayment &&
+              !claimInfo?.isUserClaimer &&
+              !showSetupPaymentForm && (
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='icon'
+                  className='rounded-full hover:bg-primary/10 text-yellow-500'
+                  onClick={() => setShowSetupPaymentForm(true)}
+                  title='Set up payment account to receive shipping fees'
+                >
+                  <CreditCard className='size-4' />
+                </Button>
+              )}
+
+            {/* Payment icon in chat input area */}
+            {claimInfo && claimInfo.isUserClaimer && !showSetupPaymentForm && (
               <Button
-                className='aspect-square rounded-full animate-in fade-in slide-in-from-right-4 duration-300'
-                type='submit'
-                disabled={!isConnected || showPaymentForm}
+                type='button'
+                variant='ghost'
+                size='icon'
+                className='rounded-full hover:bg-primary/10'
+                onClick={() => setShowPaymentForm(true)}
+                disabled={!["pending", "accepted"].includes(claimInfo.status)}
+                title={
+                  claimInfo.status === "accepted"
+                    ? "Pay for Shipping"
+                    : "Payment option (available after claim is accepted)"
+                }
               >
-                <Send className='size-4' />
+                <DollarSign className='size-4' />
               </Button>
             )}
-          </form>
-        </div>
-      ) : (
-        <form
-          onSubmit={handleSendMessage}
-          className='flex w-full gap-2 border-t border-border p-4'
-        >
-          <Input
-            className={cn(
-              "rounded-full bg-background text-sm transition-all duration-300",
-              isConnected && newMessage.trim()
-                ? "w-[calc(100%-36px)]"
-                : claimInfo?.isUserClaimer && claimInfo?.status === "pending"
-                ? "w-[calc(100%-44px)]"
-                : needsSetupPayment && !claimInfo?.isUserClaimer
-                ? "w-[calc(100%-44px)]"
-                : "w-full"
-            )}
-            type='text'
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder={
-              isLoading
-                ? "Loading messages..."
-                : error
-                ? "Try refreshing the page"
-                : "Type a message..."
-            }
-            disabled={
-              !isConnected ||
-              isLoading ||
-              !!error ||
-              showPaymentForm ||
-              showSetupPaymentForm
-            }
-          />
-
-          {/* Notification button */}
-          {renderNotificationButton()}
 
-          {/* Payment setup icon for finders */}
-          {needsSetupPayment &&
-            !claimInfo?.isUserClaimer &&
-            !showSetupPaymentForm && (
+            {/* Attachments */}
+            {!showSetupPaymentForm && (
               <Button
                 type='button'
                 variant='ghost'
                 size='icon'
-                className='rounded-full hover:bg-primary/10 text-yellow-500'
-                onClick={() => setShowSetupPaymentForm(true)}
-                title='Set up payment account to receive shipping fees'
+                className={cn(
+                  "rounded-full hover:bg-primary/10",
+                  hasAttachments && "text-primary"
+                )}
+                onClick={() => setShowAttachments((prev) => !prev)}
+                disabled={!isConnected || isLoading || !!error}
+                title='Attach photos or files'
               >
-                <CreditCard className='size-4' />
+                <Paperclip className='size-4' />
               </Button>
             )}
 
-          {/* Payment icon in chat input area */}
-          {claimInfo && claimInfo.isUserClaimer && !showSetupPaymentForm && (
-            <Button
-              type='button'
-              variant='ghost'
-              size='icon'
-              className='rounded-full hover:bg-primary/10'
-              onClick={() => setShowPaymentForm(true)}
-              disabled={!["pending", "accepted"].includes(claimInfo.status)}
-              title={
-                claimInfo.status === "accepted"
-                  ? "Pay for Shipping"
-                  : "Payment option (available after claim is accepted)"
-              }
-            >
-              <DollarSign className='size-4' />
-            </Button>
-          )}
+            {canSend && !showSetupPaymentForm && (
+              <Button
+                className='aspect-square rounded-full animate-in fade-in slide-in-from-right-4 duration-300'
+                type='submit'
+                disabled={
+                  showPaymentForm ||
+                  showSetupPaymentForm ||
+                  isSending
+                }
+              >
+                <Send className='size-4' />
+              </Button>
+            )}
+          </form>
+        )}
+      </div>
 
-          {isConnected && newMessage.trim() && !showSetupPaymentForm && (
-            <Button
-              className='aspect-square rounded-full animate-in fade-in slide-in-from-right-4 duration-300'
-              type='submit'
-              disabled={!isConnected || showPaymentForm || showSetupPaymentForm}
-            >
-              <Send className='size-4' />
-            </Button>
-          )}
-        </form>
+      {claimInfo && (
+        <>
+          <ReportUserDialog
+            open={showReportDialog}
+            onOpenChange={setShowReportDialog}
+            claimId={claimInfo.id}
+            participantName={otherParticipantName}
+            isBlocked={isBlocked}
+            onReported={({ blocked }) => {
+              if (blocked) setIsBlocked(true);
+            }}
+          />
+
+          <AlertDialog open={showBlockDialog} onOpenChange={setShowBlockDialog}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Block {otherParticipantName}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  You won&apos;t receive messages from each other, and they
+                  can&apos;t claim items you posted. They won&apos;t be told
+                  that you blocked them. You can unblock them at any time.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => handleToggleBlock(true)}>
+                  Block
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+
+      {/* Claim status sidebar */}
+      {claimInfo && (
+        <aside className='hidden md:flex flex-col w-60 shrink-0 border-l border-border p-4 overflow-y-auto'>
+          <h3 className='text-sm font-semibold mb-3'>Claim status</h3>
+          <ClaimStatusTimeline
+            claimId={claimInfo.id}
+            onStatusChange={handleClaimStatusChange}
+          />
+        </aside>
       )}
     </div>
   );
@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  USER_REPORT_REASONS,
+  UserReportReason,
+} from "@/lib/user-reports";
+
+interface ReportUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  claimId: string;
+  participantName: string;
+  // Whether the person is blocked already, then there is no need to offer it
+  isBlocked: boolean;
+  onReported: (result: { blocked: boolean }) => void;
+}
+
+/**
+ * Report the other participant to the moderators, optionally blocking them.
+ * Their latest messages are attached to the report by the server.
+ */
+export function ReportUserDialog({
+  open,
+  onOpenChange,
+  claimId,
+  participantName,
+  isBlocked,
+  onReported,
+}: ReportUserDialogProps) {
+  const [reason, setReason] = useState<UserReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [block, setBlock] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setReason("");
+    setDetails("");
+    setBlock(true);
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason) {
+      toast.error("Please choose a reason");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`/api/claims/${claimId}/report`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reason,
+          details: details.trim() || undefined,
+          block: block && !isBlocked,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to submit report");
+      }
+
+      toast.success("Thanks, our team will review your report");
+      onReported({ blocked: data.blocked });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to submit report");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='sm:max-w-md'>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Report {participantName}</DialogTitle>
+            <DialogDescription>
+              Their recent messages are sent to our moderators with your
+              report. {participantName} won&apos;t be told who reported them.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className='space-y-4 py-4'>
+            <RadioGroup
+              value={reason}
+              onValueChange={(value) => setReason(value as UserReportReason)}
+              className='space-y-1'
+            >
+              {(
+                Object.entries(USER_REPORT_REASONS) as [
+                  UserReportReason,
+                  string
+                ][]
+              ).map(([value, label]) => (
+                <div key={value} className='flex items-center space-x-3'>
+                  <RadioGroupItem value={value} id={`report-reason-${value}`} />
+                  <Label
+                    htmlFor={`report-reason-${value}`}
+                    className='font-normal'
+                  >
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className='space-y-2'>
+              <Label htmlFor='report-details'>
+                What happened{reason === "other" ? " *" : ""}
+              </Label>
+              <Textarea
+                id='report-details'
+                value={details}
+                maxLength={MAX_REPORT_DETAILS_LENGTH}
+                onChange={(e) => setDetails(e.target.value)}
+                required={reason === "other"}
+                placeholder='Anything that helps us understand the situation'
+              />
+            </div>
+
+            {!isBlocked && (
+              <div className='flex items-start space-x-3'>
+                <Checkbox
+                  id='report-block'
+                  checked={block}
+                  onCheckedChange={(checked) => setBlock(checked === true)}
+                />
+                <div className='space-y-1 leading-none'>
+                  <Label htmlFor='report-block'>
+                    Also block {participantName}
+                  </Label>
+                  <p className='text-xs text-muted-foreground'>
+                    They won&apos;t be able to message you or claim your items.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type='button'
+              variant='outline'
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type='submit' variant='destructive' disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+              Report
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
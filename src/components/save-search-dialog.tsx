@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { BellPlus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { describeSavedSearch, SavedSearchFilters } from "@/lib/saved-searches";
+
+interface SaveSearchDialogProps {
+  filters: SavedSearchFilters;
+}
+
+/**
+ * Save the current item filters as a named alert
+ */
+export function SaveSearchDialog({ filters }: SaveSearchDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const summary = describeSavedSearch(filters);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: name.trim() || summary.join(" · "),
+          filters,
+        }),
+      });
+
+      if (response.status === 401) {
+        toast.error("Please sign in to save searches");
+        return;
+      }
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save search");
+      }
+
+      toast.success("Search saved. We'll let you know when a new item matches.");
+      setOpen(false);
+      setName("");
+    } catch (error) {
+      console.error("Error saving search:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save search"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant='outline' className='flex items-center gap-2'>
+          <BellPlus className='h-4 w-4' />
+          <span className='hidden sm:inline'>Save Search</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className='sm:max-w-md'>
+        <form onSubmit={handleSave}>
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+            <DialogDescription>
+              Get an email and a notification when a newly reported item matches
+              these filters.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className='space-y-4 py-4'>
+            <div className='space-y-2'>
+              <Label htmlFor='saved-search-name'>Alert name</Label>
+              <Input
+                id='saved-search-name'
+                placeholder='e.g. Black wallet near home'
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className='flex flex-wrap gap-2'>
+              {summary.map((part) => (
+                <Badge key={part} variant='secondary'>
+                  {part}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter className='sm:justify-between'>
+            <Button variant='link' className='px-0' asChild>
+              <Link href='/settings/alerts'>Manage alerts</Link>
+            </Button>
+            <Button type='submit' disabled={isSaving}>
+              {isSaving && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+              Save Alert
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import React from "react";
+import { Plus, ShieldQuestion, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  MAX_VERIFICATION_QUESTIONS,
+  VerificationQuestionInput,
+} from "@/lib/verification";
+
+interface VerificationQuestionsInputProps {
+  value: VerificationQuestionInput[];
+  onChange: (questions: VerificationQuestionInput[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Editable list of private questions (with their expected answers)
+ * that every claimer of a found item has to answer
+ */
+export function VerificationQuestionsInput({
+  value,
+  onChange,
+  disabled = false,
+}: VerificationQuestionsInputProps) {
+  const updateQuestion = (
+    index: number,
+    changes: Partial<VerificationQuestionInput>
+  ) => {
+    onChange(
+      value.map((question, i) =>
+        i === index ? { ...question, ...changes } : question
+      )
+    );
+  };
+
+  return (
+    <div className='space-y-4'>
+      {value.map((question, index) => (
+        <div
+          key={question.id || index}
+          className='grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-start'
+        >
+          <Input
+            placeholder='e.g. What is the lock screen photo?'
+            value={question.question}
+            maxLength={200}
+            disabled={disabled}
+            onChange={(e) => updateQuestion(index, { question: e.target.value })}
+            aria-label={`Verification question ${index + 1}`}
+          />
+          <Input
+            placeholder='Expected answer (kept private)'
+            value={question.answer}
+            maxLength={200}
+            disabled={disabled}
+            onChange={(e) => updateQuestion(index, { answer: e.target.value })}
+            aria-label={`Answer to verification question ${index + 1}`}
+          />
+          <Button
+            type='button'
+            variant='ghost'
+            size='icon'
+            disabled={disabled}
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            aria-label='Remove question'
+          >
+            <Trash2 className='h-4 w-4' />
+          </Button>
+        </div>
+      ))}
+
+      {value.length === 0 && (
+        <div className='flex items-center gap-2 text-sm text-muted-foreground'>
+          <ShieldQuestion className='h-4 w-4' />
+          No verification questions yet
+        </div>
+      )}
+
+      {value.length < MAX_VERIFICATION_QUESTIONS && (
+        <Button
+          type='button'
+          variant='outline'
+          size='sm'
+          disabled={disabled}
+          onClick={() => onChange([...value, { question: "", answer: "" }])}
+        >
+          <Plus className='h-4 w-4 mr-1' />
+          Add Question
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,14 @@
 import { useCallback, useRef } from 'react'
 
-export function useChatScroll() {
+// How close to the top (in px) the user has to scroll before older messages are loaded
+const LOAD_OLDER_THRESHOLD = 80
+
+export function useChatScroll({ onReachTop }: { onReachTop?: () => void } = {}) {
   const containerRef = useRef<HTMLDivElement>(null)
+  // Distance from the bottom to keep while older messages are added above
+  const preservedOffsetRef = useRef<number | null>(null)
+  const onReachTopRef = useRef(onReachTop)
+  onReachTopRef.current = onReachTop
 
   const scrollToBottom = useCallback(() => {
     if (!containerRef.current) return
@@ -13,5 +20,38 @@ export function useChatScroll() {
     })
   }, [])
 
-  return { containerRef, scrollToBottom }
+  // Call before adding content above the visible messages
+  const preserveScrollPosition = useCallback(() => {
+    if (!containerRef.current) return
+
+    const container = containerRef.current
+    preservedOffsetRef.current = container.scrollHeight - container.scrollTop
+  }, [])
+
+  // Call after the DOM has been updated, e.g. from useLayoutEffect.
+  // Returns false when there was no position to restore.
+  const restoreScrollPosition = useCallback(() => {
+    if (!containerRef.current || preservedOffsetRef.current === null) return false
+
+    const container = containerRef.current
+    container.scrollTop = container.scrollHeight - preservedOffsetRef.current
+    preservedOffsetRef.current = null
+    return true
+  }, [])
+
+  const handleScroll = useCallback(() => {
+    if (!containerRef.current) return
+
+    if (containerRef.current.scrollTop <= LOAD_OLDER_THRESHOLD) {
+      onReachTopRef.current?.()
+    }
+  }, [])
+
+  return {
+    containerRef,
+    scrollToBottom,
+    preserveScrollPosition,
+    restoreScrollPosition,
+    handleScroll,
+  }
 }
@@ -0,0 +1,130 @@
+'use client'
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createClient } from "@/lib/client";
+import type {
+  ClaimMeetup,
+  MeetupLocation,
+  MeetupResponse,
+} from "@/lib/claim-meetups";
+
+interface MeetupProposalInput {
+  startsAt: string;
+  endsAt: string;
+  location: MeetupLocation;
+  note?: string;
+}
+
+/**
+ * Meetups of a claim, kept in sync with the claim_meetups table
+ * @param claimId - Claim to load meetups for, or null while it is unknown
+ */
+export function useClaimMeetups(claimId: string | null) {
+  const [meetups, setMeetups] = useState<ClaimMeetup[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const supabase = useMemo(() => createClient(), []);
+  const mountedRef = useRef(true);
+
+  const refresh = useCallback(async () => {
+    if (!claimId) return;
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/claims/${claimId}/meetups`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch meetups");
+      }
+      const data = await response.json();
+      if (mountedRef.current) {
+        setMeetups(data.meetups || []);
+      }
+    } catch (err) {
+      console.error("Error fetching meetups:", err);
+    } finally {
+      if (mountedRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [claimId]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    if (!claimId) {
+      setMeetups([]);
+      return;
+    }
+
+    refresh();
+
+    // Refetch on any change so proposals, answers and counters stay in order
+    const channel = supabase
+      .channel(`claim_meetups:${claimId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "claim_meetups",
+          filter: `claim_id=eq.${claimId}`,
+        },
+        () => {
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mountedRef.current = false;
+      supabase.removeChannel(channel);
+    };
+  }, [claimId, supabase, refresh]);
+
+  const propose = useCallback(
+    async (proposal: MeetupProposalInput) => {
+      const response = await fetch(`/api/claims/${claimId}/meetups`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(proposal),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to propose meetup");
+      }
+      await refresh();
+      return data.meetup as ClaimMeetup;
+    },
+    [claimId, refresh]
+  );
+
+  const respond = useCallback(
+    async (meetupId: string, action: MeetupResponse) => {
+      const response = await fetch(
+        `/api/claims/${claimId}/meetups/${meetupId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update meetup");
+      }
+      await refresh();
+      return data.meetup as ClaimMeetup;
+    },
+    [claimId, refresh]
+  );
+
+  const acceptedMeetup = meetups.find((meetup) => meetup.status === "accepted") || null;
+  const openProposal = meetups.find((meetup) => meetup.status === "proposed") || null;
+
+  return {
+    meetups,
+    acceptedMeetup,
+    openProposal,
+    isLoading,
+    refresh,
+    propose,
+    respond,
+  };
+}
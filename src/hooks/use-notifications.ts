@@ -0,0 +1,138 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/lib/client";
+
+export interface AppNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown>;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface UseNotificationsResult {
+  notifications: AppNotification[];
+  unreadCount: number;
+  isLoading: boolean;
+  markAllAsRead: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * In-app notifications for the signed-in user, kept up to date
+ * through a realtime subscription on the notifications table
+ */
+export function useNotifications(): UseNotificationsResult {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications");
+
+      if (response.status === 401) {
+        setNotifications([]);
+        setUnreadCount(0);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch notifications");
+      }
+
+      const data = await response.json();
+      setNotifications(data.notifications || []);
+      setUnreadCount(data.unreadCount || 0);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Track the signed-in user
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => {
+      setUserId(data.user?.id || null);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_, session) => {
+      setUserId(session?.user?.id || null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [supabase.auth]);
+
+  // Fetch and subscribe to new notifications
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setIsLoading(false);
+      return;
+    }
+
+    refresh();
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const notification = payload.new as AppNotification;
+          setNotifications((prev) => [notification, ...prev]);
+          setUnreadCount((prev) => prev + 1);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId, refresh]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (unreadCount === 0) return;
+
+    try {
+      const response = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to mark notifications as read");
+      }
+
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((notification) => ({
+          ...notification,
+          read_at: notification.read_at || readAt,
+        }))
+      );
+      setUnreadCount(0);
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+    }
+  }, [unreadCount]);
+
+  return { notifications, unreadCount, isLoading, markAllAsRead, refresh };
+}
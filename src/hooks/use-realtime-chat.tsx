@@ -4,9 +4,36 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createClient } from "@/lib/client";
 import { toast } from "sonner";
 import { showNotification } from "@/lib/notification-utils";
-
-// Constants
-const EVENT_MESSAGE_TYPE = "chat_message";
+import type {
+  ChatAttachment,
+  ChatAttachmentUpload,
+} from "@/lib/chat-attachments";
+import {
+  type ChatPresencePayload,
+  type ParticipantPresence,
+  OFFLINE_PRESENCE,
+  TYPING_TIMEOUT_MS,
+  getParticipantPresence,
+} from "@/lib/chat-presence";
+import {
+  type ChatMessageStatus,
+  type OutboxEntry,
+  getOutbox,
+  getRetryDelay,
+  removeOutboxEntry,
+  saveOutboxEntry,
+} from "@/lib/chat-outbox";
+import type { ModerationAction, ModerationRule } from "@/lib/chat-moderation";
+import type {
+  ChatMessageKind,
+  ChatSystemEvent,
+} from "@/lib/chat-system-messages";
+import {
+  type ChatReadState,
+  type ChatReadStateRow,
+  getLastSeenMessageId,
+  toChatReadState,
+} from "@/lib/chat-read-state";
 
 // Types
 export type ChatMessage = {
@@ -18,7 +45,17 @@ export type ChatMessage = {
     id: string;
   };
   senderId: string;
-  isRead: boolean;
+  attachments?: ChatAttachment[];
+  // Delivery state of our own messages, server messages are always "sent"
+  status?: ChatMessageStatus;
+  // Outcome of the server's screening, e.g. a warning for the recipient
+  moderation?: {
+    action: ModerationAction;
+    rules: ModerationRule[];
+  };
+  // System messages are written by the server and carry the event they announce
+  kind?: ChatMessageKind;
+  event?: ChatSystemEvent;
 };
 
 export type UseRealtimeChatProps = {
@@ -26,6 +63,80 @@ export type UseRealtimeChatProps = {
   username: string;
 };
 
+// Convert a chat_messages row from the API to the chat message format
+const toChatMessage = (msg: any): ChatMessage => ({
+  id: msg.id,
+  content: msg.message,
+  timestamp: msg.created_at,
+  user: {
+    name: msg.sender_name,
+    id: msg.sender_id,
+  },
+  senderId: msg.sender_id,
+  attachments: msg.attachments || [],
+  status: "sent",
+  moderation: {
+    action: msg.moderation_action || "allow",
+    rules: msg.moderation_rules || [],
+  },
+  kind: msg.message_kind || "user",
+  event:
+    msg.message_kind === "system" && msg.event_type
+      ? ({ type: msg.event_type, payload: msg.event_payload || {} } as ChatSystemEvent)
+      : undefined,
+});
+
+const fromOutboxEntry = (
+  entry: OutboxEntry,
+  userId: string,
+  status: ChatMessageStatus
+): ChatMessage => ({
+  id: entry.id,
+  content: entry.content,
+  timestamp: entry.createdAt,
+  user: {
+    name: entry.senderName,
+    id: userId,
+  },
+  senderId: userId,
+  attachments: [],
+  status,
+});
+
+// Replace the read state of a participant, read positions only move forward
+const upsertReadState = (current: ChatReadState[], state: ChatReadState) => {
+  const existing = current.find((candidate) => candidate.userId === state.userId);
+  if (
+    existing &&
+    new Date(existing.lastReadAt).getTime() >=
+      new Date(state.lastReadAt).getTime()
+  ) {
+    return current;
+  }
+  return [
+    ...current.filter((candidate) => candidate.userId !== state.userId),
+    state,
+  ];
+};
+
+// Merge messages by ID (the incoming version wins) and keep them in order
+const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+  const byId = new Map(current.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+  return Array.from(byId.values()).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+};
+
+const setMessageStatus = (
+  messages: ChatMessage[],
+  id: string,
+  status: ChatMessageStatus
+) =>
+  messages.map((message) =>
+    message.id === id ? { ...message, status } : message
+  );
+
 export function useRealtimeChat({ roomName, username }: UseRealtimeChatProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isConnected, setIsConnected] = useState(false);
@@ -33,22 +144,44 @@ export function useRealtimeChat({ roomName, username }: UseRealtimeChatProps) {
   const [error, setError] = useState<Error | null>(null);
   const [channel, setChannel] = useState<any>(null);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [readStates, setReadStates] = useState<ChatReadState[]>([]);
+  const [presence, setPresence] =
+    useState<ParticipantPresence>(OFFLINE_PRESENCE);
   const supabase = createClient();
-  const isFirstLoad = useRef(true);
+  const currentUserIdRef = useRef<string | null>(null);
+  const isTypingRef = useRef(false);
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // created_at of the newest message we got from the server, to fetch only what's missing
+  const lastSyncedAtRef = useRef<string | null>(null);
+  // Oldest message we got from the server, the cursor for loading older pages
+  const oldestMessageRef = useRef<ChatMessage | null>(null);
+  const knownIdsRef = useRef<Set<string>>(new Set());
+  const isSyncingRef = useRef(false);
+  const needsResyncRef = useRef(false);
+  const isFlushingRef = useRef(false);
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
   // Function to mark all messages as read
   const markMessagesAsRead = useCallback(async () => {
     if (!roomName) return;
 
     try {
       // Make API call to mark messages as read
-      const response = await fetch(
-        `/api/chat-message?room=${encodeURIComponent(roomName)}`,
-        {
-          method: "GET",
-        }
-      );
+      const response = await fetch("/api/chat-message/read", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ chat_room_id: roomName }),
+      });
 
       if (response.ok) {
+        const { readState } = await response.json();
+        if (readState) {
+          setReadStates((current) => upsertReadState(current, readState));
+        }
         setUnreadCount(0);
       }
     } catch (err) {
@@ -56,6 +189,213 @@ export function useRealtimeChat({ roomName, username }: UseRealtimeChatProps) {
     }
   }, [roomName]);
 
+  const getCurrentUserId = useCallback(async () => {
+    if (!currentUserIdRef.current) {
+      const { data } = await supabase.auth.getSession();
+      currentUserIdRef.current = data?.session?.user?.id || null;
+    }
+    return currentUserIdRef.current;
+  }, [supabase]);
+
+  // Fetch the messages we don't have yet from the database, which is the source of truth.
+  // Runs on load (latest page only), on every insert notification and after reconnecting,
+  // to fill any gap.
+  const syncMessages = useCallback(async () => {
+    if (!roomName) return;
+
+    // Calls while a sync is running are folded into one more run afterwards
+    if (isSyncingRef.current) {
+      needsResyncRef.current = true;
+      return;
+    }
+    isSyncingRef.current = true;
+
+    try {
+      do {
+        needsResyncRef.current = false;
+        const isInitialLoad = lastSyncedAtRef.current === null;
+        const params = new URLSearchParams({ room: roomName });
+        if (lastSyncedAtRef.current) {
+          params.set("after", lastSyncedAtRef.current);
+        }
+
+        const response = await fetch(`/api/chat-message?${params}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Failed to load messages");
+        }
+
+        const data = await response.json();
+        const incoming: ChatMessage[] = (data.messages || []).map(toChatMessage);
+        if (data.readStates) {
+          setReadStates(data.readStates);
+        }
+
+        if (isInitialLoad) {
+          oldestMessageRef.current = incoming[0] || null;
+          setHasOlderMessages(!!data.hasMore);
+        }
+        if (incoming.length === 0) continue;
+
+        const previousSyncedAt = lastSyncedAtRef.current;
+        lastSyncedAtRef.current = incoming[incoming.length - 1].timestamp;
+
+        // More was missed than fits in one page, keep going
+        if (
+          !isInitialLoad &&
+          data.hasMore &&
+          lastSyncedAtRef.current !== previousSyncedAt
+        ) {
+          needsResyncRef.current = true;
+        }
+
+        const currentUserId = await getCurrentUserId();
+        const newFromOthers = incoming.filter(
+          (message) =>
+            !knownIdsRef.current.has(message.id) &&
+            message.senderId !== currentUserId
+        );
+        incoming.forEach((message) => knownIdsRef.current.add(message.id));
+
+        // Server copies replace our pending versions of the same message
+        setMessages((current) => mergeMessages(current, incoming));
+
+        if (isInitialLoad || newFromOthers.length === 0) continue;
+
+        setUnreadCount((prev) => prev + newFromOthers.length);
+
+        // Show browser notification if supported and if we have permission
+        if (document.visibilityState !== "visible") {
+          const latest = newFromOthers[newFromOthers.length - 1];
+          showNotification("New Message", {
+            body: `${latest.user.name}: ${
+              latest.content || "Sent an attachment"
+            }`,
+          });
+        } else {
+          // Mark as read if document is visible
+          setTimeout(() => markMessagesAsRead(), 1000);
+        }
+      } while (needsResyncRef.current);
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [roomName, getCurrentUserId, markMessagesAsRead]);
+
+  // Load the page of messages before the oldest one we have, when scrolling up
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = oldestMessageRef.current;
+    if (!roomName || !oldest || !hasOlderMessages || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const params = new URLSearchParams({
+        room: roomName,
+        before: oldest.timestamp,
+        before_id: oldest.id,
+      });
+      const response = await fetch(`/api/chat-message?${params}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to load older messages");
+      }
+
+      const data = await response.json();
+      const older: ChatMessage[] = (data.messages || []).map(toChatMessage);
+
+      // The room may have changed while the page was loading
+      if (oldestMessageRef.current !== oldest) return;
+
+      if (older.length > 0) {
+        oldestMessageRef.current = older[0];
+        older.forEach((message) => knownIdsRef.current.add(message.id));
+        setMessages((current) => mergeMessages(current, older));
+      }
+      setHasOlderMessages(!!data.hasMore);
+    } catch (err) {
+      console.error("Error loading older messages:", err);
+      toast.error("Couldn't load older messages.");
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [roomName, hasOlderMessages, isLoadingOlder]);
+
+  // Send the queued messages of this room in order. Stops at the first message that
+  // can't be delivered for now and retries later with backoff.
+  const flushOutbox = useCallback(async () => {
+    if (!roomName || isFlushingRef.current) return;
+    isFlushingRef.current = true;
+
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+    }
+
+    try {
+      for (const entry of getOutbox(roomName)) {
+        setMessages((current) => setMessageStatus(current, entry.id, "pending"));
+
+        let response: Response | null = null;
+        try {
+          response = await fetch("/api/chat-message", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              id: entry.id,
+              chat_room_id: roomName,
+              message: entry.content,
+              attachments: entry.attachments,
+            }),
+          });
+        } catch (err) {
+          // Offline or the request didn't get through, keep it queued
+          console.error("Error sending message:", err);
+        }
+
+        if (response?.ok) {
+          const { message: savedMessage } = await response.json();
+          removeOutboxEntry(entry.id);
+          knownIdsRef.current.add(entry.id);
+          setMessages((current) =>
+            mergeMessages(current, [toChatMessage(savedMessage)])
+          );
+          continue;
+        }
+
+        // The server refused the message, retrying it as is won't help
+        if (
+          response &&
+          response.status >= 400 &&
+          response.status < 500 &&
+          ![408, 429].includes(response.status)
+        ) {
+          const errorData = await response.json().catch(() => ({}));
+          removeOutboxEntry(entry.id);
+          setMessages((current) =>
+            setMessageStatus(current, entry.id, "failed")
+          );
+          toast.error(errorData.error || "Failed to send message.");
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        saveOutboxEntry({ ...entry, attempts });
+        setMessages((current) => setMessageStatus(current, entry.id, "failed"));
+        retryTimeoutRef.current = setTimeout(
+          () => flushOutbox(),
+          getRetryDelay(attempts)
+        );
+        break;
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [roomName]);
+
   // Load initial messages and set up realtime subscription
   useEffect(() => {
     // Don't attempt connection without room name
@@ -64,38 +404,37 @@ export function useRealtimeChat({ roomName, username }: UseRealtimeChatProps) {
       return;
     }
 
-    const fetchMessages = async () => {
+    setMessages([]);
+    setPresence(OFFLINE_PRESENCE);
+    isTypingRef.current = false;
+    lastSyncedAtRef.current = null;
+    oldestMessageRef.current = null;
+    knownIdsRef.current = new Set();
+    setHasOlderMessages(false);
+    setReadStates([]);
+
+    const loadMessages = async () => {
       try {
         setIsLoading(true);
         setError(null);
 
-        // Fetch messages from the API
-        const response = await fetch(
-          `/api/chat-message?room=${encodeURIComponent(roomName)}`
-        );
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Failed to load messages");
+        await syncMessages();
+
+        // Messages that didn't make it before the page was closed are sent again
+        const currentUserId = await getCurrentUserId();
+        const queued = getOutbox(roomName);
+        if (currentUserId && queued.length > 0) {
+          setMessages((current) =>
+            mergeMessages(
+              current,
+              queued
+                .filter((entry) => !knownIdsRef.current.has(entry.id))
+                .map((entry) => fromOutboxEntry(entry, currentUserId, "pending"))
+            )
+          );
+          flushOutbox();
         }
 
-        const data = await response.json();
-
-        // Convert API response to chat messages format
-        const formattedMessages = data.messages.map((msg: any) => ({
-          id: msg.id,
-          content: msg.message,
-          timestamp: msg.created_at,
-          user: {
-            name: msg.sender_name,
-            id: msg.sender_id,
-          },
-          senderId: msg.sender_id,
-          isRead: msg.is_read,
-        }));
-
-        setMessages(formattedMessages);
-
         // Mark all messages as read on initial load
         markMessagesAsRead();
       } catch (err) {
@@ -103,119 +442,244 @@ export function useRealtimeChat({ roomName, username }: UseRealtimeChatProps) {
         setError(err instanceof Error ? err : new Error(String(err)));
       } finally {
         setIsLoading(false);
-        isFirstLoad.current = false;
       }
     };
 
-    fetchMessages();
+    loadMessages();
 
-    // Set up realtime subscription
+    let hasSubscribed = false;
+
+    // Set up realtime subscription: inserted rows tell us to sync, presence shows
+    // whether the other side is online or typing
     const newChannel = supabase
       .channel(`room:${roomName}`)
-      .on("broadcast", { event: EVENT_MESSAGE_TYPE }, (payload) => {
-        const newMessage = payload.payload as ChatMessage;
-        setMessages((current) => [...current, newMessage]);
-
-        // Get current user to check if we need to update unread count
-        supabase.auth.getSession().then(({ data }) => {
-          const currentUserId = data?.session?.user?.id;
-
-          // If the message is from someone else, increment unread count
-          if (newMessage.senderId !== currentUserId) {
-            setUnreadCount((prev) => prev + 1);
-
-            // Show browser notification if supported and if we have permission
-            if (document.visibilityState !== "visible") {
-              showNotification("New Message", {
-                body: `${newMessage.user.name}: ${newMessage.content}`,
-              });
-            }
-
-            // Mark as read if document is visible
-            if (document.visibilityState === "visible") {
-              setTimeout(() => markMessagesAsRead(), 1000);
-            }
-          }
-        });
+      .on("presence", { event: "sync" }, () => {
+        setPresence((previous) =>
+          getParticipantPresence(
+            newChannel.presenceState<ChatPresencePayload>(),
+            currentUserIdRef.current,
+            previous
+          )
+        );
       })
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "chat_messages",
+          filter: `chat_room_id=eq.${roomName}`,
+        },
+        (payload) => {
+          if (!knownIdsRef.current.has(payload.new.id)) {
+            syncMessages().catch((err) =>
+              console.error("Error syncing chat messages:", err)
+            );
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "chat_read_state",
+          filter: `chat_room_id=eq.${roomName}`,
+        },
+        (payload) => {
+          if (!payload.new || !("user_id" in payload.new)) return;
+          setReadStates((current) =>
+            upsertReadState(
+              current,
+              toChatReadState(payload.new as ChatReadStateRow)
+            )
+          );
+        }
+      )
       .subscribe(async (status) => {
-        if (status === "SUBSCRIBED") {
-          setIsConnected(true);
+        if (status !== "SUBSCRIBED") {
+          if (["CHANNEL_ERROR", "TIMED_OUT", "CLOSED"].includes(status)) {
+            setIsConnected(false);
+          }
+          return;
+        }
+
+        setIsConnected(true);
+
+        // Fill the gap of anything sent while we were disconnected
+        if (hasSubscribed) {
+          syncMessages().catch((err) =>
+            console.error("Error syncing chat messages:", err)
+          );
+          flushOutbox();
+        }
+        hasSubscribed = true;
+
+        const currentUserId = await getCurrentUserId();
+        if (currentUserId) {
+          await newChannel.track({
+            user_id: currentUserId,
+            name: username,
+            typing: false,
+            online_at: new Date().toISOString(),
+          } satisfies ChatPresencePayload);
         }
       });
 
     setChannel(newChannel);
 
+    // Retry queued messages as soon as the browser is back online
+    const handleOnline = () => {
+      flushOutbox();
+      syncMessages().catch((err) =>
+        console.error("Error syncing chat messages:", err)
+      );
+    };
+    window.addEventListener("online", handleOnline);
+
     // No longer automatically requesting notification permission
     // This will now be handled by a user action
 
     return () => {
+      window.removeEventListener("online", handleOnline);
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+      }
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+        retryTimeoutRef.current = null;
+      }
       supabase.removeChannel(newChannel);
     };
-  }, [roomName, username, supabase, markMessagesAsRead]);
+  }, [
+    roomName,
+    username,
+    supabase,
+    markMessagesAsRead,
+    syncMessages,
+    flushOutbox,
+    getCurrentUserId,
+  ]);
+
+  // Until they come online, the other participant was last seen when they last wrote
+  const lastMessageFromOtherAt = useMemo(() => {
+    const fromOthers = messages.filter(
+      (message) =>
+        currentUserIdRef.current &&
+        message.senderId !== currentUserIdRef.current
+    );
+    return fromOthers.length > 0
+      ? fromOthers[fromOthers.length - 1].timestamp
+      : null;
+  }, [messages]);
+
+  // Our newest message the other side has read
+  const lastSeenMessageId = useMemo(
+    () => getLastSeenMessageId(messages, readStates, currentUserIdRef.current),
+    [messages, readStates]
+  );
+
+  const participantPresence = useMemo<ParticipantPresence>(
+    () =>
+      presence.isOnline || presence.lastSeenAt
+        ? presence
+        : { ...presence, lastSeenAt: lastMessageFromOtherAt },
+    [presence, lastMessageFromOtherAt]
+  );
+
+  // Let the other side know we're typing, cleared after a few seconds without keystrokes
+  const setTyping = useCallback(
+    (isTyping: boolean) => {
+      if (!channel || !isConnected || !currentUserIdRef.current) return;
+
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = null;
+      }
+
+      if (isTyping) {
+        typingTimeoutRef.current = setTimeout(
+          () => setTyping(false),
+          TYPING_TIMEOUT_MS
+        );
+      }
+
+      // Only send an update when the state actually changes
+      if (isTypingRef.current === isTyping) return;
+      isTypingRef.current = isTyping;
+
+      channel.track({
+        user_id: currentUserIdRef.current,
+        name: username,
+        typing: isTyping,
+        online_at: new Date().toISOString(),
+      } satisfies ChatPresencePayload);
+    },
+    [channel, isConnected, username]
+  );
 
-  // Function to send a new message
+  // Function to send a new message, optionally with files already uploaded to the room folder.
+  // The message shows up right away as pending and is queued until the server has it.
   const sendMessage = useCallback(
-    async (content: string) => {
-      if (!channel || !isConnected || !content.trim()) return;
+    async (content: string, attachments: ChatAttachmentUpload[] = []) => {
+      if (!roomName) return;
+      if (!content.trim() && attachments.length === 0) return;
 
-      try {
-        const messageId = crypto.randomUUID();
-        const timestamp = new Date().toISOString();
-
-        // Get current user's session info
-        const { data } = await supabase.auth.getSession();
-        const userId = data?.session?.user?.id || "anonymous";
-
-        // Create message object
-        const message: ChatMessage = {
-          id: messageId,
-          content,
-          timestamp,
-          user: {
-            name: username,
-            id: userId,
-          },
-          senderId: userId,
-          isRead: false,
-        };
-
-        // Send message to server via API
-        const response = await fetch("/api/chat-message", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            id: messageId,
-            chat_room_id: roomName,
-            sender_id: userId,
-            sender_name: username,
-            sender_email: data?.session?.user?.email || "",
-            message: content,
-          }),
-        });
+      setTyping(false);
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Failed to send message");
-        }
+      const currentUserId = await getCurrentUserId();
+      if (!currentUserId) {
+        toast.error("Please sign in again to send messages.");
+        return;
+      }
+
+      const entry: OutboxEntry = {
+        id: crypto.randomUUID(),
+        roomName,
+        content,
+        senderName: username,
+        attachments,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+      };
+
+      saveOutboxEntry(entry);
+      setMessages((current) =>
+        mergeMessages(current, [
+          fromOutboxEntry(entry, currentUserId, "pending"),
+        ])
+      );
+
+      await flushOutbox();
+    },
+    [roomName, username, setTyping, getCurrentUserId, flushOutbox]
+  );
 
-        // Broadcast message to other clients
-        channel.send({
-          type: "broadcast",
-          event: EVENT_MESSAGE_TYPE,
-          payload: message,
+  // Send a failed message again, also when the server refused it the first time
+  const retryMessage = useCallback(
+    async (id: string) => {
+      const message = messages.find(
+        (candidate) => candidate.id === id && candidate.status === "failed"
+      );
+      if (!message) return;
+
+      if (!getOutbox(roomName).some((entry) => entry.id === id)) {
+        saveOutboxEntry({
+          id,
+          roomName,
+          content: message.content,
+          senderName: message.user.name,
+          attachments: [],
+          createdAt: message.timestamp,
+          attempts: 0,
         });
-      } catch (err) {
-        console.error("Error sending message:", err);
-        toast.error("Failed to send message. Please try again.");
       }
+
+      await flushOutbox();
     },
-    [channel, isConnected, username, roomName, supabase]
+    [messages, roomName, flushOutbox]
   );
 
-
   // Function to request notification permission
   const requestNotifications = useCallback(async () => {
     // This function will be called from a user action (like clicking a button)
@@ -264,9 +728,16 @@ export function useRealtimeChat({ roomName, username }: UseRealtimeChatProps) {
       isLoading,
       error,
       sendMessage,
+      retryMessage,
+      hasOlderMessages,
+      isLoadingOlder,
+      loadOlderMessages,
       unreadCount,
       markMessagesAsRead,
       requestNotifications,
+      presence: participantPresence,
+      setTyping,
+      lastSeenMessageId,
     }),
     [
       messages,
@@ -274,9 +745,16 @@ export function useRealtimeChat({ roomName, username }: UseRealtimeChatProps) {
       isLoading,
       error,
       sendMessage,
+      retryMessage,
+      hasOlderMessages,
+      isLoadingOlder,
+      loadOlderMessages,
       unreadCount,
       markMessagesAsRead,
       requestNotifications,
+      participantPresence,
+      setTyping,
+      lastSeenMessageId,
     ]
   );
 }
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient } from "@/lib/client";
+import {
+  type ChatPresencePayload,
+  type ParticipantPresence,
+  OFFLINE_PRESENCE,
+  getParticipantPresence,
+} from "@/lib/chat-presence";
+
+/**
+ * Presence of the other participant in several chat rooms at once, for conversation lists.
+ * Joins `room:${roomName}` like useRealtimeChat, so leave out the room that's open in a chat:
+ * a second join of the same room would replace the chat's own subscription.
+ * @param roomNames - Chat rooms to watch
+ * @param username - Name shown to the other participants
+ * @returns Presence of the other participant by room name
+ */
+export function useRoomsPresence(roomNames: string[], username: string) {
+  const [presenceByRoom, setPresenceByRoom] = useState<
+    Record<string, ParticipantPresence>
+  >({});
+  const supabase = createClient();
+  // Stable dependency for the list of rooms
+  const roomsKey = [...roomNames].sort().join("|");
+
+  useEffect(() => {
+    if (!roomsKey || !username) return;
+
+    let currentUserId: string | null = null;
+    const rooms = roomsKey.split("|");
+
+    const channels = rooms.map((roomName) => {
+      const channel = supabase.channel(`room:${roomName}`);
+
+      channel
+        .on("presence", { event: "sync" }, () => {
+          setPresenceByRoom((current) => ({
+            ...current,
+            [roomName]: getParticipantPresence(
+              channel.presenceState<ChatPresencePayload>(),
+              currentUserId,
+              current[roomName] || OFFLINE_PRESENCE
+            ),
+          }));
+        })
+        .subscribe(async (status) => {
+          if (status !== "SUBSCRIBED") return;
+
+          const { data } = await supabase.auth.getSession();
+          currentUserId = data?.session?.user?.id || null;
+          if (currentUserId) {
+            // Being on the messages page counts as online for the other side too
+            await channel.track({
+              user_id: currentUserId,
+              name: username,
+              typing: false,
+              online_at: new Date().toISOString(),
+            } satisfies ChatPresencePayload);
+          }
+        });
+
+      return channel;
+    });
+
+    return () => {
+      channels.forEach((channel) => supabase.removeChannel(channel));
+    };
+  }, [roomsKey, username, supabase]);
+
+  return presenceByRoom;
+}
@@ -1,7 +1,9 @@
 'use client'
 import { useEffect, useState, useCallback, useRef } from "react";
 import { createClient } from "@/lib/client";
-import { useIsMobile } from "./use-mobile";
+
+// Wait this long after a change before refetching, so bursts cause one request
+const REFRESH_DEBOUNCE_MS = 300;
 
 interface UnreadMessageCounts {
   unreadCounts: Record<string, number>;
@@ -17,17 +19,22 @@ export function useUnreadMessages(): UnreadMessageCounts {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
   const supabase = createClient();
-  const isMobile = useIsMobile();
 
   // Use a ref to track if a fetch is in progress to prevent multiple simultaneous requests
   const isFetchingRef = useRef(false);
+  // A change came in during a fetch, so fetch once more when it's done
+  const needsRefetchRef = useRef(false);
   // Track if component is mounted
   const mountedRef = useRef(true);
 
   // Make fetchUnreadCounts a memoized function with useCallback
   const fetchUnreadCounts = useCallback(async () => {
     // Prevent multiple simultaneous fetches or fetching after unmount
-    if (isFetchingRef.current || !mountedRef.current) return;
+    if (!mountedRef.current) return;
+    if (isFetchingRef.current) {
+      needsRefetchRef.current = true;
+      return;
+    }
 
     try {
       isFetchingRef.current = true;
@@ -80,48 +87,36 @@ export function useUnreadMessages(): UnreadMessageCounts {
         setIsLoading(false);
       }
       isFetchingRef.current = false;
+      if (needsRefetchRef.current) {
+        needsRefetchRef.current = false;
+        fetchUnreadCounts();
+      }
     }
   }, [supabase]);
 
-  // Set up a Supabase realtime subscription for new chat messages
+  // Keep the counts up to date over realtime: new messages from others and changes
+  // to the user's own read position (any device) trigger a refetch
   useEffect(() => {
     let isSubscribed = true;
-    let connectionTimeout: NodeJS.Timeout;
-    let pollingInterval: NodeJS.Timeout | null = null;
+    let refreshTimeout: NodeJS.Timeout | null = null;
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+
+    // Bursts of changes only need one refetch
+    const scheduleRefresh = () => {
+      if (!isSubscribed) return;
+      if (refreshTimeout) clearTimeout(refreshTimeout);
+      refreshTimeout = setTimeout(() => fetchUnreadCounts(), REFRESH_DEBOUNCE_MS);
+    };
 
     const setupRealtimeSubscription = async () => {
       try {
         const { data: sessionData } = await supabase.auth.getSession();
-        if (!sessionData.session || !isSubscribed) return;
-
-        // Set a timeout to handle potential connection issues on mobile
-        connectionTimeout = setTimeout(
-          () => {
-            if (isSubscribed) {
-              console.log("Realtime connection timeout - switching to polling");
-              fetchUnreadCounts();
+        const userId = sessionData.session?.user?.id;
+        if (!userId || !isSubscribed) return;
 
-              // If we're on mobile, set up polling as a fallback mechanism
-              if (isMobile && isSubscribed) {
-                pollingInterval = setInterval(() => {
-                  if (isSubscribed && document.visibilityState === "visible") {
-                    fetchUnreadCounts();
-                  }
-                }, 30000); // Poll every 30 seconds on mobile
-              }
-            }
-          },
-          isMobile ? 8000 : 5000
-        );
-
-        // Mobile-optimized channel setup
-        const channel = supabase
-          .channel("chat_notifications", {
-            config: {
-              broadcast: { ack: true },
-              presence: { key: "" },
-            },
-          })
+        // RLS only delivers messages of rooms the user is part of
+        channel = supabase
+          .channel(`unread_counts:${userId}`)
           .on(
             "postgres_changes",
             {
@@ -129,83 +124,48 @@ export function useUnreadMessages(): UnreadMessageCounts {
               schema: "public",
               table: "chat_messages",
             },
-            (_payload) => {
-              // When a new message is sent, refresh the counts
-              if (isSubscribed) {
-                fetchUnreadCounts();
+            (payload) => {
+              if (
+                payload.new.message_kind !== "system" &&
+                payload.new.sender_id !== userId
+              ) {
+                scheduleRefresh();
               }
             }
           )
           .on(
             "postgres_changes",
             {
-              event: "UPDATE",
+              event: "*",
               schema: "public",
-              table: "chat_messages",
-              filter: "is_read=eq.true",
+              table: "chat_read_state",
+              filter: `user_id=eq.${userId}`,
             },
-            (_payload) => {
-              // When messages are marked as read, refresh the counts
-              if (isSubscribed) {
-                fetchUnreadCounts();
-              }
-            }
+            () => scheduleRefresh()
           )
           .subscribe((status) => {
-            console.log(`Subscription status: ${status}`);
-            // If subscription fails and we're on mobile, fall back to polling
-            if (
-              status !== "SUBSCRIBED" &&
-              isMobile &&
-              isSubscribed &&
-              !pollingInterval
-            ) {
-              pollingInterval = setInterval(() => {
-                if (isSubscribed && document.visibilityState === "visible") {
-                  fetchUnreadCounts();
-                }
-              }, 30000);
-            } else if (status === "SUBSCRIBED" && pollingInterval) {
-              // If subscription succeeds later, clear polling
-              clearInterval(pollingInterval);
-              pollingInterval = null;
+            // Catch up on anything missed while the connection was down
+            if (status === "SUBSCRIBED") {
+              scheduleRefresh();
             }
           });
-
-        return () => {
-          if (channel) {
-            supabase.removeChannel(channel);
-          }
-        };
       } catch (err) {
         console.error("Error setting up realtime subscription:", err);
-        // Fall back to polling on error for mobile
-        if (isMobile && isSubscribed && !pollingInterval) {
-          pollingInterval = setInterval(() => {
-            if (isSubscribed && document.visibilityState === "visible") {
-              fetchUnreadCounts();
-            }
-          }, 30000);
-        }
         if (mountedRef.current) {
           setError(err instanceof Error ? err : new Error("Unknown error"));
         }
-      } finally {
-        clearTimeout(connectionTimeout);
       }
     };
 
-    const subscription = setupRealtimeSubscription();
+    setupRealtimeSubscription();
 
     // Initial fetch
-    if (isSubscribed) {
-      fetchUnreadCounts();
-    }
+    fetchUnreadCounts();
 
-    // Use a single focus handler that's debounced for mobile
+    // Realtime connections are often dropped while a mobile tab is in the background
     const handleVisibilityChange = () => {
-      if (document.visibilityState === "visible" && isSubscribed) {
-        fetchUnreadCounts();
+      if (document.visibilityState === "visible") {
+        scheduleRefresh();
       }
     };
 
@@ -215,25 +175,12 @@ export function useUnreadMessages(): UnreadMessageCounts {
     return () => {
       isSubscribed = false;
       document.removeEventListener("visibilitychange", handleVisibilityChange);
-      clearTimeout(connectionTimeout);
-
-      // Clean up polling interval
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-      }
-
-      // Clean up subscription properly
-      if (subscription) {
-        subscription
-          .then((cleanup) => {
-            if (cleanup) cleanup();
-          })
-          .catch((err) => {
-            console.error("Error cleaning up subscription:", err);
-          });
+      if (refreshTimeout) clearTimeout(refreshTimeout);
+      if (channel) {
+        supabase.removeChannel(channel);
       }
     };
-  }, [supabase, fetchUnreadCounts, isMobile]);
+  }, [supabase, fetchUnreadCounts]);
 
   // Implement a more robust refreshCounts function that handles mobile browser quirks
   const refreshCountsWithRetry = useCallback(async () => {
@@ -0,0 +1,122 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Private bucket, see chat_attachments_schema.sql
+export const CHAT_ATTACHMENTS_BUCKET = "chat-attachments";
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/heic",
+  "application/pdf",
+];
+
+// Signed URLs are short lived, messages are re-signed every time they're fetched
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  url: string | null;
+}
+
+// Metadata sent by the client for a file it uploaded to the chat room folder
+export interface ChatAttachmentUpload {
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface ChatAttachmentRow {
+  id: string;
+  message_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+}
+
+export const isImageAttachment = (attachment: Pick<ChatAttachment, "mimeType">) =>
+  attachment.mimeType.startsWith("image/");
+
+/**
+ * Check the files a client wants to attach to a message
+ * @param chatRoomId - Chat room the message is posted in
+ * @param uploads - Uploaded files, as sent by the client
+ * @returns An error message, or null when the attachments are valid
+ */
+export const validateAttachmentUploads = (
+  chatRoomId: string,
+  uploads: ChatAttachmentUpload[]
+): string | null => {
+  if (uploads.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return `You can attach at most ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`;
+  }
+
+  for (const upload of uploads) {
+    // Files must have been uploaded to the folder of this chat room
+    if (
+      typeof upload.path !== "string" ||
+      !upload.path.startsWith(`${chatRoomId}/`) ||
+      upload.path.includes("..")
+    ) {
+      return "Invalid attachment";
+    }
+
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(upload.mimeType)) {
+      return "This file type can't be attached";
+    }
+
+    if (!(upload.size > 0) || upload.size > MAX_ATTACHMENT_SIZE) {
+      return "Attachments must be at most 10 MB";
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Create signed URLs for attachment rows, to be resolved by chat participants only
+ * @param supabase - Admin Supabase client
+ * @param rows - Attachment rows, all from the same chat room
+ * @returns Attachments grouped by message ID
+ */
+export const signAttachments = async (
+  supabase: SupabaseClient,
+  rows: ChatAttachmentRow[]
+): Promise<Record<string, ChatAttachment[]>> => {
+  if (rows.length === 0) return {};
+
+  const { data: signed, error } = await supabase.storage
+    .from(CHAT_ATTACHMENTS_BUCKET)
+    .createSignedUrls(
+      rows.map((row) => row.storage_path),
+      SIGNED_URL_TTL_SECONDS
+    );
+
+  if (error) {
+    console.error("Error signing chat attachments:", error);
+  }
+
+  const urlByPath = new Map(
+    (signed || []).map((entry) => [entry.path, entry.signedUrl])
+  );
+
+  return rows.reduce<Record<string, ChatAttachment[]>>((grouped, row) => {
+    (grouped[row.message_id] ||= []).push({
+      id: row.id,
+      name: row.file_name,
+      mimeType: row.mime_type,
+      size: row.size_bytes,
+      url: urlByPath.get(row.storage_path) || null,
+    });
+    return grouped;
+  }, {});
+};
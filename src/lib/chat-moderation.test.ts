@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeModerationRules,
+  moderateChatMessage,
+} from "@/lib/chat-moderation";
+
+describe("moderateChatMessage", () => {
+  it("allows ordinary messages", () => {
+    const result = moderateChatMessage("I lost it near the station on Monday");
+
+    expect(result).toEqual({
+      action: "allow",
+      rules: [],
+      content: "I lost it near the station on Monday",
+      redactedContent: "I lost it near the station on Monday",
+    });
+  });
+
+  it("blocks card numbers and hides them from the log", () => {
+    for (const card of [
+      "4111 1111 1111 1111", // Visa
+      "5555-5555-5555-4444", // Mastercard
+      "378282246310005", // American Express
+    ]) {
+      const result = moderateChatMessage(`My card is ${card} ok?`);
+
+      expect(result.action).toBe("block");
+      expect(result.rules).toContain("card_number");
+      expect(result.redactedContent).toBe(
+        "My card is [card number hidden] ok?"
+      );
+    }
+  });
+
+  it("leaves IMEIs, tracking and serial numbers alone", () => {
+    for (const message of [
+      "The IMEI is 356938035643809",
+      "The IMEI on the box is 490154203237518",
+      "FedEx tracking 123456789012",
+      "Serial number 3581 2345 6789",
+    ]) {
+      expect(moderateChatMessage(message)).toMatchObject({
+        action: "allow",
+        content: message,
+      });
+    }
+  });
+
+  it("masks phone numbers in the usual formats", () => {
+    for (const phone of [
+      "+49 170 1234567",
+      "0044 7911 123456",
+      "0170 1234567",
+      "07911 123456",
+      "(555) 123-4567",
+      "555.123.4567",
+    ]) {
+      expect(moderateChatMessage(`Call me on ${phone}`).content).toBe(
+        "Call me on [phone number hidden]"
+      );
+    }
+  });
+
+  it("doesn't block numbers that fail the Luhn check", () => {
+    const result = moderateChatMessage("Order 4111 1111 1111 1112");
+
+    expect(result.rules).not.toContain("card_number");
+  });
+
+  it("masks IBANs and phone numbers", () => {
+    const result = moderateChatMessage(
+      "Pay to DE89 3704 0044 0532 0130 00 or call +49 170 1234567"
+    );
+
+    expect(result.action).toBe("mask");
+    expect(result.rules).toEqual(["iban", "phone_number"]);
+    expect(result.content).toBe(
+      "Pay to [bank details hidden] or call [phone number hidden]"
+    );
+  });
+
+  it("masks lowercase IBANs", () => {
+    const result = moderateChatMessage("iban de89370400440532013000");
+
+    expect(result.rules).toEqual(["iban"]);
+    expect(result.content).toBe("iban [bank details hidden]");
+  });
+
+  it("doesn't mask dates and times", () => {
+    const result = moderateChatMessage("Found it on 2024-05-17 10:30");
+
+    expect(result.action).toBe("allow");
+  });
+
+  it("warns about payment links and scam wording without changing the message", () => {
+    const message = "Send the delivery fee first to paypal.me/finder";
+    const result = moderateChatMessage(message);
+
+    expect(result.action).toBe("warn");
+    expect(result.rules).toEqual(["payment_link", "scam_phrase"]);
+    expect(result.content).toBe(message);
+  });
+
+  it("blocks content flagged as harmful", () => {
+    const result = moderateChatMessage("hello", { harmful: true });
+
+    expect(result.action).toBe("block");
+    expect(result.rules).toEqual(["harmful_content"]);
+  });
+});
+
+describe("describeModerationRules", () => {
+  it("lists the matched rules in a sentence", () => {
+    expect(describeModerationRules([])).toBe("");
+    expect(describeModerationRules(["phone_number"])).toBe(
+      "This message contains a phone number."
+    );
+    expect(
+      describeModerationRules(["iban", "phone_number", "payment_link"])
+    ).toBe(
+      "This message contains bank account details, a phone number and a link to pay outside IFound4U."
+    );
+  });
+});
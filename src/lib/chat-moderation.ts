@@ -0,0 +1,284 @@
+// Local screening rules for chat messages. Safe to import from client components:
+// the rules run on the server, the labels are used to explain warnings in the chat.
+
+export type ModerationAction = "allow" | "warn" | "mask" | "block";
+
+export type ModerationRule =
+  | "card_number"
+  | "iban"
+  | "phone_number"
+  | "payment_link"
+  | "scam_phrase"
+  | "harmful_content";
+
+// What happens to a message that matches a rule. The strictest matching rule wins,
+// and masking rules are applied whatever the final action is.
+export const MODERATION_POLICY: Record<ModerationRule, ModerationAction> = {
+  card_number: "block",
+  harmful_content: "block",
+  iban: "mask",
+  phone_number: "mask",
+  payment_link: "warn",
+  scam_phrase: "warn",
+};
+
+// Shown to the recipient (warnings) and to the sender (blocks and masks)
+export const MODERATION_RULE_LABELS: Record<ModerationRule, string> = {
+  card_number: "a payment card number",
+  iban: "bank account details",
+  phone_number: "a phone number",
+  payment_link: "a link to pay outside IFound4U",
+  scam_phrase: "wording often used in scams",
+  harmful_content: "content that breaks our community rules",
+};
+
+const ACTION_SEVERITY: Record<ModerationAction, number> = {
+  allow: 0,
+  warn: 1,
+  mask: 2,
+  block: 3,
+};
+
+const MASK_TEXT: Partial<Record<ModerationRule, string>> = {
+  card_number: "[card number hidden]",
+  iban: "[bank details hidden]",
+  phone_number: "[phone number hidden]",
+};
+
+// Digits with the usual separators, checked further by the rule that uses them
+const CARD_CANDIDATE_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+// Issuer prefixes and lengths of the major card networks, so other Luhn-valid
+// numbers such as the 15-digit IMEI of a lost phone aren't taken for cards
+const CARD_NUMBER_PATTERNS = [
+  /^4(?:\d{12}|\d{15}|\d{18})$/, // Visa
+  /^(?:5[1-5]\d{2}|222[1-9]|22[3-9]\d|2[3-6]\d{2}|27[01]\d|2720)\d{12}$/, // Mastercard
+  /^3[47]\d{13}$/, // American Express
+  /^(?:6011|64[4-9]\d|65\d{2})\d{12,15}$/, // Discover
+  /^35(?:2[89]|[3-8]\d)\d{12,15}$/, // JCB
+  /^3(?:0[0-5]|[689]\d)\d{11}$/, // Diners Club
+  /^62\d{14,17}$/, // UnionPay
+];
+// Case-insensitive, IBANs typed on a phone are often lowercase
+const IBAN_CANDIDATE_PATTERN = /\b[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]){11,30}\b/gi;
+const PHONE_CANDIDATE_PATTERN = /(?<!\w)(?:\+|00)?\(?\d[\d\s().-]{7,}\d(?!\w)/g;
+// How phone numbers are written: with a country code, a trunk prefix, an area code
+// in brackets, or grouped 3-3-4 as in North America. Other long numbers such as
+// tracking and serial numbers don't look like this.
+const PHONE_SHAPE_PATTERNS = [
+  /^(?:\+|00)/,
+  /^\(?0/,
+  /\(\d+\)/,
+  /^\d{3}[ .-]\d{3}[ .-]\d{4}$/,
+];
+
+const LINK_PATTERN = /\b(?:https?:\/\/)?(?:www\.)?[\w.-]+\.[a-z]{2,}(?:\/\S*)?/gi;
+const PAYMENT_LINK_DOMAINS = [
+  "paypal.me",
+  "paypal.com",
+  "venmo.com",
+  "cash.app",
+  "revolut.me",
+  "wise.com",
+  "westernunion.com",
+  "moneygram.com",
+  "zellepay.com",
+  "skrill.com",
+  "buy.stripe.com",
+  "pay.google.com",
+];
+
+const SCAM_PHRASES = [
+  /gift ?cards?/i,
+  /(?:itunes|apple|google play|steam|amazon) (?:gift )?cards?/i,
+  /western union/i,
+  /moneygram/i,
+  /\b(?:bitcoin|btc|usdt|crypto)\b/i,
+  /(?:customs|courier|delivery|release|verification|insurance) fee/i,
+  /(?:pay|send|transfer)(?: the)?(?: money| payment)? (?:first|upfront|in advance)/i,
+  /(?:pay|talk|chat|contact)(?: me)? (?:outside|off)(?: of)?(?: the)? (?:platform|site|app|ifound4u)/i,
+  /(?:whatsapp|telegram|signal) me/i,
+  /(?:add|text|message) me on (?:whatsapp|telegram|signal)/i,
+];
+
+export interface ModerationMatch {
+  rule: ModerationRule;
+  action: ModerationAction;
+}
+
+export interface ChatModerationResult {
+  action: ModerationAction;
+  // Rules that matched, in policy order
+  rules: ModerationRule[];
+  // The message as it should be stored: unchanged unless a masking rule matched
+  content: string;
+  // The message with every rule masked, safe to keep in the moderation log
+  redactedContent: string;
+}
+
+const luhnCheck = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const ibanCheck = (value: string) => {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  // Move the country code and check digits to the end, letters become 10-35, then mod 97
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+// Find the spans of a message that match a rule
+const findSpans = (content: string, rule: ModerationRule): string[] => {
+  switch (rule) {
+    case "card_number":
+      return (content.match(CARD_CANDIDATE_PATTERN) || []).filter((match) => {
+        const digits = match.replace(/\D/g, "");
+        return (
+          CARD_NUMBER_PATTERNS.some((pattern) => pattern.test(digits)) &&
+          luhnCheck(digits)
+        );
+      });
+    case "iban":
+      return (content.match(IBAN_CANDIDATE_PATTERN) || []).flatMap((match) => {
+        // A candidate can run on into the next word, e.g. "... 00 or call"
+        const parts = match.split(" ");
+        for (let count = parts.length; count > 0; count--) {
+          const iban = parts.slice(0, count).join(" ");
+          if (ibanCheck(iban)) return [iban];
+        }
+        return [];
+      });
+    case "phone_number":
+      return (content.match(PHONE_CANDIDATE_PATTERN) || []).filter((match) => {
+        const value = match.trim();
+        const digits = value.replace(/\D/g, "");
+        return (
+          digits.length >= 9 &&
+          digits.length <= 15 &&
+          PHONE_SHAPE_PATTERNS.some((pattern) => pattern.test(value)) &&
+          // Dates followed by a time look like long numbers too
+          !/^\d{4}-\d{2}-\d{2}/.test(value) &&
+          // The IMEI of a lost phone is how owners prove it's theirs
+          !(digits.length === 15 && !value.startsWith("+") && luhnCheck(digits))
+        );
+      });
+    case "payment_link":
+      return (content.match(LINK_PATTERN) || []).filter(
+        (link) => {
+          const host = link
+            .replace(/^https?:\/\//i, "")
+            .replace(/^www\./i, "")
+            .split("/")[0]
+            .toLowerCase();
+          return PAYMENT_LINK_DOMAINS.some(
+            (domain) => host === domain || host.endsWith(`.${domain}`)
+          );
+        }
+      );
+    case "scam_phrase":
+      return SCAM_PHRASES.flatMap((pattern) => {
+        const match = content.match(pattern);
+        return match ? [match[0]] : [];
+      });
+    default:
+      return [];
+  }
+};
+
+/**
+ * Screen a chat message with the local rules, plus the result of the OpenAI moderation call
+ * @param content - Message text as sent
+ * @param options.harmful - True when OpenAI moderation flagged the message
+ */
+export const moderateChatMessage = (
+  content: string,
+  options: { harmful?: boolean } = {}
+): ChatModerationResult => {
+  const matches: ModerationMatch[] = [];
+  let maskedContent = content;
+  let redactedContent = content;
+
+  // Card numbers before phone numbers, both are runs of digits
+  const localRules: ModerationRule[] = [
+    "card_number",
+    "iban",
+    "phone_number",
+    "payment_link",
+    "scam_phrase",
+  ];
+
+  for (const rule of localRules) {
+    // Later rules look at the masked text, so a card number isn't also a phone number
+    const spans = findSpans(redactedContent, rule);
+    if (spans.length === 0) continue;
+
+    const action = MODERATION_POLICY[rule];
+    matches.push({ rule, action });
+
+    const maskText = MASK_TEXT[rule];
+    if (maskText) {
+      spans.forEach((span) => {
+        redactedContent = redactedContent.split(span).join(maskText);
+        if (action === "mask") {
+          maskedContent = maskedContent.split(span).join(maskText);
+        }
+      });
+    }
+  }
+
+  if (options.harmful) {
+    matches.push({
+      rule: "harmful_content",
+      action: MODERATION_POLICY.harmful_content,
+    });
+  }
+
+  const action = matches.reduce<ModerationAction>(
+    (strictest, match) =>
+      ACTION_SEVERITY[match.action] > ACTION_SEVERITY[strictest]
+        ? match.action
+        : strictest,
+    "allow"
+  );
+
+  return {
+    action,
+    rules: matches.map((match) => match.rule),
+    content: maskedContent,
+    redactedContent,
+  };
+};
+
+/**
+ * Sentence explaining why a message was flagged, e.g. "This message contains a phone number."
+ * @param rules - Rules that matched
+ */
+export const describeModerationRules = (rules: ModerationRule[]): string => {
+  const labels = rules
+    .map((rule) => MODERATION_RULE_LABELS[rule])
+    .filter(Boolean);
+  if (labels.length === 0) return "";
+
+  const list =
+    labels.length === 1
+      ? labels[0]
+      : `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+  return `This message contains ${list}.`;
+};
@@ -0,0 +1,75 @@
+import type { ChatAttachmentUpload } from "@/lib/chat-attachments";
+
+// Messages that haven't reached the server yet survive reloads in localStorage
+const OUTBOX_STORAGE_KEY = "ifound4u:chat-outbox";
+
+// Automatic retries back off up to this delay
+const MAX_RETRY_DELAY_MS = 30000;
+
+export type ChatMessageStatus = "pending" | "failed" | "sent";
+
+export interface OutboxEntry {
+  id: string;
+  roomName: string;
+  content: string;
+  senderName: string;
+  attachments: ChatAttachmentUpload[];
+  createdAt: string;
+  attempts: number;
+}
+
+const readOutbox = (): OutboxEntry[] => {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = window.localStorage.getItem(OUTBOX_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    // Storage full or disabled, the message is still retried while the page is open
+    console.error("Error saving chat outbox:", error);
+  }
+};
+
+/**
+ * Messages of a room waiting to be sent, oldest first
+ * @param roomName - Chat room
+ */
+export const getOutbox = (roomName: string): OutboxEntry[] =>
+  readOutbox()
+    .filter((entry) => entry.roomName === roomName)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * Add or update a message in the outbox
+ */
+export const saveOutboxEntry = (entry: OutboxEntry) => {
+  writeOutbox([
+    ...readOutbox().filter((existing) => existing.id !== entry.id),
+    entry,
+  ]);
+};
+
+/**
+ * Remove a message from the outbox once the server has it (or refused it)
+ * @param id - Client generated message ID
+ */
+export const removeOutboxEntry = (id: string) => {
+  writeOutbox(readOutbox().filter((entry) => entry.id !== id));
+};
+
+/**
+ * Exponential backoff for automatic retries
+ * @param attempts - Number of failed attempts so far
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** Math.max(0, attempts - 1));
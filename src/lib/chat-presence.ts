@@ -0,0 +1,78 @@
+// How long "typing…" stays on after the last keystroke
+export const TYPING_TIMEOUT_MS = 3000;
+
+// Payload every participant tracks with Supabase Presence on `room:${roomName}`
+export interface ChatPresencePayload {
+  user_id: string;
+  name: string;
+  typing: boolean;
+  online_at: string;
+}
+
+// What one side of a chat knows about the other participant
+export interface ParticipantPresence {
+  isOnline: boolean;
+  isTyping: boolean;
+  name: string | null;
+  lastSeenAt: string | null;
+}
+
+export const OFFLINE_PRESENCE: ParticipantPresence = {
+  isOnline: false,
+  isTyping: false,
+  name: null,
+  lastSeenAt: null,
+};
+
+/**
+ * Work out the presence of the other participant from a channel's presence state
+ * @param state - Result of `channel.presenceState()`
+ * @param currentUserId - ID of the signed-in user, whose own entries are skipped
+ * @param previous - Last known presence, to remember when they were last seen
+ */
+export const getParticipantPresence = (
+  state: Record<string, ChatPresencePayload[]>,
+  currentUserId: string | null,
+  previous: ParticipantPresence
+): ParticipantPresence => {
+  // The same person can be connected from several tabs or devices
+  const others = Object.values(state)
+    .flat()
+    .filter((entry) => entry.user_id && entry.user_id !== currentUserId);
+
+  if (others.length === 0) {
+    return {
+      isOnline: false,
+      isTyping: false,
+      name: previous.name,
+      lastSeenAt: previous.isOnline
+        ? new Date().toISOString()
+        : previous.lastSeenAt,
+    };
+  }
+
+  return {
+    isOnline: true,
+    isTyping: others.some((entry) => entry.typing),
+    name: others[0].name,
+    lastSeenAt: null,
+  };
+};
+
+/**
+ * Format when a participant was last seen, e.g. "5 min ago"
+ * @param lastSeenAt - ISO timestamp
+ */
+export const formatLastSeen = (lastSeenAt: string): string => {
+  const minutes = Math.floor(
+    (Date.now() - new Date(lastSeenAt).getTime()) / 60000
+  );
+
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+
+  return new Date(lastSeenAt).toLocaleDateString();
+};
@@ -0,0 +1,52 @@
+// How far one participant has read in a chat room (a chat_read_state row)
+export interface ChatReadState {
+  userId: string;
+  lastReadMessageId: string | null;
+  lastReadAt: string;
+}
+
+// Columns of chat_read_state the API reads
+export interface ChatReadStateRow {
+  user_id: string;
+  last_read_message_id: string | null;
+  last_read_at: string;
+}
+
+export const toChatReadState = (row: ChatReadStateRow): ChatReadState => ({
+  userId: row.user_id,
+  lastReadMessageId: row.last_read_message_id,
+  lastReadAt: row.last_read_at,
+});
+
+/**
+ * Find the newest of our own messages that another participant has read, to show "seen" under it
+ * @param messages - Messages of the room, oldest first
+ * @param readStates - Read state of the participants of the room
+ * @param currentUserId - ID of the signed-in user
+ * @returns ID of the message, or null when nothing we sent has been read yet
+ */
+export const getLastSeenMessageId = (
+  messages: { id: string; senderId: string; timestamp: string }[],
+  readStates: ChatReadState[],
+  currentUserId: string | null
+): string | null => {
+  if (!currentUserId) return null;
+
+  const othersReadAt = readStates
+    .filter((state) => state.userId !== currentUserId)
+    .map((state) => new Date(state.lastReadAt).getTime());
+  if (othersReadAt.length === 0) return null;
+
+  const seenAt = Math.max(...othersReadAt);
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (
+      message.senderId === currentUserId &&
+      new Date(message.timestamp).getTime() <= seenAt
+    ) {
+      return message.id;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,298 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ClaimActorRole, ClaimStatus } from "@/lib/claim-state-machine";
+import type { ClaimParticipantRole } from "@/lib/route-guards";
+import type { EscrowReleaseTrigger } from "@/lib/payment-escrow";
+import { formatAmountForDisplay } from "@/lib/stripe";
+
+// Shown as the sender of system messages, which have no sender_id
+export const SYSTEM_SENDER_NAME = "IFound4U";
+export const SYSTEM_SENDER_EMAIL = "system@ifound4u.com";
+
+export type ChatMessageKind = "user" | "system";
+
+export interface ShipmentTracking {
+  trackingNumber: string;
+  carrier: string | null;
+}
+
+// Events written into the claim chat by the server. The payload is stored as
+// event_payload and is everything the chat needs to render the entry.
+export type ChatSystemEvent =
+  | {
+      type: "claim_status_changed";
+      payload: {
+        from: ClaimStatus | null;
+        to: ClaimStatus;
+        actorRole: ClaimActorRole;
+        reason?: string | null;
+      };
+    }
+  | {
+      type: "payment_succeeded";
+      // escrow: the platform holds the money until delivery
+      payload: { amount: number; currency: string; escrow?: boolean };
+    }
+  | {
+      type: "payment_failed";
+      payload: { amount: number; currency: string; errorMessage?: string | null };
+    }
+  | {
+      type: "shipping_configured";
+      payload: {
+        defaultShippingFee: number;
+        minShippingFee: number;
+        maxShippingFee: number;
+        allowClaimerCustom: boolean;
+        notes?: string | null;
+      };
+    }
+  | {
+      type: "item_shipped";
+      payload: { tracking: ShipmentTracking | null; reason?: string | null };
+    }
+  | {
+      type: "payout_released";
+      payload: {
+        amount: number;
+        currency: string;
+        trigger: EscrowReleaseTrigger;
+      };
+    }
+  | {
+      type: "payout_on_hold";
+      payload: Record<string, never>;
+    }
+  | {
+      type: "payout_reversed";
+      payload: { amount: number; currency: string };
+    }
+  | {
+      type: "payment_refunded";
+      // amount: this refund, full: nothing is left to refund
+      payload: { amount: number; currency: string; full: boolean };
+    }
+  | {
+      type: "payment_canceled";
+      payload: { amount: number; currency: string };
+    }
+  | {
+      type: "payment_disputed";
+      payload: { amount: number; currency: string };
+    }
+  | {
+      type: "payment_dispute_closed";
+      payload: { won: boolean };
+    };
+
+export type ChatSystemEventType = ChatSystemEvent["type"];
+
+// Contextual actions offered on a system message
+export type ChatSystemAction =
+  | { type: "pay_shipping"; label: string }
+  | { type: "view_tracking"; label: string; url: string };
+
+export const MAX_TRACKING_NUMBER_LENGTH = 100;
+
+const CLAIM_STATUS_EVENT_TEXT: Record<ClaimStatus, string> = {
+  pending: "The claim was submitted",
+  accepted: "The item owner accepted the claim",
+  rejected: "The item owner rejected the claim",
+  paid: "Shipping was paid",
+  shipped: "The item was shipped",
+  delivered: "The claimer confirmed delivery",
+  resolved: "The claim was resolved",
+};
+
+const PAYOUT_TRIGGER_TEXT: Record<EscrowReleaseTrigger, string> = {
+  delivery: " after the delivery was confirmed",
+  timer: ", no problem was reported in time",
+  admin: " by IFound4U",
+};
+
+// Tracking pages of the carriers most finders use
+const CARRIER_TRACKING_URLS: Record<string, (trackingNumber: string) => string> =
+  {
+    dhl: (number) =>
+      `https://www.dhl.com/global-en/home/tracking.html?tracking-id=${number}`,
+    dpd: (number) => `https://tracking.dpd.de/status/en_US/parcel/${number}`,
+    fedex: (number) => `https://www.fedex.com/fedextrack/?trknbr=${number}`,
+    gls: (number) => `https://gls-group.com/track/${number}`,
+    ups: (number) => `https://www.ups.com/track?tracknum=${number}`,
+    usps: (number) =>
+      `https://tools.usps.com/go/TrackConfirmAction?tLabels=${number}`,
+  };
+
+/**
+ * Link to the carrier's tracking page, when the carrier is known
+ */
+export const getTrackingUrl = (tracking: ShipmentTracking): string | null => {
+  const buildUrl =
+    CARRIER_TRACKING_URLS[tracking.carrier?.trim().toLowerCase() || ""];
+  return buildUrl
+    ? buildUrl(encodeURIComponent(tracking.trackingNumber.trim()))
+    : null;
+};
+
+/**
+ * One-line description of an event, stored as the message text so digests,
+ * notifications and older clients still have something to show
+ */
+export const describeSystemEvent = (event: ChatSystemEvent): string => {
+  switch (event.type) {
+    case "claim_status_changed":
+      return event.payload.reason
+        ? `${CLAIM_STATUS_EVENT_TEXT[event.payload.to]}: ${event.payload.reason}`
+        : CLAIM_STATUS_EVENT_TEXT[event.payload.to];
+    case "payment_succeeded":
+      return `Shipping payment of ${formatAmountForDisplay(
+        event.payload.amount,
+        event.payload.currency.toUpperCase()
+      )} received${
+        event.payload.escrow
+          ? ", IFound4U holds it until the delivery is confirmed"
+          : ""
+      }`;
+    case "payment_failed":
+      return `Shipping payment of ${formatAmountForDisplay(
+        event.payload.amount,
+        event.payload.currency.toUpperCase()
+      )} failed`;
+    case "shipping_configured":
+      return event.payload.allowClaimerCustom
+        ? `The item owner set the shipping fee to ${formatAmountForDisplay(
+            event.payload.defaultShippingFee
+          )} (${formatAmountForDisplay(
+            event.payload.minShippingFee
+          )} – ${formatAmountForDisplay(event.payload.maxShippingFee)})`
+        : `The item owner set the shipping fee to ${formatAmountForDisplay(
+            event.payload.defaultShippingFee
+          )}`;
+    case "item_shipped":
+      return event.payload.tracking
+        ? `The item was shipped${
+            event.payload.tracking.carrier
+              ? ` with ${event.payload.tracking.carrier}`
+              : ""
+          }, tracking number ${event.payload.tracking.trackingNumber}`
+        : "The item was shipped";
+    case "payout_released":
+      return `${formatAmountForDisplay(
+        event.payload.amount,
+        event.payload.currency.toUpperCase()
+      )} was paid out to the item owner${
+        PAYOUT_TRIGGER_TEXT[event.payload.trigger]
+      }`;
+    case "payout_on_hold":
+      return "The payout to the item owner is on hold while IFound4U reviews the claim";
+    case "payout_reversed":
+      return `The payout of ${formatAmountForDisplay(
+        event.payload.amount,
+        event.payload.currency.toUpperCase()
+      )} to the item owner was reversed`;
+    case "payment_refunded":
+      return `${formatAmountForDisplay(
+        event.payload.amount,
+        event.payload.currency.toUpperCase()
+      )} of the shipping payment was refunded${
+        event.payload.full ? ", the payment is fully refunded" : ""
+      }`;
+    case "payment_canceled":
+      return `The shipping payment of ${formatAmountForDisplay(
+        event.payload.amount,
+        event.payload.currency.toUpperCase()
+      )} was canceled`;
+    case "payment_disputed":
+      return `The claimer's bank opened a dispute over the shipping payment of ${formatAmountForDisplay(
+        event.payload.amount,
+        event.payload.currency.toUpperCase()
+      )}`;
+    case "payment_dispute_closed":
+      return event.payload.won
+        ? "The payment dispute was closed in the item owner's favor"
+        : "The payment dispute was closed in the claimer's favor";
+  }
+};
+
+/**
+ * Actions the viewer can take from a system message, given where the claim is now
+ * @param event - The event of the message
+ * @param context.role - Role of the viewer on the claim
+ * @param context.claimStatus - Current status of the claim
+ */
+export const getSystemEventActions = (
+  event: ChatSystemEvent,
+  context: { role: ClaimParticipantRole; claimStatus: string }
+): ChatSystemAction[] => {
+  const { role, claimStatus } = context;
+
+  // Paying only makes sense for the claimer while the claim is still unpaid
+  const canPay = role === "claimer" && claimStatus === "accepted";
+
+  switch (event.type) {
+    case "claim_status_changed":
+      return event.payload.to === "accepted" && canPay
+        ? [{ type: "pay_shipping", label: "Pay shipping" }]
+        : [];
+    case "payment_failed":
+    case "payment_canceled":
+      return canPay ? [{ type: "pay_shipping", label: "Try again" }] : [];
+    case "payment_refunded":
+      return event.payload.full && canPay
+        ? [{ type: "pay_shipping", label: "Pay shipping" }]
+        : [];
+    case "shipping_configured":
+      return canPay ? [{ type: "pay_shipping", label: "Pay shipping" }] : [];
+    case "item_shipped": {
+      const url = event.payload.tracking
+        ? getTrackingUrl(event.payload.tracking)
+        : null;
+      return url ? [{ type: "view_tracking", label: "View tracking", url }] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Write a system message into a claim chat. Failures are only logged, the
+ * event itself already happened and must not fail because of the chat.
+ * @param supabase - Admin Supabase client
+ * @param target - Chat room of the claim, or the claim to look it up from
+ * @param event - What happened
+ */
+export const postSystemMessage = async (
+  supabase: SupabaseClient,
+  target: { chatRoomId?: string | null; claimId?: string | null },
+  event: ChatSystemEvent
+) => {
+  let chatRoomId = target.chatRoomId || null;
+
+  if (!chatRoomId && target.claimId) {
+    const { data: claim } = await supabase
+      .from("item_claims")
+      .select("chat_room_id")
+      .eq("id", target.claimId)
+      .maybeSingle();
+    chatRoomId = claim?.chat_room_id || null;
+  }
+
+  // Claims without a chat have nowhere to show the event
+  if (!chatRoomId) {
+    return;
+  }
+
+  const { error } = await supabase.from("chat_messages").insert({
+    chat_room_id: chatRoomId,
+    sender_id: null,
+    sender_name: SYSTEM_SENDER_NAME,
+    sender_email: SYSTEM_SENDER_EMAIL,
+    message: describeSystemEvent(event),
+    message_kind: "system",
+    event_type: event.type,
+    event_payload: event.payload,
+  });
+
+  if (error) {
+    console.error(`Error posting ${event.type} system message:`, error);
+  }
+};
@@ -0,0 +1,575 @@
+// Only import from route handlers: signing needs the server secret.
+
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  CLAIM_STATUS_LABELS,
+  ClaimActorRole,
+  ClaimStatus,
+} from "@/lib/claim-state-machine";
+import { formatAmountForDisplay } from "@/lib/stripe";
+import { PdfBlock, renderPdf } from "@/lib/pdf-document";
+
+// Bump when the transcript shape changes, so old exports can still be read
+export const TRANSCRIPT_VERSION = 1;
+const SIGNATURE_ALGORITHM = "HMAC-SHA256";
+// Messages are read in pages, the API returns at most 1000 rows at once
+const MESSAGES_PAGE_SIZE = 1000;
+const PAYMENT_CURRENCY = "EUR";
+
+export type TranscriptFormat = "json" | "pdf";
+export type TranscriptRequesterRole = "owner" | "claimer" | "admin";
+
+export interface ClaimTranscript {
+  version: number;
+  generatedAt: string;
+  item: {
+    id: string;
+    type: string;
+    category: string;
+    title: string;
+    description: string;
+    date: string;
+    locationAddress: string;
+    status: string;
+    createdAt: string;
+  };
+  claim: {
+    id: string;
+    status: ClaimStatus;
+    claimerName: string;
+    claimerEmail: string;
+    description: string;
+    chatRoomId: string;
+    createdAt: string;
+  };
+  messages: Array<{
+    id: string;
+    sentAt: string;
+    senderRole: ClaimActorRole;
+    senderName: string;
+    kind: "user" | "system";
+    eventType: string | null;
+    content: string;
+    moderationAction: string;
+    attachmentIds: string[];
+  }>;
+  attachments: Array<{
+    id: string;
+    messageId: string;
+    fileName: string;
+    mimeType: string;
+    sizeBytes: number;
+    uploadedAt: string;
+  }>;
+  statusHistory: Array<{
+    from: ClaimStatus | null;
+    to: ClaimStatus;
+    actorRole: ClaimActorRole;
+    reason: string | null;
+    changedAt: string;
+  }>;
+  meetups: Array<{
+    id: string;
+    status: string;
+    proposerRole: string;
+    startsAt: string;
+    endsAt: string;
+    locationAddress: string;
+    note: string | null;
+    respondedAt: string | null;
+  }>;
+  payments: Array<{
+    id: string;
+    status: string;
+    currency: string;
+    amount: number;
+    shippingFee: number;
+    tipAmount: number;
+    platformFee: number;
+    stripePaymentIntentId: string | null;
+    createdAt: string;
+    updatedAt: string;
+    tracking: {
+      trackingNumber: string | null;
+      carrier: string | null;
+      status: string;
+    } | null;
+  }>;
+}
+
+export interface TranscriptIntegrity {
+  exportId: string;
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  // SHA-256 of the transcript JSON without this block
+  sha256: string;
+  signature: string;
+  signedAt: string;
+}
+
+export type SignedClaimTranscript = ClaimTranscript & {
+  integrity: TranscriptIntegrity;
+};
+
+// A dedicated key, kept apart from the database credentials
+const getSecret = () => {
+  const secret = process.env.TRANSCRIPT_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("TRANSCRIPT_SIGNING_SECRET is not configured");
+  }
+  return secret;
+};
+
+const sign = (exportId: string, sha256: string) =>
+  crypto
+    .createHmac("sha256", getSecret())
+    .update(`${exportId}.${sha256}`)
+    .digest("base64url");
+
+const hashTranscript = (transcript: ClaimTranscript) =>
+  crypto.createHash("sha256").update(JSON.stringify(transcript)).digest("hex");
+
+interface TranscriptMessageRow {
+  id: string;
+  sender_id: string | null;
+  sender_email: string | null;
+  sender_name: string;
+  message: string;
+  message_kind: "user" | "system";
+  event_type: string | null;
+  moderation_action: string | null;
+  created_at: string;
+}
+
+/**
+ * Collect everything about a claim conversation into one record
+ * @param supabase - Admin Supabase client
+ * @param claimId - ID of the claim
+ */
+export const buildClaimTranscript = async (
+  supabase: SupabaseClient,
+  claimId: string
+): Promise<ClaimTranscript> => {
+  const { data: claim, error: claimError } = await supabase
+    .from("item_claims")
+    .select(
+      "id, user_id, status, claimer_name, claimer_email, claim_description, chat_room_id, created_at, items (id, user_id, type, category, title, description, date, location_address, status, created_at)"
+    )
+    .eq("id", claimId)
+    .single();
+
+  if (claimError || !claim) {
+    throw new Error(
+      `Error fetching claim: ${claimError?.message || "not found"}`
+    );
+  }
+
+  const item = claim.items as unknown as {
+    id: string;
+    user_id: string | null;
+    type: string;
+    category: string;
+    title: string;
+    description: string;
+    date: string;
+    location_address: string;
+    status: string;
+    created_at: string;
+  };
+
+  const messages: TranscriptMessageRow[] = [];
+  for (let from = 0; ; from += MESSAGES_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("chat_messages")
+      .select(
+        "id, sender_id, sender_email, sender_name, message, message_kind, event_type, moderation_action, created_at"
+      )
+      .eq("chat_room_id", claim.chat_room_id)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + MESSAGES_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Error fetching messages: ${error.message}`);
+    }
+
+    messages.push(...(data || []));
+    if (!data || data.length < MESSAGES_PAGE_SIZE) break;
+  }
+
+  const [attachmentsResult, historyResult, meetupsResult, paymentsResult] =
+    await Promise.all([
+      supabase
+        .from("chat_attachments")
+        .select("id, message_id, file_name, mime_type, size_bytes, created_at")
+        .eq("chat_room_id", claim.chat_room_id)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("claim_status_history")
+        .select("from_status, to_status, actor_role, reason, created_at")
+        .eq("claim_id", claimId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("claim_meetups")
+        .select(
+          "id, status, proposer_role, starts_at, ends_at, location_address, note, responded_at"
+        )
+        .eq("claim_id", claimId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("payments")
+        .select(
+          "id, status, amount, shipping_fee, tip_amount, platform_fee, stripe_payment_intent_id, created_at, updated_at, shipping_details (tracking_number, shipping_provider, status)"
+        )
+        .eq("claim_id", claimId)
+        .order("created_at", { ascending: true }),
+    ]);
+
+  for (const result of [
+    attachmentsResult,
+    historyResult,
+    meetupsResult,
+    paymentsResult,
+  ]) {
+    if (result.error) {
+      throw new Error(`Error building transcript: ${result.error.message}`);
+    }
+  }
+
+  const attachments = attachmentsResult.data || [];
+  const claimerEmail = claim.claimer_email?.toLowerCase();
+
+  // Guests have no user ID, their messages are matched by the email they claimed with
+  const getSenderRole = (message: TranscriptMessageRow): ClaimActorRole => {
+    if (message.message_kind === "system") return "system";
+    if (item.user_id && message.sender_id === item.user_id) return "owner";
+    if (
+      (claim.user_id && message.sender_id === claim.user_id) ||
+      message.sender_email?.toLowerCase() === claimerEmail
+    ) {
+      return "claimer";
+    }
+    return "owner";
+  };
+
+  return {
+    version: TRANSCRIPT_VERSION,
+    generatedAt: new Date().toISOString(),
+    item: {
+      id: item.id,
+      type: item.type,
+      category: item.category,
+      title: item.title,
+      description: item.description,
+      date: item.date,
+      locationAddress: item.location_address,
+      status: item.status,
+      createdAt: item.created_at,
+    },
+    claim: {
+      id: claim.id,
+      status: claim.status,
+      claimerName: claim.claimer_name,
+      claimerEmail: claim.claimer_email,
+      description: claim.claim_description,
+      chatRoomId: claim.chat_room_id,
+      createdAt: claim.created_at,
+    },
+    messages: messages.map((message) => ({
+      id: message.id,
+      sentAt: message.created_at,
+      senderRole: getSenderRole(message),
+      senderName: message.sender_name,
+      kind: message.message_kind || "user",
+      eventType: message.event_type || null,
+      content: message.message,
+      moderationAction: message.moderation_action || "allow",
+      attachmentIds: attachments
+        .filter((attachment) => attachment.message_id === message.id)
+        .map((attachment) => attachment.id),
+    })),
+    attachments: attachments.map((attachment) => ({
+      id: attachment.id,
+      messageId: attachment.message_id,
+      fileName: attachment.file_name,
+      mimeType: attachment.mime_type,
+      sizeBytes: attachment.size_bytes,
+      uploadedAt: attachment.created_at,
+    })),
+    statusHistory: (historyResult.data || []).map((entry) => ({
+      from: entry.from_status,
+      to: entry.to_status,
+      actorRole: entry.actor_role,
+      reason: entry.reason,
+      changedAt: entry.created_at,
+    })),
+    meetups: (meetupsResult.data || []).map((meetup) => ({
+      id: meetup.id,
+      status: meetup.status,
+      proposerRole: meetup.proposer_role,
+      startsAt: meetup.starts_at,
+      endsAt: meetup.ends_at,
+      locationAddress: meetup.location_address,
+      note: meetup.note,
+      respondedAt: meetup.responded_at,
+    })),
+    payments: (paymentsResult.data || []).map((payment) => {
+      const shipping = (
+        payment.shipping_details as unknown as Array<{
+          tracking_number: string | null;
+          shipping_provider: string | null;
+          status: string;
+        }> | null
+      )?.[0];
+
+      return {
+        id: payment.id,
+        status: payment.status,
+        currency: PAYMENT_CURRENCY,
+        amount: payment.amount,
+        shippingFee: payment.shipping_fee,
+        tipAmount: payment.tip_amount || 0,
+        platformFee: payment.platform_fee,
+        stripePaymentIntentId: payment.stripe_payment_intent_id,
+        createdAt: payment.created_at,
+        updatedAt: payment.updated_at,
+        tracking: shipping
+          ? {
+              trackingNumber: shipping.tracking_number,
+              carrier: shipping.shipping_provider,
+              status: shipping.status,
+            }
+          : null,
+      };
+    }),
+  };
+};
+
+/**
+ * Sign a transcript, so a copy handed in later can be checked for changes
+ * @param transcript - The transcript to sign
+ * @param exportId - ID of the export record
+ */
+export const signTranscript = (
+  transcript: ClaimTranscript,
+  exportId: string
+): SignedClaimTranscript => {
+  const sha256 = hashTranscript(transcript);
+
+  return {
+    ...transcript,
+    integrity: {
+      exportId,
+      algorithm: SIGNATURE_ALGORITHM,
+      sha256,
+      signature: sign(exportId, sha256),
+      signedAt: new Date().toISOString(),
+    },
+  };
+};
+
+/**
+ * Check the signature of a transcript, and when the full JSON is given, that
+ * its content still matches the signed hash
+ * @returns Why the check failed, or null when the transcript is authentic
+ */
+export const verifyTranscriptSignature = (input: {
+  exportId: string;
+  sha256: string;
+  signature: string;
+  transcript?: ClaimTranscript;
+}): string | null => {
+  if (input.transcript && hashTranscript(input.transcript) !== input.sha256) {
+    return "The transcript was changed after it was exported";
+  }
+
+  const expected = Buffer.from(sign(input.exportId, input.sha256));
+  const given = Buffer.from(input.signature);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  ) {
+    return "The signature doesn't match";
+  }
+
+  return null;
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toUTCString().replace("GMT", "UTC");
+
+const SENDER_ROLE_LABELS: Record<ClaimActorRole, string> = {
+  owner: "Item owner",
+  claimer: "Claimer",
+  system: "IFound4U",
+};
+
+/**
+ * Lay out a signed transcript as a PDF, with the signature on the last page
+ */
+export const renderTranscriptPdf = (transcript: SignedClaimTranscript) => {
+  const { item, claim, integrity } = transcript;
+  const attachmentNames = new Map(
+    transcript.attachments.map((attachment) => [
+      attachment.id,
+      attachment.fileName,
+    ])
+  );
+
+  const heading = (text: string): PdfBlock => ({
+    text,
+    size: 13,
+    bold: true,
+    spaceBefore: 14,
+  });
+  const field = (label: string, value: string): PdfBlock => ({
+    text: `${label}: ${value}`,
+  });
+
+  const blocks: PdfBlock[] = [
+    { text: "IFound4U claim transcript", size: 18, bold: true },
+    {
+      text: `Generated ${formatDateTime(transcript.generatedAt)}. All times are UTC.`,
+      gray: 0.4,
+      spaceBefore: 4,
+    },
+
+    heading("Item"),
+    field("Title", item.title),
+    field("Type", `${item.type} (${item.category})`),
+    field("Date", item.date),
+    field("Location", item.locationAddress),
+    field("Status", item.status),
+    field("Description", item.description),
+
+    heading("Claim"),
+    field("Claim ID", claim.id),
+    field("Claimer", `${claim.claimerName} <${claim.claimerEmail}>`),
+    field("Submitted", formatDateTime(claim.createdAt)),
+    field("Current status", CLAIM_STATUS_LABELS[claim.status] || claim.status),
+    field("Claim description", claim.description),
+
+    heading("Status history"),
+    ...(transcript.statusHistory.length === 0
+      ? [{ text: "No status changes.", gray: 0.4 }]
+      : transcript.statusHistory.map((entry) => ({
+          text: `${formatDateTime(entry.changedAt)} — ${
+            CLAIM_STATUS_LABELS[entry.to] || entry.to
+          } (${SENDER_ROLE_LABELS[entry.actorRole]})${
+            entry.reason ? `: ${entry.reason}` : ""
+          }`,
+        }))),
+
+    heading("Payments"),
+    ...(transcript.payments.length === 0
+      ? [{ text: "No payments.", gray: 0.4 }]
+      : transcript.payments.flatMap((payment) => [
+          {
+            text: `${formatDateTime(payment.createdAt)} — ${formatAmountForDisplay(
+              payment.amount,
+              payment.currency
+            )} (${payment.status})`,
+            bold: true,
+          },
+          {
+            text: `Shipping ${formatAmountForDisplay(
+              payment.shippingFee,
+              payment.currency
+            )}, tip ${formatAmountForDisplay(
+              payment.tipAmount,
+              payment.currency
+            )}, platform fee ${formatAmountForDisplay(
+              payment.platformFee,
+              payment.currency
+            )}${
+              payment.stripePaymentIntentId
+                ? `, Stripe ${payment.stripePaymentIntentId}`
+                : ""
+            }`,
+            indent: 12,
+          },
+          ...(payment.tracking?.trackingNumber
+            ? [
+                {
+                  text: `Tracking ${payment.tracking.trackingNumber}${
+                    payment.tracking.carrier
+                      ? ` (${payment.tracking.carrier})`
+                      : ""
+                  }, ${payment.tracking.status}`,
+                  indent: 12,
+                },
+              ]
+            : []),
+        ])),
+
+    ...(transcript.meetups.length > 0
+      ? [
+          heading("Meetups"),
+          ...transcript.meetups.map((meetup) => ({
+            text: `${formatDateTime(meetup.startsAt)} – ${formatDateTime(
+              meetup.endsAt
+            )} at ${
+              meetup.locationAddress
+            } — ${meetup.status}, proposed by the ${meetup.proposerRole}${
+              meetup.note ? `. Note: ${meetup.note}` : ""
+            }`,
+          })),
+        ]
+      : []),
+
+    heading(`Messages (${transcript.messages.length})`),
+    ...(transcript.messages.length === 0
+      ? [{ text: "No messages.", gray: 0.4 }]
+      : transcript.messages.flatMap((message) => [
+          {
+            text: `${formatDateTime(message.sentAt)} — ${message.senderName} (${
+              SENDER_ROLE_LABELS[message.senderRole]
+            })`,
+            size: 8,
+            gray: 0.4,
+            spaceBefore: 6,
+          },
+          {
+            text: message.content || "(no text)",
+            bold: message.kind === "system",
+          },
+          ...(message.attachmentIds.length > 0
+            ? [
+                {
+                  text: `Attachments: ${message.attachmentIds
+                    .map((id) => attachmentNames.get(id) || id)
+                    .join(", ")}`,
+                  gray: 0.4,
+                  indent: 12,
+                },
+              ]
+            : []),
+        ])),
+
+    heading(`Attachments (${transcript.attachments.length})`),
+    ...(transcript.attachments.length === 0
+      ? [{ text: "No attachments.", gray: 0.4 }]
+      : transcript.attachments.map((attachment) => ({
+          text: `${formatDateTime(attachment.uploadedAt)} — ${
+            attachment.fileName
+          } (${attachment.mimeType}, ${Math.ceil(
+            attachment.sizeBytes / 1024
+          )} KB)`,
+        }))),
+
+    heading("Signature"),
+    {
+      text: "This transcript was generated and signed by IFound4U. Our support team can confirm it is authentic with the values below.",
+    },
+    field("Export ID", integrity.exportId),
+    field("Signed", formatDateTime(integrity.signedAt)),
+    field("Algorithm", integrity.algorithm),
+    field("SHA-256", integrity.sha256),
+    field("Signature", integrity.signature),
+  ];
+
+  return renderPdf(blocks, {
+    title: `IFound4U claim transcript — ${item.title}`,
+    footer: `IFound4U transcript ${integrity.exportId}`,
+  });
+};
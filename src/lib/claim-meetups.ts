@@ -0,0 +1,212 @@
+import type { ClaimParticipantRole } from "@/lib/route-guards";
+
+export type MeetupStatus =
+  | "proposed"
+  | "accepted"
+  | "declined"
+  | "countered"
+  | "cancelled";
+
+// Actions on an existing meetup (countering is a new proposal)
+export type MeetupResponse = "accept" | "decline" | "cancel";
+
+// Same shape as the value of LocationInput
+export interface MeetupLocation {
+  address: string;
+  latitude: number;
+  longitude: number;
+  placeId?: string;
+}
+
+export interface ClaimMeetup {
+  id: string;
+  claimId: string;
+  proposedBy: string | null;
+  proposerRole: ClaimParticipantRole;
+  startsAt: string;
+  endsAt: string;
+  location: MeetupLocation;
+  note: string | null;
+  status: MeetupStatus;
+  counterOf: string | null;
+  respondedAt: string | null;
+  createdAt: string;
+}
+
+export interface ClaimMeetupRow {
+  id: string;
+  claim_id: string;
+  proposed_by: string | null;
+  proposer_role: ClaimParticipantRole;
+  starts_at: string;
+  ends_at: string;
+  location_address: string;
+  location_latitude: number | null;
+  location_longitude: number | null;
+  location_place_id: string | null;
+  note: string | null;
+  status: MeetupStatus;
+  counter_of: string | null;
+  responded_at: string | null;
+  created_at: string;
+}
+
+// Longest handover window that can be proposed
+export const MAX_MEETUP_WINDOW_HOURS = 12;
+// How far ahead a meetup can be planned
+export const MAX_MEETUP_DAYS_AHEAD = 90;
+export const MAX_MEETUP_NOTE_LENGTH = 500;
+
+/**
+ * Map a claim_meetups row to the shape used by the UI
+ * @param row - Row from the claim_meetups table
+ */
+export const fromClaimMeetupRow = (row: ClaimMeetupRow): ClaimMeetup => ({
+  id: row.id,
+  claimId: row.claim_id,
+  proposedBy: row.proposed_by,
+  proposerRole: row.proposer_role,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  location: {
+    address: row.location_address,
+    latitude: row.location_latitude ?? 0,
+    longitude: row.location_longitude ?? 0,
+    placeId: row.location_place_id || undefined,
+  },
+  note: row.note,
+  status: row.status,
+  counterOf: row.counter_of,
+  respondedAt: row.responded_at,
+  createdAt: row.created_at,
+});
+
+/**
+ * Check a proposed time window and location
+ * @returns An error message, or null when the proposal is valid
+ */
+export const validateMeetupProposal = (proposal: {
+  startsAt: string;
+  endsAt: string;
+  location: MeetupLocation | null;
+  note?: string | null;
+}): string | null => {
+  const startsAt = Date.parse(proposal.startsAt);
+  const endsAt = Date.parse(proposal.endsAt);
+
+  if (isNaN(startsAt) || isNaN(endsAt)) {
+    return "Please choose a date and time";
+  }
+  if (endsAt <= startsAt) {
+    return "The meetup has to end after it starts";
+  }
+  if (startsAt < Date.now()) {
+    return "The meetup can't be in the past";
+  }
+  if (endsAt - startsAt > MAX_MEETUP_WINDOW_HOURS * 60 * 60 * 1000) {
+    return `The time window can be at most ${MAX_MEETUP_WINDOW_HOURS} hours`;
+  }
+  if (startsAt - Date.now() > MAX_MEETUP_DAYS_AHEAD * 24 * 60 * 60 * 1000) {
+    return `The meetup can be at most ${MAX_MEETUP_DAYS_AHEAD} days ahead`;
+  }
+  if (!proposal.location?.address?.trim()) {
+    return "Please choose a location";
+  }
+  if (proposal.note && proposal.note.length > MAX_MEETUP_NOTE_LENGTH) {
+    return `The note can be at most ${MAX_MEETUP_NOTE_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Format a meetup window for display, e.g. "Mon, Jun 3, 2:00 PM – 3:00 PM"
+ */
+export const formatMeetupWindow = (startsAt: string, endsAt: string) => {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const sameDay = start.toDateString() === end.toDateString();
+
+  const date = start.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const time = (value: Date) =>
+    value.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+  return sameDay
+    ? `${date}, ${time(start)} – ${time(end)}`
+    : `${date}, ${time(start)} – ${end.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+      })}, ${time(end)}`;
+};
+
+/**
+ * Link to the meetup location in Google Maps
+ */
+export const getMeetupMapsUrl = (location: MeetupLocation) => {
+  const url = new URL("https://www.google.com/maps/search/");
+  url.searchParams.set("api", "1");
+  url.searchParams.set(
+    "query",
+    location.latitude && location.longitude
+      ? `${location.latitude},${location.longitude}`
+      : location.address
+  );
+  if (location.placeId) {
+    url.searchParams.set("query_place_id", location.placeId);
+  }
+  return url.toString();
+};
+
+const toIcsDate = (value: string) =>
+  new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Commas, semicolons and backslashes are special in iCalendar text values
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Build an iCalendar (.ics) file for an agreed meetup
+ * @param meetup - The accepted meetup
+ * @param itemTitle - Title of the item being handed over
+ * @param chatUrl - Link back to the claim chat
+ */
+export const buildMeetupIcs = (
+  meetup: ClaimMeetup,
+  itemTitle: string,
+  chatUrl: string
+): string =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//IFound4U//Claim Meetup//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${meetup.id}@ifound4u`,
+    `DTSTAMP:${toIcsDate(new Date().toISOString())}`,
+    `DTSTART:${toIcsDate(meetup.startsAt)}`,
+    `DTEND:${toIcsDate(meetup.endsAt)}`,
+    `SUMMARY:${escapeIcsText(`IFound4U handover: ${itemTitle}`)}`,
+    `LOCATION:${escapeIcsText(meetup.location.address)}`,
+    ...(meetup.location.latitude && meetup.location.longitude
+      ? [`GEO:${meetup.location.latitude};${meetup.location.longitude}`]
+      : []),
+    `DESCRIPTION:${escapeIcsText(
+      [meetup.note, `Chat: ${chatUrl}`].filter(Boolean).join("\n\n")
+    )}`,
+    `URL:${chatUrl}`,
+    "BEGIN:VALARM",
+    "TRIGGER:-PT1H",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeIcsText(`Handover of ${itemTitle}`)}`,
+    "END:VALARM",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
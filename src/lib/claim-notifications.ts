@@ -0,0 +1,121 @@
+// Only import from route handlers: emails item owners about new claims.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail } from "@/lib/ses-client";
+import { issueClaimToken } from "@/lib/claim-tokens";
+
+interface NotifiedClaim {
+  id: string;
+  chat_room_id: string;
+  claimer_name: string;
+  claimer_email: string;
+  claim_description: string;
+  items: {
+    id: string;
+    title: string;
+    user_id: string | null;
+    contact_info: Array<{ name: string; email: string }> | null;
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Email the item owner about a new claim, with a link into the claim chat.
+ * Everything in the email comes from the stored claim and item, never from the request.
+ * @param supabase - Admin Supabase client
+ * @param params.claimId - ID of the new claim
+ * @param params.origin - Origin of the app, for the link
+ * @returns Result object with success flag and message
+ */
+export const sendClaimNotification = async (
+  supabase: SupabaseClient,
+  params: { claimId: string; origin: string }
+) => {
+  const { data, error } = await supabase
+    .from("item_claims")
+    .select(
+      "id, chat_room_id, claimer_name, claimer_email, claim_description, items (id, title, user_id, contact_info (name, email))"
+    )
+    .eq("id", params.claimId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching claim: ${error.message}`);
+  }
+
+  if (!data) {
+    return { success: false, message: "Claim not found" };
+  }
+
+  const claim = data as unknown as NotifiedClaim;
+  const item = claim.items;
+
+  // Contact info given with the report comes first, then the reporter's account
+  let ownerEmail = item.contact_info?.[0]?.email || "";
+  let ownerName = item.contact_info?.[0]?.name || "Item Owner";
+
+  if (!ownerEmail && item.user_id) {
+    const { data: userData } = await supabase.auth.admin.getUserById(
+      item.user_id
+    );
+
+    if (userData && userData.user) {
+      ownerEmail = userData.user.email || "";
+      ownerName = userData.user.user_metadata?.full_name || "Item Owner";
+    }
+  }
+
+  if (!ownerEmail) {
+    return { success: false, message: "No contact email found for item owner" };
+  }
+
+  // Generate a signed, single-use verification token for the email link
+  const verificationToken = await issueClaimToken(supabase, {
+    claimId: claim.id,
+    chatRoomId: claim.chat_room_id,
+    email: ownerEmail,
+  });
+
+  const verifyUrl = new URL("/verify-claim", params.origin);
+  verifyUrl.searchParams.set("token", verificationToken);
+
+  return sendEmail({
+    to: ownerEmail,
+    subject: `Someone has claimed your item: "${item.title}"`,
+    html: `
+      <h2>Someone has claimed your item</h2>
+      <p>Hello ${escapeHtml(ownerName)},</p>
+      <p><strong>${escapeHtml(claim.claimer_name)}</strong> has claimed the item you reported:</p>
+      <p><strong>Item:</strong> ${escapeHtml(item.title)}</p>
+      <p><strong>Their message:</strong> "${escapeHtml(claim.claim_description)}"</p>
+      <p><strong>Their email:</strong> ${escapeHtml(claim.claimer_email)}</p>
+      <p>You can chat with this person to verify their claim by clicking the button below:</p>
+      <p><a href="${escapeHtml(verifyUrl.toString())}" style="display: inline-block; background-color: #4F46E5; color: white; padding: 12px 20px; text-decoration: none; border-radius: 5px;">Respond to Claim</a></p>
+      <p>If you believe this is not the rightful owner, you can reject their claim in the messages section.</p>
+      <p>Thank you for using IFound4U!</p>
+    `,
+    text: `
+      Someone has claimed your item
+
+      Hello ${ownerName},
+
+      ${claim.claimer_name} has claimed the item you reported:
+
+      Item: ${item.title}
+      Their message: "${claim.claim_description}"
+      Their email: ${claim.claimer_email}
+
+      You can chat with this person to verify their claim by visiting:
+      ${verifyUrl.toString()}
+
+      Thank you for using IFound4U!
+    `,
+  });
+};
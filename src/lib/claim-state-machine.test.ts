@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  ClaimTransitionError,
+  canTransition,
+  getAllowedTransitions,
+  isClaimStatus,
+  transitionClaim,
+} from "@/lib/claim-state-machine";
+import { createSupabaseMock } from "@/test/supabase-mock";
+
+describe("canTransition", () => {
+  it("lets only the owner accept or reject a pending claim", () => {
+    expect(canTransition("pending", "accepted", "owner")).toBe(true);
+    expect(canTransition("pending", "rejected", "owner")).toBe(true);
+    expect(canTransition("pending", "accepted", "claimer")).toBe(false);
+    expect(canTransition("pending", "accepted", "system")).toBe(false);
+  });
+
+  it("doesn't let the claimer resolve an accepted claim", () => {
+    expect(canTransition("accepted", "resolved", "owner")).toBe(true);
+    expect(canTransition("accepted", "resolved", "system")).toBe(true);
+    expect(canTransition("accepted", "resolved", "claimer")).toBe(false);
+  });
+
+  it("leaves payments to the system", () => {
+    expect(canTransition("accepted", "paid", "system")).toBe(true);
+    expect(canTransition("accepted", "paid", "claimer")).toBe(false);
+    expect(canTransition("paid", "accepted", "system")).toBe(true);
+    expect(canTransition("paid", "accepted", "owner")).toBe(false);
+  });
+
+  it("lets either side resolve a delivered claim", () => {
+    expect(canTransition("delivered", "resolved", "owner")).toBe(true);
+    expect(canTransition("delivered", "resolved", "claimer")).toBe(true);
+  });
+
+  it("treats rejected and resolved as final", () => {
+    expect(canTransition("rejected", "pending", "owner")).toBe(false);
+    expect(canTransition("resolved", "accepted", "system")).toBe(false);
+  });
+
+  it("rejects transitions that skip a step", () => {
+    expect(canTransition("pending", "paid", "system")).toBe(false);
+    expect(canTransition("accepted", "shipped", "owner")).toBe(false);
+  });
+});
+
+describe("getAllowedTransitions", () => {
+  it("lists the statuses a role can move a claim to", () => {
+    expect(getAllowedTransitions("accepted", "owner")).toEqual([
+      "resolved",
+      "rejected",
+    ]);
+    expect(getAllowedTransitions("accepted", "claimer")).toEqual([]);
+    expect(getAllowedTransitions("shipped", "claimer")).toEqual(["delivered"]);
+    expect(getAllowedTransitions("resolved", "owner")).toEqual([]);
+  });
+});
+
+describe("isClaimStatus", () => {
+  it("accepts known statuses only", () => {
+    expect(isClaimStatus("shipped")).toBe(true);
+    expect(isClaimStatus("cancelled")).toBe(false);
+    expect(isClaimStatus(undefined)).toBe(false);
+  });
+});
+
+describe("transitionClaim", () => {
+  let mock: ReturnType<typeof createSupabaseMock>;
+
+  beforeEach(() => {
+    mock = createSupabaseMock();
+    mock.tables.item_claims = [
+      {
+        id: "claim-1",
+        item_id: "item-1",
+        chat_room_id: "room-1",
+        status: "pending",
+      },
+    ];
+    mock.tables.items = [{ id: "item-1", is_claimed: false, status: "active" }];
+  });
+
+  it("updates the claim and item, records the change and posts it to the chat", async () => {
+    const result = await transitionClaim(mock.supabase, {
+      claimId: "claim-1",
+      to: "accepted",
+      actorId: "owner-1",
+      actorRole: "owner",
+      reason: "Described the engraving",
+    });
+
+    expect(result).toEqual({ from: "pending", to: "accepted" });
+    expect(mock.tables.item_claims[0].status).toBe("accepted");
+    expect(mock.tables.items[0].is_claimed).toBe(true);
+    expect(mock.tables.claim_status_history).toEqual([
+      expect.objectContaining({
+        claim_id: "claim-1",
+        from_status: "pending",
+        to_status: "accepted",
+        actor_id: "owner-1",
+        actor_role: "owner",
+        reason: "Described the engraving",
+      }),
+    ]);
+    expect(mock.tables.chat_messages).toEqual([
+      expect.objectContaining({
+        chat_room_id: "room-1",
+        message_kind: "system",
+        event_type: "claim_status_changed",
+      }),
+    ]);
+  });
+
+  it("marks the item resolved when the claim is resolved", async () => {
+    mock.tables.item_claims[0].status = "accepted";
+
+    await transitionClaim(mock.supabase, {
+      claimId: "claim-1",
+      to: "resolved",
+      actorId: "owner-1",
+      actorRole: "owner",
+    });
+
+    expect(mock.tables.items[0].status).toBe("resolved");
+    expect(mock.tables.items[0].resolved_at).toEqual(expect.any(String));
+  });
+
+  it("rejects a role that may not make an existing transition with 403", async () => {
+    const error = await transitionClaim(mock.supabase, {
+      claimId: "claim-1",
+      to: "accepted",
+      actorId: "claimer-1",
+      actorRole: "claimer",
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ClaimTransitionError);
+    expect(error.status).toBe(403);
+    expect(mock.tables.item_claims[0].status).toBe("pending");
+    expect(mock.tables.claim_status_history).toBeUndefined();
+  });
+
+  it("rejects a transition that doesn't exist with 409", async () => {
+    await expect(
+      transitionClaim(mock.supabase, {
+        claimId: "claim-1",
+        to: "shipped",
+        actorId: "owner-1",
+        actorRole: "owner",
+      })
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("fails with 404 for an unknown claim", async () => {
+    await expect(
+      transitionClaim(mock.supabase, {
+        claimId: "missing",
+        to: "accepted",
+        actorId: "owner-1",
+        actorRole: "owner",
+      })
+    ).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,250 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  type ChatSystemEvent,
+  postSystemMessage,
+} from "@/lib/chat-system-messages";
+
+export type ClaimStatus =
+  | "pending"
+  | "accepted"
+  | "rejected"
+  | "resolved"
+  | "paid"
+  | "shipped"
+  | "delivered";
+
+// owner: the user who reported the item, claimer: the user who submitted the claim,
+// system: server-side events such as Stripe webhooks and scheduled jobs
+export type ClaimActorRole = "owner" | "claimer" | "system";
+
+export interface ClaimStatusHistoryEntry {
+  id: string;
+  claim_id: string;
+  from_status: ClaimStatus | null;
+  to_status: ClaimStatus;
+  actor_id: string | null;
+  actor_role: ClaimActorRole;
+  reason: string | null;
+  created_at: string;
+}
+
+// Allowed transitions per status, and who may perform each of them.
+// Statuses missing from a map are final.
+export const CLAIM_TRANSITIONS: Record<
+  ClaimStatus,
+  Partial<Record<ClaimStatus, ClaimActorRole[]>>
+> = {
+  pending: {
+    accepted: ["owner"],
+    rejected: ["owner"],
+  },
+  accepted: {
+    paid: ["system"],
+    // Items handed over in person never go through shipping. Resolving also
+    // closes the owner's item, so only they (or a system job) can do it here
+    resolved: ["owner", "system"],
+    rejected: ["owner"],
+  },
+  paid: {
+    shipped: ["owner"],
+    // Fully refunded or canceled before shipping, the claimer can pay again
+    accepted: ["system"],
+  },
+  shipped: {
+    delivered: ["claimer", "system"],
+  },
+  delivered: {
+    resolved: ["owner", "claimer", "system"],
+  },
+  rejected: {},
+  resolved: {},
+};
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  resolved: "Resolved",
+  paid: "Paid",
+  shipped: "Shipped",
+  delivered: "Delivered",
+};
+
+export class ClaimTransitionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ClaimTransitionError";
+  }
+}
+
+export const isClaimStatus = (value: unknown): value is ClaimStatus =>
+  typeof value === "string" && value in CLAIM_TRANSITIONS;
+
+/**
+ * Check whether an actor may move a claim from one status to another
+ * @param from - Current claim status
+ * @param to - Requested claim status
+ * @param role - Role of the actor requesting the change
+ */
+export const canTransition = (
+  from: ClaimStatus,
+  to: ClaimStatus,
+  role: ClaimActorRole
+): boolean => !!CLAIM_TRANSITIONS[from][to]?.includes(role);
+
+/**
+ * List the statuses an actor can move a claim to
+ * @param from - Current claim status
+ * @param role - Role of the actor
+ */
+export const getAllowedTransitions = (
+  from: ClaimStatus,
+  role: ClaimActorRole
+): ClaimStatus[] =>
+  (Object.keys(CLAIM_TRANSITIONS[from]) as ClaimStatus[]).filter((to) =>
+    canTransition(from, to, role)
+  );
+
+/**
+ * Record a status change in the claim status history
+ * @param supabase - Admin Supabase client
+ * @param entry - The change to record
+ */
+export const recordClaimStatus = async (
+  supabase: SupabaseClient,
+  entry: {
+    claimId: string;
+    from: ClaimStatus | null;
+    to: ClaimStatus;
+    actorId: string | null;
+    actorRole: ClaimActorRole;
+    reason?: string | null;
+  }
+) => {
+  const { error } = await supabase.from("claim_status_history").insert({
+    claim_id: entry.claimId,
+    from_status: entry.from,
+    to_status: entry.to,
+    actor_id: entry.actorId,
+    actor_role: entry.actorRole,
+    reason: entry.reason || null,
+  });
+
+  if (error) {
+    // The status change itself already happened, don't fail the request
+    console.error("Error recording claim status history:", error);
+  }
+};
+
+/**
+ * Validate and apply a claim status change, then record it in the history
+ * and announce it in the claim chat.
+ * This is the only place that should write item_claims.status.
+ * @param supabase - Admin Supabase client
+ * @param params.claimId - ID of the claim to update
+ * @param params.to - Requested status
+ * @param params.actorId - ID of the user making the change, null for system changes
+ * @param params.actorRole - Role of the actor on this claim
+ * @param params.reason - Optional explanation shown in the timeline
+ * @param params.systemEvent - Posted to the chat instead of the generic status change,
+ * for changes with more to say, e.g. a payment or a shipment
+ * @returns The previous and new status
+ * @throws ClaimTransitionError when the claim doesn't exist or the transition isn't allowed
+ */
+export const transitionClaim = async (
+  supabase: SupabaseClient,
+  params: {
+    claimId: string;
+    to: ClaimStatus;
+    actorId: string | null;
+    actorRole: ClaimActorRole;
+    reason?: string | null;
+    systemEvent?: ChatSystemEvent;
+  }
+): Promise<{ from: ClaimStatus; to: ClaimStatus }> => {
+  const { claimId, to, actorId, actorRole, reason, systemEvent } = params;
+
+  const { data: claim, error: claimError } = await supabase
+    .from("item_claims")
+    .select("id, item_id, chat_room_id, status")
+    .eq("id", claimId)
+    .maybeSingle();
+
+  if (claimError) {
+    throw new ClaimTransitionError(claimError.message, 500);
+  }
+
+  if (!claim) {
+    throw new ClaimTransitionError("Claim not found", 404);
+  }
+
+  const from = claim.status as ClaimStatus;
+
+  if (!canTransition(from, to, actorRole)) {
+    throw new ClaimTransitionError(
+      `Cannot change claim status from ${from} to ${to} as ${actorRole}`,
+      CLAIM_TRANSITIONS[from][to] ? 403 : 409
+    );
+  }
+
+  // Only update if nobody changed the status in the meantime
+  const { data: updated, error: updateError } = await supabase
+    .from("item_claims")
+    .update({ status: to, updated_at: new Date().toISOString() })
+    .eq("id", claimId)
+    .eq("status", from)
+    .select("id");
+
+  if (updateError) {
+    throw new ClaimTransitionError(updateError.message, 500);
+  }
+
+  if (!updated || updated.length === 0) {
+    throw new ClaimTransitionError(
+      "Claim status was changed by someone else, please refresh",
+      409
+    );
+  }
+
+  if (to === "accepted") {
+    const { error: itemError } = await supabase
+      .from("items")
+      .update({ is_claimed: true })
+      .eq("id", claim.item_id);
+
+    if (itemError) {
+      console.error("Error marking item as claimed:", itemError);
+    }
+  }
+
+  if (to === "resolved") {
+    const { error: itemError } = await supabase
+      .from("items")
+      .update({ status: "resolved", resolved_at: new Date().toISOString() })
+      .eq("id", claim.item_id);
+
+    if (itemError) {
+      console.error("Error marking item as resolved:", itemError);
+    }
+  }
+
+  await recordClaimStatus(supabase, {
+    claimId,
+    from,
+    to,
+    actorId,
+    actorRole,
+    reason,
+  });
+
+  await postSystemMessage(
+    supabase,
+    { chatRoomId: claim.chat_room_id },
+    systemEvent || {
+      type: "claim_status_changed",
+      payload: { from, to, actorRole, reason: reason || null },
+    }
+  );
+
+  return { from, to };
+};
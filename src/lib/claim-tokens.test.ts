@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ClaimTokenError,
+  checkClaimToken,
+  issueClaimToken,
+  redeemClaimToken,
+  revokeClaimTokens,
+} from "@/lib/claim-tokens";
+import { createSupabaseMock } from "@/test/supabase-mock";
+
+const issue = (mock: ReturnType<typeof createSupabaseMock>) =>
+  issueClaimToken(mock.supabase, {
+    claimId: "claim-1",
+    chatRoomId: "room-1",
+    email: "Owner@Example.com",
+  });
+
+describe("claim tokens", () => {
+  let mock: ReturnType<typeof createSupabaseMock>;
+
+  beforeEach(() => {
+    vi.stubEnv("CLAIM_TOKEN_SECRET", "test-secret");
+    mock = createSupabaseMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("issues a signed token that checks out for its chat room", async () => {
+    const token = await issue(mock);
+
+    expect(token.split(".")).toHaveLength(3);
+    expect(mock.tables.claim_tokens).toHaveLength(1);
+    await expect(checkClaimToken(mock.supabase, token)).resolves.toEqual({
+      chatRoomId: "room-1",
+    });
+  });
+
+  it("redeems a token once, for the email it was issued to", async () => {
+    const token = await issue(mock);
+
+    await expect(
+      redeemClaimToken(mock.supabase, token, "someone@example.com")
+    ).rejects.toBeInstanceOf(ClaimTokenError);
+
+    await expect(
+      redeemClaimToken(mock.supabase, token, "owner@example.com")
+    ).resolves.toEqual({ chatRoomId: "room-1" });
+
+    await expect(
+      redeemClaimToken(mock.supabase, token, "owner@example.com")
+    ).rejects.toMatchObject({ status: 410 });
+    await expect(checkClaimToken(mock.supabase, token)).rejects.toMatchObject({
+      status: 410,
+    });
+  });
+
+  it("rejects a token with a tampered payload", async () => {
+    const [header, payload, signature] = (await issue(mock)).split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, room: "room-2" })
+    ).toString("base64url");
+
+    await expect(
+      checkClaimToken(mock.supabase, `${header}.${forged}.${signature}`)
+    ).rejects.toBeInstanceOf(ClaimTokenError);
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    const token = await issue(mock);
+    vi.stubEnv("CLAIM_TOKEN_SECRET", "another-secret");
+
+    await expect(checkClaimToken(mock.supabase, token)).rejects.toBeInstanceOf(
+      ClaimTokenError
+    );
+  });
+
+  it("rejects an expired token", async () => {
+    const token = await issue(mock);
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 73 * 60 * 60 * 1000);
+
+    await expect(
+      redeemClaimToken(mock.supabase, token, "owner@example.com")
+    ).rejects.toBeInstanceOf(ClaimTokenError);
+  });
+
+  it("requires a dedicated signing secret", async () => {
+    vi.stubEnv("CLAIM_TOKEN_SECRET", "");
+    vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "service-role-key");
+
+    await expect(issue(mock)).rejects.toThrow(
+      "CLAIM_TOKEN_SECRET is not configured"
+    );
+  });
+
+  it("rejects revoked tokens", async () => {
+    const token = await issue(mock);
+    await revokeClaimTokens(mock.supabase, "claim-1");
+
+    await expect(
+      redeemClaimToken(mock.supabase, token, "owner@example.com")
+    ).rejects.toMatchObject({ status: 410 });
+  });
+});
@@ -0,0 +1,306 @@
+// Only import from route handlers: signing needs the server secret.
+
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// How long an emailed claim link stays valid
+const TOKEN_TTL_HOURS = Number(process.env.CLAIM_TOKEN_TTL_HOURS || 72);
+
+// Links sent before signed tokens were introduced are plain base64 JSON and can be
+// forged, so they are only accepted until this date (ISO string, unset = never)
+const LEGACY_TOKENS_UNTIL = process.env.CLAIM_TOKEN_LEGACY_UNTIL;
+
+interface ClaimTokenPayload {
+  jti: string;
+  sub: string; // email the link was sent to
+  room: string; // chat room of the claim
+  iat: number;
+  exp: number;
+}
+
+export class ClaimTokenError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ClaimTokenError";
+  }
+}
+
+// A dedicated key, so a leaked link never says anything about a database credential
+const getSecret = () => {
+  const secret = process.env.CLAIM_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("CLAIM_TOKEN_SECRET is not configured");
+  }
+  return secret;
+};
+
+const base64UrlEncode = (value: string | Buffer) =>
+  Buffer.from(value).toString("base64url");
+
+const sign = (data: string) =>
+  crypto.createHmac("sha256", getSecret()).update(data).digest("base64url");
+
+const JWT_HEADER = base64UrlEncode(
+  JSON.stringify({ alg: "HS256", typ: "JWT" })
+);
+
+/**
+ * Decode and check the signature and expiry of a claim token (HS256 JWT)
+ * @param token - Token from the claim link
+ * @returns The payload, or null if the token is malformed, forged or expired
+ */
+const decodeClaimToken = (token: string): ClaimTokenPayload | null => {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== JWT_HEADER) return null;
+
+  const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`));
+  const given = Buffer.from(parts[2]);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(parts[1], "base64url").toString("utf-8")
+    ) as ClaimTokenPayload;
+
+    if (!payload.jti || !payload.room || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decode a link sent before signed tokens, during the compatibility window only
+ */
+const decodeLegacyToken = (
+  token: string
+): { email: string; chatRoomId: string } | null => {
+  if (!LEGACY_TOKENS_UNTIL || Date.now() > Date.parse(LEGACY_TOKENS_UNTIL)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(token, "base64").toString("utf-8"));
+
+    if (
+      typeof payload.email !== "string" ||
+      typeof payload.chatRoomId !== "string" ||
+      payload.expires < Date.now()
+    ) {
+      return null;
+    }
+
+    return { email: payload.email, chatRoomId: payload.chatRoomId };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Create a signed, single-use claim link token and record its jti
+ * @param supabase - Admin Supabase client
+ * @param params.claimId - The claim the link gives access to
+ * @param params.chatRoomId - Chat room of the claim
+ * @param params.email - Email address the link is sent to
+ * @returns The token to put in the link
+ */
+export const issueClaimToken = async (
+  supabase: SupabaseClient,
+  params: { claimId: string; chatRoomId: string; email: string }
+): Promise<string> => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + TOKEN_TTL_HOURS * 60 * 60;
+
+  const { data, error } = await supabase
+    .from("claim_tokens")
+    .insert({
+      claim_id: params.claimId,
+      chat_room_id: params.chatRoomId,
+      email: params.email.toLowerCase(),
+      expires_at: new Date(expiresAt * 1000).toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to issue claim token: ${error?.message}`);
+  }
+
+  const payload: ClaimTokenPayload = {
+    jti: data.id,
+    sub: params.email.toLowerCase(),
+    room: params.chatRoomId,
+    iat: issuedAt,
+    exp: expiresAt,
+  };
+  const body = base64UrlEncode(JSON.stringify(payload));
+
+  return `${JWT_HEADER}.${body}.${sign(`${JWT_HEADER}.${body}`)}`;
+};
+
+/**
+ * Check a claim token without using it up, e.g. before asking for the email address
+ * @throws ClaimTokenError when the token is invalid, expired, used or revoked
+ */
+export const checkClaimToken = async (
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ chatRoomId: string }> => {
+  const payload = decodeClaimToken(token);
+
+  if (!payload) {
+    const legacy = decodeLegacyToken(token);
+    if (legacy) return { chatRoomId: legacy.chatRoomId };
+    throw new ClaimTokenError("Invalid or expired verification link");
+  }
+
+  const { data: record } = await supabase
+    .from("claim_tokens")
+    .select("id, used_at, revoked_at")
+    .eq("id", payload.jti)
+    .maybeSingle();
+
+  if (!record) {
+    throw new ClaimTokenError("Invalid or expired verification link");
+  }
+
+  if (record.revoked_at) {
+    throw new ClaimTokenError("This claim is no longer active", 410);
+  }
+
+  if (record.used_at) {
+    throw new ClaimTokenError(
+      "This verification link has already been used",
+      410
+    );
+  }
+
+  return { chatRoomId: payload.room };
+};
+
+/**
+ * Verify a claim token for the given email address and mark it as used
+ * @param supabase - Admin Supabase client
+ * @param token - Token from the claim link
+ * @param email - Email address entered by the visitor, must match the token
+ * @returns The chat room the token gives access to
+ * @throws ClaimTokenError when the token can't be redeemed
+ */
+export const redeemClaimToken = async (
+  supabase: SupabaseClient,
+  token: string,
+  email: string
+): Promise<{ chatRoomId: string }> => {
+  const payload = decodeClaimToken(token);
+
+  if (!payload) {
+    return redeemLegacyToken(supabase, token, email);
+  }
+
+  if (payload.sub !== email.toLowerCase()) {
+    throw new ClaimTokenError(
+      "Email address doesn't match the verification token"
+    );
+  }
+
+  // Make sure the link was issued by us and check it hasn't been used or revoked
+  await checkClaimToken(supabase, token);
+
+  // Only the first concurrent request gets the row back
+  const { data: used, error } = await supabase
+    .from("claim_tokens")
+    .update({ used_at: new Date().toISOString() })
+    .eq("id", payload.jti)
+    .is("used_at", null)
+    .is("revoked_at", null)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to redeem claim token: ${error.message}`);
+  }
+
+  if (!used || used.length === 0) {
+    throw new ClaimTokenError(
+      "This verification link has already been used",
+      410
+    );
+  }
+
+  return { chatRoomId: payload.room };
+};
+
+/**
+ * Redeem an old unsigned link. As those can be forged, the email must also
+ * belong to the owner of the claimed item and the claim must still be open.
+ */
+const redeemLegacyToken = async (
+  supabase: SupabaseClient,
+  token: string,
+  email: string
+): Promise<{ chatRoomId: string }> => {
+  const legacy = decodeLegacyToken(token);
+
+  if (!legacy) {
+    throw new ClaimTokenError("Invalid or expired verification link");
+  }
+
+  if (legacy.email.toLowerCase() !== email.toLowerCase()) {
+    throw new ClaimTokenError(
+      "Email address doesn't match the verification token"
+    );
+  }
+
+  const { data: claim } = await supabase
+    .from("item_claims")
+    .select("item_id, status")
+    .eq("chat_room_id", legacy.chatRoomId)
+    .maybeSingle();
+
+  if (!claim || claim.status === "rejected") {
+    throw new ClaimTokenError("Invalid or expired verification link");
+  }
+
+  const { data: contacts } = await supabase
+    .from("contact_info")
+    .select("email")
+    .eq("item_id", claim.item_id);
+
+  const isOwnerEmail = contacts?.some(
+    (contact) => contact.email?.toLowerCase() === email.toLowerCase()
+  );
+
+  if (!isOwnerEmail) {
+    throw new ClaimTokenError("Invalid or expired verification link");
+  }
+
+  return { chatRoomId: legacy.chatRoomId };
+};
+
+/**
+ * Revoke every unused link of a claim, e.g. when the claim is rejected
+ * @param supabase - Admin Supabase client
+ * @param claimId - ID of the claim
+ */
+export const revokeClaimTokens = async (
+  supabase: SupabaseClient,
+  claimId: string
+) => {
+  const { error } = await supabase
+    .from("claim_tokens")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("claim_id", claimId)
+    .is("used_at", null)
+    .is("revoked_at", null);
+
+  if (error) {
+    console.error("Error revoking claim tokens:", error);
+  }
+};
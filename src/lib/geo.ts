@@ -0,0 +1,42 @@
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (value: number) => (value * Math.PI) / 180;
+
+/**
+ * Calculate the great-circle distance between two points using the Haversine formula
+ * @param fromLat - Latitude of the first point
+ * @param fromLng - Longitude of the first point
+ * @param toLat - Latitude of the second point
+ * @param toLng - Longitude of the second point
+ * @returns Distance in kilometers
+ */
+export const getDistanceKm = (
+  fromLat: number,
+  fromLng: number,
+  toLat: number,
+  toLng: number
+): number => {
+  const dLat = toRad(toLat - fromLat);
+  const dLng = toRad(toLng - fromLng);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(fromLat)) *
+      Math.cos(toRad(toLat)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+};
+
+/**
+ * Check if a location has usable coordinates.
+ * Manually typed addresses are stored with 0/0 coordinates.
+ */
+export const hasCoordinates = (
+  latitude?: number | null,
+  longitude?: number | null
+): boolean => {
+  return !!latitude && !!longitude;
+};
@@ -0,0 +1,21 @@
+// Define the item categories (same as in item-report-form.tsx)
+export const itemCategories = [
+  { value: "electronics", label: "Electronics" },
+  { value: "jewelry", label: "Jewelry" },
+  { value: "clothing", label: "Clothing" },
+  { value: "accessories", label: "Accessories" },
+  { value: "pets", label: "Pets" },
+  { value: "documents", label: "Documents" },
+  { value: "keys", label: "Keys" },
+  { value: "bags", label: "Bags and Luggage" },
+  { value: "toys", label: "Toys" },
+  { value: "books", label: "Books" },
+  { value: "money", label: "Money/Wallet" },
+  { value: "other", label: "Other" },
+];
+
+// Get label for a category value
+export const getCategoryLabel = (value: string) => {
+  const category = itemCategories.find((c) => c.value === value);
+  return category?.label || value;
+};
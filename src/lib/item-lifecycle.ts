@@ -0,0 +1,69 @@
+import crypto from "crypto";
+
+export type ItemStatus =
+  | "pending"
+  | "verified"
+  | "claimed"
+  | "resolved"
+  | "expired";
+
+// Statuses shown in listings unless resolved/expired items are asked for
+export const ACTIVE_ITEM_STATUSES: ItemStatus[] = [
+  "pending",
+  "verified",
+  "claimed",
+];
+
+// Hidden from listings by default, set by the lifecycle job or the reporter
+export const INACTIVE_ITEM_STATUSES: ItemStatus[] = ["resolved", "expired"];
+
+// Days after the report (or the last confirmation) before asking the reporter for an update
+export const REMINDER_AFTER_DAYS = Number(
+  process.env.ITEM_REMINDER_AFTER_DAYS || 30
+);
+// Days to wait for an answer to the reminder before the item expires
+export const EXPIRE_AFTER_REMINDER_DAYS = Number(
+  process.env.ITEM_EXPIRE_AFTER_REMINDER_DAYS || 14
+);
+
+// Answers a reporter can give to a reminder: the item is still lost/found, or it's sorted
+export type LifecycleAction = "keep" | "resolve";
+
+// Without its own key every reminder link would be signed with an empty one
+const getSecret = () => {
+  const secret = process.env.ITEM_LIFECYCLE_SECRET;
+  if (!secret) {
+    throw new Error("ITEM_LIFECYCLE_SECRET is not configured");
+  }
+  return secret;
+};
+
+/**
+ * Sign a reminder link so reporters without an account can answer it
+ * @param itemId - ID of the item the reminder is about
+ * @param reminderSentAt - Timestamp of the reminder, so older links stop working
+ */
+export const signLifecycleToken = (
+  itemId: string,
+  reminderSentAt: string
+): string =>
+  crypto
+    .createHmac("sha256", getSecret())
+    .update(`${itemId}:${new Date(reminderSentAt).getTime()}`)
+    .digest("hex");
+
+/**
+ * Check a reminder link signature in constant time
+ * @returns True when the token was issued for this item and reminder
+ */
+export const verifyLifecycleToken = (
+  token: string,
+  itemId: string,
+  reminderSentAt: string
+): boolean => {
+  const expected = Buffer.from(signLifecycleToken(itemId, reminderSentAt));
+  const given = Buffer.from(token);
+  return (
+    expected.length === given.length && crypto.timingSafeEqual(expected, given)
+  );
+};
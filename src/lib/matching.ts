@@ -0,0 +1,182 @@
+import { getDistanceKm, hasCoordinates } from "./geo";
+
+// Relative weight of each signal in the final match score (sums to 1)
+const WEIGHTS = {
+  category: 0.3,
+  date: 0.2,
+  distance: 0.25,
+  text: 0.25,
+};
+
+// Found items reported this many days before the loss date are still considered
+// (people often pick the wrong date), anything earlier cannot be a match
+const DATE_GRACE_DAYS = 2;
+// Date score drops to zero when the items are further apart than this
+const MAX_DATE_GAP_DAYS = 60;
+// Distance score drops to zero beyond this radius
+const MAX_DISTANCE_KM = 25;
+
+// Minimum score for a pair to be stored as a possible match
+export const MIN_MATCH_SCORE = 0.55;
+// Maximum number of matches stored per reported item
+export const MAX_MATCHES_PER_ITEM = 10;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has",
+  "have", "i", "in", "is", "it", "its", "my", "of", "on", "or", "that",
+  "the", "this", "to", "was", "were", "with", "lost", "found", "item",
+  "near", "image", "shows", "appears", "there", "which", "some",
+]);
+
+export interface MatchableItem {
+  id: string;
+  type: "lost" | "found";
+  category: string;
+  title: string;
+  description: string;
+  ai_description?: string | null;
+  date: string;
+  location_latitude: number;
+  location_longitude: number;
+}
+
+export interface MatchScore {
+  score: number;
+  breakdown: {
+    category: number;
+    date: number;
+    distance: number;
+    text: number;
+    distanceKm: number | null;
+    daysApart: number;
+  };
+}
+
+/**
+ * Split text into a set of normalized keywords
+ * @param text - Free text to tokenize
+ * @returns Set of lowercase tokens without stop words
+ */
+export const tokenize = (text: string): Set<string> => {
+  const tokens = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 2 && !STOP_WORDS.has(token))
+    // Very naive plural stemming so "keys" matches "key"
+    .map((token) => token.replace(/([^s])s$/, "$1"));
+
+  return new Set(tokens);
+};
+
+/**
+ * Dice coefficient between two token sets
+ * @returns Similarity between 0 and 1
+ */
+export const textSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared++;
+  });
+
+  return (2 * shared) / (a.size + b.size);
+};
+
+const itemText = (item: MatchableItem) =>
+  [item.title, item.title, item.description, item.ai_description || ""].join(
+    " "
+  );
+
+/**
+ * Score how likely a lost item and a found item are the same object
+ * @param lost - The lost item report
+ * @param found - The found item report
+ * @returns Weighted score between 0 and 1 with the per-signal breakdown
+ */
+export const scoreMatch = (
+  lost: MatchableItem,
+  found: MatchableItem
+): MatchScore => {
+  // Category: exact match, or "other" which people use when unsure
+  const category =
+    lost.category === found.category
+      ? 1
+      : lost.category === "other" || found.category === "other"
+      ? 0.4
+      : 0;
+
+  // Date: the item must have been found after it was lost
+  const daysApart =
+    (new Date(found.date).getTime() - new Date(lost.date).getTime()) /
+    (24 * 60 * 60 * 1000);
+  const date =
+    daysApart < -DATE_GRACE_DAYS
+      ? 0
+      : Math.max(0, 1 - Math.max(daysApart, 0) / MAX_DATE_GAP_DAYS);
+
+  // Distance: neutral score when either side has no usable coordinates
+  let distance = 0.5;
+  let distanceKm: number | null = null;
+  if (
+    hasCoordinates(lost.location_latitude, lost.location_longitude) &&
+    hasCoordinates(found.location_latitude, found.location_longitude)
+  ) {
+    distanceKm = getDistanceKm(
+      lost.location_latitude,
+      lost.location_longitude,
+      found.location_latitude,
+      found.location_longitude
+    );
+    distance =
+      distanceKm <= 1 ? 1 : Math.max(0, 1 - distanceKm / MAX_DISTANCE_KM);
+  }
+
+  const text = textSimilarity(
+    tokenize(itemText(lost)),
+    tokenize(itemText(found))
+  );
+
+  const score =
+    category * WEIGHTS.category +
+    date * WEIGHTS.date +
+    distance * WEIGHTS.distance +
+    // Text overlap is rarely high between two independent reports, so boost it
+    Math.min(1, text * 2) * WEIGHTS.text;
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    breakdown: {
+      category,
+      date: Math.round(date * 100) / 100,
+      distance: Math.round(distance * 100) / 100,
+      text: Math.round(text * 100) / 100,
+      distanceKm: distanceKm !== null ? Math.round(distanceKm * 10) / 10 : null,
+      daysApart: Math.round(daysApart),
+    },
+  };
+};
+
+/**
+ * Rank candidate items of the opposite type against a reported item
+ * @param item - The newly reported item
+ * @param candidates - Items of the opposite type
+ * @returns The best matches above the minimum score, highest first
+ */
+export const rankMatches = <T extends MatchableItem>(
+  item: MatchableItem,
+  candidates: T[]
+): Array<{ candidate: T } & MatchScore> => {
+  return candidates
+    .filter((candidate) => candidate.type !== item.type)
+    .map((candidate) => {
+      const [lost, found] =
+        item.type === "lost" ? [item, candidate] : [candidate, item];
+      return { candidate, ...scoreMatch(lost, found) };
+    })
+    .filter((match) => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES_PER_ITEM);
+};
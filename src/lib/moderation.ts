@@ -0,0 +1,39 @@
+// Only import from route handlers: this uses the server-side OpenAI key.
+
+import OpenAI from "openai";
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+export interface TextModerationResult {
+  flagged: boolean;
+  // Names of the OpenAI moderation categories that were flagged, e.g. "harassment"
+  flaggedCategories: string[];
+  categories: Record<string, boolean>;
+}
+
+/**
+ * Run text through the OpenAI moderation endpoint
+ * @param input - Text to check
+ */
+export const moderateText = async (
+  input: string
+): Promise<TextModerationResult> => {
+  const moderationResponse = await openai.moderations.create({ input });
+
+  const moderation = moderationResponse.results[0];
+  const categories = moderation.categories as unknown as Record<
+    string,
+    boolean
+  >;
+  const flaggedCategories = Object.entries(categories)
+    .filter(([, value]) => value === true)
+    .map(([category]) => category);
+
+  return {
+    flagged: flaggedCategories.length > 0,
+    flaggedCategories,
+    categories,
+  };
+};
@@ -0,0 +1,24 @@
+export interface NotificationPreferences {
+  // Email digests of chat messages left unread for a while
+  chatDigestEnabled: boolean;
+}
+
+export interface NotificationPreferencesRow {
+  chat_digest_enabled: boolean;
+}
+
+// What users who never changed their preferences get
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  chatDigestEnabled: true,
+};
+
+/**
+ * Map a notification_preferences row to the shape used by the UI
+ * @param row - Row from the notification_preferences table, null when the user has none yet
+ */
+export const fromNotificationPreferencesRow = (
+  row: NotificationPreferencesRow | null
+): NotificationPreferences =>
+  row
+    ? { chatDigestEnabled: row.chat_digest_enabled }
+    : DEFAULT_NOTIFICATION_PREFERENCES;
@@ -0,0 +1,353 @@
+// Only import from route handlers: moves money between the platform and finders.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Stripe } from "stripe";
+import { stripe } from "@/lib/stripe";
+import { postSystemMessage } from "@/lib/chat-system-messages";
+
+export type PaymentPayoutMode = "destination" | "escrow";
+export type EscrowStatus = "held" | "released" | "reversed";
+export type EscrowReleaseTrigger = "delivery" | "timer" | "admin";
+
+// Days after shipping until held funds go to the finder without a delivery confirmation
+export const ESCROW_AUTO_RELEASE_DAYS = Number(
+  process.env.ESCROW_AUTO_RELEASE_DAYS || 14
+);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ESCROW_PAYMENT_COLUMNS =
+  "id, claim_id, amount, currency, transfer_amount, destination_account_id, stripe_payment_intent_id, stripe_charge_id, escrow_status, release_after, hold_reason, stripe_transfer_id";
+
+export interface EscrowPaymentRow {
+  id: string;
+  claim_id: string;
+  amount: number;
+  currency: string;
+  transfer_amount: number | null;
+  destination_account_id: string | null;
+  stripe_payment_intent_id: string | null;
+  stripe_charge_id: string | null;
+  escrow_status: EscrowStatus | null;
+  release_after: string | null;
+  hold_reason: string | null;
+  stripe_transfer_id: string | null;
+}
+
+export class EscrowError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "EscrowError";
+  }
+}
+
+/**
+ * Whether new payments are escrowed. Existing payments keep the mode they were made with.
+ */
+export const isEscrowEnabled = () =>
+  process.env.STRIPE_ESCROW_ENABLED === "true";
+
+// Ties the charge and the later transfer of a claim together in Stripe
+export const getTransferGroup = (claimId: string) => `claim_${claimId}`;
+
+/**
+ * Load a payment for an escrow operation
+ * @throws EscrowError (404) when there is no such payment
+ */
+export const getEscrowPayment = async (
+  supabase: SupabaseClient,
+  paymentId: string
+): Promise<EscrowPaymentRow> => {
+  const { data, error } = await supabase
+    .from("payments")
+    .select(ESCROW_PAYMENT_COLUMNS)
+    .eq("id", paymentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching payment: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new EscrowError("Payment not found", 404);
+  }
+
+  return data as EscrowPaymentRow;
+};
+
+/**
+ * Mark the funds of a succeeded escrow payment as held on the platform.
+ * Destination charges are left alone, the finder already has the money.
+ * @param supabase - Admin Supabase client
+ * @param paymentIntent - The succeeded payment intent
+ */
+export const holdEscrowFunds = async (
+  supabase: SupabaseClient,
+  paymentIntent: Stripe.PaymentIntent
+) => {
+  const chargeId =
+    typeof paymentIntent.latest_charge === "string"
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id || null;
+
+  const { error } = await supabase
+    .from("payments")
+    .update({
+      escrow_status: "held",
+      held_at: new Date().toISOString(),
+      stripe_charge_id: chargeId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("stripe_payment_intent_id", paymentIntent.id)
+    .eq("payout_mode", "escrow")
+    .is("escrow_status", null);
+
+  if (error) {
+    throw new Error(`Error holding escrow funds: ${error.message}`);
+  }
+};
+
+/**
+ * Start the auto-release timer of a claim's held payments, once the item is shipped
+ * @param supabase - Admin Supabase client
+ * @param claimId - ID of the claim
+ */
+export const scheduleEscrowRelease = async (
+  supabase: SupabaseClient,
+  claimId: string
+) => {
+  const { error } = await supabase
+    .from("payments")
+    .update({
+      release_after: new Date(
+        Date.now() + ESCROW_AUTO_RELEASE_DAYS * DAY_MS
+      ).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("claim_id", claimId)
+    .eq("escrow_status", "held")
+    .is("release_after", null);
+
+  if (error) {
+    console.error("Error scheduling escrow release:", error);
+  }
+};
+
+/**
+ * Transfer a held payment to the finder's connected account
+ * @param supabase - Admin Supabase client
+ * @param payment - The held payment
+ * @param trigger - Why the funds are released
+ * @throws EscrowError (409) when the payment isn't held or an admin put it on hold
+ */
+export const releaseEscrowPayment = async (
+  supabase: SupabaseClient,
+  payment: EscrowPaymentRow,
+  trigger: EscrowReleaseTrigger
+) => {
+  if (payment.escrow_status !== "held") {
+    throw new EscrowError("The payment isn't held in escrow", 409);
+  }
+
+  if (payment.hold_reason) {
+    throw new EscrowError("The payout is on hold", 409);
+  }
+
+  if (!payment.destination_account_id || !payment.transfer_amount) {
+    throw new EscrowError("The payment has no payout destination", 409);
+  }
+
+  // The idempotency key makes a retry after a failed update return the same transfer
+  const transfer = await stripe.transfers.create(
+    {
+      amount: payment.transfer_amount,
+      currency: payment.currency,
+      destination: payment.destination_account_id,
+      transfer_group: getTransferGroup(payment.claim_id),
+      // Paid from the charge, so it doesn't depend on the platform's available balance
+      ...(payment.stripe_charge_id
+        ? { source_transaction: payment.stripe_charge_id }
+        : {}),
+      metadata: {
+        claimId: payment.claim_id,
+        paymentId: payment.id,
+        trigger,
+      },
+    },
+    { idempotencyKey: `escrow-release-${payment.id}` }
+  );
+
+  const { data: released, error } = await supabase
+    .from("payments")
+    .update({
+      escrow_status: "released",
+      released_at: new Date().toISOString(),
+      release_trigger: trigger,
+      stripe_transfer_id: transfer.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", payment.id)
+    .eq("escrow_status", "held")
+    .select("id");
+
+  if (error) {
+    throw new Error(`Error marking payment as released: ${error.message}`);
+  }
+
+  // Released concurrently, that run already told the chat
+  if (!released || released.length === 0) {
+    return transfer;
+  }
+
+  await postSystemMessage(
+    supabase,
+    { claimId: payment.claim_id },
+    {
+      type: "payout_released",
+      payload: {
+        amount: payment.transfer_amount,
+        currency: payment.currency,
+        trigger,
+      },
+    }
+  );
+
+  return transfer;
+};
+
+/**
+ * Release every held payment of a claim, e.g. once the claimer confirmed delivery.
+ * Failures are only logged; the release time is moved to now so the auto-release
+ * job retries them.
+ * @param supabase - Admin Supabase client
+ * @param claimId - ID of the claim
+ * @param trigger - Why the funds are released
+ */
+export const releaseEscrowForClaim = async (
+  supabase: SupabaseClient,
+  claimId: string,
+  trigger: EscrowReleaseTrigger
+) => {
+  const { data: payments, error } = await supabase
+    .from("payments")
+    .update({
+      release_after: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("claim_id", claimId)
+    .eq("escrow_status", "held")
+    .select(ESCROW_PAYMENT_COLUMNS);
+
+  if (error) {
+    console.error("Error fetching held payments:", error);
+    return;
+  }
+
+  for (const payment of (payments || []) as EscrowPaymentRow[]) {
+    // Payouts on hold wait for an admin
+    if (payment.hold_reason) continue;
+
+    try {
+      await releaseEscrowPayment(supabase, payment, trigger);
+    } catch (releaseError) {
+      console.error(
+        `Error releasing payment ${payment.id}:`,
+        (releaseError as Error).message
+      );
+    }
+  }
+};
+
+/**
+ * Put the payout of a held payment on hold, or lift the hold
+ * @param supabase - Admin Supabase client
+ * @param payment - The held payment
+ * @param hold - The admin (null when placed automatically, e.g. for a chargeback)
+ * and their reason, or null to lift the hold
+ * @throws EscrowError (409) when the funds are no longer held
+ */
+export const setEscrowHold = async (
+  supabase: SupabaseClient,
+  payment: EscrowPaymentRow,
+  hold: { adminId: string | null; reason: string } | null
+) => {
+  if (payment.escrow_status !== "held") {
+    throw new EscrowError(
+      payment.escrow_status === "released"
+        ? "The payout was already released, reverse the transfer instead"
+        : "The payment isn't held in escrow",
+      409
+    );
+  }
+
+  const { error } = await supabase
+    .from("payments")
+    .update({
+      hold_reason: hold?.reason || null,
+      hold_placed_by: hold?.adminId || null,
+      hold_placed_at: hold ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", payment.id)
+    .eq("escrow_status", "held");
+
+  if (error) {
+    throw new Error(`Error updating payout hold: ${error.message}`);
+  }
+
+  // The reason stays with the admins, both participants only learn about the hold
+  if (hold && !payment.hold_reason) {
+    await postSystemMessage(
+      supabase,
+      { claimId: payment.claim_id },
+      { type: "payout_on_hold", payload: {} }
+    );
+  }
+};
+
+/**
+ * Take a released payout back from the finder's connected account to the platform
+ * @param supabase - Admin Supabase client
+ * @param payment - The released payment
+ * @param reason - Stored with the reversal in Stripe
+ * @throws EscrowError (409) when nothing was transferred
+ */
+export const reverseEscrowTransfer = async (
+  supabase: SupabaseClient,
+  payment: EscrowPaymentRow,
+  reason: string
+) => {
+  if (payment.escrow_status !== "released" || !payment.stripe_transfer_id) {
+    throw new EscrowError("The payout hasn't been released", 409);
+  }
+
+  const reversal = await stripe.transfers.createReversal(
+    payment.stripe_transfer_id,
+    { metadata: { paymentId: payment.id, reason } },
+    { idempotencyKey: `escrow-reversal-${payment.id}` }
+  );
+
+  const { error } = await supabase
+    .from("payments")
+    .update({
+      escrow_status: "reversed",
+      reversed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", payment.id)
+    .eq("escrow_status", "released");
+
+  if (error) {
+    throw new Error(`Error marking payment as reversed: ${error.message}`);
+  }
+
+  await postSystemMessage(
+    supabase,
+    { claimId: payment.claim_id },
+    {
+      type: "payout_reversed",
+      payload: { amount: reversal.amount, currency: reversal.currency },
+    }
+  );
+
+  return reversal;
+};
@@ -0,0 +1,328 @@
+// Only import from route handlers: issues refunds and reverses finder payouts.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { stripe } from "@/lib/stripe";
+import type { EscrowStatus, PaymentPayoutMode } from "@/lib/payment-escrow";
+
+export type RefundRequesterRole = "owner" | "admin";
+
+// Stripe's dispute statuses once a chargeback is settled
+const CLOSED_DISPUTE_STATUSES = ["won", "lost", "warning_closed"];
+
+const REFUND_PAYMENT_COLUMNS =
+  "id, claim_id, recipient_id, amount, currency, status, payout_mode, transfer_amount, stripe_payment_intent_id, escrow_status, stripe_transfer_id, refunded_amount, dispute_status";
+
+export interface RefundablePaymentRow {
+  id: string;
+  claim_id: string;
+  recipient_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  payout_mode: PaymentPayoutMode;
+  transfer_amount: number | null;
+  stripe_payment_intent_id: string | null;
+  escrow_status: EscrowStatus | null;
+  stripe_transfer_id: string | null;
+  refunded_amount: number;
+  dispute_status: string | null;
+}
+
+export interface RefundOptions {
+  // In cents, defaults to everything not refunded yet
+  amount?: number;
+  // Give the claimer the platform fee back as well, taken from the platform
+  refundPlatformFee: boolean;
+  // Take the finder's share of the refund back from them
+  reverseTransfer: boolean;
+  reason?: string | null;
+  requestedBy: string;
+  requesterRole: RefundRequesterRole;
+}
+
+export class RefundError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+/**
+ * Load a payment for a refund
+ * @throws RefundError (404) when there is no such payment
+ */
+export const getRefundablePayment = async (
+  supabase: SupabaseClient,
+  paymentId: string
+): Promise<RefundablePaymentRow> => {
+  const { data, error } = await supabase
+    .from("payments")
+    .select(REFUND_PAYMENT_COLUMNS)
+    .eq("id", paymentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching payment: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new RefundError("Payment not found", 404);
+  }
+
+  return data as RefundablePaymentRow;
+};
+
+/**
+ * How much of a refund comes out of the finder's share. With the platform fee
+ * refunded both sides give back proportionally (like Stripe's reverse_transfer),
+ * otherwise the finder covers the refund up to their whole share.
+ * @param payment - The refunded payment
+ * @param amount - Amount refunded, in cents
+ * @param refundPlatformFee - Whether the platform fee is refunded as well
+ */
+export const getFinderRefundShare = (
+  payment: Pick<RefundablePaymentRow, "amount" | "transfer_amount">,
+  amount: number,
+  refundPlatformFee: boolean
+) => {
+  const finderShare = payment.transfer_amount || 0;
+
+  if (refundPlatformFee) {
+    return Math.min(
+      finderShare,
+      Math.round((amount * finderShare) / payment.amount)
+    );
+  }
+
+  return Math.min(finderShare, amount);
+};
+
+/**
+ * Refund a succeeded payment in full or in part. The chat message and the claim
+ * status are updated by the charge.refunded webhook, so refunds made from the
+ * Stripe dashboard are handled the same way.
+ * @param supabase - Admin Supabase client
+ * @param payment - The payment to refund
+ * @param options - Amount and who pays for the refund
+ * @throws RefundError (400/409) when the payment can't be refunded this way
+ */
+export const refundPayment = async (
+  supabase: SupabaseClient,
+  payment: RefundablePaymentRow,
+  options: RefundOptions
+) => {
+  if (
+    !["succeeded", "partially_refunded"].includes(payment.status) ||
+    !payment.stripe_payment_intent_id
+  ) {
+    throw new RefundError("Only succeeded payments can be refunded", 409);
+  }
+
+  // Stripe settles disputed charges through the dispute, not a refund
+  if (
+    payment.dispute_status &&
+    !CLOSED_DISPUTE_STATUSES.includes(payment.dispute_status)
+  ) {
+    throw new RefundError("The payment has an open dispute", 409);
+  }
+
+  const remaining = payment.amount - (payment.refunded_amount || 0);
+  const amount = options.amount ?? remaining;
+
+  if (remaining <= 0) {
+    throw new RefundError("The payment is already fully refunded", 409);
+  }
+
+  if (!Number.isInteger(amount) || amount <= 0 || amount > remaining) {
+    throw new RefundError(
+      `Amount must be a whole number of cents between 1 and ${remaining}`,
+      400
+    );
+  }
+
+  const escrow = payment.payout_mode === "escrow";
+  // Stripe always reverses destination transfers proportionally
+  const finderAmount = options.reverseTransfer
+    ? getFinderRefundShare(
+        payment,
+        amount,
+        options.refundPlatformFee || !escrow
+      )
+    : 0;
+  const fullRefund = amount === remaining;
+
+  // Stripe returns the same refund for a retry of the same request
+  const idempotencyKey = `refund-${payment.id}-${payment.refunded_amount || 0}-${amount}`;
+
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: payment.stripe_payment_intent_id,
+      amount,
+      // Destination charges pay the fee and the finder's share out in the charge itself
+      ...(escrow
+        ? {}
+        : {
+            refund_application_fee: options.refundPlatformFee,
+            reverse_transfer: options.reverseTransfer,
+          }),
+      metadata: {
+        claimId: payment.claim_id,
+        paymentId: payment.id,
+        requesterRole: options.requesterRole,
+      },
+    },
+    { idempotencyKey }
+  );
+
+  // Escrowed payouts are settled here: a released one is partly taken back,
+  // a held one simply shrinks
+  let reversalId: string | null = null;
+  let finderRefunded = escrow ? 0 : finderAmount;
+  const paymentUpdate: Record<string, unknown> = {};
+
+  if (escrow && finderAmount > 0) {
+    if (payment.escrow_status === "released" && payment.stripe_transfer_id) {
+      try {
+        const reversal = await stripe.transfers.createReversal(
+          payment.stripe_transfer_id,
+          {
+            amount: finderAmount,
+            metadata: { paymentId: payment.id, refundId: refund.id },
+          },
+          { idempotencyKey: `refund-reversal-${refund.id}` }
+        );
+        reversalId = reversal.id;
+      } catch (reversalError) {
+        // The claimer has their money back, an admin can reverse the transfer by hand
+        console.error(
+          `Error reversing transfer for refund ${refund.id}:`,
+          (reversalError as Error).message
+        );
+      }
+    }
+
+    if (payment.escrow_status === "held" || reversalId) {
+      finderRefunded = finderAmount;
+      paymentUpdate.transfer_amount =
+        (payment.transfer_amount || 0) - finderAmount;
+    }
+  }
+
+  if (escrow && fullRefund && payment.escrow_status === "held") {
+    paymentUpdate.escrow_status = "reversed";
+    paymentUpdate.reversed_at = new Date().toISOString();
+  }
+
+  // The webhook sets the same absolute values, whichever comes first
+  const { error: updateError } = await supabase
+    .from("payments")
+    .update({
+      ...paymentUpdate,
+      refunded_amount: (payment.refunded_amount || 0) + amount,
+      status: fullRefund ? "refunded" : "partially_refunded",
+      refunded_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", payment.id);
+
+  if (updateError) {
+    console.error("Error updating refunded payment:", updateError);
+  }
+
+  const { data: refundRecord, error: insertError } = await supabase
+    .from("payment_refunds")
+    .insert({
+      payment_id: payment.id,
+      stripe_refund_id: refund.id,
+      amount,
+      refund_platform_fee: options.refundPlatformFee,
+      reverse_transfer: options.reverseTransfer,
+      finder_amount: finderRefunded,
+      stripe_reversal_id: reversalId,
+      reason: options.reason || null,
+      requested_by: options.requestedBy,
+      requester_role: options.requesterRole,
+    })
+    .select("*")
+    .single();
+
+  if (insertError) {
+    throw new Error(`Error recording refund: ${insertError.message}`);
+  }
+
+  return refundRecord;
+};
+
+/**
+ * Record refunds of a charge that didn't go through the refund API, e.g. ones made
+ * from the Stripe dashboard, and take the finder's share out of a payout that is
+ * still held, like the refund API does. Each refund is only applied once.
+ * @param supabase - Admin Supabase client
+ * @param payment - The refunded payment
+ * @param chargeId - The refunded charge
+ */
+export const recordExternalRefunds = async (
+  supabase: SupabaseClient,
+  payment: RefundablePaymentRow,
+  chargeId: string
+) => {
+  const refunds = await stripe.refunds.list({ charge: chargeId, limit: 100 });
+  let transferAmount = payment.transfer_amount || 0;
+
+  for (const refund of refunds.data) {
+    // Refunds from the refund API carry the requester and are settled there
+    if (refund.metadata?.requesterRole) continue;
+    if (refund.status === "failed" || refund.status === "canceled") continue;
+
+    const held =
+      payment.payout_mode === "escrow" && payment.escrow_status === "held";
+    // Nothing says who pays for it, so both sides give back proportionally
+    const finderAmount = held
+      ? Math.min(
+          transferAmount,
+          getFinderRefundShare(payment, refund.amount, true)
+        )
+      : 0;
+
+    // The unique refund ID keeps a redelivered event from applying it twice
+    const { error: insertError } = await supabase
+      .from("payment_refunds")
+      .insert({
+        payment_id: payment.id,
+        stripe_refund_id: refund.id,
+        amount: refund.amount,
+        refund_platform_fee: true,
+        reverse_transfer: held,
+        finder_amount: finderAmount,
+        reason: refund.reason,
+        requester_role: "stripe",
+      });
+
+    if (insertError?.code === "23505") continue;
+    if (insertError) {
+      throw new Error(`Error recording refund: ${insertError.message}`);
+    }
+
+    if (finderAmount > 0) {
+      transferAmount -= finderAmount;
+
+      const { error: updateError } = await supabase
+        .from("payments")
+        .update({
+          transfer_amount: transferAmount,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", payment.id)
+        .eq("escrow_status", "held");
+
+      if (updateError) {
+        // Let the retry of the event apply the refund again
+        await supabase
+          .from("payment_refunds")
+          .delete()
+          .eq("stripe_refund_id", refund.id);
+        throw new Error(`Error lowering held payout: ${updateError.message}`);
+      }
+    }
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { renderPdf } from "@/lib/pdf-document";
+
+describe("renderPdf", () => {
+  it("writes a PDF whose cross-reference table points at its objects", () => {
+    const pdf = renderPdf([{ text: "Chat transcript", size: 16, bold: true }], {
+      title: "Transcript",
+    }).toString("latin1");
+
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.endsWith("%%EOF\n")).toBe(true);
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+    expect(pdf.slice(xrefOffset).startsWith("xref\n")).toBe(true);
+
+    const entries = pdf
+      .slice(xrefOffset)
+      .split("\n")
+      .filter((line) => / 00000 n $/.test(line));
+    expect(entries.length).toBeGreaterThan(0);
+    entries.forEach((entry, index) => {
+      expect(pdf.slice(Number(entry.slice(0, 10)))).toMatch(
+        new RegExp(`^${index + 1} 0 obj\n`)
+      );
+    });
+  });
+
+  it("stores the title and escapes PDF string delimiters", () => {
+    const pdf = renderPdf([{ text: "Keys (house) \\ car" }], {
+      title: "Claim (1)",
+    }).toString("latin1");
+
+    expect(pdf).toContain("/Title (Claim \\(1\\))");
+    expect(pdf).toContain("(Keys \\(house\\) \\\\ car) Tj");
+  });
+
+  it("replaces characters the standard fonts can't show", () => {
+    const pdf = renderPdf([{ text: "Wallet 👛 – 20 €" }], {
+      title: "Transcript",
+    });
+
+    expect(pdf.toString("latin1")).toContain("(Wallet ? \x96 20 \x80) Tj");
+  });
+
+  it("breaks long documents into numbered pages", () => {
+    const blocks = Array.from({ length: 200 }, (_, index) => ({
+      text: `Message ${index + 1}`,
+    }));
+    const pdf = renderPdf(blocks, {
+      title: "Transcript",
+      footer: "Claim 1",
+    }).toString("latin1");
+
+    const pageCount = Number(pdf.match(/\/Count (\d+)/)![1]);
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf).toContain(`Page ${pageCount} of ${pageCount}`);
+    expect(pdf).toContain("Message 200");
+  });
+});
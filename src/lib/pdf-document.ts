@@ -0,0 +1,203 @@
+// Minimal PDF writer for text documents such as chat transcripts. Uses the
+// standard Helvetica fonts, so no font files are embedded.
+
+export interface PdfBlock {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Gray level from 0 (black) to 1 (white)
+  gray?: number;
+  indent?: number;
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+const DEFAULT_SIZE = 10;
+const LINE_HEIGHT = 1.35;
+
+// Average glyph width of Helvetica relative to the font size, a little generous so
+// lines never run past the margin
+const CHAR_WIDTH = 0.53;
+const BOLD_CHAR_WIDTH = 0.57;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+/**
+ * Convert text to WinAnsi bytes (as a latin1 string) and escape it for a PDF string
+ */
+const encodeText = (text: string) =>
+  Array.from(text)
+    .map((char) => {
+      const code = char.codePointAt(0)!;
+      if (WIN_ANSI_EXTRAS[char])
+        return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      if (code === 0x09) return " ";
+      if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+        return char;
+      }
+      return "?";
+    })
+    .join("")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+/**
+ * Break a paragraph into lines that fit the given width
+ */
+const wrapText = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      // Words longer than a line, e.g. URLs and signatures, are cut
+      let rest = word;
+      while (rest.length > maxChars) {
+        if (line) {
+          lines.push(line);
+          line = "";
+        }
+        lines.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+
+      if (!line) {
+        line = rest;
+      } else if (line.length + 1 + rest.length <= maxChars) {
+        line = `${line} ${rest}`;
+      } else {
+        lines.push(line);
+        line = rest;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+/**
+ * Lay out text blocks on A4 pages and write them as a PDF file
+ * @param blocks - Paragraphs in reading order
+ * @param options.title - Document title stored in the PDF metadata
+ * @param options.footer - Text printed at the bottom of every page, next to the page number
+ */
+export const renderPdf = (
+  blocks: PdfBlock[],
+  options: { title: string; footer?: string }
+): Buffer => {
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+  const bottom = MARGIN + FOOTER_SIZE * 3;
+
+  // Each page is a list of drawing operators
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const size = block.size || DEFAULT_SIZE;
+    const indent = block.indent || 0;
+    const lineHeight = size * LINE_HEIGHT;
+    const maxChars = Math.max(
+      10,
+      Math.floor(
+        (contentWidth - indent) /
+          (size * (block.bold ? BOLD_CHAR_WIDTH : CHAR_WIDTH))
+      )
+    );
+
+    y -= block.spaceBefore || 0;
+
+    for (const line of wrapText(block.text, maxChars)) {
+      if (y - lineHeight < bottom) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+
+      if (line) {
+        pages[pages.length - 1].push(
+          `BT /${block.bold ? "F2" : "F1"} ${size} Tf ${block.gray ?? 0} g ${
+            MARGIN + indent
+          } ${y.toFixed(2)} Td (${encodeText(line)}) Tj ET`
+        );
+      }
+    }
+  }
+
+  // Objects 1-4 are fixed, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((operators, index) => {
+    const footer = `${options.footer ? `${options.footer} · ` : ""}Page ${
+      index + 1
+    } of ${pages.length}`;
+    const stream = [
+      ...operators,
+      `BT /F1 ${FOOTER_SIZE} Tf 0.4 g ${MARGIN} ${MARGIN} Td (${encodeText(
+        footer
+      )}) Tj ET`,
+    ].join("\n");
+
+    objects[pageIds[index]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+        pageIds[index] + 1
+      } 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(
+      stream,
+      "latin1"
+    )} >>\nstream\n${stream}\nendstream`;
+  });
+
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title (${encodeText(
+    options.title
+  )}) /Producer (IFound4U) /CreationDate (D:${new Date()
+    .toISOString()
+    .replace(/[-:T]/g, "")
+    .slice(0, 14)}Z) >>`;
+
+  // Byte offsets of every object for the cross-reference table
+  let pdf = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, "latin1");
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${offsets[id].toString().padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
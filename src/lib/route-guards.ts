@@ -0,0 +1,184 @@
+// Only import from route handlers: the guards hand out the service role client.
+
+import type { User } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { createAdminClient, createClient } from "@/lib/server";
+
+export type ClaimParticipantRole = "owner" | "claimer";
+
+// Comma separated list of emails with admin access, on top of users whose
+// app_metadata.role is "admin" (only settable with the service role)
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+export class RouteGuardError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RouteGuardError";
+  }
+
+  toResponse() {
+    return NextResponse.json({ error: this.message }, { status: this.status });
+  }
+}
+
+/**
+ * Get the signed-in user from the session cookies, if any.
+ * Identity always comes from the session, never from the request body.
+ * @returns The user (or null) with a user-scoped and an admin client
+ */
+export async function getSessionUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  return { user, supabase, admin: createAdminClient() };
+}
+
+/**
+ * Require a signed-in user
+ * @throws RouteGuardError (401) when there is no session
+ */
+export async function requireUser() {
+  const { user, supabase, admin } = await getSessionUser();
+
+  if (!user) {
+    throw new RouteGuardError("Unauthorized", 401);
+  }
+
+  return { user, supabase, admin };
+}
+
+/**
+ * Require a signed-in admin
+ * @throws RouteGuardError (401/403) when the user isn't an admin
+ */
+export async function requireAdmin() {
+  const context = await requireUser();
+
+  if (!isAdmin(context.user)) {
+    throw new RouteGuardError("Forbidden", 403);
+  }
+
+  return context;
+}
+
+export const isAdmin = (user: User) =>
+  user.app_metadata?.role === "admin" ||
+  (!!user.email && ADMIN_EMAILS.includes(user.email.toLowerCase()));
+
+/**
+ * Require the signed-in user to be the item owner or the claimer of a chat room
+ * @param chatRoomId - Chat room of the claim
+ * @throws RouteGuardError (401/403/404)
+ */
+export async function requireClaimParticipant(chatRoomId: string) {
+  return requireParticipant("chat_room_id", chatRoomId);
+}
+
+/**
+ * Same as requireClaimParticipant, for routes addressing the claim by its ID
+ * @param claimId - ID of the claim
+ */
+export async function requireClaimParticipantById(claimId: string) {
+  return requireParticipant("id", claimId);
+}
+
+/**
+ * Require the signed-in user to be a participant of a claim or an admin,
+ * e.g. for records admins need when handling a dispute
+ * @param claimId - ID of the claim
+ * @returns The claim, with role "admin" for admins who aren't a participant
+ * @throws RouteGuardError (401/403/404)
+ */
+export async function requireClaimParticipantOrAdmin(claimId: string) {
+  const { role, ...rest } = await loadParticipant("id", claimId);
+
+  if (role) {
+    return { ...rest, role };
+  }
+
+  if (!isAdmin(rest.user)) {
+    throw new RouteGuardError("You are not a participant of this claim", 403);
+  }
+
+  return { ...rest, role: "admin" as const };
+}
+
+async function requireParticipant(
+  column: "id" | "chat_room_id",
+  value: string
+) {
+  const { role, ...rest } = await loadParticipant(column, value);
+
+  if (!role) {
+    throw new RouteGuardError("You are not a participant of this claim", 403);
+  }
+
+  return { ...rest, role };
+}
+
+async function loadParticipant(column: "id" | "chat_room_id", value: string) {
+  const context = await requireUser();
+  const { user, admin } = context;
+
+  const { data: claim } = await admin
+    .from("item_claims")
+    .select(
+      "id, item_id, user_id, claimer_name, claimer_email, chat_room_id, status, item:items (id, user_id, title)"
+    )
+    .eq(column, value)
+    .maybeSingle();
+
+  const item = claim?.item as unknown as {
+    id: string;
+    user_id: string | null;
+    title: string;
+  } | null;
+
+  if (!claim || !item) {
+    throw new RouteGuardError("Claim not found", 404);
+  }
+
+  // The item owner decides on the claim; claimers may have claimed as a guest with the same email
+  let role: ClaimParticipantRole | null = null;
+  if (item.user_id === user.id) {
+    role = "owner";
+  } else if (
+    claim.user_id === user.id ||
+    (!!user.email &&
+      claim.claimer_email?.toLowerCase() === user.email.toLowerCase())
+  ) {
+    role = "claimer";
+  }
+
+  return { ...context, claim: { ...claim, item }, role };
+}
+
+/**
+ * Require the signed-in user to own an item
+ * @param itemId - ID of the item
+ * @throws RouteGuardError (401/403/404)
+ */
+export async function requireItemOwner(itemId: string) {
+  const context = await requireUser();
+
+  const { data: item } = await context.admin
+    .from("items")
+    .select("id, user_id, type, title, status")
+    .eq("id", itemId)
+    .maybeSingle();
+
+  if (!item) {
+    throw new RouteGuardError("Item not found", 404);
+  }
+
+  if (item.user_id !== context.user.id) {
+    throw new RouteGuardError("Forbidden", 403);
+  }
+
+  return { ...context, item };
+}
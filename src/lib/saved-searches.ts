@@ -0,0 +1,115 @@
+import { getCategoryLabel } from "./item-categories";
+
+export interface SavedSearchFilters {
+  type: "lost" | "found" | null;
+  categories: string[];
+  location: {
+    latitude: number;
+    longitude: number;
+    radiusKm: number;
+  } | null;
+  dateFrom: string | null; // YYYY-MM-DD
+  dateTo: string | null; // YYYY-MM-DD
+  query: string | null;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  isActive: boolean;
+  lastNotifiedAt: string | null;
+  createdAt: string;
+  filters: SavedSearchFilters;
+}
+
+export interface SavedSearchRow {
+  id: string;
+  name: string;
+  type: "lost" | "found" | null;
+  categories: string[] | null;
+  latitude: number | null;
+  longitude: number | null;
+  radius_km: number | null;
+  date_from: string | null;
+  date_to: string | null;
+  query: string | null;
+  is_active: boolean;
+  last_notified_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Map the ItemsList filter state to saved_searches columns
+ * @param filters - Filters to save
+ */
+export const toSavedSearchColumns = (filters: SavedSearchFilters) => ({
+  type: filters.type,
+  categories: filters.categories,
+  latitude: filters.location?.latitude ?? null,
+  longitude: filters.location?.longitude ?? null,
+  radius_km: filters.location?.radiusKm ?? null,
+  date_from: filters.dateFrom,
+  date_to: filters.dateTo,
+  query: filters.query?.trim() || null,
+});
+
+/**
+ * Map a saved_searches row to the shape used by the UI
+ * @param row - Row from the saved_searches table
+ */
+export const fromSavedSearchRow = (row: SavedSearchRow): SavedSearch => ({
+  id: row.id,
+  name: row.name,
+  isActive: row.is_active,
+  lastNotifiedAt: row.last_notified_at,
+  createdAt: row.created_at,
+  filters: {
+    type: row.type,
+    categories: row.categories || [],
+    location:
+      row.latitude !== null && row.longitude !== null && row.radius_km !== null
+        ? {
+            latitude: row.latitude,
+            longitude: row.longitude,
+            radiusKm: row.radius_km,
+          }
+        : null,
+    dateFrom: row.date_from,
+    dateTo: row.date_to,
+    query: row.query,
+  },
+});
+
+/**
+ * Short human readable summary of saved search filters, e.g. for emails and lists
+ * @param filters - Saved search filters
+ * @returns Summary parts such as "Lost items", "Keys", "Within 5 km"
+ */
+export const describeSavedSearch = (filters: SavedSearchFilters): string[] => {
+  const parts: string[] = [];
+
+  parts.push(
+    filters.type === "lost"
+      ? "Lost items"
+      : filters.type === "found"
+      ? "Found items"
+      : "All items"
+  );
+
+  if (filters.categories.length > 0) {
+    parts.push(filters.categories.map(getCategoryLabel).join(", "));
+  }
+  if (filters.query) {
+    parts.push(`"${filters.query}"`);
+  }
+  if (filters.location) {
+    parts.push(`Within ${filters.location.radiusKm} km`);
+  }
+  if (filters.dateFrom || filters.dateTo) {
+    parts.push(
+      `${filters.dateFrom || "any date"} to ${filters.dateTo || "today"}`
+    );
+  }
+
+  return parts;
+};
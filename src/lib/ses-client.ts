@@ -1,8 +1,9 @@
-"use server";
+// Only import from route handlers: this is not a "use server" file, so none of
+// these helpers are exposed to the browser as server actions.
 
 import { SESClient, SendEmailCommand } from "@aws-sdk/client-ses";
 import crypto from "crypto";
-import { createClient } from "./server";
+import { createAdminClient } from "./server";
 
 // Create SES client with better error handling for missing credentials
 const ses = new SESClient({
@@ -36,7 +37,7 @@ interface VerificationData {
  * database table. This function will create the table if it doesn't exist.
  */
 async function ensureVerificationTable() {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   // Check if the verification_codes table exists
   const { error } = await supabase
@@ -58,9 +59,53 @@ async function ensureVerificationTable() {
   }
 }
 
+interface EmailOptions {
+  to: string | string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Send a transactional email through SES
+ * @param options - Recipient(s), subject and HTML/text bodies
+ * @returns Result object with success flag and message
+ */
+export async function sendEmail({ to, subject, html, text }: EmailOptions) {
+  const recipients = (Array.isArray(to) ? to : [to]).filter(
+    (email) => email && email.includes("@")
+  );
+
+  if (recipients.length === 0) {
+    return { success: false, message: "No valid recipients" };
+  }
+
+  try {
+    const command = new SendEmailCommand({
+      Source: SENDER_EMAIL,
+      Destination: {
+        ToAddresses: recipients,
+      },
+      Message: {
+        Subject: { Data: subject, Charset: "UTF-8" },
+        Body: {
+          Html: { Data: html, Charset: "UTF-8" },
+          Text: { Data: text, Charset: "UTF-8" },
+        },
+      },
+    });
+    await ses.send(command);
+
+    return { success: true, message: "Email sent" };
+  } catch (sesError) {
+    console.error("SES error sending email:", sesError);
+    return { success: false, message: "Failed to send email" };
+  }
+}
+
 export async function sendVerificationEmail(email: string, itemId: string) {
   try {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     // Generate a unique verification code
     const verificationCode = crypto.randomBytes(32).toString("hex");
@@ -203,7 +248,7 @@ export async function sendVerificationEmail(email: string, itemId: string) {
 
 export async function verifyEmailCode(code: string) {
   try {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     // Get the verification code from the database
     const { data: verification, error: fetchError } = await supabase
@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Stripe } from "stripe";
+import { processStripeEvent } from "@/lib/stripe-events";
+import { handleStripeEvent } from "@/lib/stripe-webhook-handlers";
+import { createSupabaseMock } from "@/test/supabase-mock";
+
+vi.mock("@/lib/stripe-webhook-handlers", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/stripe-webhook-handlers")>()),
+  handleStripeEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/stripe", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/stripe")>()),
+  stripe: { refunds: { list: vi.fn(async () => ({ data: [] })) } },
+}));
+
+const handler = vi.mocked(handleStripeEvent);
+
+const createEvent = (
+  id: string,
+  created: number,
+  type = "payment_intent.succeeded",
+  object: Record<string, unknown> = { id: "pi_1" }
+) =>
+  ({
+    id,
+    type,
+    created,
+    livemode: false,
+    data: { object },
+  }) as unknown as Stripe.Event;
+
+describe("processStripeEvent", () => {
+  let mock: ReturnType<typeof createSupabaseMock>;
+
+  beforeEach(() => {
+    handler.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mock = createSupabaseMock({
+      stripe_events: { status: "pending", attempts: 0 },
+    });
+  });
+
+  it("records and processes a new event", async () => {
+    const event = createEvent("evt_1", 1_700_000_000);
+
+    await expect(processStripeEvent(mock.supabase, event)).resolves.toEqual({
+      status: "processed",
+      duplicate: false,
+      error: null,
+    });
+    expect(handler).toHaveBeenCalledWith(mock.supabase, event);
+    expect(mock.tables.stripe_events[0]).toMatchObject({
+      id: "evt_1",
+      object_id: "pi_1",
+      status: "processed",
+      attempts: 1,
+    });
+  });
+
+  it("handles a redelivered event only once", async () => {
+    const event = createEvent("evt_1", 1_700_000_000);
+
+    await processStripeEvent(mock.supabase, event);
+    await expect(processStripeEvent(mock.supabase, event)).resolves.toEqual({
+      status: "processed",
+      duplicate: true,
+      error: null,
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(mock.tables.stripe_events).toHaveLength(1);
+  });
+
+  it("leaves an event another delivery is processing", async () => {
+    mock.tables.stripe_events = [
+      {
+        id: "evt_1",
+        status: "processing",
+        attempts: 1,
+        last_attempt_at: new Date().toISOString(),
+      },
+    ];
+
+    const result = await processStripeEvent(
+      mock.supabase,
+      createEvent("evt_1", 1_700_000_000)
+    );
+
+    expect(result).toMatchObject({ status: "processing", duplicate: true });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("records a failure and retries the event on redelivery", async () => {
+    const event = createEvent("evt_1", 1_700_000_000);
+    handler.mockRejectedValueOnce(new Error("Payment not found"));
+
+    await expect(processStripeEvent(mock.supabase, event)).resolves.toEqual({
+      status: "failed",
+      duplicate: false,
+      error: "Payment not found",
+    });
+    expect(mock.tables.stripe_events[0]).toMatchObject({
+      status: "failed",
+      last_error: "Payment not found",
+      processed_at: null,
+    });
+
+    const retry = await processStripeEvent(mock.supabase, event, {
+      replayedBy: "admin-1",
+    });
+
+    expect(retry.status).toBe("processed");
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(mock.tables.stripe_events[0]).toMatchObject({
+      attempts: 2,
+      last_error: null,
+      replayed_by: "admin-1",
+    });
+  });
+
+  it("skips an event older than one already applied to the same object", async () => {
+    await processStripeEvent(mock.supabase, createEvent("evt_new", 200));
+
+    const result = await processStripeEvent(
+      mock.supabase,
+      createEvent("evt_old", 100)
+    );
+
+    expect(result).toEqual({
+      status: "skipped",
+      duplicate: false,
+      error: null,
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(
+      mock.tables.stripe_events.find((row) => row.id === "evt_old")
+    ).toMatchObject({ status: "skipped", last_error: "Superseded by evt_new" });
+  });
+
+  it("skips event types it doesn't handle", async () => {
+    const result = await processStripeEvent(
+      mock.supabase,
+      createEvent("evt_1", 100, "charge.updated", { id: "ch_1" })
+    );
+
+    expect(result).toEqual({
+      status: "skipped",
+      duplicate: false,
+      error: null,
+    });
+    expect(handler).not.toHaveBeenCalled();
+    expect(mock.tables.stripe_events[0]).toMatchObject({
+      status: "skipped",
+      last_error: "Not handled",
+    });
+  });
+
+  it("doesn't let an unhandled event supersede a handled one", async () => {
+    // Stored as processed before unhandled types were skipped
+    mock.tables.stripe_events = [
+      {
+        id: "evt_old_update",
+        type: "charge.updated",
+        object_id: "ch_1",
+        stripe_created_at: new Date(300 * 1000).toISOString(),
+        status: "processed",
+      },
+    ];
+
+    await processStripeEvent(
+      mock.supabase,
+      createEvent("evt_update", 200, "charge.updated", { id: "ch_1" })
+    );
+    const result = await processStripeEvent(
+      mock.supabase,
+      createEvent("evt_refund", 100, "charge.refunded", { id: "ch_1" })
+    );
+
+    expect(result.status).toBe("processed");
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't let a late payment success undo a refund of its charge", async () => {
+    // Charges and payment intents are different objects, their events aren't
+    // compared with each other
+    const actual = await vi.importActual<
+      typeof import("@/lib/stripe-webhook-handlers")
+    >("@/lib/stripe-webhook-handlers");
+    handler.mockImplementation(actual.handleStripeEvent);
+
+    mock.tables.item_claims = [
+      {
+        id: "claim-1",
+        item_id: "item-1",
+        chat_room_id: "room-1",
+        status: "accepted",
+      },
+    ];
+    mock.tables.items = [{ id: "item-1" }];
+    mock.tables.payments = [
+      {
+        id: "payment-1",
+        claim_id: "claim-1",
+        stripe_payment_intent_id: "pi_1",
+        payout_mode: "escrow",
+        amount: 1500,
+        status: "requires_payment_method",
+      },
+    ];
+
+    const refund = await processStripeEvent(
+      mock.supabase,
+      createEvent("evt_refund", 200, "charge.refunded", {
+        id: "ch_1",
+        payment_intent: "pi_1",
+        amount_refunded: 1500,
+        refunded: true,
+        currency: "eur",
+      })
+    );
+    const result = await processStripeEvent(
+      mock.supabase,
+      createEvent("evt_success", 100, "payment_intent.succeeded", {
+        id: "pi_1",
+        amount: 1500,
+        currency: "eur",
+        latest_charge: "ch_1",
+        metadata: { claimId: "claim-1", payoutMode: "escrow" },
+      })
+    );
+
+    expect(refund.status).toBe("processed");
+    expect(result.status).toBe("processed");
+    expect(mock.tables.payments[0]).toMatchObject({ status: "refunded" });
+    expect(mock.tables.payments[0].escrow_status ?? null).toBeNull();
+    expect(mock.tables.item_claims[0].status).toBe("accepted");
+  });
+});
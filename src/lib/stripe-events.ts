@@ -0,0 +1,201 @@
+// Only import from route handlers: the log of processed Stripe webhook events.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Stripe } from "stripe";
+import {
+  HANDLED_STRIPE_EVENT_TYPES,
+  handleStripeEvent,
+} from "@/lib/stripe-webhook-handlers";
+
+export type StripeEventStatus =
+  "pending" | "processing" | "processed" | "failed" | "skipped";
+
+export const STRIPE_EVENT_STATUSES: StripeEventStatus[] = [
+  "pending",
+  "processing",
+  "processed",
+  "failed",
+  "skipped",
+];
+
+// An attempt that hasn't finished after this long is assumed to have crashed
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const STRIPE_EVENT_COLUMNS =
+  "id, type, object_id, stripe_created_at, livemode, status, attempts, last_error, last_attempt_at, processed_at, replayed_by, replayed_at, received_at";
+
+export interface StripeEventResult {
+  status: StripeEventStatus;
+  // Already handled, or being handled by another delivery
+  duplicate: boolean;
+  error: string | null;
+}
+
+const getObjectId = (event: Stripe.Event) => {
+  const object = event.data.object as { id?: string };
+  return object.id || null;
+};
+
+/**
+ * Store a verified event, unless it was received before
+ * @param supabase - Admin Supabase client
+ * @param event - The verified event
+ */
+export const recordStripeEvent = async (
+  supabase: SupabaseClient,
+  event: Stripe.Event
+) => {
+  const { error } = await supabase.from("stripe_events").insert({
+    id: event.id,
+    type: event.type,
+    object_id: getObjectId(event),
+    stripe_created_at: new Date(event.created * 1000).toISOString(),
+    livemode: event.livemode,
+    payload: event,
+  });
+
+  // Redelivered by Stripe
+  if (error && error.code !== "23505") {
+    throw new Error(`Error recording Stripe event: ${error.message}`);
+  }
+};
+
+/**
+ * Find a processed event about the same object that Stripe created after this one.
+ * Stripe doesn't guarantee the delivery order, applying the older event then
+ * would undo the newer state. Only handled types count, an ignored event
+ * (e.g. charge.updated) changed nothing.
+ * @param supabase - Admin Supabase client
+ * @param event - The event about to be processed
+ * @returns ID of the newer event, or null
+ */
+const findNewerProcessedEvent = async (
+  supabase: SupabaseClient,
+  event: Stripe.Event
+) => {
+  const objectId = getObjectId(event);
+  if (!objectId) return null;
+
+  const { data, error } = await supabase
+    .from("stripe_events")
+    .select("id")
+    .eq("object_id", objectId)
+    .eq("status", "processed")
+    .in("type", HANDLED_STRIPE_EVENT_TYPES)
+    .gt("stripe_created_at", new Date(event.created * 1000).toISOString())
+    .neq("id", event.id)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Error checking newer Stripe events: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? (data[0].id as string) : null;
+};
+
+const finishStripeEvent = async (
+  supabase: SupabaseClient,
+  eventId: string,
+  status: StripeEventStatus,
+  lastError: string | null
+) => {
+  const { error } = await supabase
+    .from("stripe_events")
+    .update({
+      status,
+      last_error: lastError,
+      processed_at: status === "failed" ? null : new Date().toISOString(),
+    })
+    .eq("id", eventId);
+
+  if (error) {
+    console.error(`Error updating Stripe event ${eventId}:`, error);
+  }
+};
+
+/**
+ * Process a verified event exactly once: record it, skip it when it was handled
+ * before or is older than what was already applied, and store the outcome.
+ * Failed events are retried when Stripe redelivers them or an admin replays them.
+ * @param supabase - Admin Supabase client
+ * @param event - The verified event, from the webhook or the stored payload
+ * @param options.replayedBy - ID of the admin replaying the event
+ */
+export const processStripeEvent = async (
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  options: { replayedBy?: string } = {}
+): Promise<StripeEventResult> => {
+  await recordStripeEvent(supabase, event);
+
+  const { data: row, error } = await supabase
+    .from("stripe_events")
+    .select("status, attempts, last_attempt_at")
+    .eq("id", event.id)
+    .single();
+
+  if (error) {
+    throw new Error(`Error fetching Stripe event: ${error.message}`);
+  }
+
+  const status = row.status as StripeEventStatus;
+  const inProgress =
+    status === "processing" &&
+    !!row.last_attempt_at &&
+    Date.now() - new Date(row.last_attempt_at).getTime() <
+      PROCESSING_TIMEOUT_MS;
+
+  if (status === "processed" || status === "skipped" || inProgress) {
+    return { status, duplicate: true, error: null };
+  }
+
+  // The attempt counter doubles as a lock, only one delivery gets to process
+  const { data: claimed, error: claimError } = await supabase
+    .from("stripe_events")
+    .update({
+      status: "processing",
+      attempts: row.attempts + 1,
+      last_attempt_at: new Date().toISOString(),
+      ...(options.replayedBy
+        ? {
+            replayed_by: options.replayedBy,
+            replayed_at: new Date().toISOString(),
+          }
+        : {}),
+    })
+    .eq("id", event.id)
+    .eq("attempts", row.attempts)
+    .select("id");
+
+  if (claimError) {
+    throw new Error(`Error claiming Stripe event: ${claimError.message}`);
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return { status: "processing", duplicate: true, error: null };
+  }
+
+  if (!HANDLED_STRIPE_EVENT_TYPES.includes(event.type)) {
+    await finishStripeEvent(supabase, event.id, "skipped", "Not handled");
+    return { status: "skipped", duplicate: false, error: null };
+  }
+
+  const newerEventId = await findNewerProcessedEvent(supabase, event);
+  if (newerEventId) {
+    const reason = `Superseded by ${newerEventId}`;
+    await finishStripeEvent(supabase, event.id, "skipped", reason);
+    return { status: "skipped", duplicate: false, error: null };
+  }
+
+  try {
+    await handleStripeEvent(supabase, event);
+  } catch (handlerError) {
+    const message = (handlerError as Error).message;
+    console.error(`Error processing Stripe event ${event.id}:`, handlerError);
+    await finishStripeEvent(supabase, event.id, "failed", message);
+    return { status: "failed", duplicate: false, error: message };
+  }
+
+  await finishStripeEvent(supabase, event.id, "processed", null);
+  return { status: "processed", duplicate: false, error: null };
+};
@@ -0,0 +1,486 @@
+// Only import from route handlers: applies Stripe webhook events to the database.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Stripe } from "stripe";
+import {
+  ClaimTransitionError,
+  transitionClaim,
+} from "@/lib/claim-state-machine";
+import {
+  type ChatSystemEvent,
+  postSystemMessage,
+} from "@/lib/chat-system-messages";
+import {
+  getEscrowPayment,
+  holdEscrowFunds,
+  setEscrowHold,
+} from "@/lib/payment-escrow";
+import {
+  getRefundablePayment,
+  recordExternalRefunds,
+} from "@/lib/payment-refunds";
+
+// Charges and disputes reference their payment intent either by ID or expanded
+const getPaymentIntentId = (
+  paymentIntent: string | Stripe.PaymentIntent | null
+) =>
+  typeof paymentIntent === "string" ? paymentIntent : paymentIntent?.id || null;
+
+// Event types handleStripeEvent applies, others are received but ignored
+export const HANDLED_STRIPE_EVENT_TYPES: Stripe.Event.Type[] = [
+  "account.updated",
+  "payment_intent.succeeded",
+  "payment_intent.payment_failed",
+  "payment_intent.canceled",
+  "charge.refunded",
+  "charge.dispute.created",
+  "charge.dispute.closed",
+];
+
+// A refund is applied to the charge, which Stripe orders apart from its payment
+// intent, so these can be stored before a late payment_intent.succeeded arrives
+const REFUNDED_PAYMENT_STATUSES = ["refunded", "partially_refunded"];
+
+// Transitions that are no longer possible are expected for redelivered and late events,
+// anything else is a failure worth retrying
+const rethrowUnexpectedClaimError = (error: unknown) => {
+  if (!(error instanceof ClaimTransitionError) || error.status >= 500) {
+    throw error;
+  }
+};
+
+/**
+ * Apply a verified Stripe event. Events of other types are ignored.
+ * @param supabase - Admin Supabase client
+ * @param event - The event, as received by the webhook or stored in stripe_events
+ * @throws Error when a database update fails, so the event is retried
+ */
+export const handleStripeEvent = async (
+  supabase: SupabaseClient,
+  event: Stripe.Event
+) => {
+  switch (event.type) {
+    // Handle account updates
+    case "account.updated": {
+      const account = event.data.object as Stripe.Account;
+
+      // Check if the account is fully onboarded
+      if (
+        account.charges_enabled &&
+        account.details_submitted &&
+        account.payouts_enabled
+      ) {
+        // Update user's payment account status using correct column names
+        const { error } = await supabase
+          .from("user_payment_accounts")
+          .update({
+            account_enabled: true,
+            is_onboarded: true,
+            onboarding_complete_date: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("stripe_account_id", account.id);
+
+        if (error) {
+          throw new Error(`Error updating account status: ${error.message}`);
+        }
+
+        console.log(`Account ${account.id} is fully onboarded.`);
+      }
+      break;
+    }
+
+    // Handle payment intent succeeded
+    case "payment_intent.succeeded": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+      console.log(`Payment succeeded with metadata:`, paymentIntent.metadata);
+
+      // Check for claimId in metadata (case insensitive check)
+      const claimId =
+        paymentIntent.metadata.claimId ||
+        paymentIntent.metadata.claimid ||
+        paymentIntent.metadata.CLAIMID;
+
+      // Update payment status in our database
+      if (claimId) {
+        const { data: updated, error: paymentError } = await supabase
+          .from("payments")
+          .update({
+            status: "succeeded",
+            updated_at: new Date().toISOString(),
+          })
+          .eq("stripe_payment_intent_id", paymentIntent.id)
+          .not("status", "in", `(${REFUNDED_PAYMENT_STATUSES.join(",")})`)
+          .select("id");
+
+        if (paymentError) {
+          throw new Error(
+            `Error updating payment status: ${paymentError.message}`
+          );
+        }
+
+        // Already refunded: holding the funds or marking the claim as paid
+        // would undo the refund
+        if (!updated || updated.length === 0) {
+          const { data: refunded, error: refundedError } = await supabase
+            .from("payments")
+            .select("id")
+            .eq("stripe_payment_intent_id", paymentIntent.id)
+            .maybeSingle();
+
+          if (refundedError) {
+            throw new Error(`Error fetching payment: ${refundedError.message}`);
+          }
+
+          if (refunded) {
+            console.log(
+              `Payment ${paymentIntent.id} was refunded before it succeeded, nothing to apply.`
+            );
+            break;
+          }
+        }
+
+        // Escrowed funds stay on the platform until the delivery is confirmed
+        const escrow = paymentIntent.metadata.payoutMode === "escrow";
+        if (escrow) {
+          await holdEscrowFunds(supabase, paymentIntent);
+        }
+
+        // Move the claim to "paid" through the claim state machine
+        try {
+          await transitionClaim(supabase, {
+            claimId,
+            to: "paid",
+            actorId: null,
+            actorRole: "system",
+            reason: "Shipping payment received",
+            systemEvent: {
+              type: "payment_succeeded",
+              payload: {
+                amount: paymentIntent.amount,
+                currency: paymentIntent.currency,
+                escrow,
+              },
+            },
+          });
+          console.log(`Payment for claim ${claimId} succeeded.`);
+        } catch (claimError) {
+          rethrowUnexpectedClaimError(claimError);
+          console.error(
+            `Error updating claim status: ${(claimError as Error).message}`
+          );
+        }
+      } else {
+        console.error(
+          "Payment succeeded but no claimId found in metadata:",
+          paymentIntent.metadata
+        );
+      }
+      break;
+    }
+
+    // Handle payment intent failed
+    case "payment_intent.payment_failed": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+      // Check for claimId in metadata (case insensitive check)
+      const claimId =
+        paymentIntent.metadata.claimId ||
+        paymentIntent.metadata.claimid ||
+        paymentIntent.metadata.CLAIMID;
+
+      // Update payment status in our database
+      if (claimId) {
+        const { error } = await supabase
+          .from("payments")
+          .update({
+            status: "failed",
+            updated_at: new Date().toISOString(),
+          })
+          .eq("stripe_payment_intent_id", paymentIntent.id);
+
+        if (error) {
+          throw new Error(
+            `Error updating failed payment status: ${error.message}`
+          );
+        }
+
+        console.log(`Payment for claim ${claimId} failed.`);
+
+        // Let the claimer know in the chat, so they can try again from there
+        await postSystemMessage(
+          supabase,
+          { claimId },
+          {
+            type: "payment_failed",
+            payload: {
+              amount: paymentIntent.amount,
+              currency: paymentIntent.currency,
+              errorMessage: paymentIntent.last_payment_error?.message || null,
+            },
+          }
+        );
+      } else {
+        console.error(
+          "Payment failed but no claimId found in metadata:",
+          paymentIntent.metadata
+        );
+      }
+      break;
+    }
+
+    // Handle payment intent canceled, e.g. an abandoned checkout
+    case "payment_intent.canceled": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+      const { data: payment, error } = await supabase
+        .from("payments")
+        .update({
+          status: "canceled",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("stripe_payment_intent_id", paymentIntent.id)
+        .select("claim_id")
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(
+          `Error updating canceled payment status: ${error.message}`
+        );
+      }
+
+      // The claim never got past "accepted", the claimer can start a new payment
+      if (payment) {
+        await postSystemMessage(
+          supabase,
+          { claimId: payment.claim_id },
+          {
+            type: "payment_canceled",
+            payload: {
+              amount: paymentIntent.amount,
+              currency: paymentIntent.currency,
+            },
+          }
+        );
+      }
+      break;
+    }
+
+    // Handle refunds, whether made through the refund API or the Stripe dashboard
+    case "charge.refunded": {
+      const charge = event.data.object as Stripe.Charge;
+      const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+
+      const { data: payment, error: paymentError } = await supabase
+        .from("payments")
+        .update({
+          refunded_amount: charge.amount_refunded,
+          status: charge.refunded ? "refunded" : "partially_refunded",
+          refunded_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("stripe_payment_intent_id", paymentIntentId)
+        .select("id, claim_id")
+        .maybeSingle();
+
+      if (paymentError) {
+        throw new Error(
+          `Error updating refunded payment: ${paymentError.message}`
+        );
+      }
+
+      if (!payment) {
+        console.error(`No payment found for refunded charge ${charge.id}`);
+        break;
+      }
+
+      // Refunds made outside the refund API still lower a held payout
+      await recordExternalRefunds(
+        supabase,
+        await getRefundablePayment(supabase, payment.id),
+        charge.id
+      );
+
+      if (charge.refunded) {
+        // Nothing is left to pay the finder from held funds
+        const { error: escrowError } = await supabase
+          .from("payments")
+          .update({
+            escrow_status: "reversed",
+            reversed_at: new Date().toISOString(),
+          })
+          .eq("id", payment.id)
+          .eq("escrow_status", "held");
+
+        if (escrowError) {
+          throw new Error(
+            `Error closing escrow of refunded payment: ${escrowError.message}`
+          );
+        }
+      }
+
+      const previous = event.data.previous_attributes as
+        Partial<Stripe.Charge> | undefined;
+      const refundedNow =
+        charge.amount_refunded - (previous?.amount_refunded || 0);
+
+      if (refundedNow <= 0) {
+        break;
+      }
+
+      const refundEvent: ChatSystemEvent = {
+        type: "payment_refunded",
+        payload: {
+          amount: refundedNow,
+          currency: charge.currency,
+          full: charge.refunded,
+        },
+      };
+
+      // A claim refunded in full before shipping goes back to "accepted"
+      if (charge.refunded) {
+        try {
+          await transitionClaim(supabase, {
+            claimId: payment.claim_id,
+            to: "accepted",
+            actorId: null,
+            actorRole: "system",
+            reason: "Shipping payment refunded",
+            systemEvent: refundEvent,
+          });
+          break;
+        } catch (claimError) {
+          rethrowUnexpectedClaimError(claimError);
+          // Already shipped or further along, the status stays as it is
+          console.log(
+            `Claim ${payment.claim_id} keeps its status after the refund: ${
+              (claimError as Error).message
+            }`
+          );
+        }
+      }
+
+      await postSystemMessage(
+        supabase,
+        { claimId: payment.claim_id },
+        refundEvent
+      );
+      break;
+    }
+
+    // Handle chargebacks opened by the claimer's bank
+    case "charge.dispute.created": {
+      const dispute = event.data.object as Stripe.Dispute;
+      const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+
+      const { data: payment, error } = await supabase
+        .from("payments")
+        .update({
+          stripe_dispute_id: dispute.id,
+          dispute_status: dispute.status,
+          disputed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("stripe_payment_intent_id", paymentIntentId)
+        .select("id, claim_id")
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Error recording dispute: ${error.message}`);
+      }
+
+      if (!payment) {
+        console.error(`No payment found for dispute ${dispute.id}`);
+        break;
+      }
+
+      await postSystemMessage(
+        supabase,
+        { claimId: payment.claim_id },
+        {
+          type: "payment_disputed",
+          payload: { amount: dispute.amount, currency: dispute.currency },
+        }
+      );
+
+      // Keep escrowed funds on the platform until the dispute is settled
+      const escrowPayment = await getEscrowPayment(supabase, payment.id);
+      if (
+        escrowPayment.escrow_status === "held" &&
+        !escrowPayment.hold_reason
+      ) {
+        await setEscrowHold(supabase, escrowPayment, {
+          adminId: null,
+          reason: `Chargeback ${dispute.id} opened (${dispute.reason})`,
+        });
+      }
+      break;
+    }
+
+    // Handle settled chargebacks
+    case "charge.dispute.closed": {
+      const dispute = event.data.object as Stripe.Dispute;
+      // warning_closed: an inquiry that never became a chargeback
+      const won = dispute.status !== "lost";
+
+      // Matched by payment intent, in case the dispute was never recorded as opened
+      const { data: payment, error } = await supabase
+        .from("payments")
+        .update({
+          stripe_dispute_id: dispute.id,
+          dispute_status: dispute.status,
+          updated_at: new Date().toISOString(),
+        })
+        .eq(
+          "stripe_payment_intent_id",
+          getPaymentIntentId(dispute.payment_intent)
+        )
+        .select("id, claim_id, hold_placed_by")
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Error closing dispute: ${error.message}`);
+      }
+
+      if (!payment) {
+        console.error(`No payment found for dispute ${dispute.id}`);
+        break;
+      }
+
+      const escrowPayment = await getEscrowPayment(supabase, payment.id);
+      if (escrowPayment.escrow_status === "held") {
+        if (!won) {
+          // The bank took the funds back, there is nothing left to release
+          const { error: escrowError } = await supabase
+            .from("payments")
+            .update({
+              escrow_status: "reversed",
+              reversed_at: new Date().toISOString(),
+            })
+            .eq("id", payment.id)
+            .eq("escrow_status", "held");
+
+          if (escrowError) {
+            throw new Error(
+              `Error closing escrow of lost dispute: ${escrowError.message}`
+            );
+          }
+        } else if (escrowPayment.hold_reason && !payment.hold_placed_by) {
+          // Only lift the automatic hold, holds placed by an admin stay
+          await setEscrowHold(supabase, escrowPayment, null);
+        }
+      }
+
+      await postSystemMessage(
+        supabase,
+        { claimId: payment.claim_id },
+        {
+          type: "payment_dispute_closed",
+          payload: { won },
+        }
+      );
+      break;
+    }
+  }
+};
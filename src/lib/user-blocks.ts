@@ -0,0 +1,203 @@
+// Only import from route handlers: the blocked person must never learn about a block.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { type ClaimParticipantRole, RouteGuardError } from "@/lib/route-guards";
+
+// Shown to the blocked person. Deliberately vague, so it reads like any other
+// reason the conversation or item became unavailable.
+export const CONVERSATION_UNAVAILABLE_MESSAGE =
+  "This conversation is no longer available.";
+export const CLAIM_UNAVAILABLE_MESSAGE =
+  "This item can't be claimed at the moment.";
+
+export interface UserBlockRow {
+  id: string;
+  blocker_id: string;
+  blocker_email: string | null;
+  blocked_user_id: string | null;
+  blocked_email: string | null;
+  chat_room_id: string | null;
+  created_at: string;
+}
+
+// The parts of a claim (as loaded by the route guards) that identify both sides
+interface BlockableClaim {
+  user_id: string | null;
+  claimer_email: string | null;
+  chat_room_id: string;
+  item: { user_id: string | null };
+}
+
+const normalizeEmail = (email?: string | null) =>
+  email?.trim().toLowerCase() || null;
+
+/**
+ * Blocks between the item owner and the claimer of a claim, in both directions.
+ * The owner always has an account, so every relevant block has them on one side.
+ * @param supabase - Admin Supabase client
+ * @param claim - The claim with its item
+ */
+export const findClaimBlocks = async (
+  supabase: SupabaseClient,
+  claim: BlockableClaim
+) => {
+  const ownerId = claim.item.user_id;
+  if (!ownerId) {
+    return { ownerBlocks: [], claimerBlocks: [] };
+  }
+
+  const { data, error } = await supabase
+    .from("user_blocks")
+    .select(
+      "id, blocker_id, blocker_email, blocked_user_id, blocked_email, chat_room_id, created_at"
+    )
+    .or(`blocker_id.eq.${ownerId},blocked_user_id.eq.${ownerId}`);
+
+  if (error) {
+    throw new Error(`Error fetching blocks: ${error.message}`);
+  }
+
+  const claimerEmail = normalizeEmail(claim.claimer_email);
+  const isClaimer = (userId: string | null, email: string | null) =>
+    (!!claim.user_id && userId === claim.user_id) ||
+    (!!claimerEmail && email === claimerEmail);
+
+  const rows = (data || []) as UserBlockRow[];
+  return {
+    ownerBlocks: rows.filter(
+      (row) =>
+        row.blocker_id === ownerId &&
+        isClaimer(row.blocked_user_id, row.blocked_email)
+    ),
+    claimerBlocks: rows.filter(
+      (row) =>
+        row.blocked_user_id === ownerId &&
+        isClaimer(row.blocker_id, row.blocker_email)
+    ),
+  };
+};
+
+/**
+ * Stop a participant from writing to the other side when either of them blocked
+ * the other. The blocker is told why, the blocked person only gets a neutral error.
+ * @param supabase - Admin Supabase client
+ * @param claim - The claim with its item
+ * @param role - Role of the signed-in participant
+ * @throws RouteGuardError (403) when there is a block
+ */
+export const assertConversationOpen = async (
+  supabase: SupabaseClient,
+  claim: BlockableClaim,
+  role: ClaimParticipantRole
+) => {
+  const { ownerBlocks, claimerBlocks } = await findClaimBlocks(supabase, claim);
+  const blockedByUser = role === "owner" ? ownerBlocks : claimerBlocks;
+  const blockedUser = role === "owner" ? claimerBlocks : ownerBlocks;
+
+  if (blockedByUser.length > 0) {
+    throw new RouteGuardError(
+      "You blocked this person. Unblock them to continue the conversation.",
+      403
+    );
+  }
+
+  if (blockedUser.length > 0) {
+    throw new RouteGuardError(CONVERSATION_UNAVAILABLE_MESSAGE, 403);
+  }
+};
+
+/**
+ * Whether the owner of an item blocked the person trying to claim it
+ * @param supabase - Admin Supabase client
+ * @param params.ownerId - Owner of the item
+ * @param params.userId - Signed-in claimer, if any
+ * @param params.email - Email the claim is made with
+ */
+export const isBlockedFromClaiming = async (
+  supabase: SupabaseClient,
+  params: { ownerId: string | null; userId: string | null; email: string }
+) => {
+  if (!params.ownerId) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from("user_blocks")
+    .select("blocked_user_id, blocked_email")
+    .eq("blocker_id", params.ownerId);
+
+  if (error) {
+    throw new Error(`Error fetching blocks: ${error.message}`);
+  }
+
+  const email = normalizeEmail(params.email);
+  return (data || []).some(
+    (row) =>
+      (!!params.userId && row.blocked_user_id === params.userId) ||
+      (!!email && row.blocked_email === email)
+  );
+};
+
+/**
+ * Block the other side of a claim for the signed-in participant
+ * @param supabase - Admin Supabase client
+ * @param params.claim - The claim with its item
+ * @param params.role - Role of the blocker
+ * @param params.user - The blocker
+ */
+export const blockClaimParticipant = async (
+  supabase: SupabaseClient,
+  params: {
+    claim: BlockableClaim;
+    role: ClaimParticipantRole;
+    user: { id: string; email?: string | null };
+  }
+) => {
+  const { claim, role, user } = params;
+
+  // Owners are identified by their account, claimers also by the email they claimed with
+  const { error } = await supabase.from("user_blocks").insert({
+    blocker_id: user.id,
+    blocker_email: normalizeEmail(user.email),
+    blocked_user_id: role === "owner" ? claim.user_id : claim.item.user_id,
+    blocked_email:
+      role === "owner" ? normalizeEmail(claim.claimer_email) : null,
+    chat_room_id: claim.chat_room_id,
+  });
+
+  // Already blocked
+  if (error && error.code !== "23505") {
+    throw new Error(`Error blocking user: ${error.message}`);
+  }
+};
+
+/**
+ * Lift the blocks the signed-in participant set on the other side of a claim
+ * @param supabase - Admin Supabase client
+ * @param claim - The claim with its item
+ * @param role - Role of the participant lifting the block
+ */
+export const unblockClaimParticipant = async (
+  supabase: SupabaseClient,
+  claim: BlockableClaim,
+  role: ClaimParticipantRole
+) => {
+  const { ownerBlocks, claimerBlocks } = await findClaimBlocks(supabase, claim);
+  const blocks = role === "owner" ? ownerBlocks : claimerBlocks;
+
+  if (blocks.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("user_blocks")
+    .delete()
+    .in(
+      "id",
+      blocks.map((block) => block.id)
+    );
+
+  if (error) {
+    throw new Error(`Error unblocking user: ${error.message}`);
+  }
+};
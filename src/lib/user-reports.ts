@@ -0,0 +1,35 @@
+export type UserReportReason =
+  "harassment" | "scam" | "spam" | "inappropriate" | "other";
+
+export type UserReportStatus = "open" | "reviewing" | "actioned" | "dismissed";
+
+export const USER_REPORT_REASONS: Record<UserReportReason, string> = {
+  harassment: "Harassment or threats",
+  scam: "Scam or asking for money",
+  spam: "Spam",
+  inappropriate: "Inappropriate content",
+  other: "Something else",
+};
+
+export const USER_REPORT_STATUSES: UserReportStatus[] = [
+  "open",
+  "reviewing",
+  "actioned",
+  "dismissed",
+];
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+// Messages of the reported person copied into a report
+export const MAX_REPORT_EXCERPTS = 10;
+export const MAX_REPORT_EXCERPT_LENGTH = 500;
+
+// Copy of a reported message, kept with the report for the moderators
+export interface ReportMessageExcerpt {
+  id: string;
+  senderName: string;
+  message: string;
+  createdAt: string;
+}
+
+export const isUserReportReason = (value: unknown): value is UserReportReason =>
+  typeof value === "string" && value in USER_REPORT_REASONS;
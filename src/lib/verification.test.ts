@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { answersMatch, normalizeAnswer } from "@/lib/verification";
+
+describe("normalizeAnswer", () => {
+  it("ignores case, accents, punctuation and spacing", () => {
+    expect(normalizeAnswer("  Crème-Brûlée!  ")).toBe("creme brulee");
+  });
+});
+
+describe("answersMatch", () => {
+  it("matches the same answer written differently", () => {
+    expect(answersMatch("Black", "black")).toBe(true);
+    expect(answersMatch("Café", "cafe.")).toBe(true);
+    expect(answersMatch("a red sticker", "Red sticker")).toBe(true);
+  });
+
+  it("ignores word order", () => {
+    expect(answersMatch("black leather", "leather, black")).toBe(true);
+  });
+
+  it("rejects an answer listing several options", () => {
+    expect(answersMatch("black", "red blue black green silver")).toBe(false);
+  });
+
+  it("rejects part of a word", () => {
+    expect(answersMatch("black", "bla")).toBe(false);
+    expect(answersMatch("bla", "black")).toBe(false);
+  });
+
+  it("rejects a partial answer", () => {
+    expect(answersMatch("black leather", "black")).toBe(false);
+  });
+
+  it("never matches empty answers", () => {
+    expect(answersMatch("", "")).toBe(false);
+    expect(answersMatch("the", "the")).toBe(false);
+    expect(answersMatch("black", "  ")).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+// Maximum number of verification questions per item
+export const MAX_VERIFICATION_QUESTIONS = 3;
+
+export interface VerificationQuestionInput {
+  id?: string;
+  question: string;
+  answer: string;
+}
+
+export interface VerificationComparison {
+  question: string;
+  expectedAnswer: string | null;
+  answer: string;
+  isMatch: boolean | null;
+}
+
+/**
+ * Normalize a free-text answer so small differences in case,
+ * accents, punctuation or spacing don't count as a mismatch
+ * @param answer - Raw answer text
+ */
+export const normalizeAnswer = (answer: string): string =>
+  answer
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Words that don't change the meaning of a short answer
+const FILLER_WORDS = new Set(["a", "an", "the"]);
+
+const answerWords = (answer: string) =>
+  Array.from(
+    new Set(
+      normalizeAnswer(answer)
+        .split(" ")
+        .filter((word) => word && !FILLER_WORDS.has(word))
+    )
+  ).sort();
+
+/**
+ * Compare a claimer's answer with the expected answer. Answers that only contain
+ * the expected one don't count, otherwise listing every option would always match.
+ * @param expected - Answer set by the reporter
+ * @param given - Answer given by the claimer
+ * @returns True when both answers have the same words, in any order
+ */
+export const answersMatch = (expected: string, given: string): boolean => {
+  const a = answerWords(expected);
+  const b = answerWords(given);
+  if (a.length === 0 || b.length === 0) return false;
+  return a.length === b.length && a.every((word, i) => word === b[i]);
+};
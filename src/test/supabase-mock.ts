@@ -0,0 +1,201 @@
+// In-memory stand-in for the Supabase query builder, for unit tests of modules
+// that take an admin client. Supports the filters those modules use; inserts
+// fail with 23505 when a row with the same ID exists, like a primary key.
+
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type MockRow = Record<string, unknown>;
+
+interface MockResult {
+  data: unknown;
+  error: { code?: string; message: string } | null;
+}
+
+type Filter = (row: MockRow) => boolean;
+
+const valueOf = (row: MockRow, column: string) => row[column] ?? null;
+
+class MockQuery implements PromiseLike<MockResult> {
+  private action: "select" | "insert" | "update" | "delete" = "select";
+  private filters: Filter[] = [];
+  private values: MockRow[] = [];
+  private patch: MockRow = {};
+  private returning = false;
+  private rowLimit: number | null = null;
+  private mode: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(
+    private rows: MockRow[],
+    private defaults: MockRow
+  ) {}
+
+  select() {
+    if (this.action !== "select") this.returning = true;
+    return this;
+  }
+
+  insert(values: MockRow | MockRow[]) {
+    this.action = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(patch: MockRow) {
+    this.action = "update";
+    this.patch = patch;
+    return this;
+  }
+
+  delete() {
+    this.action = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => valueOf(row, column) === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => valueOf(row, column) !== value);
+    return this;
+  }
+
+  gt(column: string, value: string | number) {
+    this.filters.push((row) => {
+      const current = valueOf(row, column) as string | number | null;
+      return current !== null && current > value;
+    });
+    return this;
+  }
+
+  lt(column: string, value: string | number) {
+    this.filters.push((row) => {
+      const current = valueOf(row, column) as string | number | null;
+      return current !== null && current < value;
+    });
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push((row) => valueOf(row, column) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(valueOf(row, column)));
+    return this;
+  }
+
+  not(column: string, operator: "in", values: string) {
+    // PostgREST list syntax, e.g. "(refunded,partially_refunded)"
+    const excluded = values.replace(/^\(|\)$/g, "").split(",");
+    this.filters.push(
+      (row) => !excluded.includes(String(valueOf(row, column)))
+    );
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single() {
+    this.mode = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = MockResult, TResult2 = never>(
+    onfulfilled?:
+      ((value: MockResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private matching() {
+    return this.rows.filter((row) =>
+      this.filters.every((filter) => filter(row))
+    );
+  }
+
+  private execute(): MockResult {
+    let result: MockRow[];
+
+    switch (this.action) {
+      case "insert": {
+        const inserted = this.values.map((value) => ({
+          id: randomUUID(),
+          ...this.defaults,
+          ...value,
+        }));
+        const duplicate = inserted.some((row) =>
+          this.rows.some((existing) => existing.id === row.id)
+        );
+        if (duplicate) {
+          return {
+            data: null,
+            error: { code: "23505", message: "duplicate key value" },
+          };
+        }
+        this.rows.push(...inserted);
+        result = inserted;
+        break;
+      }
+      case "update":
+        result = this.matching();
+        result.forEach((row) => Object.assign(row, this.patch));
+        break;
+      case "delete":
+        result = this.matching();
+        result.forEach((row) => this.rows.splice(this.rows.indexOf(row), 1));
+        break;
+      default:
+        result = this.matching();
+        this.returning = true;
+    }
+
+    if (this.rowLimit !== null) result = result.slice(0, this.rowLimit);
+    const data = this.returning ? result.map((row) => ({ ...row })) : null;
+
+    if (this.mode === "many") return { data, error: null };
+    if (result.length > 1 || (this.mode === "single" && !result.length)) {
+      return {
+        data: null,
+        error: { code: "PGRST116", message: "Expected a single row" },
+      };
+    }
+    return { data: data?.[0] ?? null, error: null };
+  }
+}
+
+/**
+ * Create an in-memory Supabase client
+ * @param defaults - Column defaults per table, applied to inserted rows
+ * @returns The client, and the rows of every table for assertions
+ */
+export const createSupabaseMock = (defaults: Record<string, MockRow> = {}) => {
+  const tables: Record<string, MockRow[]> = {};
+
+  const client = {
+    from: (table: string) => {
+      tables[table] ||= [];
+      return new MockQuery(tables[table], defaults[table] || {});
+    },
+  };
+
+  return { supabase: client as unknown as SupabaseClient, tables };
+};
@@ -0,0 +1,38 @@
+-- Stripe events schema for IFound4U (run after payment_refunds_schema.sql)
+
+-- Create table logging every verified webhook event. Stripe redelivers events
+-- until they are acknowledged, the event ID makes processing them idempotent.
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY, -- Stripe's event ID (evt_...)
+  type TEXT NOT NULL,
+  -- The object the event is about (pi_..., ch_..., dp_..., acct_...)
+  object_id TEXT,
+  stripe_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT FALSE,
+  payload JSONB NOT NULL,
+  -- 'skipped': a newer event about the same object was already processed,
+  -- or the type isn't one the app handles
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  replayed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  replayed_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for the admin list and the ordering check
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events(status, received_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_object_id ON stripe_events(object_id, stripe_created_at);
+
+-- Enable Row Level Security
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the webhook and inspected through the admin API
+CREATE POLICY "Service role has full access to stripe events"
+  ON stripe_events
+  FOR ALL
+  TO service_role
+  USING (true);
@@ -0,0 +1,44 @@
+-- Unread counts schema for IFound4U (run after chat_read_state_schema.sql)
+
+-- Messages posted by IFound4U itself are marked 'system' and never count as unread.
+-- Defined the same way in chat_system_messages_schema.sql, which runs later.
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS message_kind VARCHAR(10) NOT NULL DEFAULT 'user'
+  CHECK (message_kind IN ('user', 'system'));
+
+-- Unread messages per chat room for a user, in one round trip. Covers rooms where
+-- the user owns the item, claimed it while signed in, or claimed it by email.
+-- A message is unread when someone else sent it after the user's read position,
+-- system messages (status changes, payments) don't count.
+CREATE OR REPLACE FUNCTION get_unread_counts(
+  p_user_id UUID,
+  p_email TEXT DEFAULT NULL
+)
+RETURNS TABLE (chat_room_id TEXT, unread_count BIGINT) AS $$
+  SELECT
+    ic.chat_room_id,
+    COUNT(cm.id) AS unread_count
+  FROM item_claims ic
+  JOIN items i ON ic.item_id = i.id
+  LEFT JOIN chat_read_state rs
+    ON rs.chat_room_id = ic.chat_room_id
+    AND rs.user_id = p_user_id
+  LEFT JOIN chat_messages cm
+    ON cm.chat_room_id = ic.chat_room_id
+    AND cm.message_kind = 'user'
+    AND cm.sender_id IS DISTINCT FROM p_user_id
+    AND (rs.last_read_at IS NULL OR cm.created_at > rs.last_read_at)
+  WHERE
+    ic.chat_room_id IS NOT NULL AND
+    (
+      i.user_id = p_user_id OR
+      ic.user_id = p_user_id OR
+      (p_email IS NOT NULL AND lower(ic.claimer_email) = lower(p_email))
+    )
+  GROUP BY ic.chat_room_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_unread_counts TO service_role;
+
+-- Create indexes for finding a user's rooms (emails compared case-insensitively,
+-- like the route guards do)
+CREATE INDEX IF NOT EXISTS idx_item_claims_claimer_email_lower ON item_claims(lower(claimer_email));
@@ -0,0 +1,75 @@
+-- User blocks and reports schema for IFound4U (run after chat_transcripts_schema.sql)
+
+-- A participant blocking the other side of a conversation. Guests are matched by
+-- the email they claimed with, so both the user ID and the email are stored.
+-- While a block exists neither side can message the other and the blocked
+-- person can't claim the blocker's items.
+CREATE TABLE IF NOT EXISTS user_blocks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  blocker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocker_email VARCHAR(255), -- lowercase
+  blocked_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_email VARCHAR(255), -- lowercase
+  chat_room_id TEXT REFERENCES item_claims(chat_room_id) ON DELETE SET NULL, -- where it was created
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (blocked_user_id IS NOT NULL OR blocked_email IS NOT NULL)
+);
+
+-- Create indexes for faster lookups
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_blocks_pair
+  ON user_blocks(blocker_id, COALESCE(blocked_user_id::TEXT, blocked_email));
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_user_id ON user_blocks(blocked_user_id);
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_email ON user_blocks(blocked_email);
+
+-- Reports of abusive participants, reviewed by admins through the moderation queue
+CREATE TABLE IF NOT EXISTS user_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reporter_role VARCHAR(10) NOT NULL CHECK (reporter_role IN ('owner', 'claimer')),
+  reported_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reported_email VARCHAR(255),
+  claim_id UUID NOT NULL REFERENCES item_claims(id) ON DELETE CASCADE,
+  chat_room_id TEXT NOT NULL,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('harassment', 'scam', 'spam', 'inappropriate', 'other')),
+  details TEXT,
+  message_excerpts JSONB NOT NULL DEFAULT '[]'::jsonb, -- copies, so they survive deletion
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'actioned', 'dismissed')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for the queue and for finding repeat offenders
+CREATE INDEX IF NOT EXISTS idx_user_reports_status_created_at ON user_reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_user_reports_reported_user_id ON user_reports(reported_user_id);
+CREATE INDEX IF NOT EXISTS idx_user_reports_claim_id ON user_reports(claim_id);
+
+-- Enable Row Level Security
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_reports ENABLE ROW LEVEL SECURITY;
+
+-- Both are only written and read through the API, which never tells the
+-- blocked person about the block
+CREATE POLICY "Service role has full access to user blocks"
+  ON user_blocks
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "Service role has full access to user reports"
+  ON user_reports
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Blocks are enforced by the chat routes, participants can't write messages to the
+-- table directly (see chat_system_messages_schema.sql). Nothing a blocked person
+-- could call may tell them about the block, so clean up earlier versions of this file.
+DROP POLICY IF EXISTS "Chat participants can send messages" ON chat_messages;
+DROP FUNCTION IF EXISTS is_chat_room_blocked(TEXT);
+
+-- Claims are only created through /api/submit-claim, which turns blocked users
+-- away before inserting with the service role. The open insert policy would let
+-- them write the claim directly with the anon key.
+DROP POLICY IF EXISTS "Users can create item claims" ON item_claims;
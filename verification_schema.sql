@@ -0,0 +1,88 @@
+-- Claim verification questions schema for IFound4U
+
+-- Create table for private questions the reporter asks every claimer.
+-- Kept out of the items table so answers can never leak through the public items select.
+CREATE TABLE IF NOT EXISTS item_verification_questions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  expected_answer TEXT NOT NULL, -- only visible to the item owner
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create table for the answers given by a claimer
+CREATE TABLE IF NOT EXISTS claim_verification_answers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  claim_id UUID NOT NULL REFERENCES item_claims(id) ON DELETE CASCADE,
+  question_id UUID REFERENCES item_verification_questions(id) ON DELETE SET NULL,
+  question TEXT NOT NULL, -- snapshot in case the question is edited later
+  answer TEXT NOT NULL,
+  is_match BOOLEAN, -- normalized comparison with the expected answer at claim time
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (claim_id, question_id)
+);
+
+-- Create index for faster lookups
+CREATE INDEX idx_item_verification_questions_item_id ON item_verification_questions(item_id);
+CREATE INDEX idx_claim_verification_answers_claim_id ON claim_verification_answers(claim_id);
+
+-- Enable Row Level Security
+ALTER TABLE item_verification_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE claim_verification_answers ENABLE ROW LEVEL SECURITY;
+
+-- Only the item owner can read or change the questions and expected answers.
+-- Claimers get the question text through the API, never the answers.
+CREATE POLICY "Item owners can manage verification questions"
+  ON item_verification_questions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM items
+      WHERE items.id = item_verification_questions.item_id
+      AND items.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM items
+      WHERE items.id = item_verification_questions.item_id
+      AND items.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to verification questions"
+  ON item_verification_questions
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Only the item owner can read the answers of a claim: is_match would tell the
+-- claimer which answers were right (an earlier version also let claimers read them)
+DROP POLICY IF EXISTS "Claim participants can view verification answers" ON claim_verification_answers;
+
+CREATE POLICY "Item owners can view verification answers"
+  ON claim_verification_answers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM item_claims
+      JOIN items ON items.id = item_claims.item_id
+      WHERE item_claims.id = claim_verification_answers.claim_id
+      AND items.user_id = auth.uid()
+    )
+  );
+
+-- Answers are only written by the claim submission route
+CREATE POLICY "Service role has full access to verification answers"
+  ON claim_verification_answers
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE TRIGGER update_item_verification_questions_updated_at
+    BEFORE UPDATE ON item_verification_questions
+    FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();